@@ -57,7 +57,13 @@ function delay<T>(ms = SIMULATED_DELAY_MS, value?: T) {
   return new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
 }
 
+/** All add-ons, including inactive ones. */
+export async function listAddons(): Promise<Addon[]> {
+  return delay(SIMULATED_DELAY_MS, readAllAddons());
+}
+
 export async function createAddon(addon: Partial<Addon>): Promise<void> {
+  requireStaffPermission("packages.edit");
   const now = new Date().toISOString();
   const item: Addon = {
     id: generateId(),
@@ -78,10 +84,18 @@ export async function createAddon(addon: Partial<Addon>): Promise<void> {
   const list = readAllAddons();
   list.push(item);
   writeAllAddons(list);
+  recordAudit({
+    action: "addon.created",
+    entityType: "addon",
+    entityId: item.id,
+    summary: `Add-on "${item.name}" created`,
+    after: item,
+  });
   await delay();
 }
 
 export async function updateAddon(id: string, addon: Partial<Addon>): Promise<void> {
+  requireStaffPermission("packages.edit");
   const list = readAllAddons();
   const idx = list.findIndex((a) => a.id === id);
   if (idx === -1) throw new Error("Addon not found.");
@@ -104,14 +118,30 @@ export async function updateAddon(id: string, addon: Partial<Addon>): Promise<vo
 
   list[idx] = updated;
   writeAllAddons(list);
+  recordAudit({
+    action: "addon.updated",
+    entityType: "addon",
+    entityId: id,
+    summary: `Add-on "${updated.name}" updated`,
+    before: existing,
+    after: updated,
+  });
   await delay();
 }
 
 export async function deleteAddon(id: string): Promise<void> {
+  requireStaffPermission("packages.edit");
   const list = readAllAddons();
-  const filtered = list.filter((a) => a.id !== id);
-  if (filtered.length === list.length) throw new Error("Addon not found.");
-  writeAllAddons(filtered);
+  const existing = list.find((a) => a.id === id);
+  if (!existing) throw new Error("Addon not found.");
+  writeAllAddons(list.filter((a) => a.id !== id));
+  recordAudit({
+    action: "addon.deleted",
+    entityType: "addon",
+    entityId: id,
+    summary: `Add-on "${existing.name}" deleted`,
+    before: existing,
+  });
   await delay();
 }
 
@@ -0,0 +1,271 @@
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 23;
+
+const TYPE_LABELS: Record<ResourceType, string> = {
+  booth: "Booth",
+  attendant: "Attendant",
+  backdrop: "Backdrop",
+};
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+function toDateInputValue(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/* Bookings overlapping the given day, cancelled ones excluded */
+function bookingsForDay(all: Booking[], day: Date): Booking[] {
+  const from = startOfDay(day).getTime();
+  const to = addDays(day, 1).getTime();
+  return all
+    .filter((b) => b.status !== "cancelled")
+    .filter((b) => new Date(b.start).getTime() < to && new Date(b.end).getTime() > from)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export default function AdminCalendar(): JSX.Element {
+  const [day, setDay] = useState<Date>(() => startOfDay(new Date()));
+  const [bookings, setBookings] = useState<Booking[]>(() => readBookings());
+  const [resources, setResources] = useState<Resource[]>(() => listResources(true));
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<ResourceType>("booth");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToBookings(() => setBookings(readBookings()));
+  }, []);
+
+  const dayBookings = useMemo(() => bookingsForDay(bookings, day), [bookings, day]);
+
+  // Hourly capacity for a default (one booth) booking, from the shared availability engine.
+  // All bookings are passed because buffers can reach across midnight.
+  const hourly = useMemo(() => {
+    const config = getResourceConfig();
+    const scheduling = getSchedulingSettings();
+    const calendar = getBusinessCalendar();
+    const rows: Array<{ hour: number; available: boolean; free: string[]; closed: string | null }> = [];
+    for (let h = DAY_START_HOUR; h < DAY_END_HOUR; h++) {
+      const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), h).getTime();
+      const end = start + 60 * 60000;
+      const closed = getClosureReason(start, end, calendar);
+      if (closed) {
+        rows.push({ hour: h, available: false, free: [], closed });
+        continue;
+      }
+      const conflicts = createConflictTest({ start, end, packageId: null }, scheduling);
+      const assignment = resolveResourceAssignment(start, end, null, bookings, config, conflicts);
+      rows.push({ hour: h, available: assignment.available, free: assignment.resources.map((r) => r.name), closed: null });
+    }
+    return rows;
+    // resources is a dependency because config changes when they do
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [day, bookings, resources]);
+
+  const activeResources = resources.filter((r) => r.active);
+  const unassigned = dayBookings.filter((b) => !b.resourceIds || b.resourceIds.length === 0);
+
+  function refreshResources() {
+    setResources(listResources(true));
+  }
+
+  function handleAddResource(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      saveResource({ name: newName, type: newType, active: true });
+      setNewName("");
+      refreshResources();
+    } catch (err: any) {
+      setMessage(err?.message || "Could not add resource.");
+    }
+  }
+
+  function toggleResource(r: Resource) {
+    try {
+      saveResource({ ...r, active: !r.active });
+      refreshResources();
+    } catch (err: any) {
+      setMessage(err?.message || "Could not update resource.");
+    }
+  }
+
+  function handleRemoveResource(r: Resource) {
+    const ok =
+      typeof window === "undefined" || typeof window.confirm === "undefined"
+        ? true
+        : window.confirm(`Remove ${r.name}? Existing bookings keep their assignment.`);
+    if (!ok) return;
+    removeResource(r.id);
+    refreshResources();
+  }
+
+  const cardStyle: React.CSSProperties = {
+    background: "var(--card, #fff)",
+    border: "1px solid #e5e7eb",
+    borderRadius: 8,
+    padding: 12,
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 16 }}>
+        <div>
+          <h1 style={{ margin: 0, fontSize: 20 }}>Calendar</h1>
+          <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>Bookings per booth, attendant and backdrop</p>
+        </div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <button onClick={() => setDay((d) => addDays(d, -1))} aria-label="Previous day">
+            &lsaquo;
+          </button>
+          <input
+            type="date"
+            value={toDateInputValue(day)}
+            onChange={(e) => {
+              const [y, m, d] = e.target.value.split("-").map(Number);
+              if (y && m && d) setDay(new Date(y, m - 1, d));
+            }}
+            aria-label="Day"
+          />
+          <button onClick={() => setDay((d) => addDays(d, 1))} aria-label="Next day">
+            &rsaquo;
+          </button>
+          <button onClick={() => setDay(startOfDay(new Date()))}>Today</button>
+        </div>
+      </header>
+
+      {message && (
+        <div role="alert" style={{ marginBottom: 12, color: "#b91c1c", fontSize: 14 }}>
+          {message}
+        </div>
+      )}
+
+      <section style={{ display: "grid", gap: 12, gridTemplateColumns: "repeat(auto-fill, minmax(240px, 1fr))" }}>
+        {activeResources.map((r) => {
+          const held = dayBookings.filter((b) => b.resourceIds?.includes(r.id));
+          return (
+            <div key={r.id} style={cardStyle} aria-labelledby={`resource-${r.id}`}>
+              <div id={`resource-${r.id}`} style={{ fontWeight: 600, marginBottom: 8 }}>
+                {r.name} <span style={{ color: "#6b7280", fontWeight: 400, fontSize: 12 }}>{TYPE_LABELS[r.type]}</span>
+              </div>
+              {held.length === 0 ? (
+                <div style={{ color: "#6b7280", fontSize: 13 }}>Free all day</div>
+              ) : (
+                <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 6 }}>
+                  {held.map((b) => (
+                    <li key={b.id} style={{ fontSize: 13 }}>
+                      <strong>
+                        {formatTime(b.start)}-{formatTime(b.end)}
+                      </strong>{" "}
+                      {b.customer?.name || b.reference}
+                      {b.packageName ? ` (${b.packageName})` : ""}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+        {unassigned.length > 0 && (
+          <div style={{ ...cardStyle, borderStyle: "dashed" }}>
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>Not assigned</div>
+            <p style={{ margin: "0 0 8px", color: "#6b7280", fontSize: 12 }}>
+              Older bookings without a resource still count against capacity.
+            </p>
+            <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 6 }}>
+              {unassigned.map((b) => (
+                <li key={b.id} style={{ fontSize: 13 }}>
+                  <strong>
+                    {formatTime(b.start)}-{formatTime(b.end)}
+                  </strong>{" "}
+                  {b.customer?.name || b.reference}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      <section style={{ ...cardStyle, marginTop: 16 }} aria-labelledby="capacity-title">
+        <h2 id="capacity-title" style={{ fontSize: 16, margin: "0 0 8px" }}>
+          Open capacity
+        </h2>
+        <div style={{ display: "grid", gap: 4, gridTemplateColumns: "repeat(auto-fill, minmax(120px, 1fr))" }}>
+          {hourly.map((row) => (
+            <div
+              key={row.hour}
+              title={row.closed ?? (row.available ? `Next free: ${row.free.join(", ")}` : "Fully booked")}
+              style={{
+                padding: "6px 8px",
+                borderRadius: 6,
+                fontSize: 12,
+                background: row.closed ? "#f3f4f6" : row.available ? "#ecfdf5" : "#fef2f2",
+                color: row.closed ? "#6b7280" : row.available ? "#065f46" : "#991b1b",
+              }}
+            >
+              {String(row.hour).padStart(2, "0")}:00 {row.closed ? "closed" : row.available ? "open" : "full"}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section style={{ ...cardStyle, marginTop: 16 }} aria-labelledby="resources-title">
+        <h2 id="resources-title" style={{ fontSize: 16, margin: "0 0 8px" }}>
+          Resources
+        </h2>
+        <ul style={{ listStyle: "none", margin: "0 0 12px", padding: 0, display: "grid", gap: 6 }}>
+          {resources.map((r) => (
+            <li key={r.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+              <span style={{ opacity: r.active ? 1 : 0.5 }}>
+                {r.name} <span style={{ color: "#6b7280", fontSize: 12 }}>{TYPE_LABELS[r.type]}</span>
+              </span>
+              <span style={{ display: "flex", gap: 6 }}>
+                <button onClick={() => toggleResource(r)}>{r.active ? "Disable" : "Enable"}</button>
+                <button onClick={() => handleRemoveResource(r)} aria-label={`Remove ${r.name}`}>
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddResource} style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Booth 2"
+            aria-label="Resource name"
+            required
+          />
+          <select value={newType} onChange={(e) => setNewType(e.target.value as ResourceType)} aria-label="Resource type">
+            {RESOURCE_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <button type="submit">Add resource</button>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -1,80 +1,80 @@
-const AUTH_KEY = "adminAuth";
-const BOOKINGS_KEY = "bookings";
+type DashboardStatus = "pending" | "approved" | "rejected";
+
+type DashboardBooking = {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  date: string;
+  createdAt: string;
+  notes: string;
+  package: string;
+  status: DashboardStatus;
+  /* Next statuses from the booking state machine, with the reason when a guard blocks one */
+  transitions: TransitionOption[];
+};
+
+/* Button label and colour for each status an admin can move a booking to */
+const TRANSITION_ACTIONS: Record<BookingStatus, { label: string; color: string }> = {
+  draft: { label: "Revert to draft", color: "#6b7280" },
+  booked: { label: "Book", color: "#2563eb" },
+  payment_submitted: { label: "Mark proof received", color: "#6366f1" },
+  payment_verified: { label: "Verify payment", color: "#0d9488" },
+  payment_rejected: { label: "Reject proof", color: "#f97316" },
+  confirmed: { label: "Approve", color: "#10b981" },
+  cancelled: { label: "Reject", color: "#ef4444" },
+  completed: { label: "Complete", color: "#4b5563" },
+};
+
+function toDashboardStatus(status: BookingStatus): DashboardStatus {
+  if (status === "confirmed" || status === "completed") return "approved";
+  if (status === "cancelled") return "rejected";
+  return "pending";
+}
 
-/* Utility: check auth existence and expiration (safe for SSR) */
+/* Utility: is a staff member signed in (safe for SSR) */
 export function requireAuth(): boolean {
   try {
-    if (typeof window === "undefined" || typeof window.localStorage === "undefined") return false;
-    const raw = window.localStorage.getItem(AUTH_KEY);
-    if (!raw) return false;
-    const auth: AdminAuth = JSON.parse(raw);
-    if (!auth?.token) return false;
-    if (auth.expiresAt) {
-      const expires = new Date(auth.expiresAt).getTime();
-      if (isNaN(expires)) return false;
-      if (Date.now() > expires) return false;
-    }
-    return true;
+    return !!getCurrentStaff();
   } catch {
     return false;
   }
 }
 
-/* Utility: clear auth and redirect to signin (or homepage) ? safe for SSR */
+/* Utility: end the staff session and go back to staff sign-in */
 export function signOut(): void {
-  try {
-    if (typeof window !== "undefined" && typeof window.localStorage !== "undefined") {
-      window.localStorage.removeItem(AUTH_KEY);
-    }
-  } catch {
-    // ignore
-  }
+  signOutStaff();
   try {
     if (typeof window !== "undefined") {
       // client-side navigation fallback
-      window.location.href = "/signin";
+      window.location.href = "/admin/login";
     }
   } catch {
     // no-op
   }
 }
 
-/* Load bookings from localStorage with safe parsing (safe for SSR) */
-function loadBookings(): Booking[] {
+/* Load bookings from the shared booking repository, flattened for the table */
+function loadBookings(): DashboardBooking[] {
   try {
-    if (typeof window === "undefined" || typeof window.localStorage === "undefined") return [];
-    const raw = window.localStorage.getItem(BOOKINGS_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    // Normalize minimal fields
-    return parsed.map((b: any) => ({
-      id: String(b.id ?? `${Date.now()}-${Math.random()}`),
-      name: String(b.name ?? "Unknown"),
-      email: b.email ?? "",
-      phone: b.phone ?? "",
-      date: b.date ?? b.createdAt ?? new Date().toISOString(),
-      createdAt: b.createdAt ?? new Date().toISOString(),
+    return readBookings().map((b) => ({
+      id: b.id,
+      name: b.customer?.name || "Unknown",
+      email: b.customer?.email ?? "",
+      phone: b.customer?.phone ?? "",
+      date: b.start,
+      createdAt: b.createdAt,
       notes: b.notes ?? "",
-      package: b.package ?? "Standard",
-      status: (b.status as BookingStatus) ?? "pending",
-      ...b,
+      package: b.packageName ?? b.packageId ?? "Standard",
+      status: toDashboardStatus(b.status),
+      // Submitting a proof is the customer's step, so it is not offered here
+      transitions: getAvailableTransitions(b).filter((t) => t.status !== "payment_submitted"),
     }));
   } catch {
     return [];
   }
 }
 
-/* Persist bookings (no-op on SSR) */
-function saveBookings(bookings: Booking[]) {
-  try {
-    if (typeof window === "undefined" || typeof window.localStorage === "undefined") return;
-    window.localStorage.setItem(BOOKINGS_KEY, JSON.stringify(bookings));
-  } catch {
-    // ignore write errors (quota, etc.)
-  }
-}
-
 /* Format date to readable string */
 function formatDate(iso?: string) {
   try {
@@ -96,7 +96,7 @@ function parseDateForSort(value?: string | number | Date, sortDir: "asc" | "desc
 }
 
 /* Export CSV helper (DOM-safe) */
-function exportCSV(bookings: Booking[]) {
+function exportCSV(bookings: DashboardBooking[]) {
   if (!bookings || bookings.length === 0) return;
   if (typeof window === "undefined" || typeof document === "undefined" || typeof URL === "undefined")
     return;
@@ -166,12 +166,15 @@ function IconButton(props: React.ButtonHTMLAttributes<HTMLButtonElement>) {
 }
 
 export default function AdminDashboard(): JSX.Element {
-  const [bookings, setBookings] = useState<Booking[]>(() => loadBookings());
+  const [bookings, setBookings] = useState<DashboardBooking[]>(() => loadBookings());
   const [query, setQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"all" | BookingStatus>("all");
+  const [statusFilter, setStatusFilter] = useState<"all" | DashboardStatus>("all");
   const [sortBy, setSortBy] = useState<"date" | "createdAt">("date");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
   const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [pinRequest, setPinRequest] = useState<PinConfirmRequest | null>(null);
+  const canDelete = staffCan("bookings.delete");
 
   useEffect(() => {
     // Redirect if not authenticated; only on client
@@ -180,7 +183,7 @@ export default function AdminDashboard(): JSX.Element {
       // small delay to allow UI to render a bit if necessary
       setTimeout(() => {
         try {
-          window.location.href = "/signin";
+          window.location.href = "/admin/login";
         } catch {
           // ignore
         }
@@ -190,19 +193,25 @@ export default function AdminDashboard(): JSX.Element {
   }, []);
 
   useEffect(() => {
-    // Keep local state synced with localStorage (in case other tabs update)
+    // Leave when the staff session ends: signed out in another tab, idle timeout or lockout
     if (typeof window === "undefined") return;
-    const handler = () => {
-      setBookings(loadBookings());
+    const offStaff = subscribeToStaff(() => {
+      if (!requireAuth()) window.location.href = "/admin/login";
+    });
+    const stopWatching = watchStaffActivity();
+    return () => {
+      offStaff();
+      stopWatching();
     };
-    window.addEventListener("storage", handler);
-    return () => window.removeEventListener("storage", handler);
   }, []);
 
   useEffect(() => {
-    // persist bookings on change
-    saveBookings(bookings);
-  }, [bookings]);
+    // Keep local state synced with the repository (this tab and others)
+    if (typeof window === "undefined") return;
+    return subscribeToBookings(() => {
+      setBookings(loadBookings());
+    });
+  }, []);
 
   const counts = useMemo(() => {
     const total = bookings.length;
@@ -236,32 +245,71 @@ export default function AdminDashboard(): JSX.Element {
     return list;
   }, [bookings, statusFilter, query, sortBy, sortDir]);
 
-  function updateStatus(id: string, status: BookingStatus) {
+  async function updateStatus(id: string, status: BookingStatus) {
     setBusy(true);
-    setBookings((prev) => {
-      const next = prev.map((b) => (b.id === id ? { ...b, status } : b));
-      return next;
-    });
+    setActionError(null);
+    try {
+      requireStaffPermission(status === "completed" ? "bookings.complete" : "bookings.edit");
+      const before = getStoredBooking(id);
+      await updateBookingStatus(id, status);
+      recordBookingAudit("booking.status_changed", before, `status changed from ${before?.status} to ${status}`);
+    } catch (err: any) {
+      setActionError(err?.message || "Could not update the booking.");
+    }
+    setBookings(loadBookings());
     setTimeout(() => setBusy(false), 300);
   }
 
   function removeBooking(id: string) {
-    // Use client confirm only when available
-    const allowed =
-      typeof window === "undefined" || typeof window.confirm === "undefined"
-        ? true
-        : window.confirm("Are you sure you want to delete this booking? This action cannot be undone.");
-    if (!allowed) return;
-    setBookings((prev) => prev.filter((b) => b.id !== id));
+    if (!staffCan("bookings.delete")) {
+      setActionError("Your role cannot delete bookings.");
+      return;
+    }
+    setPinRequest({
+      title: "Delete this booking",
+      description: "This cannot be undone.",
+      action: () => {
+        try {
+          consumeStaffReauth("delete a booking");
+          const before = getStoredBooking(id);
+          if (deleteBooking(id) && before) {
+            recordAudit({
+              action: "booking.deleted",
+              entityType: "booking",
+              entityId: id,
+              summary: `${before.reference}: deleted (${before.customer?.name || "no name"}, ${before.start})`,
+              before,
+              after: null,
+            });
+          }
+        } catch (err: any) {
+          setActionError(err?.message || "Could not delete the booking.");
+        }
+        setBookings(loadBookings());
+      },
+    });
   }
 
   function clearAll() {
-    const allowed =
-      typeof window === "undefined" || typeof window.confirm === "undefined"
-        ? true
-        : window.confirm("Clear all bookings? This cannot be undone.");
-    if (!allowed) return;
-    setBookings([]);
+    if (!staffCan("bookings.delete")) {
+      setActionError("Your role cannot delete bookings.");
+      return;
+    }
+    setPinRequest({
+      title: "Clear all bookings",
+      description: `All ${bookings.length} bookings will be deleted. This cannot be undone.`,
+      action: () => {
+        try {
+          consumeStaffReauth("clear all bookings");
+          const count = loadBookings().length;
+          clearBookings();
+          recordAudit({ action: "booking.cleared", entityType: "booking", summary: `All ${count} bookings cleared` });
+        } catch (err: any) {
+          setActionError(err?.message || "Could not clear the bookings.");
+        }
+        setBookings(loadBookings());
+      },
+    });
   }
 
   function handleExport() {
@@ -482,19 +530,21 @@ export default function AdminDashboard(): JSX.Element {
           Export CSV
         </button>
 
-        <button
-          onClick={() => clearAll()}
-          aria-label="Clear all bookings"
-          title="Clear all bookings"
-          style={{
-            padding: "8px 12px",
-            borderRadius: 8,
-            border: "1px solid #fde68a",
-            background: "#fef3c7",
-          }}
-        >
-          Clear all
-        </button>
+        {canDelete && (
+          <button
+            onClick={() => clearAll()}
+            aria-label="Clear all bookings"
+            title="Clear all bookings"
+            style={{
+              padding: "8px 12px",
+              borderRadius: 8,
+              border: "1px solid #fde68a",
+              background: "#fef3c7",
+            }}
+          >
+            Clear all
+          </button>
+        )}
       </section>
 
       <section
@@ -507,6 +557,12 @@ export default function AdminDashboard(): JSX.Element {
           Bookings ({filtered.length})
         </h2>
 
+        {actionError && (
+          <div role="alert" style={{ marginBottom: 8, color: "#b91c1c", fontSize: 14 }}>
+            {actionError}
+          </div>
+        )}
+
         {filtered.length === 0 ? (
           <div
             role="status"
@@ -578,40 +634,31 @@ export default function AdminDashboard(): JSX.Element {
                 </div>
 
                 <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                  {b.status !== "approved" && (
-                    <IconButton
-                      onClick={() => updateStatus(b.id, "approved")}
-                      title="Approve booking"
-                      aria-label={`Approve booking for ${b.name}`}
-                      style={{
-                        background: "#10b981",
-                        color: "white",
-                        border: "none",
-                        padding: "8px 10px",
-                        borderRadius: 6,
-                        fontSize: 13,
-                      }}
-                    >
-                      Approve
-                    </IconButton>
-                  )}
-                  {b.status !== "rejected" && (
-                    <IconButton
-                      onClick={() => updateStatus(b.id, "rejected")}
-                      title="Reject booking"
-                      aria-label={`Reject booking for ${b.name}`}
-                      style={{
-                        background: "#ef4444",
-                        color: "white",
-                        border: "none",
-                        padding: "8px 10px",
-                        borderRadius: 6,
-                        fontSize: 13,
-                      }}
-                    >
-                      Reject
-                    </IconButton>
-                  )}
+                  {b.transitions.map((t) => {
+                    const action = TRANSITION_ACTIONS[t.status];
+                    // Once approved, cancelling is no longer a rejection
+                    const label = t.status === "cancelled" && b.status === "approved" ? "Cancel" : action.label;
+                    return (
+                      <IconButton
+                        key={t.status}
+                        onClick={() => updateStatus(b.id, t.status)}
+                        disabled={!t.allowed}
+                        title={t.reason ?? `${label} booking`}
+                        aria-label={`${label} booking for ${b.name}`}
+                        style={{
+                          background: action.color,
+                          color: "white",
+                          border: "none",
+                          padding: "8px 10px",
+                          borderRadius: 6,
+                          fontSize: 13,
+                          opacity: t.allowed ? 1 : 0.5,
+                        }}
+                      >
+                        {label}
+                      </IconButton>
+                    );
+                  })}
 
                   <IconButton
                     onClick={() => {
@@ -626,14 +673,16 @@ export default function AdminDashboard(): JSX.Element {
                     Copy
                   </IconButton>
 
-                  <IconButton
-                    onClick={() => removeBooking(b.id)}
-                    title="Delete booking"
-                    aria-label={`Delete booking for ${b.name}`}
-                    style={{ color: "#dc2626" }}
-                  >
-                    Delete
-                  </IconButton>
+                  {canDelete && (
+                    <IconButton
+                      onClick={() => removeBooking(b.id)}
+                      title="Delete booking"
+                      aria-label={`Delete booking for ${b.name}`}
+                      style={{ color: "#dc2626" }}
+                    >
+                      Delete
+                    </IconButton>
+                  )}
                 </div>
               </li>
             ))}
@@ -641,6 +690,8 @@ export default function AdminDashboard(): JSX.Element {
         )}
       </section>
 
+      <WaitlistPanel />
+
       <footer style={{ color: "#6b7280", fontSize: 13 }}>
         <div>
           Data is stored locally in your browser. Use "Export CSV" to download a copy. Changes affect local
@@ -704,6 +755,8 @@ export default function AdminDashboard(): JSX.Element {
           </div>
         </div>
       )}
+
+      <PinConfirmDialog request={pinRequest} onClose={() => setPinRequest(null)} />
     </div>
   );
 }
\ No newline at end of file
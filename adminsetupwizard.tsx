@@ -1,6 +1,5 @@
 const STORAGE_KEYS = {
   ADMIN: "photobooth:admin",
-  BOOKINGS: "photobooth:bookings",
   CUSTOMERS: "photobooth:customers",
   SERVICES: "photobooth:services",
   SETTINGS: "photobooth:settings",
@@ -13,15 +12,8 @@ function generateId(prefix = "") {
     .slice(2, 9)}`;
 }
 
-function toHex(buffer: ArrayBuffer | Uint8Array) {
-  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
+/* The PIN itself lives on the owner's staff account (staffservice) */
 interface AdminRecord {
-  pinHash: string;
   createdAt: string;
   seededDemo?: boolean;
 }
@@ -30,65 +22,6 @@ interface Props {
   onComplete?: () => void;
 }
 
-const PBKDF2_ITERATIONS = 100000;
-const SALT_BYTES = 16;
-const DERIVED_KEY_BITS = 256; // produce 256-bit hash
-
-async function derivePinHash(pin: string): Promise<string> {
-  if (typeof window === "undefined" || !window.crypto || !window.crypto.subtle) {
-    throw new Error(
-      "Secure cryptography is not available in this environment. Please use a modern browser with Web Crypto API support."
-    );
-  }
-
-  const enc = new TextEncoder();
-  const pinBytes = enc.encode(pin);
-
-  // generate salt
-  const salt = new Uint8Array(SALT_BYTES);
-  window.crypto.getRandomValues(salt);
-
-  // import key material
-  const key = await window.crypto.subtle.importKey(
-    "raw",
-    pinBytes,
-    { name: "PBKDF2" },
-    false,
-    ["deriveBits"]
-  );
-
-  // derive bits using PBKDF2 with HMAC-SHA-256
-  const derived = await window.crypto.subtle.deriveBits(
-    {
-      name: "PBKDF2",
-      salt: salt.buffer,
-      iterations: PBKDF2_ITERATIONS,
-      hash: "SHA-256",
-    },
-    key,
-    DERIVED_KEY_BITS
-  );
-
-  const hashHex = toHex(derived);
-  const saltHex = toHex(salt);
-  // Format: pbkdf2$iterations$saltHex$hashHex
-  return `pbkdf2$${PBKDF2_ITERATIONS}$${saltHex}$${hashHex}`;
-}
-
-export async function setAdminPin(pin: string): Promise<void> {
-  const hashed = await derivePinHash(pin);
-  const record: AdminRecord = {
-    pinHash: hashed,
-    createdAt: new Date().toISOString(),
-  };
-  try {
-    localStorage.setItem(STORAGE_KEYS.ADMIN, JSON.stringify(record));
-  } catch (err) {
-    console.error("Failed to write admin record to localStorage:", err);
-    throw new Error("Failed to save admin PIN to local storage. Check browser storage settings.");
-  }
-}
-
 /**
  * seedDemoData
  * Writes demo data to localStorage. If demo data already present, it will be overwritten
@@ -143,8 +76,10 @@ export async function seedDemoData(): Promise<void> {
   const bookings = [
     {
       id: generateId("bk_"),
-      serviceId: services[0].id,
-      customerId: customers[0].id,
+      packageId: services[0].id,
+      packageName: services[0].name,
+      customer: { name: customers[0].name, email: customers[0].email, phone: customers[0].phone },
+      price: services[0].priceCents / 100,
       start: new Date(now + 1000 * 60 * 60 * 24).toISOString(),
       end: new Date(now + 1000 * 60 * 60 * 24 + services[0].durationMinutes * 60000).toISOString(),
       status: "confirmed",
@@ -152,11 +87,13 @@ export async function seedDemoData(): Promise<void> {
     },
     {
       id: generateId("bk_"),
-      serviceId: services[1].id,
-      customerId: customers[1].id,
+      packageId: services[1].id,
+      packageName: services[1].name,
+      customer: { name: customers[1].name, email: customers[1].email, phone: customers[1].phone },
+      price: services[1].priceCents / 100,
       start: new Date(now + 1000 * 60 * 60 * 24 * 7).toISOString(),
       end: new Date(now + 1000 * 60 * 60 * 24 * 7 + services[1].durationMinutes * 60000).toISOString(),
-      status: "pending",
+      status: "booked",
       notes: "Company picnic.",
     },
   ];
@@ -172,7 +109,11 @@ export async function seedDemoData(): Promise<void> {
   try {
     localStorage.setItem(STORAGE_KEYS.SERVICES, JSON.stringify(services));
     localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
-    localStorage.setItem(STORAGE_KEYS.BOOKINGS, JSON.stringify(bookings));
+    // Bookings go through the shared repository so every admin screen sees them
+    for (const entry of bookings) {
+      const booking = normalizeBooking(entry);
+      if (booking) insertBooking(booking);
+    }
     localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
     localStorage.setItem(STORAGE_KEYS.DEMO_FLAG, "true");
   } catch (err) {
@@ -182,6 +123,7 @@ export async function seedDemoData(): Promise<void> {
 }
 
 export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
+  const [name, setName] = useState("");
   const [pin, setPin] = useState("");
   const [confirm, setConfirm] = useState("");
   const [seedDemo, setSeedDemo] = useState(true);
@@ -205,6 +147,7 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
   const minPinLength = 4;
 
   function validate(): string | null {
+    if (!name.trim()) return "Please enter your name.";
     if (!pin || pin.trim().length === 0) return "Please enter an admin PIN.";
     if (pin.length < minPinLength) return `PIN must be at least ${minPinLength} digits/characters.`;
     if (pin !== confirm) return "PIN and confirmation do not match.";
@@ -226,18 +169,16 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
 
     setLoading(true);
     try {
-      await setAdminPin(pin);
+      // The first account is the owner; they can add the rest of the team from Staff
+      const owner = await createStaffAccount({ name, role: "owner", pin });
+      await signInStaff(owner.id, pin);
 
       if (seedDemo) {
         await seedDemoData();
-        // update admin record to mark that demo seeded
+        // record that demo data was seeded
         try {
-          const raw = localStorage.getItem(STORAGE_KEYS.ADMIN);
-          if (raw) {
-            const adminRec: AdminRecord = JSON.parse(raw);
-            adminRec.seededDemo = true;
-            localStorage.setItem(STORAGE_KEYS.ADMIN, JSON.stringify(adminRec));
-          }
+          const adminRec: AdminRecord = { createdAt: new Date().toISOString(), seededDemo: true };
+          localStorage.setItem(STORAGE_KEYS.ADMIN, JSON.stringify(adminRec));
         } catch (innerErr) {
           console.error("Failed to mark admin record as demo-seeded:", innerErr);
           // don't fail the whole flow for this non-critical step
@@ -245,7 +186,8 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
       }
 
       if (isMountedRef.current) {
-        setSuccess("Admin PIN saved successfully.");
+        setSuccess("Owner account created.");
+        setName("");
         setPin("");
         setConfirm("");
       }
@@ -325,10 +267,11 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
   return (
     <div style={containerStyle} role="region" aria-labelledby="admin-setup-title">
       <h2 id="admin-setup-title" style={{ marginTop: 0, marginBottom: 6 }}>
-        Setup Admin PIN
+        Set up the owner account
       </h2>
       <p style={{ marginTop: 0, marginBottom: 14, color: "var(--muted, #444)" }}>
-        Create a local admin PIN to secure access to this Photobooth Booking app. This PIN is hashed
+        Create the owner account and its PIN to secure access to this Photobooth Booking app. Managers,
+        attendants and read-only accounts can be added afterwards under Staff. PINs are hashed
         using a secure key-derivation function (PBKDF2) and stored locally in your browser's
         localStorage. Note: localStorage is accessible to scripts running in this origin ? do not
         reuse this PIN elsewhere. If your browser does not support the Web Crypto API, setup will
@@ -336,6 +279,21 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
       </p>
 
       <form onSubmit={handleSubmit} aria-describedby="admin-setup-desc">
+        <label style={labelStyle} htmlFor="admin-name">
+          Your name
+        </label>
+        <input
+          id="admin-name"
+          name="admin-name"
+          type="text"
+          autoComplete="name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          style={inputStyle}
+          aria-required
+          disabled={loading}
+        />
+
         <label style={labelStyle} htmlFor="admin-pin">
           Admin PIN
         </label>
@@ -425,13 +383,14 @@ export default function AdminSetupWizard({ onComplete }: Props): JSX.Element {
             aria-disabled={loading}
             aria-live="polite"
           >
-            {loading ? "Saving?" : "Save PIN & Finish"}
+            {loading ? "Saving?" : "Create owner & Finish"}
           </button>
 
           <button
             type="button"
             onClick={() => {
               // reset form
+              setName("");
               setPin("");
               setConfirm("");
               setSeedDemo(true);
@@ -88,6 +88,14 @@ export function AdminNavItem({
   );
 }
 
+/* Pages hidden from staff whose role cannot use them; the routes enforce the same permissions */
+const NAV_PERMISSIONS: Record<string, StaffPermission> = {
+  "/admin/reconciliation": "payments.record",
+  "/admin/quotes": "quotes.edit",
+  "/admin/staff": "staff.manage",
+  "/admin/audit": "audit.view",
+};
+
 export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Element {
   const STORAGE_KEY = "adminSidebarActive";
   const COLLAPSE_KEY = "adminSidebarCollapsed";
@@ -130,6 +138,51 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Ele
           </svg>
         ),
       },
+      {
+        id: "/admin/reconciliation",
+        label: "Payments",
+        icon: (
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+            <path d="M20 4H4a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V6a2 2 0 0 0-2-2zm0 14H4v-6h16v6zm0-10H4V6h16v2z" />
+          </svg>
+        ),
+      },
+      {
+        id: "/admin/quotes",
+        label: "Quotes",
+        icon: (
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z" />
+          </svg>
+        ),
+      },
+      {
+        id: "/admin/staff",
+        label: "Staff",
+        icon: (
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+            <path d="M16 11a3 3 0 1 0 0-6 3 3 0 0 0 0 6zm-8 0a3 3 0 1 0 0-6 3 3 0 0 0 0 6zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5C15 14.17 10.33 13 8 13zm8 0c-.29 0-.62.02-.97.05A4.22 4.22 0 0 1 17 16.5V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z" />
+          </svg>
+        ),
+      },
+      {
+        id: "/admin/notifications",
+        label: "Notifications",
+        icon: (
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+            <path d="M12 22a2 2 0 0 0 2-2h-4a2 2 0 0 0 2 2zm6-6V11c0-3.07-1.64-5.64-4.5-6.32V4a1.5 1.5 0 0 0-3 0v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
+          </svg>
+        ),
+      },
+      {
+        id: "/admin/audit",
+        label: "Audit log",
+        icon: (
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+            <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6a7 7 0 1 1 2.05 4.95l-1.42 1.42A9 9 0 1 0 13 3zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z" />
+          </svg>
+        ),
+      },
       {
         id: "/admin/settings",
         label: "Settings",
@@ -154,6 +207,13 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Ele
 
   const [activeId, setActiveId] = useState<string>(defaultItems[0].id);
   const [collapsed, setCollapsed] = useState<boolean>(false);
+  const [staff, setStaff] = useState<StaffMember | null>(() => getCurrentStaff());
+
+  useEffect(() => {
+    return subscribeToStaff(() => setStaff(getCurrentStaff()));
+  }, []);
+
+  const visibleItems = defaultItems.filter((it) => !NAV_PERMISSIONS[it.id] || staffCan(NAV_PERMISSIONS[it.id], staff));
 
   // Read persisted state on client only to avoid SSR hydration issues
   useEffect(() => {
@@ -194,6 +254,10 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Ele
 
   const handleNavigate = useCallback(
     (route: string) => {
+      if (route === "/admin/logout") {
+        signOutStaff();
+        route = "/admin/login";
+      }
       setActiveId(route);
       if (onNavigate) onNavigate(route);
     },
@@ -325,7 +389,7 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Ele
 
       <nav aria-label="Primary" style={{ flex: "0 1 auto" }}>
         <div role="list" className="admin-nav-list" style={navListStyle}>
-          {defaultItems.map((it) => (
+          {visibleItems.map((it) => (
             <div role="listitem" key={it.id}>
               <AdminNavItem
                 id={it.id}
@@ -344,7 +408,9 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps): JSX.Ele
           <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
             <div style={{ fontSize: 13 }}>
               Signed in as
-              <div style={{ fontWeight: 600, fontSize: 13 }}>Owner</div>
+              <div style={{ fontWeight: 600, fontSize: 13 }}>
+                {staff ? `${staff.name} (${STAFF_ROLE_LABELS[staff.role]})` : "Nobody"}
+              </div>
             </div>
           </div>
         ) : null}
@@ -13,6 +13,13 @@ interface AnalyticsEvent {
   timestamp: string; // ISO string
 }
 
+export interface PromoCodeStats {
+  code: string;
+  applied: number; // times a customer applied the code at checkout
+  redeemed: number; // confirmed bookings that used it
+  discountTotal: number;
+}
+
 interface SummaryStats {
   range: { from: string; to: string };
   totalEvents: number;
@@ -411,4 +418,31 @@ export async function popularPackages(limit?: number): Promise<{ package: string
   } catch {
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Per-code funnel from the promo_applied and promo_redeemed events (promoservice), most redeemed first.
+ */
+export async function promoCodeStats(range?: Range): Promise<PromoCodeStats[]> {
+  try {
+    const { from, to } = parseRange(range);
+    const byCode: Record<string, PromoCodeStats> = {};
+    for (const e of loadEvents()) {
+      if (e.name !== 'promo_applied' && e.name !== 'promo_redeemed') continue;
+      const t = new Date(e.timestamp).getTime();
+      if (isNaN(t) || t < from.getTime() || t > to.getTime()) continue;
+      const code = typeof e.data?.code === 'string' ? e.data.code : null;
+      if (!code) continue;
+      const stats = (byCode[code] = byCode[code] || { code, applied: 0, redeemed: 0, discountTotal: 0 });
+      if (e.name === 'promo_applied') {
+        stats.applied += 1;
+      } else {
+        stats.redeemed += 1;
+        stats.discountTotal += Number(e.data?.amount) || 0;
+      }
+    }
+    return Object.values(byCode).sort((a, b) => b.redeemed - a.redeemed || b.applied - a.applied);
+  } catch {
+    return [];
+  }
+}
@@ -1,6 +1,5 @@
 const STORAGE_KEYS = {
   THEME: "photobooth:theme",
-  BOOKINGS: "photobooth:bookings",
   LAST_ERROR: "photobooth:lastError",
 };
 
@@ -456,7 +455,7 @@ function Home() {
    Bookings Storage & UI
    ============================ */
 
-type Booking = {
+type BookingEntry = {
   id: string;
   name: string;
   email: string;
@@ -467,33 +466,64 @@ type Booking = {
   createdAt: string;
 };
 
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/* Flatten a repository booking into the quick-entry list shape */
+function toBookingEntry(b: Booking): BookingEntry {
+  const start = new Date(b.start);
+  return {
+    id: b.id,
+    name: b.customer?.name ?? "",
+    email: b.customer?.email ?? "",
+    date: `${start.getFullYear()}-${pad2(start.getMonth() + 1)}-${pad2(start.getDate())}`,
+    time: `${pad2(start.getHours())}:${pad2(start.getMinutes())}`,
+    packageName: b.packageName ?? "",
+    notes: b.notes ?? undefined,
+    createdAt: b.createdAt,
+  };
+}
+
+function loadBookingEntries(): BookingEntry[] {
+  try {
+    return readBookings().map(toBookingEntry);
+  } catch {
+    return [];
+  }
+}
+
 function useBookings() {
-  const [bookings, setBookings] = useState<Booking[]>(() =>
-    safeGetLocal<Booking[]>(STORAGE_KEYS.BOOKINGS, [])
-  );
+  const [bookings, setBookings] = useState<BookingEntry[]>(() => loadBookingEntries());
 
   useEffect(() => {
-    safeSetLocal(STORAGE_KEYS.BOOKINGS, bookings);
-  }, [bookings]);
+    // The repository notifies on every write, so add/remove/clear only need to persist
+    return subscribeToBookings(() => setBookings(loadBookingEntries()));
+  }, []);
 
-  const add = (b: Omit<Booking, "id" | "createdAt">) => {
-    const newBooking: Booking = {
-      ...b,
-      id: `bk_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+  const add = (b: Omit<BookingEntry, "id" | "createdAt">) => {
+    const booking = normalizeBooking({
+      date: b.date,
+      time: b.time,
+      packageName: b.packageName,
+      notes: b.notes,
+      customer: { name: b.name, email: b.email },
+      status: "booked",
       createdAt: new Date().toISOString(),
-    };
-    setBookings((prev) => [newBooking, ...prev]);
-    return newBooking;
+    });
+    if (!booking) throw new Error("Invalid booking date or time.");
+    insertBooking(booking);
+    return toBookingEntry(booking);
   };
 
-  const remove = (id: string) => setBookings((prev) => prev.filter((p) => p.id !== id));
+  const remove = (id: string) => {
+    deleteBooking(id);
+  };
 
-  const clear = () => setBookings([]);
+  const clear = () => clearBookings();
 
   return { bookings, add, remove, clear, setBookings };
 }
 
-function BookingForm({ onSaved }: { onSaved?: (b: Booking) => void }) {
+function BookingForm({ onSaved }: { onSaved?: (b: BookingEntry) => void }) {
   const { add } = useBookingsContext();
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
@@ -748,10 +778,10 @@ function ExportBookingsButton() {
   const { bookings } = (() => {
     try {
       // try to grab bookings quickly without provider via storage
-      const stored = safeGetLocal<Booking[]>(STORAGE_KEYS.BOOKINGS, []);
+      const stored = loadBookingEntries();
       return { bookings: stored };
     } catch {
-      return { bookings: [] as Booking[] };
+      return { bookings: [] as BookingEntry[] };
     }
   })();
 
@@ -0,0 +1,233 @@
+const PAGE_SIZE = 100;
+
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd", fontSize: 13 };
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+const cellStyle: React.CSSProperties = { padding: "8px 6px", borderTop: "1px solid #f1f5f9", textAlign: "left", verticalAlign: "top" };
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
+
+/**
+ * Audit log: every recorded admin change, newest first, filtered by area, staff member, action,
+ * date range or text. Entries cannot be edited or deleted from here.
+ */
+export default function AuditLogPage(): JSX.Element {
+  const [entries, setEntries] = useState<AuditEntry[]>(() => listAuditLog());
+  const [entityType, setEntityType] = useState<AuditEntityType | "">("");
+  const [actorId, setActorId] = useState("");
+  const [action, setAction] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [query, setQuery] = useState("");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToAuditLog(() => setEntries(listAuditLog()));
+  }, []);
+
+  // Staff who appear in the log, including deleted accounts, by their name at the time
+  const actors = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const e of entries) {
+      if (e.actor && !byId.has(e.actor.id)) byId.set(e.actor.id, e.actor.name);
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const actions = useMemo(
+    () =>
+      Array.from(new Set(entries.filter((e) => !entityType || e.entityType === entityType).map((e) => e.action))).sort(),
+    [entries, entityType]
+  );
+
+  const filtered = useMemo(
+    () =>
+      listAuditLog({
+        entityType: entityType || null,
+        actorId: actorId || null,
+        action: action || null,
+        from: from || null,
+        to: to || null,
+        query,
+      }),
+    // entries: re-read when the log changes
+    [entries, entityType, actorId, action, from, to, query]
+  );
+
+  useEffect(() => setLimit(PAGE_SIZE), [entityType, actorId, action, from, to, query]);
+
+  function clearFilters() {
+    setEntityType("");
+    setActorId("");
+    setAction("");
+    setFrom("");
+    setTo("");
+    setQuery("");
+  }
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ marginBottom: 16 }}>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Audit log</h1>
+        <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>
+          Who changed what and when. Entries are only ever added; backups include the whole log.
+        </p>
+      </header>
+
+      <form
+        onSubmit={(e) => e.preventDefault()}
+        aria-label="Filter audit log"
+        style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end", marginBottom: 16 }}
+      >
+        <label style={fieldStyle}>
+          Area
+          <select
+            value={entityType}
+            onChange={(e) => {
+              setEntityType(e.target.value as AuditEntityType | "");
+              setAction("");
+            }}
+            style={inputStyle}
+          >
+            <option value="">All</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((t) => (
+              <option key={t} value={t}>
+                {AUDIT_ENTITY_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          Staff member
+          <select value={actorId} onChange={(e) => setActorId(e.target.value)} style={inputStyle}>
+            <option value="">Anyone</option>
+            {actors.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          Action
+          <select value={action} onChange={(e) => setAction(e.target.value)} style={inputStyle}>
+            <option value="">Any</option>
+            {actions.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          From
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          Search
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Reference, name..."
+            style={inputStyle}
+          />
+        </label>
+        <button type="button" onClick={clearFilters}>
+          Clear
+        </button>
+      </form>
+
+      <p style={{ margin: "0 0 8px", fontSize: 13, color: "#6b7280" }} aria-live="polite">
+        {filtered.length} of {entries.length} entries
+      </p>
+
+      {filtered.length === 0 ? (
+        <p style={{ fontSize: 14, color: "#6b7280" }}>No entries match these filters.</p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ color: "#6b7280" }}>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>When</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Who</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Action</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>What</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.slice(0, limit).map((e) => (
+              <tr key={e.id}>
+                <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>{new Date(e.at).toLocaleString()}</td>
+                <td style={cellStyle}>
+                  {e.actor ? (
+                    <>
+                      {e.actor.name}
+                      <div style={{ color: "#6b7280" }}>{STAFF_ROLE_LABELS[e.actor.role] ?? e.actor.role}</div>
+                    </>
+                  ) : (
+                    <span style={{ color: "#6b7280" }}>Customer or system</span>
+                  )}
+                </td>
+                <td style={{ ...cellStyle, fontFamily: "monospace" }}>{e.action}</td>
+                <td style={cellStyle}>{e.summary}</td>
+                <td style={cellStyle}>
+                  {e.changes.length === 0 ? (
+                    <span style={{ color: "#6b7280" }}>-</span>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId((id) => (id === e.id ? null : e.id))}
+                        aria-expanded={expandedId === e.id}
+                      >
+                        {e.changes.length} field{e.changes.length === 1 ? "" : "s"}
+                      </button>
+                      {expandedId === e.id && (
+                        <dl style={{ margin: "6px 0 0", display: "grid", gap: 4 }}>
+                          {e.changes.map((c) => (
+                            <div key={c.field}>
+                              <dt style={{ fontWeight: 600 }}>{c.field}</dt>
+                              <dd style={{ margin: 0, wordBreak: "break-word" }}>
+                                <span style={{ color: "#991b1b" }}>{formatValue(c.before)}</span>
+                                {" - "}
+                                <span style={{ color: "#166534" }}>{formatValue(c.after)}</span>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {filtered.length > limit && (
+        <button type="button" onClick={() => setLimit((n) => n + PAGE_SIZE)} style={{ marginTop: 12 }}>
+          Show {Math.min(PAGE_SIZE, filtered.length - limit)} more
+        </button>
+      )}
+    </div>
+  );
+}
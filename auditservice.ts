@@ -0,0 +1,245 @@
+export const AUDIT_LOG_KEY = 'pb_audit_log_v1';
+const AUDIT_CHANGE_EVENT = 'pb:audit-changed';
+
+registerStorageKeys([AUDIT_LOG_KEY]);
+
+/* Bookkeeping fields every record rewrites; they would show up in every diff */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+// Longer strings (uploaded files as data URLs, mostly) are stored as a short description instead
+const MAX_VALUE_LENGTH = 500;
+
+export type AuditEntityType =
+  | 'booking'
+  | 'package'
+  | 'addon'
+  | 'quote'
+  | 'payment'
+  | 'invoice'
+  | 'waitlist'
+  | 'staff'
+  | 'settings'
+  | 'backup';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  booking: 'Bookings',
+  package: 'Packages',
+  addon: 'Add-ons',
+  quote: 'Quotes',
+  payment: 'Payments',
+  invoice: 'Invoices',
+  waitlist: 'Waitlist',
+  staff: 'Staff',
+  settings: 'Settings',
+  backup: 'Backups',
+};
+
+/** Who did it; null when no staff member was signed in (customer actions, card gateway callbacks). */
+export interface AuditActor {
+  id: string;
+  name: string;
+  role: StaffRole;
+}
+
+export interface AuditChange {
+  /** Top-level field of the record; 'value' when the record itself is not an object. */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: AuditActor | null;
+  /** '<entity>.<verb>', e.g. 'booking.status_changed'. */
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  summary: string;
+  changes: AuditChange[];
+}
+
+export interface AuditInput {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  summary: string;
+  /** The record before and after the change; null for creations and deletions. */
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilter {
+  entityType?: AuditEntityType | null;
+  actorId?: string | null;
+  action?: string | null;
+  entityId?: string | null;
+  /** Inclusive local dates, "YYYY-MM-DD". */
+  from?: string | null;
+  to?: string | null;
+  /** Matched against the summary, action and actor name. */
+  query?: string | null;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `audit_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isAuditEntry(value: any): value is AuditEntry {
+  return (
+    !!value &&
+    typeof value.id === 'string' &&
+    typeof value.at === 'string' &&
+    typeof value.action === 'string' &&
+    typeof value.entityType === 'string' &&
+    Array.isArray(value.changes)
+  );
+}
+
+function readLog(): AuditEntry[] {
+  const raw = getItem<AuditEntry[]>(AUDIT_LOG_KEY);
+  return Array.isArray(raw) ? raw.filter(isAuditEntry) : [];
+}
+
+function writeLog(entries: AuditEntry[]): void {
+  setItem(AUDIT_LOG_KEY, entries);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(AUDIT_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/* Copies a value with file contents and other long strings replaced, at any depth */
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (value.startsWith('data:')) return `[file, ${Math.round((value.length * 3) / 4 / 1024)} KB]`;
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}... [${value.length} characters]` : value;
+  }
+  if (Array.isArray(value)) return value.map(redact);
+  if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v)]));
+  return value;
+}
+
+/**
+ * diffRecords(before: unknown, after: unknown): AuditChange[]
+ * Field-by-field for objects (one level deep), otherwise the whole value. Uploaded files and
+ * other long strings inside the values are replaced by a short description.
+ */
+export function diffRecords(rawBefore: unknown, rawAfter: unknown): AuditChange[] {
+  const before = redact(rawBefore);
+  const after = redact(rawAfter);
+  if (!isRecord(before) && !isRecord(after)) {
+    return sameValue(before, after) ? [] : [{ field: 'value', before: before ?? null, after: after ?? null }];
+  }
+  const b = isRecord(before) ? before : {};
+  const a = isRecord(after) ? after : {};
+  const fields = Array.from(new Set([...Object.keys(b), ...Object.keys(a)])).filter((f) => !IGNORED_FIELDS.has(f));
+  return fields
+    .filter((f) => !sameValue(b[f], a[f]))
+    .map((f) => ({ field: f, before: b[f] ?? null, after: a[f] ?? null }));
+}
+
+/**
+ * recordAudit(input: AuditInput): AuditEntry | null
+ * Appends one entry for the signed-in staff member. Never throws: a full or unavailable store
+ * must not undo the change being recorded, so failures are only logged.
+ */
+export function recordAudit(input: AuditInput): AuditEntry | null {
+  try {
+    const staff = getCurrentStaff();
+    const entry: AuditEntry = {
+      id: generateId(),
+      at: nowIso(),
+      actor: staff ? { id: staff.id, name: staff.name, role: staff.role } : null,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId ?? null,
+      summary: input.summary,
+      changes: diffRecords(input.before ?? null, input.after ?? null),
+    };
+    writeLog([...readLog(), entry]);
+    return entry;
+  } catch (err) {
+    console.error('Failed to record audit entry', input.action, err);
+    return null;
+  }
+}
+
+/**
+ * recordBookingAudit(action: string, before: Booking | null, summary: string): AuditEntry | null
+ * For admin booking actions: diffs the stored booking against the copy read before the change.
+ */
+export function recordBookingAudit(action: string, before: Booking | null, summary: string): AuditEntry | null {
+  if (!before) return null;
+  return recordAudit({
+    action,
+    entityType: 'booking',
+    entityId: before.id,
+    summary: `${before.reference}: ${summary}`,
+    before,
+    after: getStoredBooking(before.id),
+  });
+}
+
+/** listAuditLog(filter?: AuditFilter): AuditEntry[] - newest first (the log is kept in time order). */
+export function listAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : null;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : null;
+  const query = filter.query?.trim().toLowerCase() || '';
+  return readLog()
+    .filter((e) => {
+      if (filter.entityType && e.entityType !== filter.entityType) return false;
+      if (filter.actorId && e.actor?.id !== filter.actorId) return false;
+      if (filter.action && e.action !== filter.action) return false;
+      if (filter.entityId && e.entityId !== filter.entityId) return false;
+      const at = Date.parse(e.at);
+      if (from !== null && at < from) return false;
+      if (to !== null && at > to) return false;
+      if (query && ![e.summary, e.action, e.actor?.name ?? ''].some((s) => s.toLowerCase().includes(query))) {
+        return false;
+      }
+      return true;
+    })
+    .reverse();
+}
+
+/**
+ * mergeAuditLog(entries: unknown): number
+ * Used when restoring a backup: adds entries not already in the log instead of replacing it,
+ * so an import can never erase history. Returns how many were added.
+ */
+export function mergeAuditLog(entries: unknown): number {
+  if (!Array.isArray(entries)) return 0;
+  const log = readLog();
+  const known = new Set(log.map((e) => e.id));
+  const added = entries.filter((e): e is AuditEntry => isAuditEntry(e) && !known.has(e.id));
+  if (added.length === 0) return 0;
+  writeLog([...log, ...added].sort((a, b) => a.at.localeCompare(b.at)));
+  return added.length;
+}
+
+export function subscribeToAuditLog(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === AUDIT_LOG_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(AUDIT_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(AUDIT_CHANGE_EVENT, listener);
+  };
+}
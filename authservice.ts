@@ -1,5 +1,9 @@
-const ADMIN_PIN_KEY = 'photobooth_admin_pin';
 const SESSION_KEY = 'photobooth_session';
+const CUSTOMER_LOGIN_SETTINGS_KEY = 'pb_customer_login_settings_v1';
+const LOGIN_CHALLENGES_KEY = 'pb_login_challenges_v1';
+const LOGIN_OUTBOX_KEY = 'pb_login_outbox_v1';
+const LOGIN_OUTBOX_CHANGE_EVENT = 'pb:login-outbox-changed';
+const CUSTOMER_SESSION_CHANGE_EVENT = 'pb:customer-session-changed';
 
 const PBKDF2_ITERATIONS = 120000;
 const HASH_ALGO = 'SHA-256';
@@ -92,75 +96,364 @@ export async function hashPin(pin: string): Promise<string> {
 }
 
 /**
- * Stores an admin PIN (salted+hashed) in localStorage.
- * Overwrites any existing admin PIN.
+ * Checks a PIN or code against a hashPin string (iterations.saltHex.hashHex).
  */
-export async function setAdminPin(pin: string): Promise<void> {
-  if (typeof pin !== 'string') throw new Error('Pin must be a string');
-  const trimmed = pin.trim();
-  if (trimmed.length < 4) {
-    throw new Error('PIN must be at least 4 characters');
-  }
-  const serialized = await hashPin(trimmed);
-  localStorage.setItem(ADMIN_PIN_KEY, serialized);
-}
-
-/**
- * Verifies a provided admin PIN against the stored hash.
- * Returns true if match, false otherwise.
- */
-export async function verifyAdminPin(pin: string): Promise<boolean> {
-  if (typeof pin !== 'string') return false;
-  const canonicalPin = pin.trim();
-  const stored = localStorage.getItem(ADMIN_PIN_KEY);
+export async function verifyPinHash(secret: string, stored: string | null): Promise<boolean> {
   if (!stored) return false;
-
   const parts = stored.split('.');
   if (parts.length !== 3) return false;
   const iterations = parseInt(parts[0], 10);
   if (!Number.isFinite(iterations) || iterations <= 0) return false;
-  const saltHex = parts[1];
-  const hashHex = parts[2];
-
   try {
-    const salt = fromHex(saltHex);
-    const expected = fromHex(hashHex);
-    const derived = await deriveKey(canonicalPin, salt, iterations, expected.length);
+    const salt = fromHex(parts[1]);
+    const expected = fromHex(parts[2]);
+    const derived = await deriveKey(secret, salt, iterations, expected.length);
     return constantTimeEqual(derived, expected);
   } catch {
     return false;
   }
 }
 
-/**
- * Creates a lightweight session for a customer by email and stores in localStorage.
- * Returns { sessionId } on success or null for invalid input.
- */
-export async function loginCustomerByEmail(email: string): Promise<{ sessionId: string } | null> {
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function normalizeEmail(email: string): string | null {
   if (typeof email !== 'string') return null;
   const trimmed = email.trim().toLowerCase();
-  if (!trimmed) return null;
+  return EMAIL_PATTERN.test(trimmed) ? trimmed : null;
+}
 
-  // Basic email pattern check (not exhaustive but prevents obvious invalid values)
-  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailPattern.test(trimmed)) return null;
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
 
-  // Create a cryptographically random session id (base64url of 16 bytes + timestamp)
-  const rand = generateRandomBytes(16);
-  const id = `${base64UrlEncode(rand)}.${Date.now().toString(36)}`;
+function writeJson(key: string, value: unknown, changeEvent?: string): void {
+  localStorage.setItem(key, JSON.stringify(value));
+  if (!changeEvent) return;
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(changeEvent));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(new Uint8Array(digest));
+}
+
+/* Uniform 6-digit code; values past the last full million are redrawn */
+function generateLoginCode(): string {
+  const limit = Math.floor(0x100000000 / 1000000) * 1000000;
+  for (;;) {
+    const [n] = new Uint32Array(generateRandomBytes(4).buffer);
+    if (n < limit) return String(n % 1000000).padStart(6, '0');
+  }
+}
 
-  const session = {
-    sessionId: id,
-    email: trimmed,
-    createdAt: new Date().toISOString(),
+export interface CustomerLoginSettings {
+  /** How long an emailed code or link stays valid. */
+  codeTtlMinutes: number;
+  /** Wrong codes allowed per code before a new one must be requested. */
+  maxAttempts: number;
+  /** Codes that can be requested per email address per hour. */
+  maxCodesPerHour: number;
+  /** Customer sessions end this long after signing in. */
+  sessionHours: number;
+}
+
+export const DEFAULT_CUSTOMER_LOGIN_SETTINGS: CustomerLoginSettings = {
+  codeTtlMinutes: 10,
+  maxAttempts: 5,
+  maxCodesPerHour: 5,
+  sessionHours: 24,
+};
+
+export interface CustomerSession {
+  sessionId: string;
+  email: string;
+  createdAt: string;
+  /** Epoch milliseconds, the format the route guards read. */
+  expiresAt: number;
+}
+
+/** What a delivery adapter sends: the code, and a link that signs in without typing it. */
+export interface LoginCodeMessage {
+  to: string;
+  code: string;
+  link: string;
+  expiresAt: string;
+  subject: string;
+  body: string;
+}
+
+/** Sends login codes, e.g. through an email API. The local outbox is used until one is set. */
+export interface LoginCodeDelivery {
+  id: string;
+  label: string;
+  send(message: LoginCodeMessage): Promise<void>;
+}
+
+export interface LoginOutboxMessage extends LoginCodeMessage {
+  id: string;
+  createdAt: string;
+}
+
+interface LoginChallenge {
+  id: string;
+  email: string;
+  codeHash: string;
+  linkHash: string;
+  createdAt: string;
+  expiresAt: string;
+  attempts: number;
+  usedAt: string | null;
+}
+
+/**
+ * getCustomerLoginSettings(): CustomerLoginSettings
+ */
+export function getCustomerLoginSettings(): CustomerLoginSettings {
+  const stored = readJson<Partial<CustomerLoginSettings> | null>(CUSTOMER_LOGIN_SETTINGS_KEY, null);
+  const pick = (n: unknown, fallback: number) => (typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : fallback);
+  const d = DEFAULT_CUSTOMER_LOGIN_SETTINGS;
+  return {
+    codeTtlMinutes: pick(stored?.codeTtlMinutes, d.codeTtlMinutes),
+    maxAttempts: pick(stored?.maxAttempts, d.maxAttempts),
+    maxCodesPerHour: pick(stored?.maxCodesPerHour, d.maxCodesPerHour),
+    sessionHours: pick(stored?.sessionHours, d.sessionHours),
+  };
+}
+
+/**
+ * saveCustomerLoginSettings(settings: CustomerLoginSettings): CustomerLoginSettings
+ */
+export function saveCustomerLoginSettings(settings: CustomerLoginSettings): CustomerLoginSettings {
+  const whole = (n: number) => Math.floor(Number(n));
+  const next: CustomerLoginSettings = {
+    codeTtlMinutes: whole(settings.codeTtlMinutes),
+    maxAttempts: whole(settings.maxAttempts),
+    maxCodesPerHour: whole(settings.maxCodesPerHour),
+    sessionHours: whole(settings.sessionHours),
   };
+  if (!(next.codeTtlMinutes >= 1 && next.codeTtlMinutes <= 60)) throw new Error('Code lifetime must be 1 to 60 minutes');
+  if (!(next.maxAttempts >= 1 && next.maxAttempts <= 10)) throw new Error('Attempts per code must be 1 to 10');
+  if (!(next.maxCodesPerHour >= 1 && next.maxCodesPerHour <= 20)) throw new Error('Codes per hour must be 1 to 20');
+  if (!(next.sessionHours >= 1 && next.sessionHours <= 24 * 30)) throw new Error('Session length must be 1 hour to 30 days');
+  const before = getCustomerLoginSettings();
+  writeJson(CUSTOMER_LOGIN_SETTINGS_KEY, next);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'customer_login',
+    summary: 'Customer sign-in settings changed',
+    before,
+    after: next,
+  });
+  return next;
+}
+
+/**
+ * The stand-in delivery: messages are kept in local storage (last 50) and shown in the admin
+ * settings, so the flow can be used before an email provider is connected.
+ */
+export const localOutboxDelivery: LoginCodeDelivery = {
+  id: 'local_outbox',
+  label: 'Local outbox',
+  async send(message) {
+    const entry: LoginOutboxMessage = {
+      ...message,
+      id: `msg_${Date.now().toString(36)}${base64UrlEncode(generateRandomBytes(3))}`,
+      createdAt: new Date().toISOString(),
+    };
+    writeJson(LOGIN_OUTBOX_KEY, [entry, ...listLoginOutbox()].slice(0, 50), LOGIN_OUTBOX_CHANGE_EVENT);
+  },
+};
+
+let loginCodeDelivery: LoginCodeDelivery = localOutboxDelivery;
 
+/** Pass null to go back to the local outbox. */
+export function setLoginCodeDelivery(delivery: LoginCodeDelivery | null): void {
+  loginCodeDelivery = delivery ?? localOutboxDelivery;
+}
+
+export function getLoginCodeDelivery(): LoginCodeDelivery {
+  return loginCodeDelivery;
+}
+
+/** Newest first. */
+export function listLoginOutbox(): LoginOutboxMessage[] {
+  const stored = readJson<LoginOutboxMessage[]>(LOGIN_OUTBOX_KEY, []);
+  return Array.isArray(stored) ? stored : [];
+}
+
+export function subscribeToLoginOutbox(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === LOGIN_OUTBOX_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(LOGIN_OUTBOX_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(LOGIN_OUTBOX_CHANGE_EVENT, listener);
+  };
+}
+
+function readChallenges(): LoginChallenge[] {
+  const stored = readJson<LoginChallenge[]>(LOGIN_CHALLENGES_KEY, []);
+  // Anything older than a day is past every limit that reads it
+  const cutoff = Date.now() - 24 * 60 * 60000;
+  return Array.isArray(stored) ? stored.filter((c) => Date.parse(c.createdAt) > cutoff) : [];
+}
+
+function saveChallenge(challenge: LoginChallenge): void {
+  writeJson(LOGIN_CHALLENGES_KEY, readChallenges().filter((c) => c.id !== challenge.id).concat(challenge));
+}
+
+function startCustomerSession(email: string): CustomerSession {
+  const now = Date.now();
+  const session: CustomerSession = {
+    sessionId: `${base64UrlEncode(generateRandomBytes(16))}.${now.toString(36)}`,
+    email,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: now + getCustomerLoginSettings().sessionHours * 60 * 60000,
+  };
+  writeJson(SESSION_KEY, session, CUSTOMER_SESSION_CHANGE_EVENT);
+  return session;
+}
+
+function consumeChallenge(challenge: LoginChallenge): CustomerSession {
+  saveChallenge({ ...challenge, usedAt: new Date().toISOString() });
+  return startCustomerSession(challenge.email);
+}
+
+/**
+ * requestLoginCode(email: string, linkUrl?: string): Promise<{ expiresAt: string }>
+ * Emails a one-time code through the delivery adapter. Only hashes are stored; a new code
+ * replaces the previous one. `linkUrl` is the page that finishes a magic-link sign-in
+ * (verifyLoginLink); it gets a `login` query parameter.
+ */
+export async function requestLoginCode(email: string, linkUrl?: string): Promise<{ expiresAt: string }> {
+  const to = normalizeEmail(email);
+  if (!to) throw new Error('Enter a valid email address');
+  const settings = getCustomerLoginSettings();
+  const now = Date.now();
+  const challenges = readChallenges();
+  const recent = challenges.filter((c) => c.email === to && now - Date.parse(c.createdAt) < 60 * 60000);
+  if (recent.length >= settings.maxCodesPerHour) {
+    throw new Error('Too many codes requested. Please try again later.');
+  }
+
+  const code = generateLoginCode();
+  const linkToken = base64UrlEncode(generateRandomBytes(24));
+  const challenge: LoginChallenge = {
+    id: base64UrlEncode(generateRandomBytes(9)),
+    email: to,
+    codeHash: await hashPin(code),
+    linkHash: await sha256Hex(linkToken),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + settings.codeTtlMinutes * 60000).toISOString(),
+    attempts: 0,
+    usedAt: null,
+  };
+  // Earlier codes stop working; they stay stored for the hourly limit
+  const superseded = challenges.map((c) => (c.email === to && !c.usedAt ? { ...c, usedAt: challenge.createdAt } : c));
+  writeJson(LOGIN_CHALLENGES_KEY, superseded.concat(challenge));
+
+  const base = linkUrl ?? (typeof window !== 'undefined' ? window.location.href : '');
+  const url = new URL(base, typeof window !== 'undefined' ? window.location.origin : 'http://localhost');
+  url.searchParams.set('login', `${challenge.id}.${linkToken}`);
+  const link = url.toString();
   try {
-    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
-    return { sessionId: id };
-  } catch {
+    await loginCodeDelivery.send({
+      to,
+      code,
+      link,
+      expiresAt: challenge.expiresAt,
+      subject: `Your sign-in code: ${code}`,
+      body: `Your sign-in code is ${code}. It expires in ${settings.codeTtlMinutes} minutes.\n\nOr sign in with this link: ${link}\n\nIf you did not ask for this, you can ignore this message.`,
+    });
+  } catch (err) {
+    writeJson(LOGIN_CHALLENGES_KEY, readChallenges().filter((c) => c.id !== challenge.id));
+    console.error('Failed to deliver login code', err);
+    throw new Error('Could not send the code. Please try again.');
+  }
+  return { expiresAt: challenge.expiresAt };
+}
+
+/**
+ * verifyLoginCode(email: string, code: string): Promise<CustomerSession>
+ * Checks the latest code for the address. Every try counts towards maxAttempts, after which
+ * a new code is needed.
+ */
+export async function verifyLoginCode(email: string, code: string): Promise<CustomerSession> {
+  const to = normalizeEmail(email);
+  const challenge = readChallenges()
+    .filter((c) => c.email === to && !c.usedAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (!challenge || Date.parse(challenge.expiresAt) <= Date.now()) {
+    throw new Error('This code has expired or was already used. Please request a new one.');
+  }
+  const { maxAttempts } = getCustomerLoginSettings();
+  if (challenge.attempts >= maxAttempts) throw new Error('Too many attempts. Please request a new code.');
+  // Counted before checking so parallel tries cannot exceed the limit
+  const counted = { ...challenge, attempts: challenge.attempts + 1 };
+  saveChallenge(counted);
+  const ok = await verifyPinHash(String(code ?? '').replace(/\s+/g, ''), challenge.codeHash);
+  if (!ok) {
+    const left = maxAttempts - counted.attempts;
+    throw new Error(left > 0 ? `Incorrect code. ${left} attempt${left === 1 ? '' : 's'} left.` : 'Too many attempts. Please request a new code.');
+  }
+  return consumeChallenge(counted);
+}
+
+/**
+ * verifyLoginLink(value: string): Promise<CustomerSession>
+ * Signs in from the `login` query parameter of a magic link. Links work once.
+ */
+export async function verifyLoginLink(value: string): Promise<CustomerSession> {
+  const [id, token] = String(value ?? '').split('.');
+  const challenge = readChallenges().find((c) => c.id === id);
+  if (!challenge || !token || challenge.usedAt || Date.parse(challenge.expiresAt) <= Date.now()) {
+    throw new Error('This sign-in link has expired or was already used. Please request a new code.');
+  }
+  const actual = fromHex(await sha256Hex(token));
+  if (!constantTimeEqual(actual, fromHex(challenge.linkHash))) {
+    throw new Error('This sign-in link is not valid. Please request a new code.');
+  }
+  return consumeChallenge(challenge);
+}
+
+/**
+ * getCustomerSession(): CustomerSession | null
+ * The signed-in customer, or null. Expired sessions are removed.
+ */
+export function getCustomerSession(): CustomerSession | null {
+  const session = readJson<CustomerSession | null>(SESSION_KEY, null);
+  if (!session || typeof session.email !== 'string') return null;
+  if (typeof session.expiresAt !== 'number' || session.expiresAt <= Date.now()) {
+    localStorage.removeItem(SESSION_KEY);
     return null;
   }
+  return session;
+}
+
+export function subscribeToCustomerSession(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === SESSION_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(CUSTOMER_SESSION_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(CUSTOMER_SESSION_CHANGE_EVENT, listener);
+  };
 }
 
 /**
@@ -168,12 +461,19 @@ export async function loginCustomerByEmail(email: string): Promise<{ sessionId:
  */
 export async function logout(): Promise<void> {
   localStorage.removeItem(SESSION_KEY);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(CUSTOMER_SESSION_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
 }
 
 export default {
-  setAdminPin,
-  verifyAdminPin,
-  loginCustomerByEmail,
+  verifyPinHash,
+  requestLoginCode,
+  verifyLoginCode,
+  verifyLoginLink,
+  getCustomerSession,
   logout,
   hashPin,
 };
\ No newline at end of file
@@ -47,6 +47,26 @@ function utf8ByteLength(str: string): number {
   return encodeURIComponent(str).replace(/%[A-F\d]{2}/g, 'x').length
 }
 
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(new Error('Failed to read blob'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * storageservice keeps JSON; fall back to the raw string for values that never were JSON.
+ */
+function parseStoredValue(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
 /**
  * Validate that an object conforms to the expected backup schema.
  * Separates strict errors from non-fatal warnings (e.g., size mismatches).
@@ -134,7 +154,7 @@ export function validateBackupSchema(obj: any): ValidationResult {
 }
 
 /**
- * Export current localStorage into a backup JSON string.
+ * Export current localStorage, plus storageservice keys and blobs, into a backup JSON string.
  * - includeLargeBlobs: if false, values > LARGE_BLOB_THRESHOLD are replaced with a placeholder item indicating they were skipped.
  * Returns a JSON string (UTF-8 text).
  */
@@ -159,6 +179,14 @@ export async function exportBackup(options: ExportOptions = {}): Promise<string>
     throw new Error('Unable to access localStorage: ' + String(err))
   }
 
+  // The audit log is records, not media: it is never skipped for size
+  const skipLarge = (key: string, size: number) => !includeLargeBlobs && size > LARGE_BLOB_THRESHOLD && key !== AUDIT_LOG_KEY
+
+  const addItem = (key: string, value: string) => {
+    const size = utf8ByteLength(value)
+    data[key] = skipLarge(key, size) ? { value: '', size, skipped: true } : { value, size }
+  }
+
   for (const key of keys) {
     try {
       // Re-check existence and read value. localStorage.getItem may throw in some environments.
@@ -171,7 +199,7 @@ export async function exportBackup(options: ExportOptions = {}): Promise<string>
       }
       const value = raw === null ? '' : raw
       const size = utf8ByteLength(value)
-      if (!includeLargeBlobs && size > LARGE_BLOB_THRESHOLD) {
+      if (skipLarge(key, size)) {
         data[key] = {
           value: '',
           size,
@@ -193,6 +221,36 @@ export async function exportBackup(options: ExportOptions = {}): Promise<string>
     }
   }
 
+  // Keys kept by storageservice live outside localStorage when it runs on IndexedDB
+  if (getStorageBackendName() !== 'localstorage') {
+    const state = exportState()
+    for (const [key, value] of Object.entries(state)) {
+      if (key in data) continue
+      try {
+        addItem(key, typeof value === 'string' ? value : JSON.stringify(value))
+      } catch {
+        data[key] = { value: '', size: 0, skipped: true }
+      }
+    }
+  }
+
+  // Blobs (gallery images, payment proofs) are exported as data URLs under BLOB_KEY_PREFIX
+  for (const blobKey of await listBlobKeys()) {
+    const key = BLOB_KEY_PREFIX + blobKey
+    if (key in data) continue
+    try {
+      const blob = await getBlob(blobKey)
+      if (!blob) continue
+      if (!includeLargeBlobs && blob.size > LARGE_BLOB_THRESHOLD) {
+        data[key] = { value: '', size: blob.size, skipped: true }
+        continue
+      }
+      addItem(key, await blobToDataUrl(blob))
+    } catch {
+      data[key] = { value: '', size: 0, skipped: true }
+    }
+  }
+
   const meta: BackupMeta = {
     app: APP_NAME,
     version: BACKUP_VERSION,
@@ -207,7 +265,8 @@ export async function exportBackup(options: ExportOptions = {}): Promise<string>
 
 /**
  * Import from a backup JSON string into localStorage.
- * - overwrite: if false, existing localStorage keys will not be overwritten.
+ * - overwrite: if false, existing localStorage keys will not be overwritten. Overwriting needs the
+ *   signed-in staff member's PIN re-entered just before (staffservice reauthenticateStaff).
  * - allowCrossAppImport: if false (default), abort if backup.meta.app does not match APP_NAME.
  * Returns count of imported items and any warnings generated.
  */
@@ -220,6 +279,8 @@ export async function importBackup(
   const allowCrossAppImport = !!options.allowCrossAppImport
   let parsed: any
 
+  if (overwrite) consumeStaffReauth('import a backup over existing data')
+
   try {
     parsed = JSON.parse(json)
   } catch (err) {
@@ -270,6 +331,53 @@ export async function importBackup(
       continue
     }
 
+    // Blobs go back into blob storage, whichever backend is active
+    if (key.startsWith(BLOB_KEY_PREFIX)) {
+      const blobKey = key.slice(BLOB_KEY_PREFIX.length)
+      try {
+        if (!overwrite && (await getBlob(blobKey)) !== null) {
+          warnings.push(`Did not import "${key}" because it already exists and overwrite is false`)
+          continue
+        }
+        const blob = dataUrlToBlob(item.value)
+        if (!blob) {
+          warnings.push(`Skipping key "${key}" because its value is not a data URL`)
+          continue
+        }
+        await setBlob(blobKey, blob)
+        imported++
+      } catch (err) {
+        warnings.push(`Failed to import "${key}": ${String(err)}`)
+      }
+      continue
+    }
+
+    // Audit entries are merged into the current log, never replaced, whatever overwrite says
+    if (key === AUDIT_LOG_KEY) {
+      try {
+        const added = mergeAuditLog(parseStoredValue(item.value))
+        if (added) imported++
+      } catch (err) {
+        warnings.push(`Failed to import "${key}": ${String(err)}`)
+      }
+      continue
+    }
+
+    // Keys owned by storageservice are written through it so they land in the active backend
+    if (isManagedStorageKey(key)) {
+      try {
+        if (getItem(key) !== null && !overwrite) {
+          warnings.push(`Did not import "${key}" because it already exists and overwrite is false`)
+          continue
+        }
+        setItem(key, parseStoredValue(item.value))
+        imported++
+      } catch (err) {
+        warnings.push(`Failed to import "${key}": ${String(err)}`)
+      }
+      continue
+    }
+
     try {
       const exists = (() => {
         try {
@@ -290,6 +398,12 @@ export async function importBackup(
     }
   }
 
+  recordAudit({
+    action: 'backup.imported',
+    entityType: 'backup',
+    summary: `Backup from ${parsed.meta?.createdAt ?? 'an unknown date'} imported (${imported} items${overwrite ? ', overwriting' : ''})`,
+  })
+
   return { imported, warnings }
 }
 
@@ -1,22 +1,48 @@
-export async function fetchBookingByRef(ref: string): Promise<Booking | null> {
+type ConfirmationBooking = {
+  id?: string;
+  ref: string;
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  durationMinutes?: number;
+  packageName?: string;
+  priceCents?: number;
+  taxes?: BookingTaxLine[];
+  taxInclusive?: boolean;
+  notes?: string;
+  createdAt?: string;
+};
+
+export async function fetchBookingByRef(ref: string): Promise<ConfirmationBooking | null> {
   return new Promise((resolve) => {
     // simulate async, keep fast but allow UI to show loading when desired
     setTimeout(() => {
       try {
-        const raw = localStorage.getItem("bookings");
-        if (!raw) {
+        const found = findBookingByReference(String(ref));
+        if (!found) {
           resolve(null);
           return;
         }
-        const data = JSON.parse(raw);
-        if (!Array.isArray(data)) {
-          resolve(null);
-          return;
-        }
-        const found = data.find(
-          (b) => b && typeof b === "object" && String((b as any).ref) === String(ref)
-        );
-        resolve((found as Booking) ?? null);
+        resolve({
+          id: found.id,
+          ref: found.reference,
+          fullName: found.customer?.name,
+          email: found.customer?.email,
+          phone: found.customer?.phone,
+          date: found.start,
+          startTime: found.start,
+          endTime: found.end,
+          durationMinutes: found.durationMinutes,
+          packageName: found.packageName ?? undefined,
+          priceCents: typeof found.price === "number" ? Math.round(found.price * 100) : undefined,
+          taxes: found.taxes,
+          taxInclusive: found.taxInclusive,
+          notes: found.notes ?? undefined,
+          createdAt: found.createdAt,
+        });
       } catch (_err) {
         // malformed storage
         resolve(null);
@@ -117,10 +143,11 @@ export default function BookingConfirmationPage(): JSX.Element {
   const refFromQuery = search.get("ref") ?? undefined;
   const bookingRef = refFromParams ?? refFromQuery;
 
-  const [booking, setBooking] = useState<Booking | null | undefined>(undefined);
+  const [booking, setBooking] = useState<ConfirmationBooking | null | undefined>(undefined);
   const [loading, setLoading] = useState<boolean>(!!bookingRef);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -178,6 +205,19 @@ export default function BookingConfirmationPage(): JSX.Element {
     }, 1000);
   };
 
+  // The invoice is issued with the next number the first time it is asked for
+  const handleInvoice = (format: "print" | "pdf") => {
+    if (!booking?.id) return;
+    setInvoiceError(null);
+    try {
+      const invoice = issueInvoice(booking.id);
+      if (format === "pdf") downloadInvoicePdf(invoice);
+      else printInvoiceDocument(invoice);
+    } catch (err: any) {
+      setInvoiceError(err?.message || "Unable to create the invoice.");
+    }
+  };
+
   const handleCopyRef = async () => {
     if (!booking?.ref) return;
     const text = String(booking.ref);
@@ -319,6 +359,24 @@ export default function BookingConfirmationPage(): JSX.Element {
                 </dd>
               </div>
 
+              {booking.taxes && booking.taxes.length > 0 ? (
+                <div>
+                  <dt style={{ fontSize: 12, color: "var(--muted, #475569)", marginBottom: 4 }}>
+                    {booking.taxInclusive ? "Taxes included in the price" : "Taxes"}
+                  </dt>
+                  <dd style={{ margin: 0 }}>
+                    {booking.taxes.map((t) => (
+                      <div key={t.name} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+                        <span>
+                          {t.name} ({t.percent}%{t.compound ? ", compound" : ""})
+                        </span>
+                        <span>{formatCurrency(Math.round(t.amount * 100))}</span>
+                      </div>
+                    ))}
+                  </dd>
+                </div>
+              ) : null}
+
               {booking.notes ? (
                 <div>
                   <dt style={{ fontSize: 12, color: "var(--muted, #475569)", marginBottom: 4 }}>Notes</dt>
@@ -378,7 +436,46 @@ export default function BookingConfirmationPage(): JSX.Element {
               >
                 {copied ? "Copied" : "Copy reference"}
               </button>
+
+              {booking.id && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleInvoice("print")}
+                    style={{
+                      padding: "8px 12px",
+                      borderRadius: 8,
+                      border: "1px solid rgba(2,6,23,0.08)",
+                      background: "linear-gradient(180deg,#fff,#f8fafc)",
+                      cursor: "pointer",
+                    }}
+                    aria-label="View and print invoice"
+                  >
+                    Invoice
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={() => handleInvoice("pdf")}
+                    style={{
+                      padding: "8px 12px",
+                      borderRadius: 8,
+                      border: "1px solid rgba(2,6,23,0.08)",
+                      background: "linear-gradient(180deg,#fff,#f8fafc)",
+                      cursor: "pointer",
+                    }}
+                    aria-label="Download invoice as PDF"
+                  >
+                    Invoice PDF
+                  </button>
+                </>
+              )}
             </div>
+            {invoiceError && (
+              <p role="alert" style={{ marginTop: 8, color: "#b91c1c", fontSize: 13 }}>
+                {invoiceError}
+              </p>
+            )}
           </article>
         ) : (
           <div
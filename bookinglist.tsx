@@ -83,6 +83,10 @@ const statusClass = (status?: string) => {
     case "confirmed":
       return "status-badge status-confirmed";
     case "pending":
+    case "booked":
+    case "payment_submitted":
+    case "payment_verified":
+    case "payment_rejected":
       return "status-badge status-pending";
     case "cancelled":
       return "status-badge status-cancelled";
@@ -307,6 +311,10 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onSelect, onAction
             <option value="all">All</option>
             <option value="confirmed">Confirmed</option>
             <option value="pending">Pending</option>
+            <option value="booked">Awaiting payment</option>
+            <option value="payment_submitted">Proof to review</option>
+            <option value="payment_verified">Payment verified</option>
+            <option value="payment_rejected">Proof rejected</option>
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
@@ -1,85 +1,137 @@
-const STORAGE_KEY = "photobooth_bookings_v1";
+type ManagerStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "payment_requested"
+  | "awaiting_payment"
+  | "payment_submitted"
+  | "payment_verified"
+  | "payment_rejected";
 
-/* Utility helpers */
-const nowISO = () => new Date().toISOString();
+type ManagerBooking = {
+  id: string;
+  customerName: string;
+  email?: string;
+  phone?: string;
+  date: string; // YYYY-MM-DD (local)
+  time?: string; // HH:mm (local)
+  createdAt: string;
+  updatedAt: string;
+  approvedAt?: string;
+  amount?: number;
+  notes?: string;
+  status: ManagerStatus;
+  paymentProofRequested?: boolean;
+  rejectionReason?: string;
+  paymentProof?: BookingPaymentProof;
+  // Next statuses from the booking state machine; actions are enabled from this
+  transitions: TransitionOption[];
+  start: string;
+  durationMinutes: number;
+  packageId?: string;
+  location?: string;
+  canReschedule: boolean;
+  scheduleHistory: BookingScheduleEntry[];
+  // Position within a recurring or multi-day series, when the booking is one of its sessions
+  series?: { id: string; reference: string; index: number; total: number };
+  paymentSchedule: BookingInstallment[];
+  // Paid, outstanding and overdue amounts; not tracked for cancelled bookings
+  payment: PaymentScheduleSummary | null;
+};
 
-const generateId = () =>
-  Math.random().toString(36).slice(2, 9) + "-" + Date.now().toString(36);
+/* Utility helpers */
+const pad2 = (n: number) => String(n).padStart(2, "0");
 
-const loadBookings = (): Booking[] => {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return seedBookings();
-    const parsed = JSON.parse(raw) as Booking[];
-    if (!Array.isArray(parsed)) return seedBookings();
-    return parsed;
-  } catch {
-    return seedBookings();
+const toManagerStatus = (b: Booking): ManagerStatus => {
+  if (b.status === "confirmed" || b.status === "completed") return "approved";
+  if (b.status === "cancelled") return "rejected";
+  if (b.status === "payment_submitted" || b.status === "payment_verified" || b.status === "payment_rejected") {
+    return b.status;
   }
+  if (b.paymentProofRequested) return "payment_requested";
+  if (b.legacyStatus === "awaiting_payment") return "awaiting_payment";
+  return "pending";
 };
 
-const saveBookings = (bookings: Booking[]) => {
+/* Flatten a repository booking into the row shape this screen renders */
+const toManagerBooking = (b: Booking): ManagerBooking => {
+  const start = new Date(b.start);
+  const approved = b.statusHistory.filter((h) => h.status === "confirmed").pop();
+  return {
+    id: b.id,
+    customerName: b.customer?.name || "Unknown",
+    email: b.customer?.email || undefined,
+    phone: b.customer?.phone || undefined,
+    date: `${start.getFullYear()}-${pad2(start.getMonth() + 1)}-${pad2(start.getDate())}`,
+    time: `${pad2(start.getHours())}:${pad2(start.getMinutes())}`,
+    createdAt: b.createdAt,
+    updatedAt: b.updatedAt,
+    approvedAt: approved?.at,
+    amount: typeof b.price === "number" ? b.price : undefined,
+    notes: b.notes ?? undefined,
+    status: toManagerStatus(b),
+    paymentProofRequested: !!b.paymentProofRequested,
+    rejectionReason: b.rejectionReason ?? undefined,
+    paymentProof: b.paymentProof ?? undefined,
+    transitions: getAvailableTransitions(b),
+    start: b.start,
+    durationMinutes: b.durationMinutes,
+    packageId: b.packageId ?? undefined,
+    location: b.location ?? undefined,
+    canReschedule: b.status !== "cancelled" && b.status !== "completed",
+    scheduleHistory: b.scheduleHistory ?? [],
+    paymentSchedule: b.paymentSchedule ?? [],
+    payment:
+      b.paymentSchedule?.length && b.status !== "cancelled" ? summarizePaymentSchedule(b.paymentSchedule) : null,
+  };
+};
+
+/* The state machine's verdict on moving a row to `status`; missing means not reachable */
+const transitionTo = (b: ManagerBooking, status: BookingStatus): TransitionOption | undefined =>
+  b.transitions.find((t) => t.status === status);
+
+const loadBookings = (): ManagerBooking[] => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookings));
+    const all = readBookings();
+    const seriesRefs = new Map(readBookingSeries().map((s) => [s.id, s.reference]));
+    return all.map((b) => {
+      const row = toManagerBooking(b);
+      if (b.seriesId) {
+        const sessions = all.filter((x) => x.seriesId === b.seriesId).sort((x, y) => x.start.localeCompare(y.start));
+        row.series = {
+          id: b.seriesId,
+          reference: seriesRefs.get(b.seriesId) ?? b.seriesId,
+          index: sessions.findIndex((x) => x.id === b.id) + 1,
+          total: sessions.length,
+        };
+      }
+      return row;
+    });
   } catch {
-    // ignore localStorage write errors in demo
+    return [];
   }
 };
 
-const seedBookings = (): Booking[] => {
-  const sample: Booking[] = [
-    {
-      id: generateId(),
-      customerName: "Taylor Morgan",
-      email: "taylor@example.com",
-      phone: "555-1234",
-      date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 2)
-        .toISOString()
-        .slice(0, 10),
-      time: "18:00",
-      createdAt: nowISO(),
-      amount: 250,
-      notes: "Outdoor event. Needs a backdrop.",
-      status: "pending",
-      paymentProofRequested: false,
-      updatedAt: nowISO(),
-    },
-    {
-      id: generateId(),
-      customerName: "Jordan Lee",
-      email: "jordan@example.com",
-      phone: "555-5678",
-      date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7)
-        .toISOString()
-        .slice(0, 10),
-      time: "12:00",
-      createdAt: nowISO(),
-      amount: 150,
-      notes: "Corporate event ? 2 hours.",
-      status: "payment_requested",
-      paymentProofRequested: true,
-      updatedAt: nowISO(),
-    },
-  ];
-  saveBookings(sample);
-  return sample;
-};
-
 /* Main component */
 export default function BookingManager(): JSX.Element {
-  const [bookings, setBookings] = useState<Booking[]>(() => loadBookings());
+  const [bookings, setBookings] = useState<ManagerBooking[]>(() => loadBookings());
   const [query, setQuery] = useState("");
-  const [filterStatus, setFilterStatus] = useState<"all" | BookingStatus>("all");
+  const [filterStatus, setFilterStatus] = useState<"all" | ManagerStatus>("all");
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [processingIds, setProcessingIds] = useState<Record<string, boolean>>({});
   const [notice, setNotice] = useState<string | null>(null);
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [activeRejectId, setActiveRejectId] = useState<string | null>(null);
   const [rejectReasonInput, setRejectReasonInput] = useState("");
+  // The reason modal serves rejecting the booking, just its payment proof, or its whole series
+  const [rejectTarget, setRejectTarget] = useState<"booking" | "payment" | "series">("booking");
   const [sortBy, setSortBy] = useState<"date" | "created" | "customer">("date");
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [showSeriesForm, setShowSeriesForm] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
 
   // Refs for latest bookings (avoid stale closures) and modal focus management
-  const bookingsRef = useRef<Booking[]>(bookings);
+  const bookingsRef = useRef<ManagerBooking[]>(bookings);
   useEffect(() => {
     bookingsRef.current = bookings;
   }, [bookings]);
@@ -89,8 +141,9 @@ export default function BookingManager(): JSX.Element {
   const modalFirstFocusRef = useRef<HTMLTextAreaElement | null>(null);
 
   useEffect(() => {
-    saveBookings(bookings);
-  }, [bookings]);
+    // Reload whenever the booking repository changes (this tab or another)
+    return subscribeToBookings(() => setBookings(loadBookings()));
+  }, []);
 
   useEffect(() => {
     if (!notice) return;
@@ -103,6 +156,7 @@ export default function BookingManager(): JSX.Element {
     return bookings
       .filter((b) => {
         if (filterStatus !== "all" && b.status !== filterStatus) return false;
+        if (overdueOnly && !b.payment?.overdue.length) return false;
         if (!q) return true;
         return (
           b.customerName.toLowerCase().includes(q) ||
@@ -120,7 +174,7 @@ export default function BookingManager(): JSX.Element {
         }
         return a.customerName.localeCompare(b.customerName);
       });
-  }, [bookings, query, filterStatus, sortBy]);
+  }, [bookings, query, filterStatus, sortBy, overdueOnly]);
 
   const setProcessing = (id: string, value: boolean) =>
     setProcessingIds((s) => ({ ...s, [id]: value }));
@@ -191,10 +245,23 @@ export default function BookingManager(): JSX.Element {
     setShowRejectModal(false);
     setActiveRejectId(null);
     setRejectReasonInput("");
+    setRejectTarget("booking");
   };
 
+  // Function: permitted(permission: StaffPermission): boolean (shows why when the signed-in role cannot)
+  function permitted(permission: StaffPermission): boolean {
+    try {
+      requireStaffPermission(permission);
+      return true;
+    } catch (err: any) {
+      setNotice(`${err?.message || "Not allowed"}.`);
+      return false;
+    }
+  }
+
   // Function: approveBooking(id: string): Promise<void>
   async function approveBooking(id: string): Promise<void> {
+    if (!permitted("bookings.edit")) return;
     const booking = bookingsRef.current.find((b) => b.id === id);
     if (!booking) {
       setNotice("Booking not found.");
@@ -215,21 +282,15 @@ export default function BookingManager(): JSX.Element {
       // simulate async operation
       await new Promise((res) => setTimeout(res, 600));
 
-      setBookings((prev) =>
-        prev.map((b) =>
-          b.id === id
-            ? {
-                ...b,
-                status: "approved",
-                approvedAt: nowISO(),
-                updatedAt: nowISO(),
-                paymentProofRequested: false,
-              }
-            : b
-        )
-      );
+      const before = getStoredBooking(id);
+      await updateBookingStatus(id, "confirmed");
+      patchBooking(id, { paymentProofRequested: false });
+      recordBookingAudit("booking.approved", before, "approved");
+      setBookings(loadBookings());
       setNotice(`Booking approved for ${booking.customerName}.`);
       setExpandedId(id);
+    } catch (err: any) {
+      setNotice(err?.message || "Could not approve booking.");
     } finally {
       setProcessing(id, false);
     }
@@ -237,6 +298,7 @@ export default function BookingManager(): JSX.Element {
 
   // Function: rejectBooking(id: string, reason?: string): Promise<void>
   async function rejectBooking(id: string, reason?: string): Promise<void> {
+    if (!permitted("bookings.edit")) return;
     const booking = bookingsRef.current.find((b) => b.id === id);
     if (!booking) {
       setNotice("Booking not found.");
@@ -244,6 +306,7 @@ export default function BookingManager(): JSX.Element {
     }
     // If reason provided, proceed; otherwise open modal to collect
     if (!reason) {
+      setRejectTarget("booking");
       setActiveRejectId(id);
       setRejectReasonInput("");
       setShowRejectModal(true);
@@ -253,21 +316,128 @@ export default function BookingManager(): JSX.Element {
     setProcessing(id, true);
     try {
       await new Promise((res) => setTimeout(res, 500));
-      setBookings((prev) =>
-        prev.map((b) =>
-          b.id === id
-            ? {
-                ...b,
-                status: "rejected",
-                rejectionReason: reason,
-                updatedAt: nowISO(),
-              }
-            : b
-        )
-      );
+      const before = getStoredBooking(id);
+      await updateBookingStatus(id, "cancelled", reason);
+      patchBooking(id, { rejectionReason: reason });
+      recordBookingAudit("booking.rejected", before, `rejected: ${reason}`);
+      setBookings(loadBookings());
       setNotice(`Booking rejected${reason ? ` ? ${reason}` : ""}.`);
       closeRejectModal();
       setExpandedId(id);
+    } catch (err: any) {
+      setNotice(err?.message || "Could not reject booking.");
+    } finally {
+      setProcessing(id, false);
+    }
+  }
+
+  // Function: verifyPayment(id: string): Promise<void>
+  async function verifyPayment(id: string): Promise<void> {
+    if (!permitted("payments.record")) return;
+    const booking = bookingsRef.current.find((b) => b.id === id);
+    if (!booking) {
+      setNotice("Booking not found.");
+      return;
+    }
+
+    setProcessing(id, true);
+    try {
+      const before = getStoredBooking(id);
+      await verifyPaymentProof(id);
+      recordBookingAudit("booking.payment_proof_verified", before, "payment proof verified");
+      setBookings(loadBookings());
+      setNotice(`Payment proof verified for ${booking.customerName}.`);
+    } catch (err: any) {
+      setNotice(err?.message || "Could not verify payment proof.");
+    } finally {
+      setProcessing(id, false);
+    }
+  }
+
+  // Function: rejectPayment(id: string, reason?: string): Promise<void>
+  async function rejectPayment(id: string, reason?: string): Promise<void> {
+    if (!permitted("payments.record")) return;
+    const booking = bookingsRef.current.find((b) => b.id === id);
+    if (!booking) {
+      setNotice("Booking not found.");
+      return;
+    }
+    if (!reason) {
+      setRejectTarget("payment");
+      setActiveRejectId(id);
+      setRejectReasonInput("");
+      setShowRejectModal(true);
+      return;
+    }
+
+    setProcessing(id, true);
+    try {
+      const before = getStoredBooking(id);
+      await rejectPaymentProof(id, reason);
+      recordBookingAudit("booking.payment_proof_rejected", before, `payment proof rejected: ${reason}`);
+      setBookings(loadBookings());
+      setNotice(`Payment proof rejected for ${booking.customerName}; they can upload a new one.`);
+      closeRejectModal();
+    } catch (err: any) {
+      setNotice(err?.message || "Could not reject payment proof.");
+    } finally {
+      setProcessing(id, false);
+    }
+  }
+
+  // Function: completeBooking(id: string): Promise<void>
+  async function completeBooking(id: string): Promise<void> {
+    if (!permitted("bookings.complete")) return;
+    const booking = bookingsRef.current.find((b) => b.id === id);
+    if (!booking) {
+      setNotice("Booking not found.");
+      return;
+    }
+
+    setProcessing(id, true);
+    try {
+      const before = getStoredBooking(id);
+      await updateBookingStatus(id, "completed");
+      recordBookingAudit("booking.completed", before, "marked completed");
+      setBookings(loadBookings());
+      setNotice(`Booking for ${booking.customerName} marked as completed.`);
+    } catch (err: any) {
+      setNotice(err?.message || "Could not complete booking.");
+    } finally {
+      setProcessing(id, false);
+    }
+  }
+
+  // Function: cancelSeries(id: string, reason?: string): Promise<void> (id is any session of the series)
+  async function cancelSeries(id: string, reason?: string): Promise<void> {
+    if (!permitted("bookings.edit")) return;
+    const booking = bookingsRef.current.find((b) => b.id === id);
+    if (!booking?.series) {
+      setNotice("Series not found.");
+      return;
+    }
+    if (!reason) {
+      setRejectTarget("series");
+      setActiveRejectId(id);
+      setRejectReasonInput("");
+      setShowRejectModal(true);
+      return;
+    }
+
+    setProcessing(id, true);
+    try {
+      await cancelBookingSeries(booking.series.id, reason);
+      recordAudit({
+        action: "booking.series_cancelled",
+        entityType: "booking",
+        entityId: booking.series.id,
+        summary: `Series ${booking.series.reference} cancelled: ${reason}`,
+      });
+      setBookings(loadBookings());
+      setNotice(`Series ${booking.series.reference} cancelled.`);
+      closeRejectModal();
+    } catch (err: any) {
+      setNotice(err?.message || "Could not cancel the series.");
     } finally {
       setProcessing(id, false);
     }
@@ -275,6 +445,7 @@ export default function BookingManager(): JSX.Element {
 
   // Function: requestPaymentProof(id: string): Promise<void>
   async function requestPaymentProof(id: string): Promise<void> {
+    if (!permitted("payments.record")) return;
     const booking = bookingsRef.current.find((b) => b.id === id);
     if (!booking) {
       setNotice("Booking not found.");
@@ -293,18 +464,10 @@ export default function BookingManager(): JSX.Element {
     setProcessing(id, true);
     try {
       await new Promise((res) => setTimeout(res, 500));
-      setBookings((prev) =>
-        prev.map((b) =>
-          b.id === id
-            ? {
-                ...b,
-                paymentProofRequested: true,
-                status: "payment_requested",
-                updatedAt: nowISO(),
-              }
-            : b
-        )
-      );
+      const before = getStoredBooking(id);
+      patchBooking(id, { paymentProofRequested: true });
+      recordBookingAudit("booking.payment_proof_requested", before, "payment proof requested");
+      setBookings(loadBookings());
       setNotice(`Requested payment proof from ${booking.customerName}.`);
       setExpandedId(id);
     } finally {
@@ -312,34 +475,85 @@ export default function BookingManager(): JSX.Element {
     }
   }
 
+  // Function: setUpPaymentSchedule(id: string): void
+  function setUpPaymentSchedule(id: string): void {
+    if (!permitted("payments.record")) return;
+    try {
+      const before = getStoredBooking(id);
+      attachPaymentSchedule(id);
+      recordBookingAudit("booking.payment_schedule_created", before, "payment schedule created");
+      setBookings(loadBookings());
+      setNotice("Payment schedule created.");
+    } catch (err: any) {
+      setNotice(err?.message || "Could not create a payment schedule.");
+    }
+  }
+
+  const handleRescheduled = (booking: Booking) => {
+    const previous = booking.scheduleHistory?.[booking.scheduleHistory.length - 1];
+    recordAudit({
+      action: "booking.rescheduled",
+      entityType: "booking",
+      entityId: booking.id,
+      summary: `${booking.reference}: moved to ${new Date(booking.start).toLocaleString()}`,
+      before: previous ? { start: previous.start, end: previous.end } : null,
+      after: { start: booking.start, end: booking.end },
+    });
+    setReschedulingId(null);
+    setBookings(loadBookings());
+    setNotice(`Booking for ${booking.customer?.name || "customer"} moved to ${new Date(booking.start).toLocaleString()}.`);
+    setExpandedId(booking.id);
+  };
+
   const handleRejectSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
     const id = activeRejectId;
     if (!id) return;
     const reason = rejectReasonInput.trim() || "No reason provided";
-    await rejectBooking(id, reason);
+    if (rejectTarget === "payment") await rejectPayment(id, reason);
+    else if (rejectTarget === "series") await cancelSeries(id, reason);
+    else await rejectBooking(id, reason);
   };
 
-  const handleCreateMockBooking = () => {
-    const newBooking: Booking = {
-      id: generateId(),
-      customerName: "New Customer",
-      email: undefined,
-      phone: undefined,
-      date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 3)
-        .toISOString()
-        .slice(0, 10),
-      time: "14:00",
-      createdAt: nowISO(),
-      amount: 100,
-      notes: "Quick add.",
-      status: "pending",
-      paymentProofRequested: false,
-      updatedAt: nowISO(),
-    };
-    setBookings((b) => [newBooking, ...b]);
-    setNotice("Mock booking added.");
-    setExpandedId(newBooking.id);
+  const handleSeriesCreated = ({ id, bookingIds }: { id: string; bookingIds: string[] }) => {
+    recordAudit({
+      action: "booking.series_created",
+      entityType: "booking",
+      entityId: id,
+      summary: `Series created with ${bookingIds.length} sessions`,
+    });
+    setShowSeriesForm(false);
+    setBookings(loadBookings());
+    setNotice(`Series created with ${bookingIds.length} session${bookingIds.length === 1 ? "" : "s"}.`);
+    setExpandedId(bookingIds[0] ?? null);
+  };
+
+  const handleCreateMockBooking = async () => {
+    if (!permitted("bookings.edit")) return;
+    const start = new Date(Date.now() + 1000 * 60 * 60 * 24 * 3);
+    start.setHours(14, 0, 0, 0);
+    try {
+      const { id } = await createBooking({
+        start,
+        durationMinutes: 120,
+        customer: { name: "New Customer", email: "" },
+        price: 100,
+        notes: "Quick add.",
+      });
+      const created = getStoredBooking(id);
+      recordAudit({
+        action: "booking.created",
+        entityType: "booking",
+        entityId: id,
+        summary: `${created?.reference ?? id}: added from the booking manager`,
+        after: created,
+      });
+      setBookings(loadBookings());
+      setNotice("Mock booking added.");
+      setExpandedId(id);
+    } catch (err: any) {
+      setNotice(err?.message || "Could not add booking.");
+    }
   };
 
   return (
@@ -385,9 +599,28 @@ export default function BookingManager(): JSX.Element {
           >
             + Add Booking
           </button>
+          <button
+            onClick={() => (showSeriesForm || permitted("bookings.edit")) && setShowSeriesForm((v) => !v)}
+            style={{
+              background: "transparent",
+              color: "#111827",
+              border: "1px solid #e5e7eb",
+              padding: "8px 12px",
+              borderRadius: 8,
+              fontSize: 13,
+              cursor: "pointer",
+            }}
+            aria-expanded={showSeriesForm}
+          >
+            + Add Series
+          </button>
         </div>
       </header>
 
+      {showSeriesForm && (
+        <BookingSeriesForm onCreated={handleSeriesCreated} onCancel={() => setShowSeriesForm(false)} />
+      )}
+
       <section
         style={{
           display: "flex",
@@ -427,6 +660,9 @@ export default function BookingManager(): JSX.Element {
             <option value="rejected">Rejected</option>
             <option value="payment_requested">Payment Requested</option>
             <option value="awaiting_payment">Awaiting Payment</option>
+            <option value="payment_submitted">Proof to review</option>
+            <option value="payment_verified">Payment verified</option>
+            <option value="payment_rejected">Proof rejected</option>
           </select>
 
           <select
@@ -444,6 +680,11 @@ export default function BookingManager(): JSX.Element {
             <option value="created">Sort by newest</option>
             <option value="customer">Sort by customer</option>
           </select>
+
+          <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13, color: "#374151" }}>
+            <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+            Overdue payments only
+          </label>
         </div>
       </section>
 
@@ -471,6 +712,11 @@ export default function BookingManager(): JSX.Element {
           >
             {filtered.map((b) => {
               const busy = !!processingIds[b.id];
+              const verify = transitionTo(b, "payment_verified");
+              const rejectProof = transitionTo(b, "payment_rejected");
+              const approve = transitionTo(b, "confirmed");
+              const reject = transitionTo(b, "cancelled");
+              const complete = transitionTo(b, "completed");
               return (
                 <li
                   key={b.id}
@@ -500,6 +746,11 @@ export default function BookingManager(): JSX.Element {
                           <span style={{ fontSize: 13, color: "#6b7280" }}>
                             {b.email || b.phone || "No contact info"}
                           </span>
+                          {b.series && (
+                            <span style={{ display: "block", fontSize: 12, color: "#3730a3" }}>
+                              Series {b.series.reference}, session {b.series.index} of {b.series.total}
+                            </span>
+                          )}
                         </div>
                         <div style={{ textAlign: "right", minWidth: 120 }}>
                           <div style={{ fontSize: 13, color: "#6b7280" }}>
@@ -511,6 +762,11 @@ export default function BookingManager(): JSX.Element {
                               paymentRequested={b.paymentProofRequested}
                             />
                           </div>
+                          {b.payment && b.payment.overdue.length > 0 && (
+                            <div style={{ marginTop: 6, fontSize: 12, color: "#991b1b" }}>
+                              {b.payment.overdueAmount.toFixed(2)} overdue
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -526,27 +782,82 @@ export default function BookingManager(): JSX.Element {
                           {expandedId === b.id ? "Hide details" : "View details"}
                         </button>
 
-                        <button
-                          onClick={() => approveBooking(b.id)}
-                          style={actionPrimaryButtonStyle}
-                          disabled={busy || b.status === "approved"}
-                          aria-disabled={busy || b.status === "approved"}
-                          aria-label={`Approve booking ${b.customerName}`}
-                        >
-                          {processingIds[b.id] && b.status !== "approved"
-                            ? "Processing?"
-                            : "Approve"}
-                        </button>
+                        {verify && (
+                          <button
+                            onClick={() => verifyPayment(b.id)}
+                            style={actionButtonStyle}
+                            disabled={busy || !verify.allowed}
+                            aria-disabled={busy || !verify.allowed}
+                            title={verify.reason ?? undefined}
+                            aria-label={`Verify payment proof for ${b.customerName}`}
+                          >
+                            Verify payment
+                          </button>
+                        )}
 
-                        <button
-                          onClick={() => rejectBooking(b.id)}
-                          style={actionDangerButtonStyle}
-                          disabled={busy || b.status === "rejected"}
-                          aria-disabled={busy || b.status === "rejected"}
-                          aria-label={`Reject booking ${b.customerName}`}
-                        >
-                          Reject
-                        </button>
+                        {rejectProof && (
+                          <button
+                            onClick={() => rejectPayment(b.id)}
+                            style={actionButtonStyle}
+                            disabled={busy || !rejectProof.allowed}
+                            aria-disabled={busy || !rejectProof.allowed}
+                            title={rejectProof.reason ?? undefined}
+                            aria-label={`Reject payment proof for ${b.customerName}`}
+                          >
+                            Reject proof
+                          </button>
+                        )}
+
+                        {approve && (
+                          <button
+                            onClick={() => approveBooking(b.id)}
+                            style={actionPrimaryButtonStyle}
+                            disabled={busy || !approve.allowed}
+                            aria-disabled={busy || !approve.allowed}
+                            title={approve.reason ?? undefined}
+                            aria-label={`Approve booking ${b.customerName}`}
+                          >
+                            {processingIds[b.id] ? "Processing?" : "Approve"}
+                          </button>
+                        )}
+
+                        {reject && (
+                          <button
+                            onClick={() => rejectBooking(b.id)}
+                            style={actionDangerButtonStyle}
+                            disabled={busy || !reject.allowed}
+                            aria-disabled={busy || !reject.allowed}
+                            title={reject.reason ?? undefined}
+                            aria-label={`${b.series ? "Cancel session" : "Reject booking"} ${b.customerName}`}
+                          >
+                            {b.series ? "Cancel session" : "Reject"}
+                          </button>
+                        )}
+
+                        {b.series && reject && (
+                          <button
+                            onClick={() => cancelSeries(b.id)}
+                            style={actionDangerButtonStyle}
+                            disabled={busy}
+                            aria-disabled={busy}
+                            aria-label={`Cancel series ${b.series.reference}`}
+                          >
+                            Cancel series
+                          </button>
+                        )}
+
+                        {complete && (
+                          <button
+                            onClick={() => completeBooking(b.id)}
+                            style={actionButtonStyle}
+                            disabled={busy || !complete.allowed}
+                            aria-disabled={busy || !complete.allowed}
+                            title={complete.reason ?? undefined}
+                            aria-label={`Mark booking ${b.customerName} completed`}
+                          >
+                            Mark completed
+                          </button>
+                        )}
 
                         <button
                           onClick={() => requestPaymentProof(b.id)}
@@ -556,7 +867,33 @@ export default function BookingManager(): JSX.Element {
                         >
                           {b.paymentProofRequested ? "Payment requested" : "Request payment proof"}
                         </button>
+
+                        {b.canReschedule && (
+                          <button
+                            onClick={() => permitted("bookings.edit") && setReschedulingId((id) => (id === b.id ? null : b.id))}
+                            style={actionButtonStyle}
+                            disabled={busy}
+                            aria-disabled={busy}
+                            aria-expanded={reschedulingId === b.id}
+                            aria-label={`Reschedule booking ${b.customerName}`}
+                          >
+                            Reschedule
+                          </button>
+                        )}
                       </div>
+
+                      {reschedulingId === b.id && (
+                        <RescheduleBookingForm
+                          bookingId={b.id}
+                          start={b.start}
+                          durationMinutes={b.durationMinutes}
+                          packageId={b.packageId}
+                          location={b.location}
+                          by="admin"
+                          onRescheduled={handleRescheduled}
+                          onCancel={() => setReschedulingId(null)}
+                        />
+                      )}
                     </div>
                   </div>
 
@@ -583,11 +920,59 @@ export default function BookingManager(): JSX.Element {
                             <strong>Rejection reason:</strong> {b.rejectionReason}
                           </div>
                         )}
+                        {b.paymentProof && (
+                          <div style={{ fontSize: 13, color: "#6b7280" }}>
+                            <strong>Payment proof:</strong>{" "}
+                            {b.paymentProof.dataUrl ? (
+                              <a href={b.paymentProof.dataUrl} target="_blank" rel="noopener noreferrer">
+                                {b.paymentProof.fileName}
+                              </a>
+                            ) : (
+                              b.paymentProof.fileName
+                            )}{" "}
+                            (uploaded {new Date(b.paymentProof.uploadedAt).toLocaleString()}
+                            {b.paymentProof.verifiedAt
+                              ? `, verified ${new Date(b.paymentProof.verifiedAt).toLocaleString()}`
+                              : ""}
+                            )
+                            {b.paymentProof.rejectionReason && (
+                              <div style={{ color: "#b91c1c" }}>Rejected: {b.paymentProof.rejectionReason}</div>
+                            )}
+                          </div>
+                        )}
                         {b.paymentProofRequested && (
                           <div style={{ fontSize: 13, color: "#92400e" }}>
                             <strong>Payment status:</strong> Payment proof requested
                           </div>
                         )}
+                        {b.paymentSchedule.length > 0 ? (
+                          <PaymentScheduleTable booking={b} />
+                        ) : (
+                          !!b.amount &&
+                          b.status !== "rejected" && (
+                            <div>
+                              <button onClick={() => setUpPaymentSchedule(b.id)} style={actionButtonStyle} disabled={busy}>
+                                Set up payment schedule
+                              </button>
+                            </div>
+                          )
+                        )}
+                        <PaymentLedgerPanel bookingId={b.id} />
+                        {b.scheduleHistory.length > 0 && (
+                          <div style={{ fontSize: 13, color: "#6b7280" }}>
+                            <strong>Schedule history:</strong>
+                            <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+                              {b.scheduleHistory.map((h) => (
+                                <li key={h.movedAt}>
+                                  {new Date(h.start).toLocaleString()} - {new Date(h.end).toLocaleTimeString()}, moved{" "}
+                                  {new Date(h.movedAt).toLocaleString()}
+                                  {h.by ? ` by ${h.by}` : ""}
+                                  {h.reason ? ` (${h.reason})` : ""}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -651,7 +1036,11 @@ export default function BookingManager(): JSX.Element {
             }}
           >
             <h2 id="reject-modal-title" style={{ margin: 0, fontSize: 18 }}>
-              Reject booking
+              {rejectTarget === "payment"
+                ? "Reject payment proof"
+                : rejectTarget === "series"
+                ? "Cancel series"
+                : "Reject booking"}
             </h2>
             <p style={{ marginTop: 8, color: "#6b7280", fontSize: 13 }}>
               Provide a reason to notify the customer (optional, will be saved).
@@ -715,7 +1104,7 @@ export default function BookingManager(): JSX.Element {
 
 /* Small presentational helpers */
 
-function StatusPill({ status, paymentRequested }: { status: BookingStatus; paymentRequested?: boolean }) {
+function StatusPill({ status, paymentRequested }: { status: ManagerStatus; paymentRequested?: boolean }) {
   const label =
     status === "pending"
       ? "Pending"
@@ -727,19 +1116,33 @@ function StatusPill({ status, paymentRequested }: { status: BookingStatus; payme
       ? "Payment requested"
       : status === "awaiting_payment"
       ? "Awaiting payment"
+      : status === "payment_submitted"
+      ? "Proof to review"
+      : status === "payment_verified"
+      ? "Payment verified"
+      : status === "payment_rejected"
+      ? "Proof rejected"
       : "Unknown";
 
   const bg =
-    status === "approved"
+    status === "approved" || status === "payment_verified"
       ? "#ecfeff"
-      : status === "rejected"
+      : status === "rejected" || status === "payment_rejected"
       ? "#fff1f2"
+      : status === "payment_submitted"
+      ? "#eef2ff"
       : status === "pending"
       ? "#fff7ed"
       : "#fffbeb";
 
   const color =
-    status === "approved" ? "#065f46" : status === "rejected" ? "#991b1b" : "#92400e";
+    status === "approved" || status === "payment_verified"
+      ? "#065f46"
+      : status === "rejected" || status === "payment_rejected"
+      ? "#991b1b"
+      : status === "payment_submitted"
+      ? "#3730a3"
+      : "#92400e";
 
   return (
     <span
@@ -760,6 +1163,35 @@ function StatusPill({ status, paymentRequested }: { status: BookingStatus; payme
   );
 }
 
+function PaymentScheduleTable({ booking }: { booking: ManagerBooking }) {
+  const summary = booking.payment ?? summarizePaymentSchedule(booking.paymentSchedule);
+  return (
+    <div style={{ fontSize: 13, color: "#6b7280" }}>
+      <strong>Payment schedule:</strong> {summary.paid.toFixed(2)} of {summary.total.toFixed(2)} paid,{" "}
+      {summary.outstanding.toFixed(2)} outstanding
+      <table style={{ width: "100%", marginTop: 6, borderCollapse: "collapse" }}>
+        <tbody>
+          {booking.paymentSchedule.map((i) => {
+            const status = installmentStatus(i);
+            return (
+              <tr key={i.id} style={{ borderTop: "1px solid #f1f5f9" }}>
+                <td style={{ padding: "4px 0" }}>{i.label}</td>
+                <td>due {new Date(i.dueAt).toLocaleDateString()}</td>
+                <td>
+                  {i.paid.toFixed(2)} / {i.amount.toFixed(2)}
+                </td>
+                <td style={{ color: status === "overdue" ? "#991b1b" : status === "paid" ? "#065f46" : undefined }}>
+                  {status === "paid" ? `Paid ${i.paidAt ? new Date(i.paidAt).toLocaleDateString() : ""}` : status === "overdue" ? "Overdue" : "Open"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 const actionButtonStyle: React.CSSProperties = {
   background: "transparent",
   border: "1px solid #e5e7eb",
@@ -0,0 +1,803 @@
+const BOOKINGS_KEY = 'pb_bookings_v3';
+const UNMIGRATED_KEY = 'pb_bookings_unmigrated_v1';
+const SERIES_KEY = 'pb_booking_series_v1';
+const CHANGE_EVENT = 'pb:bookings-changed';
+const DEFAULT_DURATION_MINUTES = 60;
+
+/**
+ * Keys that held bookings before the repository existed, each written by a different page
+ * in its own shape. migrateLegacyBookings folds all of them into BOOKINGS_KEY.
+ */
+export const LEGACY_BOOKING_KEYS: readonly string[] = [
+  'pb_bookings_v1', // bookingservice.ts
+  'pb_bookings_v2', // customerdashboard.tsx
+  'photoboothBookings', // summarypage.tsx
+  'photobooth_bookings_v1', // bookingmanager.tsx
+  'photobooth_bookings_v2', // gallerymanager.tsx
+  'bookings', // admindashboard.tsx, datetimepicker.tsx, bookingconfirmation.tsx
+  'photobooth:bookings', // adminsetupwizard.tsx, app.tsx
+  'photobooth.bookings.v1', // app.jsx
+];
+
+// Bookings (and the legacy keys the v2 migration reads) are stored through storageservice
+registerStorageKeys([BOOKINGS_KEY, UNMIGRATED_KEY, SERIES_KEY, ...LEGACY_BOOKING_KEYS]);
+
+/**
+ * One status model for the booking and its payment review:
+ * booked (awaiting payment) > payment_submitted > payment_verified | payment_rejected > confirmed.
+ */
+export const BOOKING_STATUSES = [
+  'draft',
+  'booked',
+  'payment_submitted',
+  'payment_verified',
+  'payment_rejected',
+  'confirmed',
+  'cancelled',
+  'completed',
+] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/**
+ * Status words used by the pages before the repository existed, mapped onto the canonical set.
+ * The original word is kept in Booking.legacyStatus whenever it is not canonical itself.
+ */
+const LEGACY_STATUS_MAP: Record<string, BookingStatus> = {
+  pending: 'booked',
+  pending_payment: 'booked',
+  payment_requested: 'booked',
+  awaiting_payment: 'booked',
+  submitted: 'payment_submitted',
+  payment_approved: 'payment_verified',
+  verified: 'payment_verified',
+  payment_declined: 'payment_rejected',
+  approved: 'confirmed',
+  // payment_rejected instead when the booking carries a proof (normalizeBooking, reconcileStatus)
+  rejected: 'cancelled',
+  canceled: 'cancelled',
+};
+
+export interface BookingCustomer {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+export interface BookingStatusEntry {
+  status: BookingStatus;
+  at: string;
+  reason?: string;
+}
+
+/** A slot the booking used to occupy, recorded each time it is rescheduled. */
+export interface BookingScheduleEntry {
+  start: string;
+  end: string;
+  movedAt: string;
+  reason?: string;
+  by?: 'customer' | 'admin';
+}
+
+export interface BookingAddOn {
+  id: string;
+  name: string;
+  price: number;
+  quantity?: number;
+}
+
+export interface BookingPaymentProof {
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
+  uploadedAt: string;
+  /** Set when an admin has checked the proof; a re-upload replaces the proof and clears it. */
+  verifiedAt?: string;
+  /** Why the proof was rejected, shown to the customer until they upload a new one. */
+  rejectionReason?: string;
+}
+
+/** A tax charged on the booking, as worked out at checkout (taxservice.ts). */
+export interface BookingTaxLine {
+  name: string;
+  percent: number;
+  compound: boolean;
+  amount: number;
+}
+
+/** A pre-tax item of a booking's price as priced at checkout; discounts are negative. */
+export interface BookingPriceLine {
+  label: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/** One payment due on a booking: the deposit, an installment or the balance (paymentscheduleservice.ts). */
+export interface BookingInstallment {
+  id: string;
+  kind: 'deposit' | 'installment' | 'balance';
+  label: string;
+  dueAt: string;
+  amount: number;
+  /** Received so far; the installment is settled once this reaches `amount`. */
+  paid: number;
+  paidAt?: string;
+}
+
+export interface Booking {
+  id: string;
+  reference: string;
+  createdAt: string;
+  updatedAt: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  packageId: string | null;
+  packageName?: string | null;
+  customer: BookingCustomer | null;
+  status: BookingStatus;
+  statusHistory: BookingStatusEntry[];
+  /** Previous slots, oldest first. */
+  scheduleHistory?: BookingScheduleEntry[];
+  price: number | null;
+  notes: string | null;
+  location?: string | null;
+  guests?: number | null;
+  addOns?: BookingAddOn[];
+  /** What `price` is made of before tax (calculateTotals): items, pricing rules and discounts. */
+  priceLines?: BookingPriceLine[];
+  /** Per-rate tax breakdown; `price` already includes these amounts. */
+  taxes?: BookingTaxLine[];
+  /** The listed prices included tax, so `taxes` were extracted rather than added. */
+  taxInclusive?: boolean;
+  /** When each part of `price` is due, in due order. */
+  paymentSchedule?: BookingInstallment[];
+  paymentProof?: BookingPaymentProof | null;
+  paymentProofRequested?: boolean;
+  rejectionReason?: string | null;
+  galleryId?: string | null;
+  /** Resources (booths, attendants, backdrops) held by this booking; see resourceservice.ts. */
+  resourceIds?: string[];
+  /** Set on every session of a recurring or multi-day booking; see BookingSeries. */
+  seriesId?: string;
+  legacyStatus?: string;
+}
+
+/** How a series repeats. The first session sets the time of day and the duration. */
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly';
+  /** Every n days or weeks. */
+  interval: number;
+  /** Weekly only: weekdays to repeat on (0 is Sunday). Defaults to the first session's weekday. */
+  weekdays?: number[];
+  /** Stop after this many sessions or after `until` ("YYYY-MM-DD", inclusive), whichever comes first. */
+  count?: number;
+  until?: string;
+}
+
+/**
+ * Parent record of a recurring or multi-day booking. Each session is a normal Booking with
+ * seriesId set, so availability, calendars and lists keep working per session; the series
+ * carries what the sessions share. Its status is derived from the sessions (bookingservice).
+ */
+export interface BookingSeries {
+  id: string;
+  reference: string;
+  createdAt: string;
+  updatedAt: string;
+  customer: BookingCustomer | null;
+  packageId: string | null;
+  packageName?: string | null;
+  location?: string | null;
+  /** Price for the whole series; sessions carry an even share so per-booking totals add up. */
+  price: number | null;
+  notes: string | null;
+  /** Null when the sessions were listed explicitly. */
+  recurrence: RecurrenceRule | null;
+  /** Session booking ids in chronological order. */
+  sessionIds: string[];
+}
+
+type MigrationContext = {
+  getItem: <T>(key: string) => T | string | null;
+  setItem: <T>(key: string, value: T) => void;
+  removeItem: (key: string) => void;
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof (crypto as any).randomUUID === 'function') {
+    return (crypto as any).randomUUID();
+  }
+  return 'b_' + Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+}
+
+/**
+ * Short, human-friendly reference customers can type into the dashboard login.
+ */
+export function generateBookingReference(): string {
+  return 'REF' + Math.random().toString(36).slice(2, 8).toUpperCase();
+}
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (BOOKING_STATUSES as readonly string[]).includes(value);
+}
+
+function isoOrNull(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const d = value instanceof Date ? value : new Date(value as any);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/**
+ * Combine a "YYYY-MM-DD" date and an optional "HH:mm" time as local time.
+ * Anything that does not look like a plain date is handed to the Date constructor.
+ */
+function localDateTimeToIso(date: unknown, time?: unknown): string | null {
+  if (typeof date !== 'string' || !date.trim()) return isoOrNull(date);
+  const m = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return isoOrNull(date);
+  let hours = 0;
+  let minutes = 0;
+  if (typeof time === 'string') {
+    const t = time.trim().match(/^(\d{1,2}):(\d{2})/);
+    if (t) {
+      hours = Number(t[1]);
+      minutes = Number(t[2]);
+    }
+  }
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), hours, minutes, 0, 0);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+}
+
+function num(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function normalizeStatus(raw: unknown): { status: BookingStatus; legacyStatus?: string } {
+  if (isBookingStatus(raw)) return { status: raw };
+  if (typeof raw === 'string' && raw.trim()) {
+    const key = raw.trim().toLowerCase();
+    return { status: LEGACY_STATUS_MAP[key] ?? 'booked', legacyStatus: raw.trim() };
+  }
+  return { status: 'booked' };
+}
+
+/* A legacy "rejected" booking whose proof was turned down; earlier versions cancelled these */
+function isRejectedProof(legacyStatus: string | undefined, proof: BookingPaymentProof | null | undefined): boolean {
+  return !!proof && !proof.verifiedAt && legacyStatus?.trim().toLowerCase() === 'rejected';
+}
+
+function normalizeCustomer(e: any): BookingCustomer | null {
+  const source = e.customer && typeof e.customer === 'object' ? e.customer : e.draft?.customer ?? e;
+  const name = str(source.name) ?? str(source.fullName) ?? str(source.customerName) ?? str(e.customerName);
+  const email = str(source.email);
+  const phone = str(source.phone);
+  if (!name && !email && !phone) return null;
+  return {
+    name: name ?? '',
+    email: email ?? '',
+    ...(phone ? { phone } : {}),
+  };
+}
+
+function normalizeTaxLines(raw: unknown[]): BookingTaxLine[] {
+  const out: BookingTaxLine[] = [];
+  for (const t of raw) {
+    if (!t || typeof t !== 'object') continue;
+    const amount = num((t as any).amount);
+    if (amount === null) continue;
+    out.push({
+      name: str((t as any).name) ?? 'Tax',
+      percent: num((t as any).percent) ?? 0,
+      compound: (t as any).compound === true,
+      amount,
+    });
+  }
+  return out;
+}
+
+function normalizePriceLines(raw: unknown[]): BookingPriceLine[] {
+  const out: BookingPriceLine[] = [];
+  for (const l of raw) {
+    if (!l || typeof l !== 'object') continue;
+    const amount = num((l as any).amount);
+    if (amount === null) continue;
+    const quantity = num((l as any).quantity) ?? 1;
+    out.push({
+      label: str((l as any).label) ?? 'Item',
+      quantity,
+      unitPrice: num((l as any).unitPrice) ?? (quantity ? amount / quantity : amount),
+      amount,
+    });
+  }
+  return out;
+}
+
+function normalizeInstallments(raw: unknown[]): BookingInstallment[] {
+  const out: BookingInstallment[] = [];
+  for (const i of raw) {
+    if (!i || typeof i !== 'object') continue;
+    const id = str((i as any).id);
+    const dueAt = isoOrNull((i as any).dueAt);
+    const amount = num((i as any).amount);
+    if (!id || !dueAt || amount === null) continue;
+    const kind = (i as any).kind;
+    const paidAt = isoOrNull((i as any).paidAt);
+    out.push({
+      id,
+      kind: kind === 'deposit' || kind === 'balance' ? kind : 'installment',
+      label: str((i as any).label) ?? 'Payment',
+      dueAt,
+      amount,
+      paid: Math.max(0, num((i as any).paid) ?? 0),
+      ...(paidAt ? { paidAt } : {}),
+    });
+  }
+  return out.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+function normalizeAddOns(raw: unknown): BookingAddOn[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const out: BookingAddOn[] = [];
+  for (const a of raw) {
+    if (typeof a === 'string') {
+      out.push({ id: a, name: a, price: 0 });
+      continue;
+    }
+    if (!a || typeof a !== 'object') continue;
+    const id = str((a as any).id) ?? str((a as any).name);
+    if (!id) continue;
+    const quantity = num((a as any).quantity);
+    out.push({
+      id,
+      name: str((a as any).name) ?? str((a as any).label) ?? id,
+      price: num((a as any).price) ?? 0,
+      ...(quantity !== null ? { quantity } : {}),
+    });
+  }
+  return out;
+}
+
+function normalizeScheduleHistory(raw: unknown[]): BookingScheduleEntry[] {
+  const out: BookingScheduleEntry[] = [];
+  for (const h of raw) {
+    if (!h || typeof h !== 'object') continue;
+    const start = isoOrNull((h as any).start);
+    const end = isoOrNull((h as any).end);
+    if (!start || !end) continue;
+    const by = (h as any).by === 'customer' || (h as any).by === 'admin' ? (h as any).by : undefined;
+    out.push({
+      start,
+      end,
+      movedAt: isoOrNull((h as any).movedAt) ?? nowIso(),
+      ...(str((h as any).reason) ? { reason: str((h as any).reason)! } : {}),
+      ...(by ? { by } : {}),
+    });
+  }
+  return out;
+}
+
+function normalizePaymentProof(raw: any): BookingPaymentProof | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const verifiedAt = isoOrNull(raw.verifiedAt);
+  return {
+    fileName: str(raw.fileName) ?? str(raw.filename) ?? 'payment-proof',
+    mimeType: str(raw.mimeType) ?? '',
+    dataUrl: typeof raw.dataUrl === 'string' ? raw.dataUrl : '',
+    uploadedAt: isoOrNull(raw.uploadedAt) ?? nowIso(),
+    ...(verifiedAt ? { verifiedAt } : {}),
+    ...(str(raw.rejectionReason) ? { rejectionReason: str(raw.rejectionReason)! } : {}),
+  };
+}
+
+/**
+ * Convert any booking shape the app has ever stored into the canonical Booking.
+ * Canonical records pass through unchanged apart from defaulting missing fields.
+ * Returns null when no start time can be recovered; such records cannot take part in
+ * availability checks and are quarantined by the migration instead of being dropped.
+ */
+export function normalizeBooking(entry: unknown): Booking | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const e: any = entry;
+  const draft: any = e.draft && typeof e.draft === 'object' ? e.draft : null;
+
+  const start =
+    isoOrNull(e.start) ??
+    isoOrNull(e.startISO) ??
+    isoOrNull(e.startTime) ??
+    (e.date ? localDateTimeToIso(e.date, e.time) : null) ??
+    (draft?.event?.date ? localDateTimeToIso(draft.event.date, draft.event.time) : null);
+  if (!start) return null;
+
+  const startMs = new Date(start).getTime();
+  let durationMinutes = num(e.durationMinutes) ?? num(e.duration);
+  if (durationMinutes === null) {
+    const hours = num(e.hours) ?? num(draft?.hours);
+    if (hours !== null) durationMinutes = hours * 60;
+  }
+  let end = isoOrNull(e.end) ?? isoOrNull(e.endISO) ?? isoOrNull(e.endTime);
+  if (end && new Date(end).getTime() <= startMs) end = null;
+  if (!end) {
+    const minutes = durationMinutes && durationMinutes > 0 ? durationMinutes : DEFAULT_DURATION_MINUTES;
+    end = new Date(startMs + Math.round(minutes) * 60000).toISOString();
+  }
+  durationMinutes = Math.max(1, Math.round((new Date(end).getTime() - startMs) / 60000));
+
+  const createdAt = isoOrNull(e.createdAt) ?? start;
+  const updatedAt = isoOrNull(e.updatedAt) ?? createdAt;
+  const paymentProof = normalizePaymentProof(e.paymentProof);
+  const normalized = normalizeStatus(e.status);
+  const legacyStatus = normalized.legacyStatus;
+  // An old "pending" record that already carries a proof is waiting for review, not for payment
+  let status = normalized.status;
+  if (legacyStatus && status === 'booked' && paymentProof) {
+    status = paymentProof.verifiedAt ? 'payment_verified' : 'payment_submitted';
+  }
+  // An old "rejected" with a proof turned down the proof, not the booking; the customer can upload again
+  if (isRejectedProof(legacyStatus, paymentProof)) status = 'payment_rejected';
+
+  let statusHistory: BookingStatusEntry[] = [];
+  if (Array.isArray(e.statusHistory)) {
+    statusHistory = e.statusHistory
+      .filter((sh: any) => sh && typeof sh === 'object')
+      .map((sh: any) => ({
+        status: isBookingStatus(sh.status) ? sh.status : normalizeStatus(sh.status).status,
+        at: isoOrNull(sh.at) ?? createdAt,
+        reason: typeof sh.reason === 'string' ? sh.reason : undefined,
+      }));
+  }
+  if (statusHistory.length === 0) {
+    statusHistory = [{ status, at: createdAt, reason: undefined }];
+  }
+
+  const pkg = e.package ?? draft?.package;
+  const packageId =
+    str(e.packageId) ?? str(e.serviceId) ?? (pkg && typeof pkg === 'object' ? str(pkg.id) : null);
+  const packageName =
+    str(e.packageName) ?? (typeof pkg === 'string' ? str(pkg) : pkg && typeof pkg === 'object' ? str(pkg.name) : null);
+
+  const priceCents = num(e.priceCents);
+  const price =
+    num(e.price) ?? num(e.amount) ?? num(e.totalAmount) ?? num(e.total) ?? (priceCents !== null ? priceCents / 100 : null);
+
+  const booking: Booking = {
+    id: str(e.id) ?? generateId(),
+    reference: str(e.reference) ?? str(e.ref) ?? generateBookingReference(),
+    createdAt,
+    updatedAt,
+    start,
+    end,
+    durationMinutes,
+    packageId,
+    packageName,
+    customer: normalizeCustomer(e),
+    status,
+    statusHistory,
+    price,
+    notes: typeof e.notes === 'string' ? e.notes : typeof draft?.notes === 'string' ? draft.notes : null,
+    location: str(e.location) ?? str(e.venue) ?? str(e.address) ?? str(draft?.event?.venue),
+    guests: num(e.guests) ?? num(e.guestCount) ?? num(draft?.event?.guests),
+    addOns: normalizeAddOns(e.addOns ?? draft?.addOns),
+    paymentProof,
+    paymentProofRequested: e.paymentProofRequested === true || legacyStatus === 'payment_requested',
+    rejectionReason: str(e.rejectionReason),
+    galleryId: str(e.galleryId),
+  };
+  if (Array.isArray(e.scheduleHistory)) {
+    booking.scheduleHistory = normalizeScheduleHistory(e.scheduleHistory);
+  }
+  if (Array.isArray(e.resourceIds)) {
+    booking.resourceIds = e.resourceIds.filter((id: unknown): id is string => typeof id === 'string' && id.length > 0);
+  }
+  if (Array.isArray(e.priceLines)) {
+    booking.priceLines = normalizePriceLines(e.priceLines);
+  }
+  if (Array.isArray(e.taxes)) {
+    booking.taxes = normalizeTaxLines(e.taxes);
+    booking.taxInclusive = e.taxInclusive === true;
+  }
+  if (Array.isArray(e.paymentSchedule)) {
+    booking.paymentSchedule = normalizeInstallments(e.paymentSchedule);
+  }
+  const seriesId = str(e.seriesId);
+  if (seriesId) booking.seriesId = seriesId;
+  if (legacyStatus) booking.legacyStatus = legacyStatus;
+  else if (typeof e.legacyStatus === 'string') booking.legacyStatus = e.legacyStatus;
+
+  return booking;
+}
+
+function normalizeList(raw: unknown, onSkip?: (entry: unknown) => void): Booking[] {
+  if (!Array.isArray(raw)) return [];
+  const out: Booking[] = [];
+  for (const entry of raw) {
+    try {
+      const b = normalizeBooking(entry);
+      if (b) out.push(b);
+      else onSkip?.(entry);
+    } catch (err) {
+      console.warn('Failed to normalize booking, skipping', err);
+      onSkip?.(entry);
+    }
+  }
+  return out;
+}
+
+/**
+ * Merge two records that share an id. Values from the more recently updated record win,
+ * but empty values never overwrite populated ones.
+ */
+function mergeBookings(a: Booking, b: Booking): Booking {
+  const [older, newer] = a.updatedAt <= b.updatedAt ? [a, b] : [b, a];
+  const merged: any = { ...older };
+  for (const [k, v] of Object.entries(newer)) {
+    if (v === null || v === undefined || v === '') continue;
+    if (Array.isArray(v) && v.length === 0) continue;
+    merged[k] = v;
+  }
+  const seen = new Set<string>();
+  merged.statusHistory = [...older.statusHistory, ...newer.statusHistory]
+    .filter((sh) => {
+      const key = `${sh.status}|${sh.at}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => x.at.localeCompare(y.at));
+  merged.createdAt = older.createdAt < newer.createdAt ? older.createdAt : newer.createdAt;
+  return merged as Booking;
+}
+
+function emitChange(): void {
+  try {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+    }
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+/**
+ * Read every booking from the unified store.
+ */
+export function readBookings(): Booking[] {
+  return normalizeList(getItem<unknown[]>(BOOKINGS_KEY));
+}
+
+/**
+ * Replace the unified store and notify subscribers in this tab.
+ */
+export function writeBookings(bookings: Booking[]): void {
+  setItem(BOOKINGS_KEY, bookings);
+  emitChange();
+}
+
+export function getStoredBooking(id: string): Booking | null {
+  if (!id) return null;
+  return readBookings().find((b) => b.id === id) ?? null;
+}
+
+export function findBookingByReference(reference: string): Booking | null {
+  const q = (reference || '').trim().toLowerCase();
+  if (!q) return null;
+  return readBookings().find((b) => b.reference.toLowerCase() === q || b.id.toLowerCase() === q) ?? null;
+}
+
+export function findBookingsByEmail(email: string): Booking[] {
+  const q = (email || '').trim().toLowerCase();
+  if (!q) return [];
+  return readBookings().filter((b) => (b.customer?.email ?? '').toLowerCase() === q);
+}
+
+export function insertBooking(booking: Booking): void {
+  const all = readBookings();
+  if (all.some((b) => b.id === booking.id)) {
+    throw new Error(`Booking ${booking.id} already exists`);
+  }
+  all.push(booking);
+  writeBookings(all);
+}
+
+/**
+ * Apply a patch (or an updater function) to one booking and persist it.
+ * Returns the updated booking, or null when the id is unknown.
+ */
+export function patchBooking(
+  id: string,
+  patch: Partial<Booking> | ((current: Booking) => Booking)
+): Booking | null {
+  const all = readBookings();
+  const idx = all.findIndex((b) => b.id === id);
+  if (idx === -1) return null;
+  const current = all[idx];
+  const next = typeof patch === 'function' ? patch(current) : { ...current, ...patch };
+  next.id = current.id;
+  next.updatedAt = nowIso();
+  all[idx] = next;
+  writeBookings(all);
+  return next;
+}
+
+export function deleteBooking(id: string): boolean {
+  const all = readBookings();
+  const next = all.filter((b) => b.id !== id);
+  if (next.length === all.length) return false;
+  writeBookings(next);
+  return true;
+}
+
+export function clearBookings(): void {
+  writeBookings([]);
+}
+
+function normalizeRecurrence(raw: any): RecurrenceRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (raw.frequency !== 'daily' && raw.frequency !== 'weekly') return null;
+  const interval = num(raw.interval);
+  const count = num(raw.count);
+  const rule: RecurrenceRule = {
+    frequency: raw.frequency,
+    interval: interval !== null && interval >= 1 ? Math.round(interval) : 1,
+  };
+  if (Array.isArray(raw.weekdays)) {
+    rule.weekdays = raw.weekdays.filter((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6);
+  }
+  if (count !== null && count >= 1) rule.count = Math.round(count);
+  if (typeof raw.until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.until)) rule.until = raw.until;
+  return rule;
+}
+
+function normalizeSeries(entry: unknown): BookingSeries | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const e: any = entry;
+  const id = str(e.id);
+  if (!id) return null;
+  const createdAt = isoOrNull(e.createdAt) ?? nowIso();
+  return {
+    id,
+    reference: str(e.reference) ?? generateBookingReference(),
+    createdAt,
+    updatedAt: isoOrNull(e.updatedAt) ?? createdAt,
+    customer: normalizeCustomer(e),
+    packageId: str(e.packageId),
+    packageName: str(e.packageName),
+    location: str(e.location),
+    price: num(e.price),
+    notes: typeof e.notes === 'string' ? e.notes : null,
+    recurrence: normalizeRecurrence(e.recurrence),
+    sessionIds: Array.isArray(e.sessionIds)
+      ? e.sessionIds.filter((s: unknown): s is string => typeof s === 'string' && s.length > 0)
+      : [],
+  };
+}
+
+/**
+ * Read every booking series. Sessions live in the booking store; see BookingSeries.
+ */
+export function readBookingSeries(): BookingSeries[] {
+  const raw = getItem<unknown[]>(SERIES_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeSeries).filter((s): s is BookingSeries => s !== null);
+}
+
+export function writeBookingSeries(series: BookingSeries[]): void {
+  setItem(SERIES_KEY, series);
+  emitChange();
+}
+
+export function getStoredSeries(id: string): BookingSeries | null {
+  if (!id) return null;
+  return readBookingSeries().find((s) => s.id === id) ?? null;
+}
+
+/**
+ * Subscribe to booking and series changes from this tab (repository writes) and other tabs (storage events).
+ * Returns an unsubscribe function.
+ */
+export function subscribeToBookings(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === BOOKINGS_KEY || e.key === SERIES_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(CHANGE_EVENT, listener);
+  };
+}
+
+/**
+ * One-time migration (registered in storageservice MIGRATIONS) that merges every legacy
+ * booking key into BOOKINGS_KEY. Records sharing an id are merged field by field. Records
+ * without a recoverable start time are kept verbatim under UNMIGRATED_KEY for manual review.
+ * Legacy keys are removed only after the merged list has been written.
+ */
+export async function migrateLegacyBookings(ctx: MigrationContext): Promise<void> {
+  const byId = new Map<string, Booking>();
+  const unmigrated: Array<{ key: string; entry: unknown }> = [];
+
+  const absorb = (list: Booking[]) => {
+    for (const b of list) {
+      const existing = byId.get(b.id);
+      byId.set(b.id, existing ? mergeBookings(existing, b) : b);
+    }
+  };
+
+  absorb(normalizeList(ctx.getItem<unknown[]>(BOOKINGS_KEY)));
+
+  const migratedKeys: string[] = [];
+  for (const key of LEGACY_BOOKING_KEYS) {
+    const raw = ctx.getItem<unknown[]>(key);
+    if (raw === null) continue;
+    if (!Array.isArray(raw)) {
+      console.warn(`Legacy booking key "${key}" does not hold a list; leaving it untouched`);
+      continue;
+    }
+    absorb(normalizeList(raw, (entry) => unmigrated.push({ key, entry })));
+    migratedKeys.push(key);
+  }
+
+  ctx.setItem(BOOKINGS_KEY, Array.from(byId.values()));
+
+  if (unmigrated.length > 0) {
+    const previous = ctx.getItem<unknown[]>(UNMIGRATED_KEY);
+    ctx.setItem(UNMIGRATED_KEY, [...(Array.isArray(previous) ? previous : []), ...unmigrated]);
+    console.warn(`${unmigrated.length} legacy booking(s) had no usable date and were kept under "${UNMIGRATED_KEY}"`);
+  }
+
+  for (const key of migratedKeys) {
+    ctx.removeItem(key);
+  }
+}
+
+/**
+ * The status a v2 record should have under the extended model. Before v3 every open booking was
+ * 'booked', so a submitted or verified payment proof was only visible on the proof itself (or in
+ * legacyStatus) and such bookings dropped out of the review queue. Legacy "rejected" bookings with
+ * a proof were cancelled; they go back to payment_rejected so the customer can upload again.
+ */
+function reconcileStatus(b: Booking): BookingStatus {
+  if (b.status === 'cancelled' && isRejectedProof(b.legacyStatus, b.paymentProof)) return 'payment_rejected';
+  if (b.status !== 'booked') return b.status;
+  const legacy = b.legacyStatus ? normalizeStatus(b.legacyStatus).status : null;
+  if (legacy && legacy !== 'booked') return legacy;
+  if (b.paymentProof?.verifiedAt) return 'payment_verified';
+  if (b.paymentProof) return 'payment_submitted';
+  return 'booked';
+}
+
+/**
+ * Schema v3: map open bookings onto the payment review statuses. Each change is recorded in
+ * statusHistory so the audit trail shows where the new status came from.
+ */
+export async function migrateBookingStatuses(ctx: MigrationContext): Promise<void> {
+  const raw = ctx.getItem<unknown[]>(BOOKINGS_KEY);
+  if (!Array.isArray(raw)) return;
+  const at = nowIso();
+  let changed = 0;
+  const bookings = normalizeList(raw).map((b) => {
+    const status = reconcileStatus(b);
+    if (status === b.status) return b;
+    changed++;
+    return {
+      ...b,
+      status,
+      statusHistory: b.statusHistory.concat({ status, at, reason: 'Status model migration (v3)' }),
+    };
+  });
+  ctx.setItem(BOOKINGS_KEY, bookings);
+  if (changed > 0) console.info(`Mapped ${changed} booking(s) onto the payment review statuses`);
+}
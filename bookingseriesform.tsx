@@ -0,0 +1,293 @@
+type BookingSeriesFormProps = {
+  onCreated: (result: { id: string; bookingIds: string[] }) => void;
+  onCancel: () => void;
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = { padding: "8px 10px", borderRadius: 8, border: "1px solid #e5e7eb" };
+
+const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Admin form for recurring (e.g. every Friday for a quarter) and multi-day (explicit dates)
+ * bookings. Sessions are checked one by one before the series is created.
+ */
+export default function BookingSeriesForm({ onCreated, onCancel }: BookingSeriesFormProps): JSX.Element {
+  const [mode, setMode] = useState<"repeat" | "dates">("repeat");
+  const [customer, setCustomer] = useState({ name: "", email: "" });
+  const [packageId, setPackageId] = useState("");
+  const [location, setLocation] = useState("");
+  const [price, setPrice] = useState("");
+  const [notes, setNotes] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [firstStart, setFirstStart] = useState("");
+  const [frequency, setFrequency] = useState<"daily" | "weekly">("weekly");
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [endMode, setEndMode] = useState<"count" | "until">("count");
+  const [count, setCount] = useState(4);
+  const [until, setUntil] = useState("");
+  const [dates, setDates] = useState<string[]>([""]);
+  const [checks, setChecks] = useState<SeriesSessionCheck[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Any edit invalidates the last availability check
+  useEffect(() => {
+    setChecks(null);
+  }, [mode, packageId, location, durationMinutes, firstStart, frequency, repeatInterval, weekdays, endMode, count, until, dates]);
+
+  function buildDraft(): BookingSeriesDraft {
+    const base: BookingSeriesDraft = {
+      customer: customer.name.trim() || customer.email.trim() ? { name: customer.name.trim(), email: customer.email.trim() } : null,
+      packageId: packageId.trim() || null,
+      location: location.trim() || null,
+      price: price.trim() ? Number(price) : null,
+      notes: notes.trim() || null,
+    };
+    if (mode === "dates") {
+      return {
+        ...base,
+        sessions: dates
+          .filter(Boolean)
+          .map((d) => {
+            const start = new Date(d);
+            return { start, end: new Date(start.getTime() + durationMinutes * 60000) };
+          }),
+      };
+    }
+    if (!firstStart) throw new Error("Pick the first session's date and time.");
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: repeatInterval,
+      ...(frequency === "weekly" && weekdays.length ? { weekdays } : {}),
+      ...(endMode === "count" ? { count } : { until }),
+    };
+    return { ...base, recurrence: { start: new Date(firstStart), durationMinutes, rule } };
+  }
+
+  async function handleCheck() {
+    setError(null);
+    setBusy(true);
+    try {
+      setChecks(await checkSeriesAvailability(buildDraft()));
+    } catch (err: any) {
+      setError(err?.message || "Could not check the sessions.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (price.trim() && !(Number(price) >= 0)) {
+      setError("Price must be a positive number.");
+      return;
+    }
+    setBusy(true);
+    try {
+      onCreated(await createBookingSeries(buildDraft()));
+    } catch (err: any) {
+      setError(err?.message || "Could not create the series.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays((days) => (days.includes(day) ? days.filter((d) => d !== day) : days.concat(day)));
+
+  const allAvailable = !!checks && checks.every((c) => c.available);
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-labelledby="series-form-title"
+      style={{ display: "grid", gap: 12, padding: 12, marginBottom: 12, border: "1px solid #e6edf3", borderRadius: 12, background: "#fff" }}
+    >
+      <h2 id="series-form-title" style={{ margin: 0, fontSize: 16 }}>
+        New booking series
+      </h2>
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <label style={fieldStyle}>
+          Customer name
+          <input value={customer.name} onChange={(e) => setCustomer({ ...customer, name: e.target.value })} style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          Email
+          <input
+            type="email"
+            value={customer.email}
+            onChange={(e) => setCustomer({ ...customer, email: e.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={fieldStyle}>
+          Package id
+          <input value={packageId} onChange={(e) => setPackageId(e.target.value)} placeholder="optional" style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          Location
+          <input value={location} onChange={(e) => setLocation(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          Series price
+          <input type="number" min={0} step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} style={{ ...inputStyle, width: 110 }} />
+        </label>
+        <label style={fieldStyle}>
+          Session length (minutes)
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Math.max(15, Number(e.target.value) || 0))}
+            style={{ ...inputStyle, width: 110 }}
+          />
+        </label>
+      </div>
+
+      <div role="radiogroup" aria-label="Series type" style={{ display: "flex", gap: 16, fontSize: 13 }}>
+        <label>
+          <input type="radio" checked={mode === "repeat"} onChange={() => setMode("repeat")} /> Repeats
+        </label>
+        <label>
+          <input type="radio" checked={mode === "dates"} onChange={() => setMode("dates")} /> Specific dates (multi-day)
+        </label>
+      </div>
+
+      {mode === "repeat" ? (
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            First session
+            <input type="datetime-local" value={firstStart} onChange={(e) => setFirstStart(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={fieldStyle}>
+            Every
+            <div style={{ display: "flex", gap: 4 }}>
+              <input
+                type="number"
+                min={1}
+                value={repeatInterval}
+                onChange={(e) => setRepeatInterval(Math.max(1, Number(e.target.value) || 1))}
+                style={{ ...inputStyle, width: 60 }}
+              />
+              <select value={frequency} onChange={(e) => setFrequency(e.target.value as "daily" | "weekly")} style={inputStyle}>
+                <option value="daily">day(s)</option>
+                <option value="weekly">week(s)</option>
+              </select>
+            </div>
+          </label>
+          {frequency === "weekly" && (
+            <fieldset style={{ border: "none", padding: 0, margin: 0, display: "flex", gap: 6, fontSize: 13 }}>
+              <legend style={{ fontSize: 13 }}>On (defaults to the first session's day)</legend>
+              {WEEKDAY_SHORT.map((label, day) => (
+                <label key={label}>
+                  <input type="checkbox" checked={weekdays.includes(day)} onChange={() => toggleWeekday(day)} /> {label}
+                </label>
+              ))}
+            </fieldset>
+          )}
+          <label style={fieldStyle}>
+            Ends
+            <div style={{ display: "flex", gap: 4 }}>
+              <select value={endMode} onChange={(e) => setEndMode(e.target.value as "count" | "until")} style={inputStyle}>
+                <option value="count">after</option>
+                <option value="until">on</option>
+              </select>
+              {endMode === "count" ? (
+                <input
+                  type="number"
+                  min={1}
+                  value={count}
+                  onChange={(e) => setCount(Math.max(1, Number(e.target.value) || 1))}
+                  aria-label="Number of sessions"
+                  style={{ ...inputStyle, width: 70 }}
+                />
+              ) : (
+                <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} aria-label="Last date" style={inputStyle} />
+              )}
+            </div>
+          </label>
+        </div>
+      ) : (
+        <div style={{ display: "grid", gap: 6 }}>
+          {dates.map((d, i) => (
+            <div key={i} style={{ display: "flex", gap: 8 }}>
+              <input
+                type="datetime-local"
+                value={d}
+                onChange={(e) => setDates(dates.map((x, j) => (j === i ? e.target.value : x)))}
+                aria-label={`Session ${i + 1} start`}
+                style={inputStyle}
+              />
+              {dates.length > 1 && (
+                <button type="button" onClick={() => setDates(dates.filter((_, j) => j !== i))} aria-label={`Remove session ${i + 1}`}>
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <div>
+            <button type="button" onClick={() => setDates(dates.concat(""))}>
+              Add session
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label style={fieldStyle}>
+        Notes
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} style={inputStyle} />
+      </label>
+
+      {checks && (
+        <ul aria-label="Session availability" style={{ margin: 0, paddingLeft: 18, fontSize: 13 }}>
+          {checks.map((c) => (
+            <li key={c.start} style={{ color: c.available ? "#065f46" : "#b91c1c" }}>
+              {new Date(c.start).toLocaleString()}: {c.available ? "available" : c.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div role="alert" style={{ color: "#b91c1c", fontSize: 13 }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+        <button type="button" onClick={onCancel} style={{ padding: "8px 12px", borderRadius: 8, border: "1px solid #e5e7eb", background: "transparent" }}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleCheck}
+          disabled={busy}
+          style={{ padding: "8px 12px", borderRadius: 8, border: "1px solid #e5e7eb", background: "#fff" }}
+        >
+          Check sessions
+        </button>
+        <button
+          type="submit"
+          disabled={busy || !allAvailable}
+          title={allAvailable ? undefined : "Check the sessions first; every one must be available"}
+          style={{
+            padding: "8px 12px",
+            borderRadius: 8,
+            border: "none",
+            background: "#111827",
+            color: "#fff",
+            cursor: busy || !allAvailable ? "not-allowed" : "pointer",
+          }}
+        >
+          Create series
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,12 +1,3 @@
-const STORAGE_KEY = 'pb_bookings_v1';
-const ALLOWED_STATUSES: Set<string> = new Set([
-  'draft',
-  'booked',
-  'confirmed',
-  'cancelled',
-  'completed',
-]);
-
 function nowIso(): string {
   return new Date().toISOString();
 }
@@ -40,113 +31,31 @@ function generateId(): string {
   return 'b_' + Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
 }
 
-function safeParseJson<T>(raw: string): T | null {
-  try {
-    return JSON.parse(raw) as T;
-  } catch (e) {
-    console.error('Failed to parse JSON from storage', e);
-    return null;
-  }
-}
-
+/**
+ * Bookings are read and written through the unified repository (bookingrepository.ts),
+ * which owns the storage key, the canonical Booking shape and legacy normalization.
+ */
 function loadAllBookings(): Booking[] {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) return [];
-  const parsed = safeParseJson<unknown[]>(raw);
-  if (!Array.isArray(parsed)) return [];
-
-  const normalized: Booking[] = [];
-  for (let i = 0; i < parsed.length; i++) {
-    const entry = parsed[i];
-    if (!entry || typeof entry !== 'object') {
-      console.warn(`Skipping non-object booking entry at index ${i}`);
-      continue;
-    }
-    try {
-      const e: any = entry as any;
-
-      const startIso = dateToIsoSafe(e.start);
-      const endIso = dateToIsoSafe(e.end);
-      // If either date is missing/invalid, skip this record but keep others
-      if (!startIso || !endIso) {
-        console.warn(`Skipping booking with invalid start/end at index ${i}`, { start: e.start, end: e.end });
-        continue;
-      }
-
-      const createdAtIso = dateToIsoSafe(e.createdAt) ?? startIso ?? nowIso();
-      const updatedAtIso = dateToIsoSafe(e.updatedAt) ?? createdAtIso;
-
-      let durationMinutes: number;
-      if (typeof e.durationMinutes === 'number' && Number.isFinite(e.durationMinutes) && e.durationMinutes > 0) {
-        durationMinutes = Math.round(e.durationMinutes);
-      } else {
-        const s = new Date(startIso).getTime();
-        const en = new Date(endIso).getTime();
-        durationMinutes = Math.max(1, Math.round((en - s) / 60000));
-      }
-
-      const status = (typeof e.status === 'string' && ALLOWED_STATUSES.has(e.status)) ? e.status : 'booked';
-
-      const statusHistoryRaw = Array.isArray(e.statusHistory) ? e.statusHistory : null;
-      let statusHistory: Booking['statusHistory'];
-      if (statusHistoryRaw) {
-        statusHistory = statusHistoryRaw.map((sh: any, idx: number) => {
-          const shAt = dateToIsoSafe(sh && sh.at) ?? createdAtIso;
-          const shStatus = (sh && typeof sh.status === 'string' && ALLOWED_STATUSES.has(sh.status)) ? sh.status as BookingStatus : status as BookingStatus;
-          return {
-            status: shStatus,
-            at: shAt,
-            reason: sh && typeof sh.reason === 'string' ? sh.reason : undefined,
-          };
-        });
-        if (statusHistory.length === 0) {
-          statusHistory = [{
-            status: status as BookingStatus,
-            at: createdAtIso,
-            reason: undefined,
-          }];
-        }
-      } else {
-        statusHistory = [{
-          status: status as BookingStatus,
-          at: createdAtIso,
-          reason: undefined,
-        }];
-      }
-
-      const booking: Booking = {
-        id: typeof e.id === 'string' && e.id.trim().length > 0 ? e.id : generateId(),
-        createdAt: createdAtIso,
-        updatedAt: updatedAtIso,
-        start: startIso,
-        end: endIso,
-        durationMinutes,
-        packageId: (typeof e.packageId === 'string' && e.packageId.length > 0) ? e.packageId : null,
-        customer: (e && typeof e.customer === 'object') ? e.customer : null,
-        status: status as BookingStatus,
-        statusHistory,
-        price: typeof e.price === 'number' ? e.price : null,
-        notes: (typeof e.notes === 'string') ? e.notes : null,
-      };
-
-      normalized.push(booking);
-    } catch (err) {
-      console.warn(`Failed to normalize booking at index ${i}, skipping`, err);
-      continue;
-    }
-  }
-
-  return normalized;
+  return readBookings();
 }
 
 function saveAllBookings(bookings: Booking[]) {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookings));
+    writeBookings(bookings);
   } catch (e) {
-    console.error('Failed to save bookings to localStorage', e);
+    console.error('Failed to save bookings', e);
   }
 }
 
+/**
+ * Bookings plus the slots held at checkout (slotholdservice.ts) and for waitlist offers
+ * (waitlistservice.ts), which availability checks treat as taken. `holdId` leaves out the
+ * caller's own hold.
+ */
+function withHolds(bookings: Booking[], holdId?: string): Booking[] {
+  return bookings.concat(getSlotHoldBookings(holdId), getWaitlistHoldBookings(holdId));
+}
+
 function clone<T>(v: T): T {
   // Prefer structuredClone when available (preserves Date/Map/Set etc.)
   try {
@@ -161,6 +70,8 @@ function clone<T>(v: T): T {
 
 /**
  * createBooking(draft: BookingDraft): Promise<{id: string}>
+ * `draft.paymentIntentId` links a payment taken before the booking existed (paymentstep.tsx),
+ * which records it in the ledger if it succeeded and moves the booking on to payment_verified.
  */
 export async function createBooking(draft: BookingDraft): Promise<{ id: string }> {
   if (!draft || (draft.start === undefined && draft.end === undefined)) {
@@ -192,20 +103,48 @@ export async function createBooking(draft: BookingDraft): Promise<{ id: string }
   }
 
   const durationMinutes = Math.round((endDate.getTime() - startDate.getTime()) / 60000);
+  const packageId = typeof draft.packageId === 'string' ? draft.packageId : null;
+  const location = typeof draft['location'] === 'string' ? draft['location'] : null;
+
+  // Later statuses are reached through updateBookingStatus so their guards and hooks run
+  const status: BookingStatus = isBookingStatus(draft.status) ? draft.status : 'booked';
+  if (!INITIAL_BOOKING_STATUSES.includes(status)) {
+    throw new Error(`New bookings must start as ${INITIAL_BOOKING_STATUSES.join(' or ')}`);
+  }
+
+  // A payment taken at checkout before the booking existed is linked once it is stored
+  const paymentIntentId = typeof draft['paymentIntentId'] === 'string' && draft['paymentIntentId'] ? draft['paymentIntentId'] : null;
+  if (paymentIntentId) {
+    const intent = getPaymentIntent(paymentIntentId);
+    if (!intent) throw new Error('Payment not found');
+    if (intent.bookingId) throw new Error('This payment belongs to another booking');
+  }
+
+  // Drafts are not scheduled yet, so they do not take resources
+  const all = loadAllBookings();
+  const holdId = typeof draft['holdId'] === 'string' ? draft['holdId'] : undefined;
+  let resourceIds: string[] | undefined;
+  if (draft.status !== 'draft') {
+    const closedReason = getClosureReason(startDate.getTime(), endDate.getTime());
+    if (closedReason) throw new Error(closedReason);
+    const assignment = assignResources(startDate.getTime(), endDate.getTime(), packageId, location, withHolds(all, holdId));
+    if (!assignment.available) throw new Error('No resources are available for the requested time');
+    resourceIds = assignment.resources.map((r) => r.id);
+  }
 
   const id = generateId();
   const ts = nowIso();
 
-  const status = (draft.status && ALLOWED_STATUSES.has(draft.status)) ? draft.status as BookingStatus : 'booked';
 
   const booking: Booking = {
     id,
+    reference: typeof draft['reference'] === 'string' && draft['reference'] ? draft['reference'] : generateBookingReference(),
     createdAt: ts,
     updatedAt: ts,
     start: startDate.toISOString(),
     end: endDate.toISOString(),
     durationMinutes,
-    packageId: typeof draft.packageId === 'string' ? draft.packageId : null,
+    packageId,
     customer: (draft.customer && typeof draft.customer === 'object') ? draft.customer : null,
     status,
     statusHistory: [
@@ -217,11 +156,31 @@ export async function createBooking(draft: BookingDraft): Promise<{ id: string }
     ],
     price: typeof draft.price === 'number' ? draft.price : null,
     notes: typeof draft.notes === 'string' ? draft.notes : null,
+    packageName: typeof draft['packageName'] === 'string' ? draft['packageName'] : null,
+    location,
+    guests: typeof draft['guests'] === 'number' ? draft['guests'] : null,
+    addOns: Array.isArray(draft['addOns']) ? draft['addOns'] : undefined,
+    resourceIds,
   };
+  if (Array.isArray(draft['priceLines']) && draft['priceLines'].length) {
+    booking.priceLines = draft['priceLines'];
+  }
+  if (Array.isArray(draft['taxes']) && draft['taxes'].length) {
+    booking.taxes = draft['taxes'];
+    booking.taxInclusive = draft['taxInclusive'] === true;
+  }
+  if (Array.isArray(draft['paymentSchedule']) && draft['paymentSchedule'].length) {
+    booking.paymentSchedule = draft['paymentSchedule'];
+  }
 
-  const all = loadAllBookings();
   all.push(booking);
   saveAllBookings(all);
+  // The booking now blocks the slot itself, so the checkout hold is converted
+  if (holdId) releaseSlotHold(holdId);
+  if (booking.paymentSchedule) schedulePaymentReminders(booking);
+  if (paymentIntentId && linkPaymentIntent(paymentIntentId, id).status === 'succeeded' && status === 'booked') {
+    await updateBookingStatus(id, 'payment_verified', 'Paid by card');
+  }
 
   return { id };
 }
@@ -327,11 +286,7 @@ export async function listBookings(filter?: any): Promise<Booking[]> {
   return results.map(clone);
 }
 
-/**
- * checkAvailability(date: Date, durationMinutes: number, packageId?: string): Promise<boolean>
- * returns true if the time slot [date, date+duration) is free (no overlap with existing bookings)
- */
-export async function checkAvailability(date: Date, durationMinutes: number, packageId?: string): Promise<boolean> {
+function toInterval(date: Date, durationMinutes: number): { start: number; end: number } {
   if (!(date instanceof Date) || isNaN(date.getTime())) {
     throw new Error('Invalid date');
   }
@@ -342,42 +297,151 @@ export async function checkAvailability(date: Date, durationMinutes: number, pac
   const start = date.getTime();
   const end = start + Math.round(durationMinutes) * 60000;
   if (end <= start) throw new Error('end must be after start');
+  return { start, end };
+}
 
-  const all = loadAllBookings();
+/**
+ * Resource assignment with the scheduling rules applied: setup/teardown buffers, the minimum
+ * gap and travel time between locations (schedulingservice.ts).
+ * Settings are read per call unless passed in, e.g. when scanning many slots.
+ */
+function assignResources(
+  start: number,
+  end: number,
+  packageId: string | null | undefined,
+  location: string | null | undefined,
+  bookings: Booking[],
+  config: ResourceConfig = getResourceConfig(),
+  scheduling: SchedulingSettings = getSchedulingSettings()
+): ResourceAssignment {
+  const conflicts = createConflictTest({ start, end, packageId, location }, scheduling);
+  return resolveResourceAssignment(start, end, packageId, bookings, config, conflicts);
+}
 
-  for (const b of all) {
-    if (b.status === 'cancelled') continue;
+/** A resource assignment plus why the business is closed for the slot, if it is. */
+export interface SlotAvailability extends ResourceAssignment {
+  closedReason: string | null;
+}
 
-    if (typeof packageId !== 'undefined' && packageId !== null) {
-      if (b.packageId && b.packageId !== packageId) continue;
-    }
+export interface AvailabilityOptions {
+  /** Event location, used for travel-time blocks. */
+  location?: string | null;
+  /** Leaves one booking out, e.g. when moving it. */
+  excludeBookingId?: string;
+  /** Ignores the caller's own hold, e.g. a checkout hold or a waitlist offer being accepted. */
+  holdId?: string;
+}
 
-    const bStartIso = dateToIsoSafe(b.start);
-    const bEndIso = dateToIsoSafe(b.end);
+/**
+ * getResourceAssignment(date: Date, durationMinutes: number, packageId?: string, options?: AvailabilityOptions)
+ * Resolves which resources (booths, attendants, backdrops) a booking in the slot would take.
+ * Slots outside business hours, on holidays or in blackout ranges are unavailable with a closedReason.
+ */
+export async function getResourceAssignment(
+  date: Date,
+  durationMinutes: number,
+  packageId?: string | null,
+  options: AvailabilityOptions = {}
+): Promise<SlotAvailability> {
+  const { start, end } = toInterval(date, durationMinutes);
+  const closedReason = getClosureReason(start, end);
+  if (closedReason) return { available: false, resources: [], missing: [], closedReason };
+  const all = withHolds(loadAllBookings(), options.holdId).filter((b) => b.id !== options.excludeBookingId);
+  return { ...assignResources(start, end, packageId, options.location, all), closedReason: null };
+}
 
-    if (!bStartIso || !bEndIso) {
-      // skip malformed booking entries for availability checks
-      continue;
-    }
+/**
+ * checkAvailability(date: Date, durationMinutes: number, packageId?: string, options?: AvailabilityOptions): Promise<boolean>
+ * returns true if the business is open for [date, date+duration) and at least one compatible set
+ * of resources is free, including setup/teardown buffers, the minimum gap and travel time
+ */
+export async function checkAvailability(
+  date: Date,
+  durationMinutes: number,
+  packageId?: string,
+  options: AvailabilityOptions = {}
+): Promise<boolean> {
+  const assignment = await getResourceAssignment(date, durationMinutes, packageId, options);
+  return assignment.available;
+}
 
-    const bStart = new Date(bStartIso).getTime();
-    const bEnd = new Date(bEndIso).getTime();
+export interface SlotSearchOptions extends AvailabilityOptions {
+  /** Results are the free slots closest to this time; defaults to the start of the range. */
+  near?: Date | string;
+  /** Maximum number of slots returned (default 5). */
+  limit?: number;
+  /** Spacing of candidate start times in minutes, aligned to the hour (default 30). */
+  stepMinutes?: number;
+}
 
-    // Overlap detection: start < bEnd && end > bStart
-    if (start < bEnd && end > bStart) {
-      return false;
-    }
-  }
+export interface AvailableSlot {
+  start: string;
+  end: string;
+  resources: Resource[];
+}
 
-  return true;
+const MAX_SLOT_CANDIDATES = 5000;
+
+/**
+ * findAvailableSlots(range: { from, to }, durationMinutes: number, packageId?: string, options?: SlotSearchOptions): Promise<AvailableSlot[]>
+ * Returns the free start times nearest to options.near (in chronological order), using the same
+ * rules as checkAvailability: business hours, buffers, minimum gap, travel time and resources.
+ * Start times in the past are never suggested.
+ */
+export async function findAvailableSlots(
+  range: { from: Date | string; to: Date | string },
+  durationMinutes: number,
+  packageId?: string | null,
+  options: SlotSearchOptions = {}
+): Promise<AvailableSlot[]> {
+  const from = toDate(range.from).getTime();
+  const to = toDate(range.to).getTime();
+  if (isNaN(from) || isNaN(to)) throw new Error('Invalid date range');
+  if (typeof durationMinutes !== 'number' || durationMinutes <= 0) {
+    throw new Error('durationMinutes must be a positive number');
+  }
+  const step = Math.max(5, Math.round(options.stepMinutes ?? 30)) * 60000;
+  const limit = Math.max(1, Math.floor(options.limit ?? 5));
+  const duration = Math.round(durationMinutes) * 60000;
+  const near = options.near !== undefined ? toDate(options.near).getTime() : from;
+
+  // Candidate starts aligned to the step, never in the past
+  const candidates: number[] = [];
+  const earliest = Math.max(from, Date.now());
+  const offset = new Date(earliest).getTimezoneOffset() * 60000;
+  for (let t = Math.ceil((earliest - offset) / step) * step + offset; t + duration <= to; t += step) {
+    candidates.push(t);
+    if (candidates.length > MAX_SLOT_CANDIDATES) throw new Error('Date range is too large');
+  }
+  const target = isNaN(near) ? from : near;
+  candidates.sort((a, b) => Math.abs(a - target) - Math.abs(b - target) || a - b);
+
+  const all = withHolds(loadAllBookings(), options.holdId).filter((b) => b.id !== options.excludeBookingId);
+  const calendar = getBusinessCalendar();
+  const config = getResourceConfig();
+  const scheduling = getSchedulingSettings();
+
+  const found: AvailableSlot[] = [];
+  for (const start of candidates) {
+    const end = start + duration;
+    if (getClosureReason(start, end, calendar)) continue;
+    const assignment = assignResources(start, end, packageId, options.location, all, config, scheduling);
+    if (!assignment.available) continue;
+    found.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString(), resources: assignment.resources });
+    if (found.length >= limit) break;
+  }
+  return found.sort((a, b) => a.start.localeCompare(b.start));
 }
 
 /**
  * updateBookingStatus(id: string, status: string, reason?: string): Promise<void>
+ * Changes must follow BOOKING_TRANSITIONS and pass their guards (bookingstatemachine.ts);
+ * transition hooks run after the change is saved. A draft leaving draft (other than to
+ * cancelled) must still fit its slot: hours, closures and resources are checked and assigned.
  */
 export async function updateBookingStatus(id: string, status: string, reason?: string): Promise<void> {
   if (!id) throw new Error('id is required');
-  if (!status || !ALLOWED_STATUSES.has(status)) throw new Error('Invalid status');
+  if (!isBookingStatus(status)) throw new Error('Invalid status');
 
   const all = loadAllBookings();
   const idx = all.findIndex((b) => b.id === id);
@@ -409,9 +473,487 @@ export async function updateBookingStatus(id: string, status: string, reason?: s
     return;
   }
 
+  assertTransition(b, status);
+  const from = b.status;
+
+  // Drafts hold no resources, so a draft being scheduled is checked and assigned like a new booking
+  if (from === 'draft' && status !== 'cancelled') {
+    const start = new Date(b.start).getTime();
+    const end = new Date(b.end).getTime();
+    const closedReason = getClosureReason(start, end);
+    if (closedReason) throw new Error(closedReason);
+    const assignment = assignResources(start, end, b.packageId, b.location, withHolds(all.filter((x) => x.id !== id)));
+    if (!assignment.available) throw new Error('No resources are available for the requested time');
+    b.resourceIds = assignment.resources.map((r) => r.id);
+  }
+
+  // Payment review outcomes are stamped on the proof itself so they survive later status changes
+  if (b.paymentProof && status === 'payment_verified') {
+    b.paymentProof = { ...b.paymentProof, verifiedAt: now, rejectionReason: undefined };
+  } else if (b.paymentProof && status === 'payment_rejected') {
+    b.paymentProof = { ...b.paymentProof, verifiedAt: undefined, rejectionReason: entry.reason };
+  }
+
   b.status = status as BookingStatus;
   b.updatedAt = now;
   b.statusHistory = b.statusHistory.concat(entry);
 
   saveAllBookings(all);
-}
\ No newline at end of file
+  await runTransitionHooks(clone(b), { from, to: status, reason: entry.reason });
+}
+
+/** Statuses that can no longer be moved. */
+const FINAL_STATUSES: readonly BookingStatus[] = ['cancelled', 'completed'];
+
+/**
+ * getCustomerRescheduleBlock(booking: Booking, now?: Date): string | null
+ * Why a customer may not move this booking themselves (closed status or inside the cutoff), or null.
+ */
+export function getCustomerRescheduleBlock(booking: Booking, now: Date = new Date()): string | null {
+  if (FINAL_STATUSES.includes(booking.status)) return `A ${booking.status} booking cannot be rescheduled`;
+  const { rescheduleCutoffHours } = getSchedulingSettings();
+  const start = new Date(booking.start).getTime();
+  if (start - now.getTime() < rescheduleCutoffHours * 60 * 60000) {
+    return `Bookings can be rescheduled online up to ${rescheduleCutoffHours} hours before the event. Please contact us.`;
+  }
+  return null;
+}
+
+/**
+ * rescheduleBooking(id: string, newStart: Date | string, newEnd: Date | string, reason?: string, options?: { by?: 'customer' | 'admin' }): Promise<Booking>
+ * Moves a booking after re-checking business hours and availability (the booking itself is left out
+ * of the check). The old slot is appended to scheduleHistory; pending reminders and open installments
+ * move with it.
+ * Nobody can move a booking into the past. Customers are held to the reschedule cutoff from the
+ * scheduling settings, for both the current and the new start; admins are not.
+ */
+export async function rescheduleBooking(
+  id: string,
+  newStart: Date | string,
+  newEnd: Date | string,
+  reason?: string,
+  options: { by?: 'customer' | 'admin' } = {}
+): Promise<Booking> {
+  if (!id) throw new Error('id is required');
+  const by = options.by ?? 'admin';
+  const all = loadAllBookings();
+  const b = all.find((x) => x.id === id);
+  if (!b) throw new Error('Booking not found');
+  if (FINAL_STATUSES.includes(b.status)) throw new Error(`A ${b.status} booking cannot be rescheduled`);
+  if (by === 'customer') {
+    const blocked = getCustomerRescheduleBlock(b);
+    if (blocked) throw new Error(blocked);
+  }
+
+  const start = new Date(ensureISO(newStart)).getTime();
+  const end = new Date(ensureISO(newEnd)).getTime();
+  if (end <= start) throw new Error('end must be after start');
+  if (start < Date.now()) throw new Error('The new time is in the past');
+  if (by === 'customer') {
+    // The same cutoff again, for the slot the booking would move to
+    const blocked = getCustomerRescheduleBlock({ ...b, start: new Date(start).toISOString() });
+    if (blocked) throw new Error(blocked);
+  }
+  if (start === new Date(b.start).getTime() && end === new Date(b.end).getTime()) {
+    throw new Error('The booking is already at that time');
+  }
+
+  // Drafts hold no resources, so only scheduled bookings are re-checked
+  let resourceIds = b.resourceIds;
+  if (b.status !== 'draft') {
+    const closedReason = getClosureReason(start, end);
+    if (closedReason) throw new Error(closedReason);
+    const others = withHolds(all.filter((x) => x.id !== id));
+    const assignment = assignResources(start, end, b.packageId, b.location, others);
+    if (!assignment.available) throw new Error('No resources are available for the requested time');
+    resourceIds = assignment.resources.map((r) => r.id);
+  }
+
+  const now = nowIso();
+  const deltaMs = start - new Date(b.start).getTime();
+  b.scheduleHistory = (b.scheduleHistory ?? []).concat({
+    start: b.start,
+    end: b.end,
+    movedAt: now,
+    ...(reason ? { reason } : {}),
+    by,
+  });
+  b.start = new Date(start).toISOString();
+  b.end = new Date(end).toISOString();
+  b.durationMinutes = Math.round((end - start) / 60000);
+  b.resourceIds = resourceIds;
+  // Installments are set relative to the event, so they move with it
+  if (b.paymentSchedule) b.paymentSchedule = shiftPaymentSchedule(b.paymentSchedule, deltaMs);
+  b.updatedAt = now;
+  saveAllBookings(all);
+
+  shiftBookingReminders(id, deltaMs, bookingReminderDetails(b));
+  if (b.paymentSchedule) schedulePaymentReminders(b);
+  return clone(b);
+}
+
+/**
+ * submitPaymentProof(id: string, proof: BookingPaymentProof): Promise<void>
+ * Attaches a customer's proof and moves the booking into payment review. Replacing a proof
+ * that is already under review keeps the booking there.
+ */
+export async function submitPaymentProof(id: string, proof: BookingPaymentProof): Promise<void> {
+  if (!id) throw new Error('id is required');
+  const booking = getStoredBooking(id);
+  if (!booking) throw new Error('Booking not found');
+  const fresh: BookingPaymentProof = {
+    fileName: proof.fileName,
+    mimeType: proof.mimeType,
+    dataUrl: proof.dataUrl,
+    uploadedAt: proof.uploadedAt || nowIso(),
+  };
+  if (booking.status === 'payment_submitted') {
+    patchBooking(id, { paymentProof: fresh });
+    return;
+  }
+  assertTransition({ ...booking, paymentProof: fresh }, 'payment_submitted');
+  patchBooking(id, { paymentProof: fresh, paymentProofRequested: false });
+  await updateBookingStatus(id, 'payment_submitted', 'Payment proof uploaded');
+}
+
+/**
+ * verifyPaymentProof(id: string): Promise<void>
+ * Marks the uploaded payment proof as checked, which the confirmed guard requires.
+ */
+export async function verifyPaymentProof(id: string): Promise<void> {
+  await updateBookingStatus(id, 'payment_verified');
+}
+
+/**
+ * rejectPaymentProof(id: string, reason: string): Promise<void>
+ * Sends the booking back to the customer for a new proof.
+ */
+export async function rejectPaymentProof(id: string, reason: string): Promise<void> {
+  await updateBookingStatus(id, 'payment_rejected', reason);
+}
+
+/* Recurring and multi-day bookings */
+
+/** Upper bound on sessions in one series, so a loose rule cannot flood the store. */
+const MAX_SERIES_SESSIONS = 100;
+
+/** Series statuses from least to most advanced; a series is as far along as its slowest open session. */
+const SERIES_STATUS_ORDER: readonly BookingStatus[] = [
+  'draft',
+  'booked',
+  'payment_rejected',
+  'payment_submitted',
+  'payment_verified',
+  'confirmed',
+  'completed',
+];
+
+export interface BookingSeriesDraft {
+  /** Explicit sessions, e.g. the days of a convention. Ignored when `recurrence` is set. */
+  sessions?: Array<{ start: Date | string; end: Date | string }>;
+  /** Repeat one session by a rule, e.g. every Friday for a quarter. */
+  recurrence?: { start: Date | string; durationMinutes: number; rule: RecurrenceRule };
+  customer?: BookingCustomer | null;
+  packageId?: string | null;
+  packageName?: string | null;
+  location?: string | null;
+  /** Total for the whole series. */
+  price?: number | null;
+  notes?: string | null;
+  status?: BookingStatus;
+}
+
+export interface SeriesSessionCheck {
+  start: string;
+  end: string;
+  available: boolean;
+  reason: string | null;
+  resources: Resource[];
+}
+
+export interface BookingSeriesDetails extends BookingSeries {
+  status: BookingStatus;
+  /** Session bookings in chronological order. */
+  sessions: Booking[];
+}
+
+/**
+ * expandRecurrence(start: Date | string, durationMinutes: number, rule: RecurrenceRule): Array<{ start: string; end: string }>
+ * Session slots produced by a rule, starting with `start`. Local time of day is kept across DST changes.
+ */
+export function expandRecurrence(
+  start: Date | string,
+  durationMinutes: number,
+  rule: RecurrenceRule
+): Array<{ start: string; end: string }> {
+  const first = toDate(start);
+  if (isNaN(first.getTime())) throw new Error('Invalid start date');
+  if (typeof durationMinutes !== 'number' || durationMinutes <= 0) {
+    throw new Error('durationMinutes must be a positive number');
+  }
+  if (!rule.count && !rule.until) throw new Error('A recurrence needs a session count or an end date');
+  if (rule.count && rule.count > MAX_SERIES_SESSIONS) {
+    throw new Error(`A series can have at most ${MAX_SERIES_SESSIONS} sessions`);
+  }
+
+  const interval = Math.max(1, Math.round(rule.interval || 1));
+  const limit = rule.count ?? MAX_SERIES_SESSIONS + 1;
+  const until = rule.until ? new Date(`${rule.until}T23:59:59.999`).getTime() : Infinity;
+  const weekdays =
+    rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length
+      ? Array.from(new Set<number>(rule.weekdays)).sort((a, b) => a - b)
+      : [first.getDay()];
+
+  const out: Array<{ start: string; end: string }> = [];
+  const push = (d: Date) =>
+    out.push({ start: d.toISOString(), end: new Date(d.getTime() + Math.round(durationMinutes) * 60000).toISOString() });
+
+  for (let period = 0; out.length < limit; period++) {
+    const base = new Date(first);
+    if (rule.frequency === 'daily') {
+      base.setDate(first.getDate() + period * interval);
+      if (base.getTime() > until) break;
+      push(base);
+      continue;
+    }
+    // Weekly: walk the chosen weekdays of every interval-th week, counted from the first session's week
+    base.setDate(first.getDate() - first.getDay() + period * interval * 7);
+    if (base.getTime() > until) break;
+    for (const weekday of weekdays) {
+      const day = new Date(base);
+      day.setDate(base.getDate() + weekday);
+      if (day.getTime() < first.getTime()) continue;
+      if (day.getTime() > until || out.length >= limit) break;
+      push(day);
+    }
+  }
+
+  if (out.length > MAX_SERIES_SESSIONS) throw new Error(`A series can have at most ${MAX_SERIES_SESSIONS} sessions`);
+  return out;
+}
+
+/* Sessions of a draft as sorted epoch-ms intervals; overlapping sessions are rejected */
+function resolveSeriesSessions(draft: BookingSeriesDraft): Array<{ start: number; end: number }> {
+  const raw = draft.recurrence
+    ? expandRecurrence(draft.recurrence.start, draft.recurrence.durationMinutes, draft.recurrence.rule)
+    : draft.sessions ?? [];
+  const sessions = raw
+    .map((s) => ({ start: new Date(ensureISO(s.start)).getTime(), end: new Date(ensureISO(s.end)).getTime() }))
+    .sort((a, b) => a.start - b.start);
+  if (sessions.length === 0) throw new Error('A series needs at least one session');
+  if (sessions.length > MAX_SERIES_SESSIONS) throw new Error(`A series can have at most ${MAX_SERIES_SESSIONS} sessions`);
+  sessions.forEach((s, i) => {
+    if (s.end <= s.start) throw new Error('end must be after start');
+    if (i > 0 && s.start < sessions[i - 1].end) throw new Error('Sessions in a series must not overlap');
+  });
+  return sessions;
+}
+
+/*
+ * Check every session against the stored bookings and the series' own earlier sessions, so two
+ * sessions cannot both count on the last free booth.
+ */
+function checkSessions(
+  sessions: Array<{ start: number; end: number }>,
+  packageId: string | null,
+  location: string | null,
+  bookings: Booking[]
+): SeriesSessionCheck[] {
+  const calendar = getBusinessCalendar();
+  const config = getResourceConfig();
+  const scheduling = getSchedulingSettings();
+  const pool = bookings.slice();
+
+  return sessions.map(({ start, end }, i) => {
+    const slot = { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+    const closedReason = getClosureReason(start, end, calendar);
+    if (closedReason) return { ...slot, available: false, reason: closedReason, resources: [] };
+    const assignment = assignResources(start, end, packageId, location, pool, config, scheduling);
+    if (!assignment.available) {
+      return { ...slot, available: false, reason: 'No resources are available for the requested time', resources: [] };
+    }
+    pool.push({
+      id: `series-session-${i}`,
+      ...slot,
+      packageId,
+      location,
+      status: 'booked',
+      resourceIds: assignment.resources.map((r) => r.id),
+    } as Booking);
+    return { ...slot, available: true, reason: null, resources: assignment.resources };
+  });
+}
+
+/* Split a total into per-session shares that add up to it exactly (to the cent) */
+function splitPrice(total: number, parts: number): number[] {
+  const cents = Math.round(total * 100);
+  const base = Math.floor(cents / parts);
+  return Array.from({ length: parts }, (_, i) => (base + (i < cents - base * parts ? 1 : 0)) / 100);
+}
+
+function deriveSeriesStatus(sessions: Booking[]): BookingStatus {
+  const open = sessions.filter((s) => s.status !== 'cancelled');
+  if (open.length === 0) return 'cancelled';
+  return open.reduce<BookingStatus>(
+    (slowest, s) => (SERIES_STATUS_ORDER.indexOf(s.status) < SERIES_STATUS_ORDER.indexOf(slowest) ? s.status : slowest),
+    'completed'
+  );
+}
+
+function toSeriesDetails(series: BookingSeries, bookings: Booking[]): BookingSeriesDetails {
+  const sessions = bookings
+    .filter((b) => b.seriesId === series.id)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map(clone);
+  return { ...clone(series), status: deriveSeriesStatus(sessions), sessions };
+}
+
+/**
+ * checkSeriesAvailability(draft: BookingSeriesDraft): Promise<SeriesSessionCheck[]>
+ * Per-session verdicts for a series before it is created, with the same rules as createBooking.
+ */
+export async function checkSeriesAvailability(draft: BookingSeriesDraft): Promise<SeriesSessionCheck[]> {
+  const sessions = resolveSeriesSessions(draft);
+  return checkSessions(sessions, draft.packageId ?? null, draft.location ?? null, withHolds(loadAllBookings()));
+}
+
+/**
+ * createBookingSeries(draft: BookingSeriesDraft): Promise<{ id: string; bookingIds: string[] }>
+ * Creates the parent series and one booking per session. Nothing is saved unless every session
+ * is available (drafts skip the check, as in createBooking).
+ */
+export async function createBookingSeries(draft: BookingSeriesDraft): Promise<{ id: string; bookingIds: string[] }> {
+  if (!draft) throw new Error('draft is required');
+  const sessions = resolveSeriesSessions(draft);
+  const status: BookingStatus = draft.status ?? 'booked';
+  if (!INITIAL_BOOKING_STATUSES.includes(status)) {
+    throw new Error(`New bookings must start as ${INITIAL_BOOKING_STATUSES.join(' or ')}`);
+  }
+  const packageId = draft.packageId ?? null;
+  const location = draft.location ?? null;
+
+  const all = loadAllBookings();
+  let resourceIds: Array<string[] | undefined> = sessions.map(() => undefined);
+  if (status !== 'draft') {
+    const checks = checkSessions(sessions, packageId, location, withHolds(all));
+    const blocked = checks.find((c) => !c.available);
+    if (blocked) {
+      throw new Error(`Session on ${new Date(blocked.start).toLocaleString()} is unavailable: ${blocked.reason}`);
+    }
+    resourceIds = checks.map((c) => c.resources.map((r) => r.id));
+  }
+
+  const id = generateId();
+  const ts = nowIso();
+  const reference = generateBookingReference();
+  const price = typeof draft.price === 'number' ? draft.price : null;
+  const shares = price !== null ? splitPrice(price, sessions.length) : null;
+
+  const bookings: Booking[] = sessions.map((s, i) => ({
+    id: generateId(),
+    reference: `${reference}-${i + 1}`,
+    createdAt: ts,
+    updatedAt: ts,
+    start: new Date(s.start).toISOString(),
+    end: new Date(s.end).toISOString(),
+    durationMinutes: Math.round((s.end - s.start) / 60000),
+    packageId,
+    packageName: draft.packageName ?? null,
+    customer: draft.customer ?? null,
+    status,
+    statusHistory: [{ status, at: ts, reason: `Session ${i + 1} of ${sessions.length} in series ${reference}` }],
+    price: shares ? shares[i] : null,
+    notes: draft.notes ?? null,
+    location,
+    resourceIds: resourceIds[i],
+    seriesId: id,
+  }));
+
+  saveAllBookings(all.concat(bookings));
+  writeBookingSeries(
+    readBookingSeries().concat({
+      id,
+      reference,
+      createdAt: ts,
+      updatedAt: ts,
+      customer: draft.customer ?? null,
+      packageId,
+      packageName: draft.packageName ?? null,
+      location,
+      price,
+      notes: draft.notes ?? null,
+      recurrence: draft.recurrence ? draft.recurrence.rule : null,
+      sessionIds: bookings.map((b) => b.id),
+    })
+  );
+
+  return { id, bookingIds: bookings.map((b) => b.id) };
+}
+
+/**
+ * getBookingSeries(id: string): Promise<BookingSeriesDetails | null>
+ */
+export async function getBookingSeries(id: string): Promise<BookingSeriesDetails | null> {
+  const series = getStoredSeries(id);
+  return series ? toSeriesDetails(series, loadAllBookings()) : null;
+}
+
+/**
+ * listBookingSeries(): Promise<BookingSeriesDetails[]>
+ */
+export async function listBookingSeries(): Promise<BookingSeriesDetails[]> {
+  const all = loadAllBookings();
+  return readBookingSeries().map((s) => toSeriesDetails(s, all));
+}
+
+/**
+ * updateSeriesStatus(id: string, status: BookingStatus, reason?: string): Promise<void>
+ * Moves every open session (not cancelled or completed) to `status`. All of them must be allowed
+ * to make the change before any is updated.
+ */
+export async function updateSeriesStatus(id: string, status: BookingStatus, reason?: string): Promise<void> {
+  const series = await getBookingSeries(id);
+  if (!series) throw new Error('Series not found');
+  const pending = series.sessions.filter((s) => !FINAL_STATUSES.includes(s.status) && s.status !== status);
+  if (pending.length === 0) throw new Error(`No sessions can become ${status}`);
+  for (const session of pending) {
+    const { allowed, reason: blocked } = canTransition(session, status);
+    if (!allowed) throw new Error(`Session on ${new Date(session.start).toLocaleString()}: ${blocked}`);
+  }
+  for (const session of pending) {
+    await updateBookingStatus(session.id, status, reason);
+  }
+}
+
+/**
+ * cancelBookingSeries(id: string, reason?: string): Promise<void>
+ */
+export async function cancelBookingSeries(id: string, reason?: string): Promise<void> {
+  await updateSeriesStatus(id, 'cancelled', reason);
+}
+
+/**
+ * cancelSeriesSession(id: string, bookingId: string, reason?: string): Promise<void>
+ * Cancels one session; the rest of the series is unchanged. The series price is not adjusted.
+ */
+export async function cancelSeriesSession(id: string, bookingId: string, reason?: string): Promise<void> {
+  const booking = getStoredBooking(bookingId);
+  if (!booking || booking.seriesId !== id) throw new Error('Session not found in this series');
+  await updateBookingStatus(bookingId, 'cancelled', reason);
+}
+
+/**
+ * submitSeriesPaymentProof(id: string, proof: BookingPaymentProof): Promise<void>
+ * One payment covers the shared price, so the proof is attached to every session awaiting payment.
+ */
+export async function submitSeriesPaymentProof(id: string, proof: BookingPaymentProof): Promise<void> {
+  const series = await getBookingSeries(id);
+  if (!series) throw new Error('Series not found');
+  const awaiting = series.sessions.filter((s) =>
+    (['booked', 'payment_submitted', 'payment_rejected'] as BookingStatus[]).includes(s.status)
+  );
+  if (awaiting.length === 0) throw new Error('No sessions in this series are awaiting payment');
+  for (const session of awaiting) {
+    await submitPaymentProof(session.id, proof);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Booking status workflow: which status may follow which, the conditions a booking must meet to
+ * enter a status, and side effects that run after a status change. bookingservice.ts enforces it;
+ * admin screens use getAvailableTransitions to decide which actions to offer.
+ */
+
+/** Allowed next statuses. cancelled and completed are final. */
+export const BOOKING_TRANSITIONS: Readonly<Record<BookingStatus, readonly BookingStatus[]>> = {
+  draft: ['booked', 'cancelled'],
+  // Straight to payment_verified when paid by card, which needs no proof
+  booked: ['payment_submitted', 'payment_verified', 'cancelled'],
+  payment_submitted: ['payment_verified', 'payment_rejected', 'cancelled'],
+  payment_rejected: ['payment_submitted', 'cancelled'],
+  payment_verified: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  cancelled: [],
+  completed: [],
+};
+
+/** Statuses a booking may be created in. */
+export const INITIAL_BOOKING_STATUSES: readonly BookingStatus[] = ['draft', 'booked'];
+
+/** Returns why the booking cannot enter `to`, or null when it can. */
+export type TransitionGuard = (booking: Booking, to: BookingStatus) => string | null;
+
+export interface TransitionContext {
+  from: BookingStatus;
+  to: BookingStatus;
+  reason?: string;
+}
+
+/** Runs after the new status is saved. Failures are logged and do not undo the change. */
+export type TransitionHook = (booking: Booking, context: TransitionContext) => void | Promise<void>;
+
+export interface TransitionOption {
+  status: BookingStatus;
+  allowed: boolean;
+  reason: string | null;
+}
+
+const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+
+const guards: Array<{ to: BookingStatus; guard: TransitionGuard }> = [];
+const hooks: Array<{ to: BookingStatus | '*'; hook: TransitionHook }> = [];
+
+export function registerTransitionGuard(to: BookingStatus, guard: TransitionGuard): () => void {
+  const entry = { to, guard };
+  guards.push(entry);
+  return () => {
+    const idx = guards.indexOf(entry);
+    if (idx !== -1) guards.splice(idx, 1);
+  };
+}
+
+/** Register a side effect for entering `to` ('*' for every change). Returns an unregister function. */
+export function registerTransitionHook(to: BookingStatus | '*', hook: TransitionHook): () => void {
+  const entry = { to, hook };
+  hooks.push(entry);
+  return () => {
+    const idx = hooks.indexOf(entry);
+    if (idx !== -1) hooks.splice(idx, 1);
+  };
+}
+
+export function canTransition(booking: Booking, to: BookingStatus): { allowed: boolean; reason: string | null } {
+  const next = BOOKING_TRANSITIONS[booking.status] ?? [];
+  if (!next.includes(to)) {
+    return { allowed: false, reason: `A ${booking.status} booking cannot become ${to}` };
+  }
+  for (const entry of guards) {
+    if (entry.to !== to) continue;
+    const reason = entry.guard(booking, to);
+    if (reason) return { allowed: false, reason };
+  }
+  return { allowed: true, reason: null };
+}
+
+/** Throws with the blocking reason when the change is not allowed. */
+export function assertTransition(booking: Booking, to: BookingStatus): void {
+  const { allowed, reason } = canTransition(booking, to);
+  if (!allowed) throw new Error(reason || 'Status change not allowed');
+}
+
+/** Every status reachable from the booking's current one, with whether its guards pass. */
+export function getAvailableTransitions(booking: Booking): TransitionOption[] {
+  return (BOOKING_TRANSITIONS[booking.status] ?? []).map((status) => ({ status, ...canTransition(booking, status) }));
+}
+
+export async function runTransitionHooks(booking: Booking, context: TransitionContext): Promise<void> {
+  for (const entry of hooks.slice()) {
+    if (entry.to !== '*' && entry.to !== context.to) continue;
+    try {
+      await entry.hook(booking, context);
+    } catch (e) {
+      console.error(`Booking ${context.to} hook failed`, e);
+    }
+  }
+}
+
+/** Stable id of the day-before reminder, so it can be moved or cancelled later. */
+export function bookingReminderId(bookingId: string): string {
+  return `booking:${bookingId}:reminder24h`;
+}
+
+/** Reminder payload fields that describe the booking's slot; refreshed when it is rescheduled. */
+export function bookingReminderDetails(booking: Booking): Record<string, string> {
+  const start = new Date(booking.start);
+  return {
+    message: `Your booking ${booking.reference} starts ${start.toLocaleString()}.`,
+    date: start.toLocaleDateString(),
+    time: start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    location: booking.location ?? '',
+  };
+}
+
+/* Built-in rules */
+
+/* Paid without a proof: a succeeded card payment, or verified ledger payments covering the deposit */
+function hasVerifiedPayment(booking: Booking): boolean {
+  if (listPaymentIntents(booking.id).some((i) => i.status === 'succeeded')) return true;
+  const net = getLedgerEntries(booking.id)
+    .filter((e) => e.verifiedAt)
+    .reduce((sum, e) => sum + (e.kind === 'payment' ? e.amount : -e.amount), 0);
+  const deposit = booking.paymentSchedule?.find((i) => i.kind === 'deposit')?.amount ?? booking.price ?? 0;
+  return net > 0 && net >= deposit;
+}
+
+const requireProof: TransitionGuard = (booking) => (booking.paymentProof ? null : 'No payment proof has been uploaded');
+registerTransitionGuard('payment_submitted', requireProof);
+registerTransitionGuard('payment_rejected', requireProof);
+
+registerTransitionGuard('payment_verified', (booking) =>
+  booking.paymentProof || hasVerifiedPayment(booking) ? null : 'No payment proof has been uploaded and no payment was received'
+);
+
+registerTransitionGuard('confirmed', (booking) => {
+  if (hasVerifiedPayment(booking)) return null;
+  if (!booking.paymentProof) return 'A payment proof is required before confirming';
+  if (!booking.paymentProof.verifiedAt) return 'The payment proof must be verified before confirming';
+  return null;
+});
+
+registerTransitionGuard('completed', (booking) => {
+  const start = new Date(booking.start).getTime();
+  return !isNaN(start) && start > Date.now() ? 'The event has not started yet' : null;
+});
+
+registerTransitionHook('confirmed', (booking) => {
+  const start = new Date(booking.start);
+  if (isNaN(start.getTime())) return;
+  const at = new Date(Math.max(Date.now(), start.getTime() - REMINDER_LEAD_MS));
+  if (at.getTime() >= start.getTime()) return;
+  scheduleReminder({
+    id: bookingReminderId(booking.id),
+    at: at.toISOString(),
+    payload: {
+      templateKey: 'reminder24h',
+      title: 'Upcoming photobooth booking',
+      bookingId: booking.id,
+      reference: booking.reference,
+      name: booking.customer?.name ?? '',
+      email: booking.customer?.email ?? '',
+      phone: booking.customer?.phone ?? '',
+      ...bookingReminderDetails(booking),
+    },
+  });
+});
+
+registerTransitionHook('cancelled', (booking) => {
+  cancelReminder(bookingReminderId(booking.id));
+});
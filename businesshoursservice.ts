@@ -0,0 +1,275 @@
+const BUSINESS_CALENDAR_KEY = 'pb_business_calendar_v1';
+
+registerStorageKeys([BUSINESS_CALENDAR_KEY]);
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+/** Opening hours for one weekday, as "HH:mm". A close at or before open means closing after midnight. */
+export interface BusinessHoursDay {
+  closed: boolean;
+  open: string;
+  close: string;
+}
+
+/** Dates (inclusive, "YYYY-MM-DD") when no bookings are taken. */
+export interface BlackoutRange {
+  id: string;
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+export interface Holiday {
+  id: string;
+  name: string;
+  /** "YYYY-MM-DD"; when recurring only the month and day are compared. */
+  date: string;
+  recurring: boolean;
+}
+
+export interface BusinessCalendar {
+  /** Indexed by Date#getDay(), so 0 is Sunday. */
+  weekly: BusinessHoursDay[];
+  blackouts: BlackoutRange[];
+  holidays: Holiday[];
+}
+
+// Open around the clock until an admin saves business hours, so nothing is refused by default
+const DEFAULT_DAY: BusinessHoursDay = { closed: false, open: '00:00', close: '24:00' };
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  weekly: WEEKDAY_NAMES.map(() => ({ ...DEFAULT_DAY })),
+  blackouts: [],
+  holidays: [],
+};
+
+const TIME_RE = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function timeToMinutes(value: string): number {
+  const m = TIME_RE.exec(value);
+  return m ? Math.min(Number(m[1]) * 60 + Number(m[2]), 24 * 60) : 0;
+}
+
+/** Local calendar date as "YYYY-MM-DD". */
+export function toDateKey(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function normalizeDay(raw: any): BusinessHoursDay {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_DAY };
+  return {
+    closed: raw.closed === true,
+    open: typeof raw.open === 'string' && TIME_RE.test(raw.open) ? raw.open : DEFAULT_DAY.open,
+    close: typeof raw.close === 'string' && TIME_RE.test(raw.close) ? raw.close : DEFAULT_DAY.close,
+  };
+}
+
+function normalizeBlackout(raw: any): BlackoutRange | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (!DATE_RE.test(raw.from) || !DATE_RE.test(raw.to)) return null;
+  const [from, to] = raw.from <= raw.to ? [raw.from, raw.to] : [raw.to, raw.from];
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId('blk'),
+    from,
+    to,
+    ...(typeof raw.reason === 'string' && raw.reason.trim() ? { reason: raw.reason.trim() } : {}),
+  };
+}
+
+function normalizeHoliday(raw: any): Holiday | null {
+  if (!raw || typeof raw !== 'object' || !DATE_RE.test(raw.date)) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId('hol'),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Holiday',
+    date: raw.date,
+    recurring: raw.recurring === true,
+  };
+}
+
+function normalizeCalendar(raw: any): BusinessCalendar {
+  const src = raw && typeof raw === 'object' ? raw : {};
+  const weekly = Array.isArray(src.weekly) ? src.weekly : [];
+  return {
+    weekly: WEEKDAY_NAMES.map((_, i) => normalizeDay(weekly[i])),
+    blackouts: Array.isArray(src.blackouts)
+      ? src.blackouts.map(normalizeBlackout).filter((b: BlackoutRange | null): b is BlackoutRange => b !== null)
+      : [],
+    holidays: Array.isArray(src.holidays)
+      ? src.holidays.map(normalizeHoliday).filter((h: Holiday | null): h is Holiday => h !== null)
+      : [],
+  };
+}
+
+export function getBusinessCalendar(): BusinessCalendar {
+  return normalizeCalendar(getItem<BusinessCalendar>(BUSINESS_CALENDAR_KEY));
+}
+
+export function saveBusinessCalendar(calendar: BusinessCalendar): BusinessCalendar {
+  const normalized = normalizeCalendar(calendar);
+  const before = getBusinessCalendar();
+  setItem(BUSINESS_CALENDAR_KEY, normalized);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'business_hours',
+    summary: 'Business hours changed',
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+/** [open, close) in epoch ms for the business day starting on `day`, or null when closed that weekday. */
+function openingWindow(day: Date, calendar: BusinessCalendar): [number, number] | null {
+  const hours = calendar.weekly[day.getDay()];
+  if (!hours || hours.closed) return null;
+  const open = timeToMinutes(hours.open);
+  let close = timeToMinutes(hours.close);
+  if (close <= open) close += 24 * 60;
+  // Local clock times, so days with a daylight saving change still end at the next midnight
+  const at = (minutes: number) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes).getTime();
+  return [at(open), at(close)];
+}
+
+function holidayOn(dateKey: string, calendar: BusinessCalendar): Holiday | undefined {
+  return calendar.holidays.find((h) => (h.recurring ? h.date.slice(5) === dateKey.slice(5) : h.date === dateKey));
+}
+
+function blackoutOn(dateKey: string, calendar: BusinessCalendar): BlackoutRange | undefined {
+  return calendar.blackouts.find((b) => b.from <= dateKey && dateKey <= b.to);
+}
+
+/**
+ * Why [start, end) cannot be booked, or null when it can. Holidays and blackouts apply to every
+ * day the slot touches; the slot must also fit inside the opening hours of the business day it
+ * starts in (including the previous day's hours when they run past midnight), carried on into the
+ * following days' hours where they join up.
+ */
+export function getClosureReason(
+  start: number,
+  end: number,
+  calendar: BusinessCalendar = getBusinessCalendar()
+): string | null {
+  if (isNaN(start) || isNaN(end)) return 'Invalid date';
+  const last = end > start ? end - 1 : start;
+  const startDay = new Date(start);
+  startDay.setHours(0, 0, 0, 0);
+
+  for (let day = new Date(startDay); day.getTime() <= last; day.setDate(day.getDate() + 1)) {
+    const key = toDateKey(day);
+    const holiday = holidayOn(key, calendar);
+    if (holiday) return `Closed for ${holiday.name}`;
+    const blackout = blackoutOn(key, calendar);
+    if (blackout) return blackout.reason ? `Closed: ${blackout.reason}` : 'Closed on this date';
+  }
+
+  const previousDay = new Date(startDay);
+  previousDay.setDate(previousDay.getDate() - 1);
+  const slotEnd = Math.max(end, start);
+  for (const day of [startDay, previousDay]) {
+    const window = openingWindow(day, calendar);
+    if (!window || start < window[0]) continue;
+    // Hours running up to the next business day's opening carry on into it, e.g. open around the clock
+    let close = window[1];
+    const next = new Date(day);
+    while (close < slotEnd) {
+      next.setDate(next.getDate() + 1);
+      const following = openingWindow(next, calendar);
+      if (!following || following[0] > close) break;
+      close = Math.max(close, following[1]);
+    }
+    if (slotEnd <= close) return null;
+  }
+
+  const hours = calendar.weekly[startDay.getDay()];
+  if (hours.closed) return `Closed on ${WEEKDAY_NAMES[startDay.getDay()]}s`;
+  return `Outside business hours (${hours.open}-${hours.close})`;
+}
+
+export function isWithinBusinessHours(start: number, end: number, calendar?: BusinessCalendar): boolean {
+  return getClosureReason(start, end, calendar) === null;
+}
+
+/* RFC 5545 lines may be folded: a line starting with a space or tab continues the previous one */
+function unfoldIcs(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+/* DTSTART;VALUE=DATE:20251225 or DTSTART:20251225T000000Z -> "2025-12-25" */
+function icsDate(value: string): string | null {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+/**
+ * Read holidays from an iCalendar (.ics) file. Events with FREQ=YEARLY become recurring holidays;
+ * multi-day events produce one holiday per day (DTEND is exclusive).
+ */
+export function parseIcsHolidays(text: string): Holiday[] {
+  const out: Holiday[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of unfoldIcs(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const date = event && event.DTSTART ? icsDate(event.DTSTART) : null;
+      if (event && date) {
+        const name = event.SUMMARY ? unescapeIcsText(event.SUMMARY) : 'Holiday';
+        const recurring = /FREQ=YEARLY/i.test(event.RRULE || '');
+        const endDate = event.DTEND ? icsDate(event.DTEND) : null;
+        const day = new Date(`${date}T00:00:00`);
+        // Cap the expansion so a malformed DTEND cannot produce thousands of entries
+        for (let i = 0; i < 31; i++) {
+          const key = toDateKey(day);
+          if (i > 0 && (!endDate || key >= endDate)) break;
+          out.push({ id: generateId('hol'), name, date: key, recurring });
+          day.setDate(day.getDate() + 1);
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    // Property parameters (";VALUE=DATE", ";TZID=...") are dropped from the name
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    event[name] = line.slice(colon + 1);
+  }
+
+  return out;
+}
+
+/**
+ * Merge holidays from an .ics file into the stored calendar, skipping ones already present.
+ * Returns how many were added.
+ */
+export function importHolidaysFromIcs(text: string): number {
+  const parsed = parseIcsHolidays(text);
+  if (parsed.length === 0) throw new Error('No events found in the calendar file');
+  const calendar = getBusinessCalendar();
+  const seen = new Set(calendar.holidays.map((h) => `${h.date}|${h.name}`));
+  let added = 0;
+  for (const h of parsed) {
+    const key = `${h.date}|${h.name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    calendar.holidays.push(h);
+    added++;
+  }
+  saveBusinessCalendar(calendar);
+  return added;
+}
@@ -0,0 +1,265 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd" };
+
+const listStyle: React.CSSProperties = { listStyle: "none", margin: "0 0 8px", padding: 0, display: "grid", gap: 4 };
+
+/**
+ * Settings section for weekly opening hours, blackout ranges and holidays (with .ics import).
+ * Saved through businesshoursservice; bookings, validation and the date picker all read it.
+ */
+export default function BusinessHoursSettingsSection(): JSX.Element {
+  const [calendar, setCalendar] = useState<BusinessCalendar>(() => getBusinessCalendar());
+  const [blackout, setBlackout] = useState({ from: "", to: "", reason: "" });
+  const [holiday, setHoliday] = useState({ name: "", date: "", recurring: true });
+  const [message, setMessage] = useState<string | null>(null);
+
+  function update(next: BusinessCalendar) {
+    setCalendar(next);
+    setMessage(null);
+  }
+
+  function updateDay(index: number, patch: Partial<BusinessHoursDay>) {
+    update({ ...calendar, weekly: calendar.weekly.map((d, i) => (i === index ? { ...d, ...patch } : d)) });
+  }
+
+  function addBlackout() {
+    if (!blackout.from) return;
+    update({
+      ...calendar,
+      blackouts: calendar.blackouts.concat({
+        id: `blk_${Date.now().toString(36)}`,
+        from: blackout.from,
+        to: blackout.to || blackout.from,
+        reason: blackout.reason.trim() || undefined,
+      }),
+    });
+    setBlackout({ from: "", to: "", reason: "" });
+  }
+
+  function addHoliday() {
+    if (!holiday.date || !holiday.name.trim()) return;
+    update({
+      ...calendar,
+      holidays: calendar.holidays.concat({
+        id: `hol_${Date.now().toString(36)}`,
+        name: holiday.name.trim(),
+        date: holiday.date,
+        recurring: holiday.recurring,
+      }),
+    });
+    setHoliday({ name: "", date: "", recurring: true });
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setCalendar(saveBusinessCalendar(calendar));
+      setMessage("Business hours saved.");
+    } catch {
+      setMessage("Failed to save business hours.");
+    }
+  }
+
+  async function handleIcsImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      // Unsaved edits are kept: the import merges into storage and the list is reloaded from there
+      saveBusinessCalendar(calendar);
+      const added = importHolidaysFromIcs(await file.text());
+      setCalendar(getBusinessCalendar());
+      setMessage(`Imported ${added} holiday${added === 1 ? "" : "s"} from ${file.name}.`);
+    } catch (err: any) {
+      setMessage(`Failed to import ${file.name}: ${err?.message || "unreadable file"}`);
+    }
+  }
+
+  return (
+    <section aria-labelledby="business-hours-heading" style={sectionStyle}>
+      <h2 id="business-hours-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Business Hours & Closures
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Bookings must fit inside opening hours. Hours that close at or before they open run past midnight.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <tbody>
+            {calendar.weekly.map((day, i) => (
+              <tr key={WEEKDAY_NAMES[i]}>
+                <td style={{ padding: "4px 8px 4px 0", width: 110 }}>{WEEKDAY_NAMES[i]}</td>
+                <td style={{ padding: 4 }}>
+                  <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                    <input
+                      type="checkbox"
+                      checked={day.closed}
+                      onChange={(e) => updateDay(i, { closed: e.target.checked })}
+                    />
+                    Closed
+                  </label>
+                </td>
+                <td style={{ padding: 4 }}>
+                  <input
+                    type="time"
+                    value={day.open}
+                    disabled={day.closed}
+                    onChange={(e) => updateDay(i, { open: e.target.value })}
+                    aria-label={`${WEEKDAY_NAMES[i]} opens`}
+                    style={inputStyle}
+                  />
+                </td>
+                <td style={{ padding: 4 }}>
+                  <input
+                    type="time"
+                    value={day.close === "24:00" ? "00:00" : day.close}
+                    disabled={day.closed}
+                    onChange={(e) => updateDay(i, { close: e.target.value })}
+                    aria-label={`${WEEKDAY_NAMES[i]} closes`}
+                    style={inputStyle}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Blackout dates</legend>
+          <ul style={listStyle}>
+            {calendar.blackouts.map((b) => (
+              <li key={b.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <span>
+                  {b.from === b.to ? b.from : `${b.from} to ${b.to}`}
+                  {b.reason ? ` (${b.reason})` : ""}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => update({ ...calendar, blackouts: calendar.blackouts.filter((x) => x.id !== b.id) })}
+                  aria-label={`Remove blackout starting ${b.from}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <input
+              type="date"
+              value={blackout.from}
+              onChange={(e) => setBlackout({ ...blackout, from: e.target.value })}
+              aria-label="Blackout from"
+              style={inputStyle}
+            />
+            <input
+              type="date"
+              value={blackout.to}
+              min={blackout.from || undefined}
+              onChange={(e) => setBlackout({ ...blackout, to: e.target.value })}
+              aria-label="Blackout to"
+              style={inputStyle}
+            />
+            <input
+              value={blackout.reason}
+              onChange={(e) => setBlackout({ ...blackout, reason: e.target.value })}
+              placeholder="Reason (optional)"
+              aria-label="Blackout reason"
+              style={inputStyle}
+            />
+            <button type="button" onClick={addBlackout}>
+              Add blackout
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Holidays</legend>
+          <ul style={listStyle}>
+            {calendar.holidays.map((h) => (
+              <li key={h.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <span>
+                  {h.name}: {h.recurring ? `every year on ${h.date.slice(5)}` : h.date}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => update({ ...calendar, holidays: calendar.holidays.filter((x) => x.id !== h.id) })}
+                  aria-label={`Remove ${h.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <input
+              value={holiday.name}
+              onChange={(e) => setHoliday({ ...holiday, name: e.target.value })}
+              placeholder="e.g. New Year's Day"
+              aria-label="Holiday name"
+              style={inputStyle}
+            />
+            <input
+              type="date"
+              value={holiday.date}
+              onChange={(e) => setHoliday({ ...holiday, date: e.target.value })}
+              aria-label="Holiday date"
+              style={inputStyle}
+            />
+            <label style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={holiday.recurring}
+                onChange={(e) => setHoliday({ ...holiday, recurring: e.target.checked })}
+              />
+              Every year
+            </label>
+            <button type="button" onClick={addHoliday}>
+              Add holiday
+            </button>
+            <label style={{ fontSize: 13 }}>
+              Import .ics{" "}
+              <input type="file" accept=".ics,text/calendar" onChange={handleIcsImport} aria-label="Import holidays from .ics" />
+            </label>
+          </div>
+        </fieldset>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save business hours
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -1,84 +1,101 @@
-const STORAGE_KEY = "pb_bookings_v2";
 const SESSION_KEY = "pb_session_v2";
 
+type CustomerBooking = {
+  id: string;
+  reference: string;
+  name: string;
+  email: string;
+  date: string;
+  time: string;
+  totalAmount: number;
+  status: string;
+  paymentProof: BookingPaymentProof | null;
+  notes: string;
+  canUploadProof: boolean;
+  start: string;
+  durationMinutes: number;
+  packageId: string | null;
+  location: string | null;
+  // Why the customer cannot move this booking online, or null when they can
+  rescheduleBlock: string | null;
+  scheduleHistory: BookingScheduleEntry[];
+};
+
 /* Utility helpers */
-const uid = (prefix = "") =>
-  prefix + Math.random().toString(36).slice(2, 9) + Date.now().toString(36).slice(-4);
+const pad2 = (n: number) => String(n).padStart(2, "0");
 
-const readBookingsFromStorage = (): Booking[] => {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as Booking[];
-    if (!Array.isArray(parsed)) return [];
-    return parsed;
-  } catch {
-    return [];
-  }
+/* Customers see payment progress rather than the raw booking status */
+const toCustomerStatus = (b: Booking): string => {
+  if (b.status === "booked") return "pending_payment";
+  if (b.status === "payment_verified") return "payment_received";
+  return b.status;
+};
+
+/* Proofs can be (re)sent until the payment has been verified */
+const PROOF_UPLOAD_STATUSES: BookingStatus[] = ["booked", "payment_submitted", "payment_rejected"];
+
+const toCustomerBooking = (b: Booking): CustomerBooking => {
+  const start = new Date(b.start);
+  return {
+    id: b.id,
+    reference: b.reference,
+    name: b.customer?.name ?? "",
+    email: b.customer?.email ?? "",
+    date: `${start.getFullYear()}-${pad2(start.getMonth() + 1)}-${pad2(start.getDate())}`,
+    time: `${pad2(start.getHours())}:${pad2(start.getMinutes())}`,
+    totalAmount: b.price ?? 0,
+    status: toCustomerStatus(b),
+    paymentProof: b.paymentProof ?? null,
+    notes: b.notes ?? "",
+    canUploadProof: PROOF_UPLOAD_STATUSES.includes(b.status),
+    start: b.start,
+    durationMinutes: b.durationMinutes,
+    packageId: b.packageId ?? null,
+    location: b.location ?? null,
+    rescheduleBlock: getCustomerRescheduleBlock(b),
+    scheduleHistory: b.scheduleHistory ?? [],
+  };
 };
 
-const writeBookingsToStorage = (bookings: Booking[]) => {
+const readBookingsFromStorage = (): CustomerBooking[] => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookings));
+    return readBookings().map(toCustomerBooking);
   } catch {
-    // ignore storage errors for now
+    return [];
   }
 };
 
-const writeSession = (data: { email?: string | null; reference?: string | null } | null) => {
+type DashboardSession = { email?: string | null; reference?: string | null; expiresAt?: number };
+
+/* Only reference sessions live here; email sessions are the authservice customer session */
+const writeSession = (data: DashboardSession | null) => {
   try {
     if (!data) localStorage.removeItem(SESSION_KEY);
     else localStorage.setItem(SESSION_KEY, JSON.stringify(data));
   } catch {}
 };
 
-const readSession = (): { email?: string | null; reference?: string | null } | null => {
+const readSession = (): DashboardSession | null => {
+  const customer = getCustomerSession();
+  if (customer) return { email: customer.email, reference: null, expiresAt: customer.expiresAt };
   try {
     const raw = localStorage.getItem(SESSION_KEY);
     if (!raw) return null;
-    return JSON.parse(raw);
+    const parsed = JSON.parse(raw) as DashboardSession;
+    // Email sessions from before sign-in codes, and expired ones, are dropped
+    if (!parsed?.reference || typeof parsed.expiresAt !== "number" || parsed.expiresAt <= Date.now()) {
+      writeSession(null);
+      return null;
+    }
+    return { email: null, reference: parsed.reference, expiresAt: parsed.expiresAt };
   } catch {
     return null;
   }
 };
 
-/* Seed demo bookings if none exist so dashboard is usable */
-const ensureSeedBookings = () => {
-  const bookings = readBookingsFromStorage();
-  if (bookings.length > 0) return;
-  const seed: Booking[] = [
-    {
-      id: uid("b_"),
-      reference: "REF" + Math.random().toString(36).slice(2, 7).toUpperCase(),
-      name: "Alice Rivera",
-      email: "alice@example.com",
-      date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7).toISOString().slice(0, 10),
-      time: "15:00",
-      totalAmount: 250.0,
-      status: "pending_payment",
-      paymentProof: null,
-      notes: "Birthday event ? 4 hours",
-    },
-    {
-      id: uid("b_"),
-      reference: "REF" + Math.random().toString(36).slice(2, 7).toUpperCase(),
-      name: "Bob Chen",
-      email: "bob@example.com",
-      date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 14).toISOString().slice(0, 10),
-      time: "19:00",
-      totalAmount: 350.0,
-      status: "confirmed",
-      paymentProof: {
-        fileName: "receipt.jpg",
-        mimeType: "image/jpeg",
-        dataUrl: "",
-        uploadedAt: new Date().toISOString(),
-      },
-      notes: "Corporate event ? 6 hours",
-    },
-  ];
-  writeBookingsToStorage(seed);
-};
+/* Where magic links bring the customer back to: this page without its query string */
+const currentPageUrl = (): string | undefined =>
+  typeof window === "undefined" ? undefined : `${window.location.origin}${window.location.pathname}`;
 
 /* File validation */
 const isValidFileType = (file: File) => {
@@ -89,24 +106,29 @@ const isValidFileType = (file: File) => {
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
 
 /* Core exported functions per pseudocode */
-export async function loginByEmail(email: string): Promise<boolean> {
-  // validate
+/**
+ * Sends a sign-in code when the address has bookings. Callers show the same message either
+ * way so the form does not reveal which addresses are customers.
+ */
+export async function requestEmailLoginCode(email: string): Promise<void> {
   const normalized = (email || "").trim().toLowerCase();
-  if (!normalized) return false;
-  const bookings = readBookingsFromStorage();
-  const found = bookings.some((b) => b.email.toLowerCase() === normalized);
-  if (!found) return false;
-  writeSession({ email: normalized, reference: null });
-  return true;
+  if (!normalized) throw new Error("Please enter an email address.");
+  if (findBookingsByEmail(normalized).length === 0) return;
+  await requestLoginCode(normalized, currentPageUrl());
+}
+
+export async function loginByEmailCode(email: string, code: string): Promise<DashboardSession> {
+  const session = await verifyLoginCode(email, code);
+  writeSession(null);
+  return { email: session.email, reference: null, expiresAt: session.expiresAt };
 }
 
 export async function loginByReference(ref: string): Promise<boolean> {
   const r = (ref || "").trim();
   if (!r) return false;
-  const bookings = readBookingsFromStorage();
-  const found = bookings.some((b) => b.reference.toLowerCase() === r.toLowerCase());
-  if (!found) return false;
-  writeSession({ email: null, reference: r });
+  if (!findBookingByReference(r)) return false;
+  const expiresAt = Date.now() + getCustomerLoginSettings().sessionHours * 60 * 60000;
+  writeSession({ email: null, reference: r, expiresAt });
   return true;
 }
 
@@ -128,21 +150,13 @@ export async function reuploadPaymentProof(bookingId: string, file: File): Promi
     reader.readAsDataURL(file);
   });
 
-  // update booking in storage
-  const bookings = readBookingsFromStorage();
-  const idx = bookings.findIndex((b) => b.id === bookingId);
-  if (idx === -1) throw new Error("Booking not found");
-  bookings[idx] = {
-    ...bookings[idx],
-    paymentProof: {
-      fileName: file.name,
-      mimeType: file.type,
-      dataUrl,
-      uploadedAt: new Date().toISOString(),
-    },
-    status: "payment_submitted",
-  };
-  writeBookingsToStorage(bookings);
+  // attach the proof and put the booking into the admin review queue
+  await submitPaymentProof(bookingId, {
+    fileName: file.name,
+    mimeType: file.type,
+    dataUrl,
+    uploadedAt: new Date().toISOString(),
+  });
   // small artificial delay to emulate upload
   await new Promise((res) => setTimeout(res, 400));
 }
@@ -150,41 +164,57 @@ export async function reuploadPaymentProof(bookingId: string, file: File): Promi
 /* Main component */
 export default function CustomerDashboard(): JSX.Element {
   const [initialized, setInitialized] = useState(false);
-  const [session, setSession] = useState<{ email?: string | null; reference?: string | null } | null>(
-    null
-  );
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [filtered, setFiltered] = useState<Booking[]>([]);
+  const [session, setSession] = useState<DashboardSession | null>(null);
+  const [bookings, setBookings] = useState<CustomerBooking[]>([]);
+  const [filtered, setFiltered] = useState<CustomerBooking[]>([]);
   const [mode, setMode] = useState<"email" | "reference">("email");
   const [emailInput, setEmailInput] = useState("");
   const [refInput, setRefInput] = useState("");
+  // Set once a code has been sent to emailInput
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState("");
   const [status, setStatus] = useState<{ message: string; type: "success" | "error" | "info" } | null>(
     null
   );
   const [loading, setLoading] = useState(false);
   const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
-  // Seed bookings once (only in browser) on mount
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      try {
-        ensureSeedBookings();
-      } catch {
-        // ignore seed errors
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
   useEffect(() => {
     const s = readSession();
     setSession(s);
     const bs = readBookingsFromStorage();
     setBookings(bs);
     setInitialized(true);
+
+    // Arriving from a magic link
+    const loginParam = new URLSearchParams(window.location.search).get("login");
+    if (loginParam) {
+      window.history.replaceState(null, "", currentPageUrl());
+      verifyLoginLink(loginParam)
+        .then((session) => {
+          writeSession(null);
+          setSession({ email: session.email, reference: null, expiresAt: session.expiresAt });
+          setStatus({ message: "Signed in.", type: "success" });
+        })
+        .catch((err) => setStatus({ message: (err as Error).message, type: "error" }));
+    }
+    // Signing out in another tab signs out here too
+    return subscribeToCustomerSession(() => setSession(readSession()));
   }, []);
 
+  // Sessions end on time even while the page stays open
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const timer = window.setTimeout(() => {
+      setSession(readSession());
+      setStatus({ message: "Your session has expired. Please sign in again.", type: "info" });
+    }, Math.min(Math.max(0, session.expiresAt - Date.now()), 0x7fffffff));
+    return () => window.clearTimeout(timer);
+  }, [session]);
+
   useEffect(() => {
     if (!initialized) return;
     if (!session) {
@@ -202,6 +232,19 @@ export default function CustomerDashboard(): JSX.Element {
     setBookings(bs);
   }, [session, initialized]);
 
+  // Waitlist entries are matched by email only; reference sessions have none
+  useEffect(() => {
+    const email = session?.email;
+    if (!email) {
+      setWaitlist([]);
+      return;
+    }
+    const refresh = () =>
+      setWaitlist(findWaitlistByEmail(email).filter((e) => e.status === "waiting" || e.status === "offered"));
+    refresh();
+    return subscribeToWaitlist(refresh);
+  }, [session]);
+
   const handleLoginEmail = async (e?: React.FormEvent) => {
     e?.preventDefault();
     setStatus(null);
@@ -212,15 +255,32 @@ export default function CustomerDashboard(): JSX.Element {
     }
     setLoading(true);
     try {
-      const ok = await loginByEmail(email);
-      if (!ok) {
-        setStatus({ message: "No bookings found for that email.", type: "error" });
-      } else {
-        setSession({ email, reference: null });
-        setStatus({ message: "Logged in by email.", type: "success" });
-      }
+      await requestEmailLoginCode(email);
+      setCodeSentTo(email);
+      setCodeInput("");
+      setStatus({
+        message: "If we have bookings for that address, we have emailed it a sign-in code and link.",
+        type: "info",
+      });
     } catch (err) {
-      setStatus({ message: (err as Error).message || "Login failed.", type: "error" });
+      setStatus({ message: (err as Error).message || "Could not send a code.", type: "error" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!codeSentTo) return;
+    setStatus(null);
+    setLoading(true);
+    try {
+      setSession(await loginByEmailCode(codeSentTo, codeInput));
+      setCodeSentTo(null);
+      setCodeInput("");
+      setStatus({ message: "Signed in.", type: "success" });
+    } catch (err) {
+      setStatus({ message: (err as Error).message || "Sign-in failed.", type: "error" });
     } finally {
       setLoading(false);
     }
@@ -252,6 +312,7 @@ export default function CustomerDashboard(): JSX.Element {
 
   const handleLogout = () => {
     writeSession(null);
+    void logout();
     setSession(null);
     setEmailInput("");
     setRefInput("");
@@ -263,6 +324,45 @@ export default function CustomerDashboard(): JSX.Element {
     if (ref) ref.click();
   };
 
+  const refreshBookings = () => {
+    const updated = readBookingsFromStorage();
+    setBookings(updated);
+    if (session?.email) {
+      setFiltered(updated.filter((b) => b.email.toLowerCase() === session.email!.toLowerCase()));
+    } else if (session?.reference) {
+      setFiltered(
+        updated.filter((b) => b.reference.toLowerCase() === session.reference!.toLowerCase())
+      );
+    } else {
+      setFiltered(updated);
+    }
+  };
+
+  const handleRescheduled = (booking: Booking) => {
+    setReschedulingId(null);
+    refreshBookings();
+    setStatus({ message: `Booking moved to ${new Date(booking.start).toLocaleString()}.`, type: "success" });
+  };
+
+  const handleWaitlistOffer = async (entry: WaitlistEntry, accept: boolean) => {
+    setStatus(null);
+    setLoading(true);
+    try {
+      if (accept) {
+        await acceptWaitlistOffer(entry.id);
+        refreshBookings();
+        setStatus({ message: "The slot is yours. Your booking has been created.", type: "success" });
+      } else {
+        await declineWaitlistOffer(entry.id);
+        setStatus({ message: "Offer declined.", type: "info" });
+      }
+    } catch (err) {
+      setStatus({ message: (err as Error).message || "Could not update the waitlist offer.", type: "error" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleFileChange = async (bookingId: string, f?: FileList | null) => {
     setStatus(null);
     const file = f?.[0] ?? null;
@@ -271,17 +371,7 @@ export default function CustomerDashboard(): JSX.Element {
     setLoading(true);
     try {
       await reuploadPaymentProof(bookingId, file);
-      const updated = readBookingsFromStorage();
-      setBookings(updated);
-      if (session?.email) {
-        setFiltered(updated.filter((b) => b.email.toLowerCase() === session.email!.toLowerCase()));
-      } else if (session?.reference) {
-        setFiltered(
-          updated.filter((b) => b.reference.toLowerCase() === session.reference!.toLowerCase())
-        );
-      } else {
-        setFiltered(updated);
-      }
+      refreshBookings();
       setStatus({ message: "Payment proof uploaded successfully.", type: "success" });
     } catch (err) {
       setStatus({ message: (err as Error).message || "Upload failed.", type: "error" });
@@ -374,7 +464,59 @@ export default function CustomerDashboard(): JSX.Element {
             </button>
           </div>
 
-          {mode === "email" ? (
+          {mode === "email" && codeSentTo ? (
+            <form onSubmit={handleVerifyCode} style={{ marginTop: 12 }}>
+              <label htmlFor="login-code" style={{ fontSize: 14 }}>
+                Code sent to {codeSentTo}
+              </label>
+              <input
+                id="login-code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9 ]*"
+                maxLength={7}
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                placeholder="6-digit code"
+                style={{ ...inputStyle, letterSpacing: 4 }}
+                autoComplete="one-time-code"
+                required
+              />
+              <div style={{ display: "flex", gap: 8 }}>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  style={{
+                    flex: 1,
+                    padding: "10px 12px",
+                    borderRadius: 8,
+                    border: "none",
+                    background: "#0ea5a4",
+                    color: "#fff",
+                    fontWeight: 600,
+                    cursor: "pointer",
+                  }}
+                >
+                  {loading ? "Checking..." : "Sign in"}
+                </button>
+              </div>
+              <div style={{ display: "flex", gap: 12, fontSize: 13 }}>
+                <button type="button" onClick={() => void handleLoginEmail()} disabled={loading}>
+                  Send a new code
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCodeSentTo(null);
+                    setStatus(null);
+                  }}
+                >
+                  Use a different email
+                </button>
+              </div>
+            </form>
+          ) : mode === "email" ? (
             <form onSubmit={handleLoginEmail} style={{ marginTop: 12 }}>
               <label htmlFor="email" style={{ fontSize: 14 }}>
                 Email address
@@ -406,7 +548,7 @@ export default function CustomerDashboard(): JSX.Element {
                     cursor: "pointer",
                   }}
                 >
-                  {loading ? "Checking?" : "Sign in"}
+                  {loading ? "Sending..." : "Email me a code"}
                 </button>
               </div>
             </form>
@@ -489,6 +631,50 @@ export default function CustomerDashboard(): JSX.Element {
             </div>
           </section>
 
+          {waitlist.length > 0 && (
+            <section style={{ marginTop: 12 }} aria-labelledby="waitlist-heading">
+              <h2 id="waitlist-heading" style={{ fontSize: 16, margin: "0 0 8px 0" }}>
+                Waitlist
+              </h2>
+              {waitlist.map((w) => (
+                <div key={w.id} style={cardStyle}>
+                  {w.offer && isOfferActive(w) ? (
+                    <>
+                      <div style={{ fontWeight: 600 }}>
+                        A slot opened: {new Date(w.offer.start).toLocaleString()}
+                      </div>
+                      <div style={{ color: "#475569", fontSize: 14, marginTop: 4 }}>
+                        Held for you until {new Date(w.offer.expiresAt).toLocaleString()}.
+                      </div>
+                      <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                        <button
+                          onClick={() => handleWaitlistOffer(w, true)}
+                          disabled={loading}
+                          style={{ padding: "8px 10px", borderRadius: 8, border: "none", background: "#2563eb", color: "#fff" }}
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => handleWaitlistOffer(w, false)}
+                          disabled={loading}
+                          style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #cbd5e1", background: "#fff" }}
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <div style={{ color: "#475569", fontSize: 14 }}>
+                      Waiting for a slot between {new Date(w.windowStart).toLocaleString()} and{" "}
+                      {new Date(w.windowEnd).toLocaleString()}
+                      {w.packageName ? ` (${w.packageName})` : ""}.
+                    </div>
+                  )}
+                </div>
+              ))}
+            </section>
+          )}
+
           <section style={{ marginTop: 12 }}>
             {filtered.length === 0 && (
               <div style={cardStyle}>
@@ -515,10 +701,12 @@ export default function CustomerDashboard(): JSX.Element {
                         display: "inline-block",
                         padding: "6px 8px",
                         background:
-                          b.status === "confirmed"
+                          b.status === "confirmed" || b.status === "payment_received"
                             ? "#ecfccb"
                             : b.status === "payment_submitted"
                             ? "#eef2ff"
+                            : b.status === "payment_rejected"
+                            ? "#fef2f2"
                             : "#fff7ed",
                         borderRadius: 8,
                         border: "1px solid #e6edf3",
@@ -527,29 +715,89 @@ export default function CustomerDashboard(): JSX.Element {
                     >
                       {b.status.replace(/_/g, " ")}
                     </div>
-                    <div style={{ marginTop: 8 }}>
-                      <button
-                        onClick={() => triggerFileSelect(b.id)}
-                        disabled={loading && uploadingId !== b.id}
-                        style={{
-                          padding: "8px 10px",
-                          borderRadius: 8,
-                          border: "none",
-                          background: "#2563eb",
-                          color: "#fff",
-                          marginTop: 8,
-                          cursor: "pointer",
-                        }}
-                      >
-                        {uploadingId === b.id ? "Uploading?" : "Reupload payment proof"}
-                      </button>
-                    </div>
+                    {b.canUploadProof && (
+                      <div style={{ marginTop: 8 }}>
+                        <button
+                          onClick={() => triggerFileSelect(b.id)}
+                          disabled={loading && uploadingId !== b.id}
+                          style={{
+                            padding: "8px 10px",
+                            borderRadius: 8,
+                            border: "none",
+                            background: "#2563eb",
+                            color: "#fff",
+                            marginTop: 8,
+                            cursor: "pointer",
+                          }}
+                        >
+                          {uploadingId === b.id
+                            ? "Uploading?"
+                            : b.paymentProof
+                            ? "Reupload payment proof"
+                            : "Upload payment proof"}
+                        </button>
+                      </div>
+                    )}
+                    {!b.rescheduleBlock && reschedulingId !== b.id && (
+                      <div style={{ marginTop: 8 }}>
+                        <button
+                          onClick={() => setReschedulingId(b.id)}
+                          disabled={loading}
+                          style={{
+                            padding: "8px 10px",
+                            borderRadius: 8,
+                            border: "1px solid #cbd5e1",
+                            background: "#fff",
+                            cursor: "pointer",
+                          }}
+                        >
+                          Reschedule
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {reschedulingId === b.id && (
+                  <RescheduleBookingForm
+                    bookingId={b.id}
+                    start={b.start}
+                    durationMinutes={b.durationMinutes}
+                    packageId={b.packageId}
+                    location={b.location}
+                    by="customer"
+                    onRescheduled={handleRescheduled}
+                    onCancel={() => setReschedulingId(null)}
+                  />
+                )}
+
                 <div style={{ marginTop: 12, fontSize: 14, color: "#334155" }}>
                   {b.notes && <div style={{ marginBottom: 8 }}>{b.notes}</div>}
 
+                  {b.rescheduleBlock && b.status !== "cancelled" && b.status !== "completed" && (
+                    <div style={{ marginBottom: 8, color: "#64748b", fontSize: 13 }}>{b.rescheduleBlock}</div>
+                  )}
+
+                  {b.scheduleHistory.length > 0 && (
+                    <div style={{ marginBottom: 8 }}>
+                      <strong>Previously scheduled:</strong>
+                      <ul style={{ margin: "4px 0 0", paddingLeft: 18, color: "#64748b" }}>
+                        {b.scheduleHistory.map((h) => (
+                          <li key={h.movedAt}>
+                            {new Date(h.start).toLocaleString()} (moved {new Date(h.movedAt).toLocaleDateString()}
+                            {h.reason ? `: ${h.reason}` : ""})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {b.status === "payment_rejected" && b.paymentProof?.rejectionReason && (
+                    <div role="alert" style={{ marginBottom: 8, color: "#b91c1c" }}>
+                      Your payment proof was not accepted: {b.paymentProof.rejectionReason}. Please upload a new one.
+                    </div>
+                  )}
+
                   <div>
                     <strong>Payment proof:</strong>{" "}
                     {b.paymentProof ? (
@@ -0,0 +1,171 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  width: 90,
+};
+
+/**
+ * Settings section for customer sign-in codes: how long codes and sessions last and how many
+ * tries are allowed. While no email delivery is connected, sent codes are listed here.
+ */
+export default function CustomerLoginSettingsSection(): JSX.Element {
+  const [settings, setSettings] = useState<CustomerLoginSettings>(() => getCustomerLoginSettings());
+  const [outbox, setOutbox] = useState<LoginOutboxMessage[]>(() => listLoginOutbox());
+  const [message, setMessage] = useState<string | null>(null);
+  const delivery = getLoginCodeDelivery();
+
+  useEffect(() => {
+    return subscribeToLoginOutbox(() => setOutbox(listLoginOutbox()));
+  }, []);
+
+  function update(patch: Partial<CustomerLoginSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSettings(saveCustomerLoginSettings(settings));
+      setMessage("Sign-in settings saved.");
+    } catch (err: any) {
+      setMessage(`Failed to save: ${err?.message || "invalid settings"}.`);
+    }
+  }
+
+  return (
+    <section aria-labelledby="customer-login-heading" style={sectionStyle}>
+      <h2 id="customer-login-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Customer sign-in
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Customers sign in with a one-time code or link sent to the email on their booking. Codes are delivered
+        through: {delivery.label}.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            Code valid for (minutes)
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={settings.codeTtlMinutes}
+              onChange={(e) => update({ codeTtlMinutes: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Tries per code
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={settings.maxAttempts}
+              onChange={(e) => update({ maxAttempts: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Codes per email per hour
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={settings.maxCodesPerHour}
+              onChange={(e) => update({ maxCodesPerHour: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Session length (hours)
+            <input
+              type="number"
+              min={1}
+              max={720}
+              value={settings.sessionHours}
+              onChange={(e) => update({ sessionHours: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save sign-in settings
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+
+      {delivery.id === localOutboxDelivery.id && (
+        <details style={{ marginTop: 12, fontSize: 13 }}>
+          <summary>Local outbox ({outbox.length})</summary>
+          <p style={{ margin: "6px 0", color: "var(--muted,#555)" }}>
+            Codes stay here until an email delivery is connected. Pass them on to customers by hand.
+          </p>
+          {outbox.length === 0 ? (
+            <p style={{ margin: 0, color: "var(--muted,#555)" }}>No codes sent yet.</p>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: "var(--muted,#555)" }}>
+                  <th style={{ padding: "4px 6px" }}>Sent</th>
+                  <th style={{ padding: "4px 6px" }}>To</th>
+                  <th style={{ padding: "4px 6px" }}>Code</th>
+                  <th style={{ padding: "4px 6px" }}>Expires</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outbox.slice(0, 10).map((m) => (
+                  <tr key={m.id} style={{ borderTop: "1px solid #eee" }}>
+                    <td style={{ padding: "4px 6px" }}>{new Date(m.createdAt).toLocaleString()}</td>
+                    <td style={{ padding: "4px 6px" }}>{m.to}</td>
+                    <td style={{ padding: "4px 6px", fontFamily: "monospace" }}>{m.code}</td>
+                    <td style={{ padding: "4px 6px" }}>
+                      {Date.parse(m.expiresAt) > Date.now() ? new Date(m.expiresAt).toLocaleTimeString() : "expired"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </details>
+      )}
+    </section>
+  );
+}
@@ -17,6 +17,14 @@ function parseLocalDateTime(s: string): Date | null {
   return dt;
 }
 
+/* Quick-pick slots shown under the input for the chosen day */
+const SLOT_DAY_START_HOUR = 6;
+const SLOT_DAY_END_HOUR = 24;
+const SLOT_STEP_MINUTES = 30;
+/* How far ahead "next available" looks, and how many it lists */
+const SUGGESTION_WINDOW_DAYS = 14;
+const SUGGESTION_LIMIT = 5;
+
 /**
  * Returns a local "datetime-local" compatible string "YYYY-MM-DDTHH:mm"
  */
@@ -30,53 +38,6 @@ export function normalizeToLocalISO(date: Date): string {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 }
 
-/**
- * Check availability by comparing the requested interval against bookings stored in localStorage.
- * The function expects a Date object representing the requested start in local time.
- * Bookings in localStorage are expected to have ISO timestamps (startISO, endISO) which may include timezone offsets.
- */
-export async function checkAvailability(
-  date: Date,
-  durationMinutes: number,
-  packageId?: string | null
-): Promise<boolean> {
-  // Simulate async work / network latency
-  await new Promise((res) => setTimeout(res, 300));
-
-  // Normalize requested interval
-  const start = new Date(date);
-  const end = new Date(start.getTime() + durationMinutes * 60_000);
-
-  // Load stored bookings from localStorage
-  // Expected format in localStorage: bookings = [{ id, startISO, endISO, packageId? }, ...]
-  const raw = localStorage.getItem("bookings");
-  if (!raw) return true;
-  let bookings: Array<{ startISO: string; endISO: string; packageId?: string }>;
-  try {
-    bookings = JSON.parse(raw);
-    if (!Array.isArray(bookings)) return true;
-  } catch {
-    return true;
-  }
-
-  // Check overlap: intervals [a,b) and [c,d) overlap if a < d && b > c
-  for (const bkg of bookings) {
-    // If packageId is provided and you want to ignore conflicts for different packages,
-    // you can skip below check. For single-resource bookings, we check all packages.
-    // Here we check all bookings (single photobooth) ? adjust as needed.
-    const bStart = new Date(bkg.startISO);
-    const bEnd = new Date(bkg.endISO);
-    if (isNaN(bStart.getTime()) || isNaN(bEnd.getTime())) continue;
-
-    // If package-specific logic is desired (e.g., separate resources per packageId),
-    // implement that here. Current behavior checks all bookings.
-    const overlap = start < bEnd && end > bStart;
-    if (overlap) return false;
-  }
-
-  return true;
-}
-
 export default function DateTimePicker({
   value,
   onChange,
@@ -84,6 +45,8 @@ export default function DateTimePicker({
   maxDate,
   durationMinutes = 60,
   packageId,
+  location,
+  excludeBookingId,
 }: DateTimePickerProps): JSX.Element {
   const [inputValue, setInputValue] = useState<string>(() => {
     if (value) {
@@ -96,6 +59,9 @@ export default function DateTimePicker({
   });
   const [checking, setChecking] = useState(false);
   const [available, setAvailable] = useState<boolean | null>(null);
+  const [assignedNames, setAssignedNames] = useState<string[]>([]);
+  const [closedReason, setClosedReason] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<AvailableSlot[]>([]);
   const debounceRef = useRef<number | null>(null);
   // Store a composite key to avoid stale dedupe behavior when related parameters change
   const lastCheckedRef = useRef<string | null>(null);
@@ -144,7 +110,7 @@ export default function DateTimePicker({
   // Clear lastCheckedRef when any of the parameters that affect availability change.
   useEffect(() => {
     lastCheckedRef.current = null;
-  }, [durationMinutes, packageId, minAttr, maxAttr]);
+  }, [durationMinutes, packageId, location, excludeBookingId, minAttr, maxAttr]);
 
   useEffect(() => {
     // Cleanup debounce on unmount
@@ -163,6 +129,9 @@ export default function DateTimePicker({
       return;
     }
 
+    setClosedReason(null);
+    setSuggestions([]);
+
     // Validate min/max (string compare is fine for "YYYY-MM-DDTHH:mm" values)
     if (minAttr && inputValue < minAttr) {
       setAvailable(false);
@@ -176,7 +145,7 @@ export default function DateTimePicker({
     }
 
     // Build a composite dedupe key that includes parameters that affect availability
-    const dedupeKey = `${inputValue}|${durationMinutes ?? ""}|${packageId ?? ""}|${minAttr ??
+    const dedupeKey = `${inputValue}|${durationMinutes ?? ""}|${packageId ?? ""}|${location ?? ""}|${excludeBookingId ?? ""}|${minAttr ??
       ""}|${maxAttr ?? ""}`;
 
     // Avoid duplicate checks for same composite key
@@ -202,13 +171,38 @@ export default function DateTimePicker({
         return;
       }
       try {
-        const ok = await checkAvailability(date, durationMinutes, packageId ?? undefined);
+        // Same engine as createBooking, so "Available" here means the booking will be accepted
+        const assignment = await getResourceAssignment(date, durationMinutes, packageId ?? undefined, {
+          location,
+          excludeBookingId,
+        });
+        const ok = assignment.available;
+        setAssignedNames(assignment.resources.map((r) => r.name));
+        setClosedReason(assignment.closedReason);
         setAvailable(ok);
         setChecking(false);
         lastCheckedRef.current = dedupeKey;
         if (ok) {
           // Emit an unambiguous representation: full ISO timestamp (UTC) so consumers have timezone info.
           onChange(date.toISOString());
+        } else {
+          // Offer the nearest free times, from the start of the chosen day onwards
+          const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+          const until = new Date(dayStart.getTime() + SUGGESTION_WINDOW_DAYS * 24 * 60 * 60000);
+          const slots = await findAvailableSlots({ from: dayStart, to: until }, durationMinutes, packageId ?? undefined, {
+            location,
+            excludeBookingId,
+            near: date,
+            limit: SUGGESTION_LIMIT,
+            stepMinutes: SLOT_STEP_MINUTES,
+          });
+          // Respect the picker's own bounds
+          setSuggestions(
+            slots.filter((slot) => {
+              const local = normalizeToLocalISO(new Date(slot.start));
+              return !(minAttr && local < minAttr) && !(maxAttr && local > maxAttr);
+            })
+          );
         }
       } catch {
         setAvailable(false);
@@ -216,7 +210,23 @@ export default function DateTimePicker({
       }
     }, 450);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputValue, minAttr, maxAttr, durationMinutes, packageId]);
+  }, [inputValue, minAttr, maxAttr, durationMinutes, packageId, location, excludeBookingId]);
+
+  // Slots for the selected day; closed ones (business hours, holidays, blackouts) are disabled
+  const daySlots = useMemo(() => {
+    const day = inputValue ? parseLocalDateTime(`${inputValue.slice(0, 10)}T00:00`) : null;
+    if (!day) return [];
+    const calendar = getBusinessCalendar();
+    const slots: Array<{ value: string; label: string; reason: string | null }> = [];
+    for (let m = SLOT_DAY_START_HOUR * 60; m < SLOT_DAY_END_HOUR * 60; m += SLOT_STEP_MINUTES) {
+      const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, m);
+      const value = normalizeToLocalISO(start);
+      let reason = getClosureReason(start.getTime(), start.getTime() + durationMinutes * 60000, calendar);
+      if (!reason && ((minAttr && value < minAttr) || (maxAttr && value > maxAttr))) reason = "Outside the bookable range";
+      slots.push({ value, label: value.slice(11), reason });
+    }
+    return slots;
+  }, [inputValue, durationMinutes, minAttr, maxAttr]);
 
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
@@ -240,19 +250,80 @@ export default function DateTimePicker({
         }}
       />
 
+      {daySlots.length > 0 && (
+        <div role="group" aria-label="Times on this day" style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+          {daySlots.map((slot) => (
+            <button
+              key={slot.value}
+              type="button"
+              disabled={slot.reason !== null}
+              title={slot.reason ?? undefined}
+              aria-pressed={slot.value === inputValue}
+              onClick={() => setInputValue(slot.value)}
+              style={{
+                padding: "4px 8px",
+                borderRadius: 6,
+                fontSize: 12,
+                border: "1px solid var(--border, #ccc)",
+                background: slot.value === inputValue ? "var(--primary, #2563eb)" : "transparent",
+                color: slot.value === inputValue ? "#fff" : slot.reason ? "var(--muted, #999)" : "inherit",
+                textDecoration: slot.reason ? "line-through" : "none",
+                cursor: slot.reason ? "not-allowed" : "pointer",
+              }}
+            >
+              {slot.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div aria-live="polite" style={{ minHeight: 20, fontSize: 14 }}>
         {checking && (
           <span style={{ color: "var(--muted, #666)" }}>Checking availability?</span>
         )}
         {!checking && available === true && (
-          <span style={{ color: "var(--success, #0a7f3b)" }}>Available</span>
+          <span style={{ color: "var(--success, #0a7f3b)" }}>
+            Available{assignedNames.length > 0 ? ` (${assignedNames.join(", ")})` : ""}
+          </span>
         )}
-        {!checking && available === false && (
+        {!checking && available === false && closedReason && (
+          <span style={{ color: "var(--danger, #c53030)" }}>{closedReason}</span>
+        )}
+        {!checking && available === false && !closedReason && (
           <span style={{ color: "var(--danger, #c53030)" }}>
             Unavailable ? please choose a different time
           </span>
         )}
       </div>
+
+      {!checking && available === false && suggestions.length > 0 && (
+        <div role="group" aria-label="Next available times" style={{ display: "grid", gap: 4 }}>
+          <span style={{ fontSize: 13, fontWeight: 600 }}>Next available</span>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+            {suggestions.map((slot) => {
+              const start = new Date(slot.start);
+              return (
+                <button
+                  key={slot.start}
+                  type="button"
+                  onClick={() => setInputValue(normalizeToLocalISO(start))}
+                  style={{
+                    padding: "6px 10px",
+                    borderRadius: 6,
+                    fontSize: 13,
+                    border: "1px solid var(--success, #0a7f3b)",
+                    background: "transparent",
+                    color: "var(--success, #0a7f3b)",
+                    cursor: "pointer",
+                  }}
+                >
+                  {start.toLocaleString([], { weekday: "short", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
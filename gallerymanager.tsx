@@ -1,5 +1,9 @@
 const GALLERIES_KEY = "photobooth_galleries_v2";
-const BOOKINGS_KEY = "photobooth_bookings_v2";
+// Gallery images are stored as blobs; the gallery record keeps "<prefix><blob key>" refs.
+// Galleries saved before that still hold data URLs, which are rendered as-is.
+const BLOB_REF_PREFIX = "storage-blob:";
+
+registerStorageKeys([GALLERIES_KEY]);
 
 function uid(prefix = "") {
   return (
@@ -10,19 +14,8 @@ function uid(prefix = "") {
   );
 }
 
-function safeParse<T>(json: string | null, fallback: T): T {
-  try {
-    if (!json) return fallback;
-    return JSON.parse(json) as T;
-  } catch {
-    return fallback;
-  }
-}
-
-async function readFilesAsDataURLs(files: FileList | null): Promise<string[]> {
-  if (!files || files.length === 0) return [];
-  const arr = Array.from(files);
-  const readers = arr.map(
+async function readFilesAsDataURLs(files: File[]): Promise<string[]> {
+  const readers = files.map(
     (f) =>
       new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
@@ -39,7 +32,7 @@ async function readFilesAsDataURLs(files: FileList | null): Promise<string[]> {
 export default function GalleryManager(): JSX.Element {
   const [title, setTitle] = useState("");
   const [expiresAt, setExpiresAt] = useState<string>("");
-  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [previewImages, setPreviewImages] = useState<string[]>([]);
   const [galleries, setGalleries] = useState<Gallery[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
@@ -53,29 +46,19 @@ export default function GalleryManager(): JSX.Element {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
-    const raw = localStorage.getItem(GALLERIES_KEY);
-    const parsed = safeParse<Gallery[]>(raw, []);
-    setGalleries(parsed);
+    const stored = getItem<Gallery[]>(GALLERIES_KEY);
+    setGalleries(Array.isArray(stored) ? stored : []);
 
-    const rawB = localStorage.getItem(BOOKINGS_KEY);
-    let parsedB = safeParse<Booking[]>(rawB, []);
-    // If no bookings exist, seed a couple for the UI to choose from
-    if (!parsedB || parsedB.length === 0) {
-      parsedB = [
-        { id: uid("b_"), name: "Alice Johnson", email: "alice@example.com" },
-        { id: uid("b_"), name: "Bob Martinez", email: "bob@example.com" },
-      ];
-      localStorage.setItem(BOOKINGS_KEY, JSON.stringify(parsedB));
-    }
-    setBookings(parsedB);
-    if (parsedB.length > 0) setSelectedBookingId(parsedB[0].id);
+    const storedBookings = readBookings().filter((b) => b.status !== "cancelled");
+    setBookings(storedBookings);
+    if (storedBookings.length > 0) setSelectedBookingId(storedBookings[0].id);
   }, []);
 
   useEffect(() => {
     // generate previews when selectedFiles changes
     let cancelled = false;
     (async () => {
-      if (!selectedFiles) {
+      if (selectedFiles.length === 0) {
         setPreviewImages([]);
         return;
       }
@@ -89,21 +72,50 @@ export default function GalleryManager(): JSX.Element {
 
   // Persist galleries whenever they change
   useEffect(() => {
-    localStorage.setItem(GALLERIES_KEY, JSON.stringify(galleries));
+    setItem(GALLERIES_KEY, galleries);
   }, [galleries]);
 
-  // Persist bookings whenever they change
+  // Resolve cover images; blob refs need object URLs, which are revoked when the list changes
+  const [coverUrls, setCoverUrls] = useState<Record<string, string>>({});
   useEffect(() => {
-    localStorage.setItem(BOOKINGS_KEY, JSON.stringify(bookings));
-  }, [bookings]);
+    let cancelled = false;
+    const created: string[] = [];
+    (async () => {
+      const next: Record<string, string> = {};
+      for (const g of galleries) {
+        const first = g.images[0];
+        if (!first) continue;
+        if (!first.startsWith(BLOB_REF_PREFIX)) {
+          next[g.id] = first;
+          continue;
+        }
+        const blob = await getBlob(first.slice(BLOB_REF_PREFIX.length));
+        if (!blob || cancelled) continue;
+        const url = URL.createObjectURL(blob);
+        created.push(url);
+        next[g.id] = url;
+      }
+      if (!cancelled) setCoverUrls(next);
+    })();
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [galleries]);
 
   async function uploadGallery(payload: {
     title: string;
-    images: string[];
+    files: File[];
     expiresAt?: string;
   }): Promise<string> {
+    const id = uid("g_");
+    const blobKeys: string[] = [];
     try {
-      const id = uid("g_");
+      for (let i = 0; i < payload.files.length; i++) {
+        const key = `gallery/${id}/${i}`;
+        await setBlob(key, payload.files[i]);
+        blobKeys.push(key);
+      }
       const createdAt = new Date().toISOString();
       const expired =
         payload.expiresAt !== undefined &&
@@ -112,7 +124,7 @@ export default function GalleryManager(): JSX.Element {
       const gallery: Gallery = {
         id,
         title: payload.title,
-        images: payload.images,
+        images: blobKeys.map((key) => BLOB_REF_PREFIX + key),
         createdAt,
         expiresAt:
           payload.expiresAt && payload.expiresAt !== ""
@@ -124,6 +136,8 @@ export default function GalleryManager(): JSX.Element {
       setGalleries((prev) => [gallery, ...prev]);
       return id;
     } catch (err) {
+      // Don't leave orphaned images behind when a later one fails (e.g. quota exceeded)
+      await Promise.all(blobKeys.map((key) => removeBlob(key)));
       throw err;
     }
   }
@@ -153,9 +167,10 @@ export default function GalleryManager(): JSX.Element {
     try {
       const link = `${window.location.origin}/gallery/${galleryId}`;
       // attach galleryId to booking
-      setBookings((prev) =>
-        prev.map((b) => (b.id === bookingId ? { ...b, galleryId } : b))
-      );
+      const updated = patchBooking(bookingId, { galleryId });
+      if (updated) {
+        setBookings((prev) => prev.map((b) => (b.id === bookingId ? updated : b)));
+      }
       // add share record on gallery
       setGalleries((prev) =>
         prev.map((g) =>
@@ -184,29 +199,29 @@ export default function GalleryManager(): JSX.Element {
       setMessage("Please enter a title for the gallery.");
       return;
     }
-    if (!selectedFiles || selectedFiles.length === 0) {
+    if (selectedFiles.length === 0) {
       setMessage("Please select at least one image.");
       return;
     }
     setLoading(true);
     try {
-      const images = await readFilesAsDataURLs(selectedFiles);
+      const files = selectedFiles;
       // Basic validation/limits
-      if (images.length > 20) {
+      if (files.length > 20) {
         setMessage("Maximum 20 images are allowed per gallery.");
         setLoading(false);
         return;
       }
       const id = await uploadGallery({
         title: title.trim(),
-        images,
+        files,
         expiresAt,
       });
       setMessage(`Gallery created (${id}).`);
       // reset form
       setTitle("");
       setExpiresAt("");
-      setSelectedFiles(null);
+      setSelectedFiles([]);
       setPreviewImages([]);
       if (fileInputRef.current) fileInputRef.current.value = "";
     } catch (err) {
@@ -302,9 +317,7 @@ export default function GalleryManager(): JSX.Element {
             accept="image/*"
             multiple
             onChange={(e) =>
-              setSelectedFiles(
-                e.target.files && e.target.files.length ? e.target.files : null
-              )
+              setSelectedFiles(Array.from<File>(e.target.files ?? []))
             }
             aria-label="Select gallery images"
             style={{ width: "100%" }}
@@ -381,7 +394,7 @@ export default function GalleryManager(): JSX.Element {
             type="button"
             onClick={() => {
               setTitle("");
-              setSelectedFiles(null);
+              setSelectedFiles([]);
               setPreviewImages([]);
               setExpiresAt("");
               setMessage(null);
@@ -454,7 +467,7 @@ export default function GalleryManager(): JSX.Element {
               >
                 <div style={{ width: 96, flexShrink: 0 }}>
                   <img
-                    src={g.images[0]}
+                    src={coverUrls[g.id]}
                     alt={g.title}
                     style={{
                       width: 96,
@@ -552,7 +565,8 @@ export default function GalleryManager(): JSX.Element {
                       >
                         {bookings.map((b) => (
                           <option key={b.id} value={b.id}>
-                            {b.name} {b.email ? `(${b.email})` : ""}
+                            {b.customer?.name ?? b.reference}{" "}
+                            {b.customer?.email ? `(${b.customer.email})` : ""}
                           </option>
                         ))}
                       </select>
@@ -1,3 +1,6 @@
+// Gallery images saved as blobs are stored as "<prefix><blob key>" (gallerymanager.tsx)
+const BLOB_REF_PREFIX = "storage-blob:";
+
 export async function downloadImage(input: string, filename?: string): Promise<void> {
   let constructedDataUrl: string | undefined;
   let blob: Blob | null = null;
@@ -153,7 +156,7 @@ export default function GalleryViewer(props: { gallery: Gallery | RawImage[] | n
     return [];
   }, [gallery]);
 
-  const normalized = useMemo(
+  const stored = useMemo(
     () =>
       images.map((img, idx) => {
         if (!img) {
@@ -188,6 +191,40 @@ export default function GalleryViewer(props: { gallery: Gallery | RawImage[] | n
     [images]
   );
 
+  // Blob refs become object URLs, revoked when the images change and on unmount
+  const [blobUrls, setBlobUrls] = useState<Record<string, string>>({});
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    (async () => {
+      const next: Record<string, string> = {};
+      for (const img of stored) {
+        for (const ref of [img.data, img.thumbnail]) {
+          if (typeof ref !== "string" || !ref.startsWith(BLOB_REF_PREFIX) || next[ref]) continue;
+          const blob = await getBlob(ref.slice(BLOB_REF_PREFIX.length));
+          if (!blob || cancelled) continue;
+          const url = URL.createObjectURL(blob);
+          created.push(url);
+          next[ref] = url;
+        }
+      }
+      if (!cancelled) setBlobUrls(next);
+    })();
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [stored]);
+
+  const normalized = useMemo(() => {
+    const resolve = (src: string) => (src.startsWith(BLOB_REF_PREFIX) ? blobUrls[src] ?? "" : src);
+    return stored.map((img: RawImage) => ({
+      ...img,
+      data: resolve(img.data ?? ""),
+      thumbnail: typeof img.thumbnail === "string" ? resolve(img.thumbnail) : img.thumbnail,
+    }));
+  }, [stored, blobUrls]);
+
   const [index, setIndex] = useState(0);
   useEffect(() => {
     // reset index if images change
@@ -0,0 +1,679 @@
+const INVOICE_SETTINGS_KEY = 'pb_invoice_settings_v1';
+const INVOICES_KEY = 'pb_invoices_v1';
+const INVOICES_CHANGE_EVENT = 'pb:invoices-changed';
+// Written by the admin settings page (settings.tsx)
+const PAYMENT_SETTINGS_KEY = 'pb_payment_settings_v1';
+// Written by the setup wizard; only its business name is used
+const LEGACY_BUSINESS_KEY = 'photobooth:settings';
+
+registerStorageKeys([INVOICE_SETTINGS_KEY, INVOICES_KEY]);
+
+/** Who issues the documents; copied onto each document when it is issued. */
+export interface BusinessDetails {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  /** VAT/GST/EIN number, printed when set. */
+  taxId: string;
+  website: string;
+}
+
+export interface InvoiceSettings {
+  business: BusinessDetails;
+  invoicePrefix: string;
+  receiptPrefix: string;
+  /** The number the next document gets. Numbers are never reused, voided documents keep theirs. */
+  nextInvoiceNumber: number;
+  nextReceiptNumber: number;
+  /** Invoices are due this many days after they are issued. */
+  paymentTermsDays: number;
+  /** Printed at the bottom of every document (bank details, thanks...). */
+  footer: string;
+}
+
+export type InvoiceKind = 'invoice' | 'receipt';
+
+/**
+ * An issued invoice or receipt. Everything printed is copied in when it is issued, so later
+ * changes to the booking, prices or business details do not alter documents already sent.
+ */
+export interface InvoiceDocument {
+  id: string;
+  kind: InvoiceKind;
+  /** Sequential within its kind, e.g. "INV-0007". */
+  number: string;
+  bookingId: string;
+  bookingReference: string;
+  issuedAt: string;
+  /** Invoices only. */
+  dueAt: string | null;
+  currency: string;
+  business: BusinessDetails;
+  customer: { name: string; email: string; phone: string };
+  eventDate: string;
+  lines: BookingPriceLine[];
+  /** Sum of the lines. Includes tax when taxInclusive. */
+  subtotal: number;
+  taxes: BookingTaxLine[];
+  taxInclusive: boolean;
+  total: number;
+  /** Received for the booking (payment ledger) when the document was issued. */
+  amountPaid: number;
+  balanceDue: number;
+  /** Receipts only: the ledger payment it confirms. */
+  payment: { ledgerEntryId: string; amount: number; method: string; reference: string | null; receivedAt: string } | null;
+  footer: string;
+  voidedAt: string | null;
+  voidReason: string | null;
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  business: { name: '', address: '', email: '', phone: '', taxId: '', website: '' },
+  invoicePrefix: 'INV-',
+  receiptPrefix: 'RCT-',
+  nextInvoiceNumber: 1,
+  nextReceiptNumber: 1,
+  paymentTermsDays: 14,
+  footer: 'Thank you for your business.',
+};
+
+const DAY_MS = 24 * 60 * 60000;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `doc_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function text(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value.trim() : fallback;
+}
+
+function wholeNumber(value: unknown, fallback: number, min: number): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= min ? n : fallback;
+}
+
+function normalizeSettings(raw: any): InvoiceSettings {
+  const b = raw && typeof raw.business === 'object' && raw.business ? raw.business : {};
+  const d = DEFAULT_INVOICE_SETTINGS;
+  return {
+    business: {
+      name: text(b.name),
+      address: typeof b.address === 'string' ? b.address.trim() : '',
+      email: text(b.email),
+      phone: text(b.phone),
+      taxId: text(b.taxId),
+      website: text(b.website),
+    },
+    invoicePrefix: text(raw?.invoicePrefix, d.invoicePrefix),
+    receiptPrefix: text(raw?.receiptPrefix, d.receiptPrefix),
+    nextInvoiceNumber: wholeNumber(raw?.nextInvoiceNumber, d.nextInvoiceNumber, 1),
+    nextReceiptNumber: wholeNumber(raw?.nextReceiptNumber, d.nextReceiptNumber, 1),
+    paymentTermsDays: wholeNumber(raw?.paymentTermsDays, d.paymentTermsDays, 0),
+    footer: typeof raw?.footer === 'string' ? raw.footer.trim() : d.footer,
+  };
+}
+
+/** Business details and numbering. Before anything is saved the name comes from the setup wizard. */
+export function getInvoiceSettings(): InvoiceSettings {
+  const raw = getItem<InvoiceSettings>(INVOICE_SETTINGS_KEY);
+  if (raw && typeof raw === 'object') return normalizeSettings(raw);
+  const legacy = getItem<{ businessName?: unknown }>(LEGACY_BUSINESS_KEY);
+  const name = legacy && typeof legacy === 'object' ? text(legacy.businessName) : '';
+  return { ...DEFAULT_INVOICE_SETTINGS, business: { ...DEFAULT_INVOICE_SETTINGS.business, name } };
+}
+
+/**
+ * saveInvoiceSettings(settings: InvoiceSettings): InvoiceSettings
+ * Throws when the business name is missing or a next number would repeat one already issued.
+ */
+export function saveInvoiceSettings(settings: InvoiceSettings): InvoiceSettings {
+  const next = normalizeSettings(settings);
+  if (!next.business.name) throw new Error('Enter the business name printed on invoices');
+  const issued = readDocuments();
+  for (const kind of ['invoice', 'receipt'] as InvoiceKind[]) {
+    const prefix = kind === 'invoice' ? next.invoicePrefix : next.receiptPrefix;
+    const number = kind === 'invoice' ? next.nextInvoiceNumber : next.nextReceiptNumber;
+    if (issued.some((d) => d.kind === kind && d.number === formatNumber(prefix, number))) {
+      throw new Error(`${formatNumber(prefix, number)} has already been issued; choose a higher next number`);
+    }
+  }
+  const before = getInvoiceSettings();
+  setItem(INVOICE_SETTINGS_KEY, next);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'invoices',
+    summary: 'Invoice settings changed',
+    before,
+    after: next,
+  });
+  return next;
+}
+
+function formatNumber(prefix: string, n: number): string {
+  return `${prefix}${String(n).padStart(4, '0')}`;
+}
+
+/* Takes the next number of a kind and moves the counter on */
+function allocateNumber(kind: InvoiceKind): { number: string; settings: InvoiceSettings } {
+  const settings = getInvoiceSettings();
+  const taken = new Set(readDocuments().map((d) => d.number));
+  const prefix = kind === 'invoice' ? settings.invoicePrefix : settings.receiptPrefix;
+  let n = kind === 'invoice' ? settings.nextInvoiceNumber : settings.nextReceiptNumber;
+  while (taken.has(formatNumber(prefix, n))) n++;
+  const next =
+    kind === 'invoice' ? { ...settings, nextInvoiceNumber: n + 1 } : { ...settings, nextReceiptNumber: n + 1 };
+  setItem(INVOICE_SETTINGS_KEY, next);
+  return { number: formatNumber(prefix, n), settings };
+}
+
+function readDocuments(): InvoiceDocument[] {
+  const raw = getItem<InvoiceDocument[]>(INVOICES_KEY);
+  return Array.isArray(raw) ? raw.filter((d) => d && typeof d.id === 'string' && typeof d.number === 'string') : [];
+}
+
+function saveDocuments(docs: InvoiceDocument[]): void {
+  setItem(INVOICES_KEY, docs);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(INVOICES_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function paymentCurrency(): string {
+  const stored = getItem<{ currency?: unknown }>(PAYMENT_SETTINGS_KEY);
+  return stored && typeof stored === 'object' && typeof stored.currency === 'string' && stored.currency
+    ? stored.currency
+    : 'USD';
+}
+
+/** Documents oldest first; all of them when no booking id is given. */
+export function listInvoiceDocuments(bookingId?: string): InvoiceDocument[] {
+  return readDocuments()
+    .filter((d) => !bookingId || d.bookingId === bookingId)
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+}
+
+/** The booking's current (not voided) invoice. */
+export function getBookingInvoice(bookingId: string): InvoiceDocument | null {
+  return readDocuments().find((d) => d.kind === 'invoice' && d.bookingId === bookingId && !d.voidedAt) ?? null;
+}
+
+/**
+ * buildInvoiceLines(booking: Booking): { lines: BookingPriceLine[]; subtotal: number }
+ * The booking's checkout lines, or package and add-ons for bookings made before lines were kept.
+ * A final line absorbs any difference so the lines always add up to the charged price.
+ */
+export function buildInvoiceLines(booking: Booking): { lines: BookingPriceLine[]; subtotal: number } {
+  const taxTotal = round2((booking.taxes ?? []).reduce((sum, t) => sum + t.amount, 0));
+  // Lines are pre-tax unless the prices included tax
+  const target = round2((booking.price ?? 0) - (booking.taxInclusive ? 0 : taxTotal));
+  let lines: BookingPriceLine[] = booking.priceLines?.length ? booking.priceLines.map((l) => ({ ...l })) : [];
+  if (!lines.length) {
+    const addOns = (booking.addOns ?? []).map((a) => {
+      const quantity = a.quantity ?? 1;
+      return { label: a.name, quantity, unitPrice: a.price, amount: round2(a.price * quantity) };
+    });
+    const base = round2(target - addOns.reduce((sum, a) => sum + a.amount, 0));
+    lines = [{ label: booking.packageName || 'Photobooth booking', quantity: 1, unitPrice: base, amount: base }, ...addOns];
+  }
+  const difference = round2(target - lines.reduce((sum, l) => sum + l.amount, 0));
+  if (difference !== 0) lines.push({ label: 'Adjustment', quantity: 1, unitPrice: difference, amount: difference });
+  return { lines, subtotal: target };
+}
+
+function baseDocument(kind: InvoiceKind, booking: Booking): InvoiceDocument {
+  const { number, settings } = allocateNumber(kind);
+  const { lines, subtotal } = buildInvoiceLines(booking);
+  const taxes = (booking.taxes ?? []).map((t) => ({ ...t }));
+  const total = round2(booking.price ?? 0);
+  const paid = round2(Math.max(0, bookingBalance(booking).net));
+  const issuedAt = nowIso();
+  return {
+    id: generateId(),
+    kind,
+    number,
+    bookingId: booking.id,
+    bookingReference: booking.reference,
+    issuedAt,
+    dueAt: kind === 'invoice' ? new Date(Date.now() + settings.paymentTermsDays * DAY_MS).toISOString() : null,
+    currency: paymentCurrency(),
+    business: { ...settings.business },
+    customer: {
+      name: booking.customer?.name ?? '',
+      email: booking.customer?.email ?? '',
+      phone: booking.customer?.phone ?? '',
+    },
+    eventDate: booking.start,
+    lines,
+    subtotal,
+    taxes,
+    taxInclusive: booking.taxInclusive === true,
+    total,
+    amountPaid: paid,
+    balanceDue: round2(Math.max(0, total - paid)),
+    payment: null,
+    footer: settings.footer,
+    voidedAt: null,
+    voidReason: null,
+  };
+}
+
+/**
+ * issueInvoice(bookingId: string): InvoiceDocument
+ * The booking's invoice, issued with the next number the first time. Void it to issue a new one
+ * after the price changes.
+ */
+export function issueInvoice(bookingId: string): InvoiceDocument {
+  const existing = getBookingInvoice(bookingId);
+  if (existing) return existing;
+  const booking = getStoredBooking(bookingId);
+  if (!booking) throw new Error('Booking not found');
+  if (booking.status === 'draft' || booking.status === 'cancelled') throw new Error('Only active bookings can be invoiced');
+  const doc = baseDocument('invoice', booking);
+  saveDocuments(readDocuments().concat(doc));
+  recordAudit({
+    action: 'invoice.issued',
+    entityType: 'invoice',
+    entityId: doc.id,
+    summary: `Invoice ${doc.number} issued for ${booking.reference}`,
+    after: { number: doc.number, bookingId, total: doc.total },
+  });
+  return doc;
+}
+
+/**
+ * issueReceipt(ledgerEntryId: string): InvoiceDocument
+ * A receipt for one payment in the ledger, issued once per payment.
+ */
+export function issueReceipt(ledgerEntryId: string): InvoiceDocument {
+  const existing = readDocuments().find((d) => d.kind === 'receipt' && d.payment?.ledgerEntryId === ledgerEntryId);
+  if (existing) return existing;
+  const entry = getLedgerEntries().find((e) => e.id === ledgerEntryId);
+  if (!entry || entry.kind !== 'payment') throw new Error('Payment not found');
+  const booking = getStoredBooking(entry.bookingId);
+  if (!booking) throw new Error('Booking not found');
+  const doc: InvoiceDocument = {
+    ...baseDocument('receipt', booking),
+    payment: {
+      ledgerEntryId: entry.id,
+      amount: entry.amount,
+      method: entry.method,
+      reference: entry.reference,
+      receivedAt: entry.receivedAt,
+    },
+  };
+  saveDocuments(readDocuments().concat(doc));
+  recordAudit({
+    action: 'invoice.receipt_issued',
+    entityType: 'invoice',
+    entityId: doc.id,
+    summary: `Receipt ${doc.number} issued for ${booking.reference}`,
+    after: { number: doc.number, ledgerEntryId, amount: entry.amount },
+  });
+  return doc;
+}
+
+/** Marks a document void. Its number stays used so the sequence has no gaps. */
+export function voidInvoiceDocument(id: string, reason: string): InvoiceDocument {
+  const docs = readDocuments();
+  const idx = docs.findIndex((d) => d.id === id);
+  if (idx === -1) throw new Error('Document not found');
+  if (docs[idx].voidedAt) return docs[idx];
+  const before = docs[idx];
+  docs[idx] = { ...before, voidedAt: nowIso(), voidReason: text(reason) || null };
+  saveDocuments(docs);
+  recordAudit({
+    action: 'invoice.voided',
+    entityType: 'invoice',
+    entityId: id,
+    summary: `${before.number} voided${docs[idx].voidReason ? `: ${docs[idx].voidReason}` : ''}`,
+    before: { voidedAt: null, voidReason: null },
+    after: { voidedAt: docs[idx].voidedAt, voidReason: docs[idx].voidReason },
+  });
+  return docs[idx];
+}
+
+export function subscribeToInvoices(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === INVOICES_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(INVOICES_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(INVOICES_CHANGE_EVENT, listener);
+  };
+}
+
+const METHOD_NAMES: Record<string, string> = {
+  card: 'Card',
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  invoice: 'Invoice',
+  other: 'Other',
+};
+
+/* Label/value rows under the lines: subtotal, taxes, total, paid and balance */
+function summaryRows(doc: InvoiceDocument): Array<[string, number, boolean]> {
+  const rows: Array<[string, number, boolean]> = [];
+  if (doc.taxes.length && !doc.taxInclusive) rows.push(['Subtotal', doc.subtotal, false]);
+  for (const t of doc.taxes) {
+    rows.push([`${doc.taxInclusive ? 'Includes ' : ''}${t.name} (${t.percent}%${t.compound ? ', compound' : ''})`, t.amount, false]);
+  }
+  rows.push(['Total', doc.total, true]);
+  if (doc.payment) rows.push(['This payment', doc.payment.amount, true]);
+  rows.push(['Paid to date', doc.amountPaid, false]);
+  rows.push(['Balance due', doc.balanceDue, true]);
+  return rows;
+}
+
+function documentTitle(doc: InvoiceDocument): string {
+  return doc.kind === 'invoice' ? 'Invoice' : 'Receipt';
+}
+
+function formatDay(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleDateString();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] as string);
+}
+
+function money(amount: number, currency: string): string {
+  try {
+    return amount.toLocaleString(undefined, { style: 'currency', currency });
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * renderInvoiceHtml(doc: InvoiceDocument): string
+ * A standalone, printable HTML page for the document.
+ */
+export function renderInvoiceHtml(doc: InvoiceDocument): string {
+  const e = escapeHtml;
+  const b = doc.business;
+  const m = (n: number) => e(money(n, doc.currency));
+  const businessLines = [b.address, b.email, b.phone, b.website, b.taxId ? `Tax ID: ${b.taxId}` : '']
+    .filter(Boolean)
+    .map((l) => e(l).replace(/\n/g, '<br>'));
+  const meta: Array<[string, string]> = [
+    [`${documentTitle(doc)} no.`, doc.number],
+    ['Date', formatDay(doc.issuedAt)],
+    ...(doc.dueAt ? ([['Due', formatDay(doc.dueAt)]] as Array<[string, string]>) : []),
+    ['Booking', doc.bookingReference],
+    ['Event date', formatDay(doc.eventDate)],
+  ];
+  const payment = doc.payment
+    ? `<p>Received ${m(doc.payment.amount)} by ${e(METHOD_NAMES[doc.payment.method] ?? doc.payment.method)} on ${e(
+        formatDay(doc.payment.receivedAt)
+      )}${doc.payment.reference ? ` (ref. ${e(doc.payment.reference)})` : ''}.</p>`
+    : '';
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${e(documentTitle(doc))} ${e(doc.number)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; color: #0f172a; margin: 40px; font-size: 14px; }
+  header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 32px; }
+  h1 { margin: 0 0 8px; font-size: 28px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 4px; text-align: left; }
+  .lines th { border-bottom: 2px solid #0f172a; }
+  .lines td { border-bottom: 1px solid #e5e7eb; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { width: auto; margin-left: auto; margin-top: 16px; }
+  .totals .strong td { font-weight: 700; }
+  .muted { color: #64748b; }
+  .void { color: #b91c1c; font-weight: 700; font-size: 18px; }
+  footer { margin-top: 40px; white-space: pre-line; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${e(documentTitle(doc))}</h1>
+    <strong>${e(b.name)}</strong><br>
+    <span class="muted">${businessLines.join('<br>')}</span>
+  </div>
+  <table style="width:auto">
+    ${meta.map(([k, v]) => `<tr><td class="muted">${e(k)}</td><td>${e(v)}</td></tr>`).join('\n    ')}
+  </table>
+</header>
+${doc.voidedAt ? `<p class="void">VOID${doc.voidReason ? `: ${e(doc.voidReason)}` : ''}</p>` : ''}
+<section>
+  <div class="muted">Bill to</div>
+  <strong>${e(doc.customer.name)}</strong><br>
+  ${[doc.customer.email, doc.customer.phone].filter(Boolean).map(e).join('<br>')}
+</section>
+<table class="lines" style="margin-top:24px">
+  <thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+  <tbody>
+    ${doc.lines
+      .map(
+        (l) =>
+          `<tr><td>${e(l.label)}</td><td class="num">${l.quantity}</td><td class="num">${m(l.unitPrice)}</td><td class="num">${m(l.amount)}</td></tr>`
+      )
+      .join('\n    ')}
+  </tbody>
+</table>
+<table class="totals">
+  ${summaryRows(doc)
+    .map(([label, amount, strong]) => `<tr${strong ? ' class="strong"' : ''}><td>${e(label)}</td><td class="num">${m(amount)}</td></tr>`)
+    .join('\n  ')}
+</table>
+${payment}
+${doc.footer ? `<footer class="muted">${e(doc.footer)}</footer>` : ''}
+</body>
+</html>`;
+}
+
+/** Opens the document in a new window and the browser's print dialog (save as PDF works there too). */
+export function printInvoiceDocument(doc: InvoiceDocument): void {
+  const w = window.open('', '_blank');
+  if (!w) throw new Error('Allow pop-ups to print the document');
+  w.document.open();
+  w.document.write(renderInvoiceHtml(doc));
+  w.document.close();
+  w.focus();
+  setTimeout(() => w.print(), 250);
+}
+
+/* ---- PDF ---- */
+
+type PdfFont = 'regular' | 'bold' | 'mono';
+type PdfText = { x: number; y: number; text: string; size: number; font: PdfFont; align?: 'left' | 'right' };
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const PDF_FONTS: Record<PdfFont, { resource: string; base: string }> = {
+  regular: { resource: 'F1', base: 'Helvetica' },
+  bold: { resource: 'F2', base: 'Helvetica-Bold' },
+  mono: { resource: 'F3', base: 'Courier' },
+};
+
+/* Standard PDF fonts only cover Latin-1; accents are folded and anything else is dropped */
+function pdfSafe(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '');
+}
+
+function pdfString(value: string): string {
+  return `(${pdfSafe(value).replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+/* Right alignment assumes Courier's 0.6em per character: exact for amounts, close for Helvetica labels */
+function pdfTextOp(t: PdfText): string {
+  const x = t.align === 'right' ? t.x - pdfSafe(t.text).length * t.size * 0.6 : t.x;
+  return `BT /${PDF_FONTS[t.font].resource} ${t.size} Tf ${x.toFixed(2)} ${t.y.toFixed(2)} Td ${pdfString(t.text)} Tj ET`;
+}
+
+function buildPdf(pages: PdfText[][]): Blob {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  add(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (const font of Object.values(PDF_FONTS)) {
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.base} /Encoding /WinAnsiEncoding >>`);
+  }
+  pages.forEach((items, i) => {
+    const stream = items.map(pdfTextOp).join('\n');
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  // Every character is one byte (pdfSafe), so string lengths are byte offsets
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff;
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 3)}...` : value;
+}
+
+/**
+ * renderInvoicePdf(doc: InvoiceDocument): Blob
+ * A PDF of the document built in the browser with the standard PDF fonts; long documents
+ * continue on further pages.
+ */
+export function renderInvoicePdf(doc: InvoiceDocument): Blob {
+  const pages: PdfText[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const right = PAGE_WIDTH - MARGIN;
+  const put = (x: number, text: string, size = 10, font: PdfFont = 'regular', align: 'left' | 'right' = 'left') => {
+    if (text) pages[pages.length - 1].push({ x, y, text, size, font, align });
+  };
+  const nextLine = (height = 14) => {
+    y -= height;
+    if (y < MARGIN + 40) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  const amount = (n: number) => n.toFixed(2);
+  const b = doc.business;
+
+  put(MARGIN, documentTitle(doc).toUpperCase(), 22, 'bold');
+  put(right, doc.voidedAt ? 'VOID' : '', 16, 'bold', 'right');
+  nextLine(30);
+  const meta: Array<[string, string]> = [
+    [`${documentTitle(doc)} no.`, doc.number],
+    ['Date', formatDay(doc.issuedAt)],
+    ...(doc.dueAt ? ([['Due', formatDay(doc.dueAt)]] as Array<[string, string]>) : []),
+    ['Booking', doc.bookingReference],
+    ['Event date', formatDay(doc.eventDate)],
+  ];
+  const businessLines = [
+    b.name,
+    ...b.address.split('\n'),
+    b.email,
+    b.phone,
+    b.website,
+    b.taxId ? `Tax ID: ${b.taxId}` : '',
+  ].filter(Boolean);
+  for (let i = 0; i < Math.max(businessLines.length, meta.length); i++) {
+    if (businessLines[i]) put(MARGIN, truncate(businessLines[i], 48), 10, i === 0 ? 'bold' : 'regular');
+    if (meta[i]) {
+      put(350, meta[i][0], 10, 'regular');
+      put(430, meta[i][1], 10, 'bold');
+    }
+    nextLine();
+  }
+  nextLine(10);
+  put(MARGIN, 'Bill to', 9);
+  nextLine();
+  for (const [i, line] of [doc.customer.name, doc.customer.email, doc.customer.phone].filter(Boolean).entries()) {
+    put(MARGIN, line, 10, i === 0 ? 'bold' : 'regular');
+    nextLine();
+  }
+  nextLine(10);
+
+  put(MARGIN, 'Description', 10, 'bold');
+  put(360, 'Qty', 10, 'bold', 'right');
+  put(460, 'Unit price', 10, 'bold', 'right');
+  put(right, `Amount (${doc.currency})`, 10, 'bold', 'right');
+  nextLine(18);
+  for (const l of doc.lines) {
+    put(MARGIN, truncate(l.label, 50), 10);
+    put(360, String(l.quantity), 10, 'mono', 'right');
+    put(460, amount(l.unitPrice), 10, 'mono', 'right');
+    put(right, amount(l.amount), 10, 'mono', 'right');
+    nextLine();
+  }
+  nextLine(8);
+  for (const [label, value, strong] of summaryRows(doc)) {
+    put(460, label, 10, strong ? 'bold' : 'regular', 'right');
+    put(right, amount(value), 10, 'mono', 'right');
+    nextLine();
+  }
+  if (doc.payment) {
+    nextLine(8);
+    const method = METHOD_NAMES[doc.payment.method] ?? doc.payment.method;
+    put(
+      MARGIN,
+      `Received ${amount(doc.payment.amount)} ${doc.currency} by ${method} on ${formatDay(doc.payment.receivedAt)}` +
+        (doc.payment.reference ? ` (ref. ${doc.payment.reference})` : '')
+    );
+    nextLine();
+  }
+  if (doc.voidedAt && doc.voidReason) {
+    put(MARGIN, `Void: ${doc.voidReason}`, 10, 'bold');
+    nextLine();
+  }
+  if (doc.footer) {
+    nextLine(16);
+    for (const line of doc.footer.split('\n')) {
+      put(MARGIN, truncate(line, 95), 9);
+      nextLine(12);
+    }
+  }
+  return buildPdf(pages);
+}
+
+/** Downloads the document as "<number>.pdf". */
+export function downloadInvoicePdf(doc: InvoiceDocument): void {
+  const url = URL.createObjectURL(renderInvoicePdf(doc));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${doc.number}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
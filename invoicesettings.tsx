@@ -0,0 +1,190 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+};
+
+/**
+ * Settings section for the business details printed on invoices and receipts, and how they
+ * are numbered. Issued documents keep the details they were issued with.
+ */
+export default function InvoiceSettingsSection(): JSX.Element {
+  const [settings, setSettings] = useState<InvoiceSettings>(() => getInvoiceSettings());
+  const [issuedCount, setIssuedCount] = useState(() => listInvoiceDocuments().length);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Numbers move on whenever a document is issued elsewhere
+    return subscribeToInvoices(() => {
+      const latest = getInvoiceSettings();
+      setSettings((s) => ({ ...s, nextInvoiceNumber: latest.nextInvoiceNumber, nextReceiptNumber: latest.nextReceiptNumber }));
+      setIssuedCount(listInvoiceDocuments().length);
+    });
+  }, []);
+
+  function update(patch: Partial<InvoiceSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function updateBusiness(patch: Partial<BusinessDetails>) {
+    setSettings((s) => ({ ...s, business: { ...s.business, ...patch } }));
+    setMessage(null);
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSettings(saveInvoiceSettings(settings));
+      setMessage("Invoice settings saved.");
+    } catch (err: any) {
+      setMessage(`Failed to save: ${err?.message || "invalid settings"}.`);
+    }
+  }
+
+  const b = settings.business;
+
+  return (
+    <section aria-labelledby="invoice-heading" style={sectionStyle}>
+      <h2 id="invoice-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Business details and invoices
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Printed on every invoice and receipt. {issuedCount} document{issuedCount === 1 ? "" : "s"} issued so far.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 12 }}>
+          <label style={fieldStyle}>
+            Business name
+            <input value={b.name} onChange={(e) => updateBusiness({ name: e.target.value })} style={inputStyle} required />
+          </label>
+          <label style={fieldStyle}>
+            Email
+            <input type="email" value={b.email} onChange={(e) => updateBusiness({ email: e.target.value })} style={inputStyle} />
+          </label>
+          <label style={fieldStyle}>
+            Phone
+            <input value={b.phone} onChange={(e) => updateBusiness({ phone: e.target.value })} style={inputStyle} />
+          </label>
+          <label style={fieldStyle}>
+            Website
+            <input value={b.website} onChange={(e) => updateBusiness({ website: e.target.value })} style={inputStyle} />
+          </label>
+          <label style={fieldStyle}>
+            Tax ID (VAT, GST, EIN)
+            <input value={b.taxId} onChange={(e) => updateBusiness({ taxId: e.target.value })} style={inputStyle} />
+          </label>
+        </div>
+        <label style={fieldStyle}>
+          Address
+          <textarea
+            value={b.address}
+            onChange={(e) => updateBusiness({ address: e.target.value })}
+            rows={3}
+            style={{ ...inputStyle, resize: "vertical" }}
+          />
+        </label>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            Invoice prefix
+            <input
+              value={settings.invoicePrefix}
+              onChange={(e) => update({ invoicePrefix: e.target.value })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Next invoice number
+            <input
+              type="number"
+              min={1}
+              value={settings.nextInvoiceNumber}
+              onChange={(e) => update({ nextInvoiceNumber: Number(e.target.value) || 1 })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Receipt prefix
+            <input
+              value={settings.receiptPrefix}
+              onChange={(e) => update({ receiptPrefix: e.target.value })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Next receipt number
+            <input
+              type="number"
+              min={1}
+              value={settings.nextReceiptNumber}
+              onChange={(e) => update({ nextReceiptNumber: Number(e.target.value) || 1 })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Payment terms (days)
+            <input
+              type="number"
+              min={0}
+              max={365}
+              value={settings.paymentTermsDays}
+              onChange={(e) => update({ paymentTermsDays: Number(e.target.value) || 0 })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+        </div>
+
+        <label style={fieldStyle}>
+          Footer (bank details, thanks...)
+          <textarea
+            value={settings.footer}
+            onChange={(e) => update({ footer: e.target.value })}
+            rows={2}
+            style={{ ...inputStyle, resize: "vertical" }}
+          />
+        </label>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save invoice settings
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
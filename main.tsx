@@ -91,6 +91,11 @@ let mqlRef: MediaQueryList | null = null;
 let mqlHandlerRef: ((e: MediaQueryListEvent) => void) | null = null;
 let errorHandlerRef: ((ev: ErrorEvent) => void) | null = null;
 let unhandledRejectionHandlerRef: ((ev: PromiseRejectionEvent) => void) | null = null;
+let waitlistTimerRef: number | null = null;
+let reminderTimerRef: number | null = null;
+
+const WAITLIST_CHECK_INTERVAL_MS = 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 60 * 1000;
 
 async function registerAppServices(): Promise<void> {
   // Avoid duplicate registration across HMR or multiple invocations
@@ -102,6 +107,14 @@ async function registerAppServices(): Promise<void> {
     // ignore
   }
 
+  // Initialize storage first so schema migrations run before any page reads data
+  try {
+    await initStorage();
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn('Storage initialization failed', e);
+  }
+
   // Initialize persisted settings if not present
   try {
     const raw = localStorage.getItem('photobooth.settings');
@@ -255,6 +268,44 @@ async function registerAppServices(): Promise<void> {
     console.warn('Service worker registration error', e);
   }
 
+  // Release lapsed waitlist holds and offer them to the next customer in line
+  try {
+    const runWaitlist = () => {
+      processWaitlist().catch((e) => {
+        // eslint-disable-next-line no-console
+        console.warn('Waitlist processing failed', e);
+      });
+    };
+    runWaitlist();
+    waitlistTimerRef = window.setInterval(runWaitlist, WAITLIST_CHECK_INTERVAL_MS);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn('Could not start waitlist processing', e);
+  }
+
+  // Send due reminders (email, SMS, webhook, in-app) through their transports
+  try {
+    let sending = false;
+    const runReminders = () => {
+      // A slow transport must not let the next tick send the same reminders again
+      if (sending) return;
+      sending = true;
+      runDueReminders()
+        .catch((e) => {
+          // eslint-disable-next-line no-console
+          console.warn('Sending reminders failed', e);
+        })
+        .finally(() => {
+          sending = false;
+        });
+    };
+    runReminders();
+    reminderTimerRef = window.setInterval(runReminders, REMINDER_CHECK_INTERVAL_MS);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn('Could not start reminder sending', e);
+  }
+
   // Warm up fonts (if available)
   try {
     if (document && (document as any).fonts && (document as any).fonts.ready) {
@@ -357,6 +408,14 @@ export function __cleanupAppForHMR() {
       window.removeEventListener('unhandledrejection', unhandledRejectionHandlerRef);
       unhandledRejectionHandlerRef = null;
     }
+    if (waitlistTimerRef !== null) {
+      window.clearInterval(waitlistTimerRef);
+      waitlistTimerRef = null;
+    }
+    if (reminderTimerRef !== null) {
+      window.clearInterval(reminderTimerRef);
+      reminderTimerRef = null;
+    }
     if (mqlRef && mqlHandlerRef) {
       if (typeof mqlRef.removeEventListener === 'function') {
         mqlRef.removeEventListener('change', mqlHandlerRef);
@@ -0,0 +1,237 @@
+const cellStyle: React.CSSProperties = { padding: "8px 6px", borderTop: "1px solid #f1f5f9", textAlign: "left", verticalAlign: "top" };
+
+const DELIVERY_COLORS: Record<NotificationDeliveryStatus, string> = {
+  sent: "#166534",
+  failed: "#991b1b",
+  skipped: "#6b7280",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: "#92400e",
+  sending: "#1d4ed8",
+  sent: "#166534",
+  failed: "#991b1b",
+};
+
+function templateLabel(key: unknown): string {
+  return (typeof key === "string" && NOTIFICATION_TEMPLATE_LABELS[key]) || NOTIFICATION_TEMPLATE_LABELS.default;
+}
+
+/**
+ * Notifications: every scheduled reminder with its delivery status per channel, and the local
+ * outbox holding email, SMS and webhook messages that no real transport has sent.
+ */
+export default function NotificationsPage(): JSX.Element {
+  const [reminders, setReminders] = useState<Reminder[]>(() => listReminders());
+  const [outbox, setOutbox] = useState<NotificationOutboxMessage[]>(() => listNotificationOutbox());
+  const [showSent, setShowSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const canSend = staffCan("bookings.edit");
+
+  useEffect(() => {
+    const offReminders = subscribeToReminders(() => setReminders(listReminders()));
+    const offOutbox = subscribeToNotificationOutbox(() => setOutbox(listNotificationOutbox()));
+    return () => {
+      offReminders();
+      offOutbox();
+    };
+  }, []);
+
+  const visible = showSent ? reminders : reminders.filter((r) => r.status !== "sent");
+  const failedCount = reminders.filter((r) => r.status === "failed").length;
+
+  async function handleRunDue() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      requireStaffPermission("bookings.edit");
+      await runDueReminders();
+      setMessage("Due reminders sent.");
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not send reminders"}.`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleRetry(id: string) {
+    try {
+      requireStaffPermission("bookings.edit");
+      if (retryReminder(id)) setMessage("Reminder queued again; it goes out with the next run.");
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not retry"}.`);
+    }
+  }
+
+  function handleClearOutbox() {
+    if (!staffCan("settings.edit")) {
+      setMessage("Failed: your role cannot clear the outbox.");
+      return;
+    }
+    const ok =
+      typeof window === "undefined" || typeof window.confirm === "undefined"
+        ? true
+        : window.confirm("Remove every message from the local outbox. Messages that were not passed on are lost.");
+    if (ok) clearNotificationOutbox();
+  }
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ marginBottom: 16, display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div>
+          <h1 style={{ margin: 0, fontSize: 20 }}>Notifications</h1>
+          <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>
+            Reminders and how each channel delivered them. Channels and transports are set under Settings &gt;
+            Notifications.
+          </p>
+        </div>
+        {canSend && (
+          <button type="button" onClick={() => void handleRunDue()} disabled={busy}>
+            {busy ? "Sending..." : "Send due reminders now"}
+          </button>
+        )}
+      </header>
+
+      {message && (
+        <div
+          role="status"
+          aria-live="polite"
+          style={{ marginBottom: 12, fontSize: 14, color: message.includes("Failed") ? "#b91c1c" : "#166534" }}
+        >
+          {message}
+        </div>
+      )}
+
+      <section aria-labelledby="reminders-heading" style={{ marginBottom: 24 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 12 }}>
+          <h2 id="reminders-heading" style={{ fontSize: 16, margin: "0 0 8px" }}>
+            Reminders{failedCount > 0 ? ` (${failedCount} failed)` : ""}
+          </h2>
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={showSent} onChange={(e) => setShowSent(e.target.checked)} /> Show sent
+          </label>
+        </div>
+        {visible.length === 0 ? (
+          <p style={{ fontSize: 14, color: "#6b7280" }}>No reminders {showSent ? "yet" : "waiting"}.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr style={{ color: "#6b7280" }}>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Send at</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Message</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>To</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Status</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Channels</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((r) => {
+                const deliveries: NotificationDelivery[] = Array.isArray(r.deliveries) ? r.deliveries : [];
+                return (
+                  <tr key={r.id}>
+                    <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>{new Date(r.at).toLocaleString()}</td>
+                    <td style={cellStyle}>
+                      {templateLabel(r.payload?.templateKey)}
+                      {r.payload?.reference && <div style={{ color: "#6b7280" }}>{r.payload.reference}</div>}
+                    </td>
+                    <td style={cellStyle}>
+                      {r.payload?.name || "-"}
+                      {r.payload?.email && <div style={{ color: "#6b7280" }}>{r.payload.email}</div>}
+                    </td>
+                    <td style={{ ...cellStyle, color: STATUS_COLORS[r.status] ?? "#6b7280" }}>
+                      {r.status}
+                      {r.attempts > 0 && r.status !== "sent" && (
+                        <div style={{ color: "#6b7280" }}>
+                          {r.attempts} attempt{r.attempts === 1 ? "" : "s"}
+                        </div>
+                      )}
+                      {r.status === "failed" && canSend && (
+                        <button type="button" onClick={() => handleRetry(r.id)} style={{ marginTop: 4 }}>
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                    <td style={cellStyle}>
+                      {deliveries.length === 0 ? (
+                        <span style={{ color: "#6b7280" }}>not sent yet</span>
+                      ) : (
+                        <ul style={{ margin: 0, padding: 0, listStyle: "none", display: "grid", gap: 2 }}>
+                          {deliveries.map((d) => (
+                            <li key={d.channel} title={d.error ?? undefined}>
+                              {NOTIFICATION_CHANNEL_LABELS[d.channel]}:{" "}
+                              <span style={{ color: DELIVERY_COLORS[d.status] }}>{d.status}</span>
+                              {d.error && <span style={{ color: "#6b7280" }}> - {d.error}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section aria-labelledby="outbox-heading">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 12 }}>
+          <h2 id="outbox-heading" style={{ fontSize: 16, margin: "0 0 8px" }}>
+            Local outbox ({outbox.length})
+          </h2>
+          {outbox.length > 0 && (
+            <button type="button" onClick={handleClearOutbox}>
+              Clear outbox
+            </button>
+          )}
+        </div>
+        <p style={{ margin: "0 0 8px", fontSize: 13, color: "#6b7280" }}>
+          Messages for channels sent through the local outbox. Pass them on by hand until a mail server, SMS gateway
+          or webhook is connected.
+        </p>
+        {outbox.length === 0 ? (
+          <p style={{ fontSize: 14, color: "#6b7280" }}>The outbox is empty.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr style={{ color: "#6b7280" }}>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Created</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Channel</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>To</th>
+                <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Message</th>
+              </tr>
+            </thead>
+            <tbody>
+              {outbox.map((m) => (
+                <tr key={m.id}>
+                  <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>{new Date(m.createdAt).toLocaleString()}</td>
+                  <td style={cellStyle}>{NOTIFICATION_CHANNEL_LABELS[m.channel]}</td>
+                  <td style={cellStyle}>
+                    {m.recipientName || "-"}
+                    {m.to && <div style={{ color: "#6b7280", wordBreak: "break-all" }}>{m.to}</div>}
+                  </td>
+                  <td style={cellStyle}>
+                    <details>
+                      <summary>{m.subject}</summary>
+                      <p style={{ margin: "6px 0 0", whiteSpace: "pre-wrap" }}>{m.body}</p>
+                    </details>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 const STORAGE_KEY = 'pb_reminders_v1';
+const REMINDERS_CHANGE_EVENT = 'pb:reminders-changed';
 const MAX_ATTEMPTS = 5;
+// How long a 'sending' claim holds a reminder before another run may send it
+const SENDING_LEASE_MS = 5 * 60 * 1000;
 
 let templates: TemplatesMap = {
   default: (payload: any) => {
@@ -24,6 +27,11 @@ function saveReminders(reminders: Reminder[]) {
   } catch {
     // ignore storage failures (quota etc.)
   }
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(REMINDERS_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
 }
 
 function loadReminders(): Reminder[] {
@@ -161,165 +169,209 @@ export function scheduleReminder(reminder: {
   return id;
 }
 
-async function dispatchInAppNotification(detail: any) {
-  try {
-    const event = new CustomEvent('pb:notification', { detail });
-    window.dispatchEvent(event);
-  } catch {
-    // ignore if environments don't support CustomEvent
-    try {
-      // as fallback put it on window object
-      (window as any).__pb_last_notification = detail;
-    } catch {
-      // ignore
-    }
-  }
+/**
+ * Drop a reminder that has not been sent yet. Returns false when there was nothing to cancel.
+ */
+export function cancelReminder(id: string): boolean {
+  const reminders = loadReminders();
+  const next = reminders.filter((r) => r.id !== id || r.status === 'sent');
+  if (next.length === reminders.length) return false;
+  saveReminders(next);
+  return true;
 }
 
-async function showBrowserNotification(title?: string, options?: NotificationOptions) {
-  if (!('Notification' in window)) {
-    return;
-  }
-  if (Notification.permission === 'granted') {
-    try {
-      new Notification(title ?? '', options);
-    } catch {
-      // ignore
-    }
-    return;
-  }
-  if (Notification.permission === 'denied') {
-    return;
-  }
-  // permission is 'default' - request
-  try {
-    const perm = await Notification.requestPermission();
-    if (perm === 'granted') {
-      try {
-        new Notification(title ?? '', options);
-      } catch {
-        // ignore
-      }
-    }
-  } catch {
-    // ignore
-  }
+/**
+ * Move every unsent reminder for a booking by `deltaMs`, e.g. after it was rescheduled.
+ * `payloadPatch` replaces payload fields that describe the old slot. Returns how many moved.
+ */
+export function shiftBookingReminders(bookingId: string, deltaMs: number, payloadPatch?: Record<string, unknown>): number {
+  const reminders = loadReminders();
+  let moved = 0;
+  const next = reminders.map((r) => {
+    if (r.status === 'sent' || r.payload?.bookingId !== bookingId) return r;
+    const at = new Date(r.at);
+    if (Number.isNaN(at.getTime())) return r;
+    moved++;
+    return {
+      ...r,
+      at: isoString(new Date(at.getTime() + deltaMs)),
+      payload: payloadPatch ? { ...r.payload, ...payloadPatch } : r.payload,
+    };
+  });
+  if (moved > 0) saveReminders(next);
+  return moved;
 }
 
-export async function sendNotification(target: any, payload: any): Promise<void> {
+/**
+ * sendNotification(target: any, payload: any, channels?: NotificationChannel[]): Promise<NotificationDelivery[]>
+ * Renders the payload's template and sends it through the template's channels (or `channels`),
+ * each with the transport chosen in the notification settings. Returns one result per channel.
+ */
+export async function sendNotification(
+  target: any,
+  payload: any,
+  channels?: NotificationChannel[]
+): Promise<NotificationDelivery[]> {
   // Determine template/renderer
-  let renderer: TemplateRenderer | any | undefined;
+  let templateKey = 'default';
   if (payload && payload.templateKey && typeof payload.templateKey === 'string') {
-    renderer = templates[payload.templateKey] ?? templates.default;
+    templateKey = payload.templateKey;
   } else if (target && typeof target === 'string' && templates[target]) {
-    renderer = templates[target];
-  } else {
-    renderer = templates.default;
+    templateKey = target;
   }
+  const renderer: TemplateRenderer | any = templates[templateKey] ?? templates.default;
 
   const rendered = renderTemplate(renderer, payload);
   const title = rendered.title ?? payload?.title ?? 'Notification';
-  const body = rendered.body ?? payload?.message ?? undefined;
+  const body = rendered.body ?? payload?.message ?? '';
   const data = rendered.data ?? payload;
 
-  // If Notification API is available and allowed, use it; otherwise dispatch in-app event
-  try {
-    await showBrowserNotification(title, {
-      body,
-      data,
-      icon: payload?.icon,
-      badge: payload?.badge,
-    });
-  } catch {
-    // ignore
-  }
+  return deliverNotification(
+    { templateKey, subject: title, body, data: data && typeof data === 'object' ? data : { value: data } },
+    channels
+  );
+}
 
-  // Always dispatch an in-app event so the UI can show toasts or handle notifications
-  try {
-    await dispatchInAppNotification({ title, body, data, target });
-  } catch {
-    // ignore
-  }
+/* Latest result per channel, so a retry only replaces the channels it sent again */
+function mergeDeliveries(previous: NotificationDelivery[], latest: NotificationDelivery[]): NotificationDelivery[] {
+  const sent = new Set(latest.map((d) => d.channel));
+  return [...previous.filter((d) => !sent.has(d.channel)), ...latest];
+}
 
-  // As a final fallback, log to console
-  try {
-    // eslint-disable-next-line no-console
-    console.info('Notification:', { title, body, data, target });
-  } catch {
-    // ignore
-  }
+/* Re-reads the store and patches one reminder, so reminders changed meanwhile are kept. Null when it is gone. */
+function patchReminder(id: string, patch: (r: Reminder) => Reminder): Reminder | null {
+  const reminders = loadReminders();
+  const idx = reminders.findIndex((r) => r.id === id);
+  if (idx === -1) return null;
+  reminders[idx] = patch(reminders[idx]);
+  saveReminders(reminders);
+  return reminders[idx];
 }
 
+/**
+ * runDueReminders(now?: Date): Promise<void>
+ * Sends every reminder that is due. The result per channel is kept on the reminder
+ * (`deliveries`); a reminder whose channels all went out or had no recipient is 'sent', otherwise
+ * it is retried, on the failed channels only, until MAX_ATTEMPTS.
+ * Every open tab runs this, so a reminder is claimed as 'sending' with a lease (`sendingUntil`)
+ * before it goes out; other runs skip it until the lease lapses, e.g. because its tab was closed.
+ */
 export async function runDueReminders(now?: Date): Promise<void> {
   const current = now ?? new Date();
-  const reminders = loadReminders();
-  if (!reminders.length) return;
-
-  // Work on a mutable copy and persist progressive updates to avoid duplicates across tabs.
-  let changed = false;
-  for (let i = 0; i < reminders.length; i++) {
-    const r = reminders[i];
-    // skip already sent
-    if (r.status === 'sent') continue;
+
+  for (const { id } of loadReminders()) {
+    // Read again: an earlier send may have taken a while, and other tabs share the store
+    const reminders = loadReminders();
+    const idx = reminders.findIndex((r) => r.id === id);
+    if (idx === -1) continue;
+    const r = reminders[idx];
+    // skip already sent, and failed ones until retried by hand (retryReminder)
+    if (r.status === 'sent' || r.status === 'failed') continue;
+    if (r.status === 'sending' && new Date(r.sendingUntil ?? 0).getTime() > Date.now()) continue;
     const scheduled = new Date(r.at);
     if (Number.isNaN(scheduled.getTime())) {
       // invalid date: mark failed to avoid infinite loop, preserve createdAt/attempts but increment attempts once
-      const newAttempts = (r.attempts || 0) + 1;
-      reminders[i] = {
+      reminders[idx] = {
         ...r,
-        attempts: newAttempts,
-        status: newAttempts >= MAX_ATTEMPTS ? 'failed' : 'failed',
+        attempts: (r.attempts || 0) + 1,
+        status: 'failed',
         lastAttemptAt: isoString(new Date()),
+        lastError: 'Invalid date',
       };
-      changed = true;
       saveReminders(reminders);
       continue;
     }
-    if (scheduled.getTime() <= current.getTime()) {
-      if (r.at && r.at.length === 0) continue;
+    if (scheduled.getTime() > current.getTime()) continue;
 
-      // Mark as sending first (do NOT increment attempts yet). Persist so other tabs see in-progress.
-      reminders[i] = {
-        ...r,
-        status: 'sending',
-      };
-      changed = true;
-      saveReminders(reminders);
+    // Claim it before sending (do NOT increment attempts yet), in the same read-write as the checks above
+    reminders[idx] = {
+      ...r,
+      status: 'sending',
+      sendingUntil: isoString(new Date(Date.now() + SENDING_LEASE_MS)),
+    };
+    saveReminders(reminders);
+
+    // Channels that already went out are not repeated on a retry
+    const previous: NotificationDelivery[] = Array.isArray(r.deliveries) ? r.deliveries : [];
+    const retry = previous.filter((d) => d.status === 'failed').map((d) => d.channel);
+    let deliveries: NotificationDelivery[] = [];
+    let error: string | null = null;
+    try {
+      deliveries = await sendNotification(r.payload?.target ?? null, r.payload, retry.length ? retry : undefined);
+      const failed = deliveries.filter((d) => d.status === 'failed');
+      if (failed.length) error = failed.map((d) => `${d.channel}: ${d.error}`).join('; ');
+    } catch (err: any) {
+      error = err?.message || 'Could not send';
+    }
 
-      try {
-        await sendNotification(r.payload?.target ?? null, r.payload);
-        reminders[i] = {
-          ...reminders[i],
+    // Patched by id: a reminder cancelled while sending stays cancelled
+    patchReminder(id, (latest) => {
+      if (!error) {
+        return {
+          ...latest,
           status: 'sent',
+          sendingUntil: null,
           sentAt: isoString(new Date()),
+          deliveries: mergeDeliveries(previous, deliveries),
+          lastError: null,
         };
-        changed = true;
-        saveReminders(reminders);
-      } catch (err) {
-        // increment attempts and set lastAttemptAt; switch to pending or failed depending on attempts
-        const prevAttempts = r.attempts || 0;
-        const newAttempts = prevAttempts + 1;
-        reminders[i] = {
-          ...reminders[i],
-          attempts: newAttempts,
-          lastAttemptAt: isoString(new Date()),
-          status: newAttempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
-        };
-        changed = true;
-        saveReminders(reminders);
       }
-    }
+      // increment attempts and set lastAttemptAt; switch to pending or failed depending on attempts
+      const newAttempts = (latest.attempts || 0) + 1;
+      return {
+        ...latest,
+        attempts: newAttempts,
+        lastAttemptAt: isoString(new Date()),
+        status: newAttempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        sendingUntil: null,
+        deliveries: mergeDeliveries(previous, deliveries),
+        lastError: error,
+      };
+    });
   }
+}
 
-  if (changed) {
-    // ensure persisted
-    saveReminders(reminders);
-  }
+/** listReminders(): Reminder[] - by send time, soonest first. */
+export function listReminders(): Reminder[] {
+  return loadReminders()
+    .slice()
+    .sort((a, b) => String(a.at).localeCompare(String(b.at)));
+}
+
+/**
+ * retryReminder(id: string): boolean
+ * Puts a failed reminder back in the queue with fresh attempts; the next runDueReminders sends
+ * it on the channels that failed.
+ */
+export function retryReminder(id: string): boolean {
+  const reminders = loadReminders();
+  const idx = reminders.findIndex((r) => r.id === id && r.status === 'failed');
+  if (idx === -1) return false;
+  reminders[idx] = { ...reminders[idx], status: 'pending', attempts: 0 };
+  saveReminders(reminders);
+  return true;
+}
+
+export function subscribeToReminders(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(REMINDERS_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(REMINDERS_CHANGE_EVENT, listener);
+  };
 }
 
 export default {
   scheduleReminder,
+  cancelReminder,
+  shiftBookingReminders,
   runDueReminders,
+  listReminders,
+  retryReminder,
   sendNotification,
   configureTemplates,
 };
\ No newline at end of file
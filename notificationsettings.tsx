@@ -0,0 +1,266 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  fontSize: 13,
+};
+
+const cellStyle: React.CSSProperties = { padding: "4px 6px", textAlign: "center" };
+
+/**
+ * Settings section for notifications: which channels each message goes out on, which transport
+ * carries each channel, and the mail server, webhook and SMS gateway they post to.
+ */
+export default function NotificationSettingsSection(): JSX.Element {
+  const [settings, setSettings] = useState<NotificationSettings>(() => getNotificationSettings());
+  const [testTo, setTestTo] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToNotificationSettings(() => setSettings(getNotificationSettings()));
+  }, []);
+
+  const templateKeys = Array.from(
+    new Set([...Object.keys(NOTIFICATION_TEMPLATE_LABELS), ...Object.keys(settings.templateChannels)])
+  );
+
+  function update(patch: Partial<NotificationSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function toggleChannel(templateKey: string, channel: NotificationChannel) {
+    const current = settings.templateChannels[templateKey] ?? [];
+    update({
+      templateChannels: {
+        ...settings.templateChannels,
+        [templateKey]: current.includes(channel) ? current.filter((c) => c !== channel) : [...current, channel],
+      },
+    });
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSettings(saveNotificationSettings(settings));
+      setMessage("Notification settings saved.");
+    } catch (err: any) {
+      setMessage(`Failed to save: ${err?.message || "invalid settings"}.`);
+    }
+  }
+
+  async function handleTest() {
+    setMessage(null);
+    const [delivery] = await deliverNotification(
+      {
+        templateKey: "default",
+        subject: "Test notification",
+        body: "This is a test message from the booking admin. If it arrived, email delivery works.",
+        data: { email: testTo, name: "" },
+      },
+      ["email"]
+    );
+    setMessage(
+      delivery?.status === "sent"
+        ? `Test email sent to ${testTo} through ${getNotificationTransport(delivery.transport ?? "")?.label ?? "the outbox"}.`
+        : `Failed: ${delivery?.error || "could not send the test email"}.`
+    );
+  }
+
+  const smtpInUse = settings.transports.email === smtpTransport.id;
+
+  return (
+    <section aria-labelledby="notification-settings-heading" style={sectionStyle}>
+      <h2 id="notification-settings-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Notifications
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Reminders and offers go out on the channels ticked below. Email and SMS stay in the local outbox (Admin &gt;
+        Notifications) until a mail server or SMS gateway is chosen. Settings are saved here, not with "Save all".
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 16 }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ color: "var(--muted,#555)" }}>
+              <th style={{ ...cellStyle, textAlign: "left" }}>Message</th>
+              {NOTIFICATION_CHANNELS.map((c) => (
+                <th key={c} style={cellStyle}>
+                  {NOTIFICATION_CHANNEL_LABELS[c]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {templateKeys.map((key) => (
+              <tr key={key} style={{ borderTop: "1px solid #eee" }}>
+                <td style={{ ...cellStyle, textAlign: "left" }}>{NOTIFICATION_TEMPLATE_LABELS[key] ?? key}</td>
+                {NOTIFICATION_CHANNELS.map((c) => (
+                  <td key={c} style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      checked={(settings.templateChannels[key] ?? []).includes(c)}
+                      onChange={() => toggleChannel(key, c)}
+                      aria-label={`${NOTIFICATION_TEMPLATE_LABELS[key] ?? key} by ${NOTIFICATION_CHANNEL_LABELS[c]}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {NOTIFICATION_CHANNELS.map((c) => (
+            <label key={c} style={fieldStyle}>
+              {NOTIFICATION_CHANNEL_LABELS[c]} through
+              <select
+                value={settings.transports[c]}
+                onChange={(e) => update({ transports: { ...settings.transports, [c]: e.target.value } })}
+                style={inputStyle}
+              >
+                {listNotificationTransports(c).map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {smtpInUse && (
+          <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12 }}>
+            <legend style={{ fontSize: 13 }}>Mail server</legend>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+              <label style={fieldStyle}>
+                URL
+                <input
+                  type="url"
+                  value={settings.smtp.url}
+                  onChange={(e) => update({ smtp: { ...settings.smtp, url: e.target.value } })}
+                  placeholder="http://localhost:8025/api/v1/send"
+                  style={{ ...inputStyle, width: 280 }}
+                />
+              </label>
+              <label style={fieldStyle}>
+                Accepts
+                <select
+                  value={settings.smtp.format}
+                  onChange={(e) => update({ smtp: { ...settings.smtp, format: e.target.value as SmtpFormat } })}
+                  style={inputStyle}
+                >
+                  <option value="mailpit">Mailpit send API (JSON)</option>
+                  <option value="rfc822">Raw messages (SMTP relay)</option>
+                </select>
+              </label>
+              <label style={fieldStyle}>
+                From address
+                <input
+                  type="email"
+                  value={settings.smtp.from}
+                  onChange={(e) => update({ smtp: { ...settings.smtp, from: e.target.value } })}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={fieldStyle}>
+                From name
+                <input
+                  value={settings.smtp.fromName}
+                  onChange={(e) => update({ smtp: { ...settings.smtp, fromName: e.target.value } })}
+                  style={inputStyle}
+                />
+              </label>
+            </div>
+            <p style={{ margin: "8px 0 0", fontSize: 12, color: "var(--muted,#555)" }}>
+              For testing, run a mail catcher such as Mailpit on this computer and keep the default URL; sent mail shows
+              up in its inbox at http://localhost:8025.
+            </p>
+          </fieldset>
+        )}
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {settings.transports.webhook === webhookTransport.id && (
+            <label style={fieldStyle}>
+              Webhook URL
+              <input
+                type="url"
+                value={settings.webhookUrl}
+                onChange={(e) => update({ webhookUrl: e.target.value })}
+                placeholder="https://..."
+                style={{ ...inputStyle, width: 280 }}
+              />
+            </label>
+          )}
+          {settings.transports.sms === smsGatewayTransport.id && (
+            <label style={fieldStyle}>
+              SMS gateway URL
+              <input
+                type="url"
+                value={settings.smsGatewayUrl}
+                onChange={(e) => update({ smsGatewayUrl: e.target.value })}
+                placeholder="https://..."
+                style={{ ...inputStyle, width: 280 }}
+              />
+            </label>
+          )}
+        </div>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save notification settings
+          </button>
+          <input
+            type="email"
+            value={testTo}
+            onChange={(e) => setTestTo(e.target.value)}
+            placeholder="Test address"
+            aria-label="Send a test email to"
+            style={inputStyle}
+          />
+          <button
+            type="button"
+            onClick={() => void handleTest()}
+            disabled={!testTo.includes("@")}
+            title="Sends with the saved settings"
+          >
+            Send test email
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,521 @@
+const NOTIFICATION_SETTINGS_KEY = 'pb_notification_settings_v1';
+const NOTIFICATION_SETTINGS_CHANGE_EVENT = 'pb:notification-settings-changed';
+const NOTIFICATION_OUTBOX_KEY = 'pb_notification_outbox_v1';
+const NOTIFICATION_OUTBOX_CHANGE_EVENT = 'pb:notification-outbox-changed';
+const OUTBOX_LIMIT = 100;
+
+registerStorageKeys([NOTIFICATION_SETTINGS_KEY, NOTIFICATION_OUTBOX_KEY]);
+
+export type NotificationChannel = 'email' | 'sms' | 'webhook' | 'in_app' | 'push';
+
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ['email', 'sms', 'webhook', 'in_app', 'push'];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  webhook: 'Webhook',
+  in_app: 'In-app',
+  push: 'Browser notification',
+};
+
+/** The template keys the app sends with; anything else uses the `default` channels. */
+export const NOTIFICATION_TEMPLATE_LABELS: Record<string, string> = {
+  reminder24h: 'Day-before booking reminder',
+  paymentDue: 'Payment due',
+  paymentOverdue: 'Payment overdue',
+  waitlistOffer: 'Waitlist offer',
+  default: 'Other notifications',
+};
+
+/** One rendered notification on its way out through one channel. */
+export interface NotificationMessage {
+  id: string;
+  channel: NotificationChannel;
+  templateKey: string;
+  /** Email address, phone number or webhook URL; null for in-app and browser notifications. */
+  to: string | null;
+  recipientName: string;
+  subject: string;
+  body: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+/**
+ * Sends messages for one or more channels. Email providers, SMS gateways and the like are
+ * added by registering another transport (registerNotificationTransport) and choosing it for
+ * the channel in settings.
+ */
+export interface NotificationTransport {
+  id: string;
+  label: string;
+  channels: readonly NotificationChannel[];
+  /** Returns normally when the message was accepted; throws otherwise. */
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export type NotificationDeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+/** What happened on one channel; stored on the reminder that sent it. */
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  transport: string | null;
+  status: NotificationDeliveryStatus;
+  to: string | null;
+  at: string;
+  /** Why it failed or was skipped. */
+  error: string | null;
+}
+
+/**
+ * 'mailpit': the JSON send API of Mailpit and compatible mail catchers.
+ * 'rfc822': the raw message (headers and body) posted to an HTTP-to-SMTP relay.
+ */
+export type SmtpFormat = 'mailpit' | 'rfc822';
+
+export interface SmtpSettings {
+  url: string;
+  format: SmtpFormat;
+  from: string;
+  fromName: string;
+}
+
+export interface NotificationSettings {
+  /** Channels per template key; keys missing here use `default`. */
+  templateChannels: Record<string, NotificationChannel[]>;
+  /** Transport id per channel. */
+  transports: Record<NotificationChannel, string>;
+  smtp: SmtpSettings;
+  webhookUrl: string;
+  /** Receives { to, body } as JSON for every text message. */
+  smsGatewayUrl: string;
+}
+
+export interface NotificationOutboxMessage extends NotificationMessage {
+  transport: string;
+}
+
+/** What sendNotification hands over: one message, rendered once for every channel. */
+export interface NotificationContent {
+  templateKey: string;
+  subject: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  templateChannels: {
+    reminder24h: ['email', 'in_app'],
+    paymentDue: ['email', 'in_app'],
+    paymentOverdue: ['email', 'in_app'],
+    waitlistOffer: ['email', 'in_app'],
+    default: ['in_app', 'push'],
+  },
+  transports: {
+    email: 'local_outbox',
+    sms: 'local_outbox',
+    webhook: 'webhook',
+    in_app: 'in_app',
+    push: 'browser_notification',
+  },
+  smtp: { url: 'http://localhost:8025/api/v1/send', format: 'mailpit', from: '', fromName: '' },
+  webhookUrl: '',
+  smsGatewayUrl: '',
+};
+
+const transports = new Map<string, NotificationTransport>();
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `ntf_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function dispatch(eventName: string): void {
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(eventName));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function isChannel(value: unknown): value is NotificationChannel {
+  return typeof value === 'string' && (NOTIFICATION_CHANNELS as readonly string[]).includes(value);
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+async function postOrThrow(url: string, body: string, contentType: string, what: string): Promise<void> {
+  if (typeof fetch !== 'function') throw new Error('This browser cannot send network requests');
+  const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+  if (!res.ok) throw new Error(`${what} answered ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`);
+}
+
+export function registerNotificationTransport(transport: NotificationTransport): void {
+  transports.set(transport.id, transport);
+}
+
+export function getNotificationTransport(id: string): NotificationTransport | null {
+  return transports.get(id) ?? null;
+}
+
+/** listNotificationTransports(channel?: NotificationChannel): NotificationTransport[] */
+export function listNotificationTransports(channel?: NotificationChannel): NotificationTransport[] {
+  return Array.from(transports.values()).filter((t) => !channel || t.channels.includes(channel));
+}
+
+/**
+ * getNotificationSettings(): NotificationSettings
+ */
+export function getNotificationSettings(): NotificationSettings {
+  const stored = getItem<Partial<NotificationSettings>>(NOTIFICATION_SETTINGS_KEY);
+  const d = DEFAULT_NOTIFICATION_SETTINGS;
+  const templateChannels = { ...d.templateChannels };
+  for (const [key, channels] of Object.entries(stored?.templateChannels ?? {})) {
+    if (Array.isArray(channels)) templateChannels[key] = channels.filter(isChannel);
+  }
+  const transportIds = { ...d.transports };
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const id = stored?.transports?.[channel];
+    if (typeof id === 'string' && id) transportIds[channel] = id;
+  }
+  const smtp = stored?.smtp;
+  return {
+    templateChannels,
+    transports: transportIds,
+    smtp: {
+      url: str(smtp?.url) || d.smtp.url,
+      format: smtp?.format === 'rfc822' ? 'rfc822' : 'mailpit',
+      from: str(smtp?.from),
+      fromName: str(smtp?.fromName),
+    },
+    webhookUrl: str(stored?.webhookUrl),
+    smsGatewayUrl: str(stored?.smsGatewayUrl),
+  };
+}
+
+/**
+ * saveNotificationSettings(settings: NotificationSettings): NotificationSettings
+ * Checks that every chosen transport exists and can carry its channel, and that the URLs and
+ * sender address a chosen transport needs are set.
+ */
+export function saveNotificationSettings(settings: NotificationSettings): NotificationSettings {
+  const urlOk = (url: string) => /^https?:\/\/\S+$/i.test(url);
+  const next: NotificationSettings = {
+    templateChannels: Object.fromEntries(
+      Object.entries(settings.templateChannels).map(([key, channels]) => [key, Array.from(new Set(channels.filter(isChannel)))])
+    ),
+    transports: { ...settings.transports },
+    smtp: {
+      url: str(settings.smtp.url),
+      format: settings.smtp.format === 'rfc822' ? 'rfc822' : 'mailpit',
+      from: str(settings.smtp.from),
+      fromName: str(settings.smtp.fromName),
+    },
+    webhookUrl: str(settings.webhookUrl),
+    smsGatewayUrl: str(settings.smsGatewayUrl),
+  };
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const transport = transports.get(next.transports[channel]);
+    if (!transport || !transport.channels.includes(channel)) {
+      throw new Error(`Choose how ${NOTIFICATION_CHANNEL_LABELS[channel].toLowerCase()} messages are sent`);
+    }
+  }
+  if (next.transports.email === smtpTransport.id) {
+    if (!urlOk(next.smtp.url)) throw new Error('Enter the mail server URL, starting with http:// or https://');
+    if (!/^[^\s@]+@[^\s@]+$/.test(next.smtp.from)) throw new Error('Enter the address emails are sent from');
+  }
+  if (next.transports.webhook === webhookTransport.id && next.webhookUrl && !urlOk(next.webhookUrl)) {
+    throw new Error('The webhook URL must start with http:// or https://');
+  }
+  if (next.transports.sms === smsGatewayTransport.id && !urlOk(next.smsGatewayUrl)) {
+    throw new Error('Enter the SMS gateway URL, starting with http:// or https://');
+  }
+  const before = getNotificationSettings();
+  setItem(NOTIFICATION_SETTINGS_KEY, next);
+  dispatch(NOTIFICATION_SETTINGS_CHANGE_EVENT);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'notifications',
+    summary: 'Notification settings changed',
+    before,
+    after: next,
+  });
+  return next;
+}
+
+/** getTemplateChannels(templateKey: string): NotificationChannel[] */
+export function getTemplateChannels(templateKey: string): NotificationChannel[] {
+  const { templateChannels } = getNotificationSettings();
+  return templateChannels[templateKey] ?? templateChannels.default ?? [];
+}
+
+export function subscribeToNotificationSettings(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === NOTIFICATION_SETTINGS_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(NOTIFICATION_SETTINGS_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(NOTIFICATION_SETTINGS_CHANGE_EVENT, listener);
+  };
+}
+
+/* Outbox */
+
+/** Newest first. */
+export function listNotificationOutbox(): NotificationOutboxMessage[] {
+  const stored = getItem<NotificationOutboxMessage[]>(NOTIFICATION_OUTBOX_KEY);
+  return Array.isArray(stored) ? stored.filter((m) => m && typeof m.id === 'string') : [];
+}
+
+export function clearNotificationOutbox(): void {
+  setItem(NOTIFICATION_OUTBOX_KEY, []);
+  dispatch(NOTIFICATION_OUTBOX_CHANGE_EVENT);
+}
+
+export function subscribeToNotificationOutbox(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === NOTIFICATION_OUTBOX_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(NOTIFICATION_OUTBOX_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(NOTIFICATION_OUTBOX_CHANGE_EVENT, listener);
+  };
+}
+
+/* Built-in transports */
+
+/**
+ * The stand-in for email, SMS and webhooks: messages are kept in local storage (last
+ * OUTBOX_LIMIT) and listed on the admin notifications page, so nothing is lost before a real
+ * transport is connected.
+ */
+export const localOutboxTransport: NotificationTransport = {
+  id: 'local_outbox',
+  label: 'Local outbox',
+  channels: ['email', 'sms', 'webhook'],
+  async send(message) {
+    const entry: NotificationOutboxMessage = { ...message, transport: 'local_outbox' };
+    setItem(NOTIFICATION_OUTBOX_KEY, [entry, ...listNotificationOutbox()].slice(0, OUTBOX_LIMIT));
+    dispatch(NOTIFICATION_OUTBOX_CHANGE_EVENT);
+  },
+};
+
+/** Raises a 'pb:notification' event in this tab, for toasts and badges. */
+export const inAppTransport: NotificationTransport = {
+  id: 'in_app',
+  label: 'In-app event',
+  channels: ['in_app'],
+  async send(message) {
+    if (typeof window === 'undefined') throw new Error('In-app notifications need a browser window');
+    const detail = { title: message.subject, body: message.body, data: message.data, templateKey: message.templateKey };
+    try {
+      window.dispatchEvent(new CustomEvent('pb:notification', { detail }));
+    } catch {
+      // as fallback put it on window object
+      (window as any).__pb_last_notification = detail;
+    }
+  },
+};
+
+/**
+ * Shows a system notification on this device, through the service worker when one is active.
+ * Asks for permission the first time.
+ */
+export const browserNotificationTransport: NotificationTransport = {
+  id: 'browser_notification',
+  label: 'Browser notification (this device)',
+  channels: ['push'],
+  async send(message) {
+    if (typeof window === 'undefined' || !('Notification' in window)) {
+      throw new Error('This browser does not support notifications');
+    }
+    const permission =
+      Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    if (permission !== 'granted') throw new Error('Notifications are blocked in this browser');
+    const options: NotificationOptions = { body: message.body, data: message.data, tag: message.id };
+    const registration =
+      'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration().catch(() => undefined) : undefined;
+    if (registration) await registration.showNotification(message.subject, options);
+    else new Notification(message.subject, options);
+  },
+};
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return `=?UTF-8?B?${btoa(binary)}?=`;
+}
+
+function formatAddress(email: string, name: string): string {
+  return name ? `${encodeHeader(name.replace(/["\\]/g, ''))} <${email}>` : email;
+}
+
+/**
+ * buildEmailMessage(message: NotificationMessage, smtp: SmtpSettings): string
+ * The message as an SMTP server receives it after DATA: RFC 5322 headers, a blank line and a
+ * plain-text UTF-8 body, with CRLF line endings.
+ */
+export function buildEmailMessage(message: NotificationMessage, smtp: SmtpSettings): string {
+  const domain = smtp.from.split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${formatAddress(smtp.from, smtp.fromName)}`,
+    `To: ${formatAddress(message.to ?? '', message.recipientName)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date(message.createdAt).toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${message.id}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${message.body.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
+
+/**
+ * Email through an SMTP server reached over HTTP: a local mail catcher such as Mailpit
+ * (http://localhost:8025) while testing, or a relay that forwards raw messages to SMTP.
+ */
+export const smtpTransport: NotificationTransport = {
+  id: 'smtp',
+  label: 'SMTP server (mail catcher or relay)',
+  channels: ['email'],
+  async send(message) {
+    const { smtp } = getNotificationSettings();
+    if (!smtp.url || !smtp.from) throw new Error('The mail server is not set up');
+    if (smtp.format === 'rfc822') {
+      await postOrThrow(smtp.url, buildEmailMessage(message, smtp), 'message/rfc822', 'The mail server');
+      return;
+    }
+    const payload = {
+      From: { Email: smtp.from, Name: smtp.fromName },
+      To: [{ Email: message.to, Name: message.recipientName }],
+      Subject: message.subject,
+      Text: message.body,
+      Headers: { 'X-Notification-Id': message.id },
+    };
+    await postOrThrow(smtp.url, JSON.stringify(payload), 'application/json', 'The mail server');
+  },
+};
+
+/** Posts every message as JSON to the webhook URL from settings. */
+export const webhookTransport: NotificationTransport = {
+  id: 'webhook',
+  label: 'Webhook (HTTP POST)',
+  channels: ['webhook'],
+  async send(message) {
+    if (!message.to) throw new Error('No webhook URL is set');
+    const { to, ...rest } = message;
+    await postOrThrow(to, JSON.stringify(rest), 'application/json', 'The webhook');
+  },
+};
+
+/** Posts { to, body } as JSON to an SMS gateway. */
+export const smsGatewayTransport: NotificationTransport = {
+  id: 'sms_gateway',
+  label: 'SMS gateway (HTTP POST)',
+  channels: ['sms'],
+  async send(message) {
+    const { smsGatewayUrl } = getNotificationSettings();
+    if (!smsGatewayUrl) throw new Error('The SMS gateway is not set up');
+    await postOrThrow(
+      smsGatewayUrl,
+      JSON.stringify({ to: message.to, body: `${message.subject}: ${message.body}` }),
+      'application/json',
+      'The SMS gateway'
+    );
+  },
+};
+
+registerNotificationTransport(localOutboxTransport);
+registerNotificationTransport(inAppTransport);
+registerNotificationTransport(browserNotificationTransport);
+registerNotificationTransport(smtpTransport);
+registerNotificationTransport(webhookTransport);
+registerNotificationTransport(smsGatewayTransport);
+
+/* Delivery */
+
+/* Who a channel goes to, or why it cannot be sent */
+function recipientFor(
+  channel: NotificationChannel,
+  data: Record<string, unknown>,
+  settings: NotificationSettings
+): { to: string | null; missing: string | null } {
+  if (channel === 'email') {
+    const email = str(data.email);
+    return email.includes('@') ? { to: email, missing: null } : { to: null, missing: 'No email address' };
+  }
+  if (channel === 'sms') {
+    const phone = str(data.phone);
+    return phone ? { to: phone, missing: null } : { to: null, missing: 'No phone number' };
+  }
+  if (channel === 'webhook') {
+    return settings.webhookUrl ? { to: settings.webhookUrl, missing: null } : { to: null, missing: 'No webhook URL is set' };
+  }
+  return { to: null, missing: null };
+}
+
+/**
+ * deliverNotification(content: NotificationContent, channels?: NotificationChannel[]): Promise<NotificationDelivery[]>
+ * Sends through each channel (by default the template's) with the transport chosen for it.
+ * Never throws: every channel reports 'sent', 'failed' with the transport's error, or 'skipped'
+ * when there is nobody to send it to.
+ */
+export async function deliverNotification(
+  content: NotificationContent,
+  channels: NotificationChannel[] = getTemplateChannels(content.templateKey)
+): Promise<NotificationDelivery[]> {
+  const settings = getNotificationSettings();
+  const deliveries: NotificationDelivery[] = [];
+  for (const channel of channels) {
+    const transport = transports.get(settings.transports[channel]);
+    const { to, missing } = recipientFor(channel, content.data, settings);
+    const delivery: NotificationDelivery = {
+      channel,
+      transport: transport?.id ?? null,
+      status: 'sent',
+      to,
+      at: nowIso(),
+      error: null,
+    };
+    if (!transport || !transport.channels.includes(channel)) {
+      deliveries.push({ ...delivery, status: 'failed', error: `No transport is set up for ${NOTIFICATION_CHANNEL_LABELS[channel]}` });
+      continue;
+    }
+    if (missing) {
+      deliveries.push({ ...delivery, status: 'skipped', error: missing });
+      continue;
+    }
+    try {
+      await transport.send({
+        id: generateId(),
+        channel,
+        templateKey: content.templateKey,
+        to,
+        recipientName: str(content.data.name),
+        subject: content.subject,
+        body: content.body,
+        data: content.data,
+        createdAt: nowIso(),
+      });
+      deliveries.push({ ...delivery, at: nowIso() });
+    } catch (err: any) {
+      deliveries.push({ ...delivery, status: 'failed', at: nowIso(), error: err?.message || 'Could not send' });
+    }
+  }
+  return deliveries;
+}
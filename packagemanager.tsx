@@ -192,11 +192,23 @@ export default function PackageManager(): JSX.Element {
     });
   }
 
+  // Package changes need the packages.edit permission; shows why when the signed-in role lacks it
+  function canEditPackages(): boolean {
+    try {
+      requireStaffPermission("packages.edit");
+      return true;
+    } catch (err: any) {
+      setError(`${err?.message || "Not allowed"}.`);
+      return false;
+    }
+  }
+
   // Handlers
   const handleSubmit = useCallback(
     async (e?: React.FormEvent) => {
       if (e) e.preventDefault();
       setError(null);
+      if (!canEditPackages()) return;
       const validation = validateForm();
       if (validation) {
         setError(validation);
@@ -219,9 +231,26 @@ export default function PackageManager(): JSX.Element {
 
       try {
         if (editingId) {
+          const before = packages.find((p) => p.id === editingId) ?? null;
           await updatePackage(editingId, payload);
+          recordAudit({
+            action: "package.updated",
+            entityType: "package",
+            entityId: editingId,
+            summary: `Package "${payload.title}" updated`,
+            before,
+            after: before ? { ...before, ...payload } : payload,
+          });
         } else {
-          await createPackage(payload);
+          const id = generateId();
+          await createPackage({ ...payload, id });
+          recordAudit({
+            action: "package.created",
+            entityType: "package",
+            entityId: id,
+            summary: `Package "${payload.title}" created`,
+            after: payload,
+          });
         }
         resetForm();
       } catch (err) {
@@ -230,7 +259,7 @@ export default function PackageManager(): JSX.Element {
         setError("An unexpected error occurred. Try again.");
       }
     },
-    [title, price, duration, description, featuresText, active, editingId]
+    [title, price, duration, description, featuresText, active, editingId, packages]
   );
 
   function handleEdit(pkg: PackageItem) {
@@ -247,11 +276,19 @@ export default function PackageManager(): JSX.Element {
 
   const handleDelete = useCallback(
     async (id: string) => {
+      if (!canEditPackages()) return;
       const pkg = packages.find((p) => p.id === id);
       const name = pkg ? `"${pkg.title}"` : "this package";
       if (!window.confirm(`Delete ${name}? This action cannot be undone.`)) return;
       try {
         await deletePackage(id);
+        recordAudit({
+          action: "package.deleted",
+          entityType: "package",
+          entityId: id,
+          summary: `Package ${name} deleted`,
+          before: pkg ?? null,
+        });
         if (editingId === id) resetForm();
       } catch (err) {
         // eslint-disable-next-line no-console
@@ -265,9 +302,17 @@ export default function PackageManager(): JSX.Element {
   const toggleActive = useCallback(
     async (id: string) => {
       const pkg = packages.find((p) => p.id === id);
-      if (!pkg) return;
+      if (!pkg || !canEditPackages()) return;
       try {
         await updatePackage(id, { active: !pkg.active });
+        recordAudit({
+          action: pkg.active ? "package.deactivated" : "package.activated",
+          entityType: "package",
+          entityId: id,
+          summary: `Package "${pkg.title}" ${pkg.active ? "deactivated" : "activated"}`,
+          before: { active: pkg.active },
+          after: { active: !pkg.active },
+        });
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error(err);
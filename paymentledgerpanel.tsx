@@ -0,0 +1,411 @@
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: "Card",
+  cash: "Cash",
+  bank_transfer: "Bank transfer",
+  invoice: "Invoice",
+  other: "Other",
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #e5e7eb",
+  padding: "6px 10px",
+  borderRadius: 8,
+  cursor: "pointer",
+  fontSize: 13,
+  color: "#374151",
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #e5e7eb",
+  fontSize: 13,
+};
+
+type LedgerForm = {
+  kind: "payment" | "refund";
+  amount: string;
+  method: PaymentMethod;
+  receivedOn: string; // YYYY-MM-DD
+  reference: string;
+  installmentId: string; // "" applies to the first open installment
+  note: string;
+  linkProof: boolean;
+  verified: boolean;
+};
+
+// Remembered across panels so staff type their name once per visit
+let lastStaffName = "";
+
+const todayKey = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+function emptyForm(booking: Booking | null): LedgerForm {
+  const next = booking?.paymentSchedule?.find((i) => installmentOutstanding(i) > 0);
+  const balance = booking ? bookingBalance(booking) : null;
+  const amount = next ? installmentOutstanding(next) : Math.max(0, balance?.outstanding ?? 0);
+  return {
+    kind: "payment",
+    amount: amount ? amount.toFixed(2) : "",
+    method: "bank_transfer",
+    receivedOn: todayKey(),
+    reference: "",
+    installmentId: "",
+    note: "",
+    linkProof: false,
+    verified: true,
+  };
+}
+
+/**
+ * Payment ledger for one booking: what was received and refunded, against which installment,
+ * with linked proofs and who checked them. Used in the BookingManager details.
+ */
+export default function PaymentLedgerPanel({ bookingId }: { bookingId: string }): JSX.Element {
+  const [booking, setBooking] = useState<Booking | null>(() => getStoredBooking(bookingId));
+  const [entries, setEntries] = useState<PaymentLedgerEntry[]>(() => getLedgerEntries(bookingId));
+  const [invoice, setInvoice] = useState<InvoiceDocument | null>(() => getBookingInvoice(bookingId));
+  const [form, setForm] = useState<LedgerForm | null>(null);
+  const [staffName, setStaffName] = useState(() => getCurrentStaff()?.name || lastStaffName);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pinRequest, setPinRequest] = useState<PinConfirmRequest | null>(null);
+
+  useEffect(() => {
+    const reload = () => {
+      setBooking(getStoredBooking(bookingId));
+      setEntries(getLedgerEntries(bookingId));
+      setInvoice(getBookingInvoice(bookingId));
+    };
+    reload();
+    const offLedger = subscribeToLedger(reload);
+    const offBookings = subscribeToBookings(reload);
+    const offInvoices = subscribeToInvoices(reload);
+    return () => {
+      offLedger();
+      offBookings();
+      offInvoices();
+    };
+  }, [bookingId]);
+
+  const balance = useMemo(() => (booking ? bookingBalance(booking, entries) : null), [booking, entries]);
+  const proof = booking?.paymentProof ?? null;
+  const proofInLedger = !!proof && entries.some((e) => e.proof?.uploadedAt === proof.uploadedAt);
+
+  function rememberName(name: string) {
+    lastStaffName = name;
+    setStaffName(name);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form) return;
+    if (form.kind !== "refund") {
+      await saveEntry();
+      return;
+    }
+    // Refunds send money back, so the PIN is asked for again first
+    if (!staffCan("payments.refund")) {
+      setMessage("Failed: your role cannot issue refunds.");
+      return;
+    }
+    setPinRequest({
+      title: `Record a refund of ${Number(form.amount || 0).toFixed(2)}`,
+      action: () => saveEntry(),
+    });
+  }
+
+  async function saveEntry() {
+    if (!form) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      requireStaffPermission(form.kind === "refund" ? "payments.refund" : "payments.record");
+      if (form.kind === "refund") consumeStaffReauth("record a refund");
+      const input: LedgerEntryInput = {
+        bookingId,
+        amount: Number(form.amount),
+        method: form.method,
+        receivedAt: new Date(`${form.receivedOn}T12:00`),
+        reference: form.reference,
+        note: form.note,
+        installmentId: form.installmentId || null,
+        proof: form.linkProof ? await archiveBookingProof(bookingId) : null,
+        recordedBy: staffName,
+        verified: form.verified,
+      };
+      if (form.verified && !staffName.trim()) throw new Error("Enter your name to record a verified payment");
+      const entry = form.kind === "refund" ? recordLedgerRefund(input) : recordLedgerPayment(input);
+      setForm(null);
+      setMessage(`${entry.kind === "refund" ? "Refund" : "Payment"} of ${entry.amount.toFixed(2)} recorded.`);
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not record the entry"}.`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleVerify(entry: PaymentLedgerEntry) {
+    try {
+      requireStaffPermission("payments.record");
+      verifyLedgerEntry(entry.id, staffName);
+      setMessage("Entry verified.");
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not verify"}.`);
+    }
+  }
+
+  async function handleOpenProof(entry: PaymentLedgerEntry) {
+    if (!entry.proof) return;
+    const url = await openLedgerProof(entry.proof);
+    if (!url) {
+      setMessage("Failed: the proof file is no longer stored.");
+      return;
+    }
+    window.open(url, "_blank", "noopener,noreferrer");
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  }
+
+  // Issues the invoice or receipt on first use, then prints or downloads it
+  function handleDocument(issue: () => InvoiceDocument, format: "print" | "pdf") {
+    try {
+      const doc = issue();
+      if (format === "pdf") downloadInvoicePdf(doc);
+      else printInvoiceDocument(doc);
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not create the document"}.`);
+    }
+  }
+
+  function handleVoidInvoice() {
+    if (!invoice) return;
+    if (!staffCan("payments.refund")) {
+      setMessage("Failed: your role cannot void invoices.");
+      return;
+    }
+    const reason = window.prompt(`Reason for voiding ${invoice.number} (a new invoice can be issued afterwards)`);
+    if (reason === null) return;
+    const { id, number } = invoice;
+    setPinRequest({
+      title: `Void ${number}`,
+      action: () => {
+        try {
+          consumeStaffReauth("void an invoice");
+          voidInvoiceDocument(id, reason);
+          setMessage(`${number} voided.`);
+        } catch (err: any) {
+          setMessage(`Failed: ${err?.message || "could not void the invoice"}.`);
+        }
+      },
+    });
+  }
+
+  const installmentLabel = (id: string | null) =>
+    (id && booking?.paymentSchedule?.find((i) => i.id === id)?.label) || "";
+
+  return (
+    <div style={{ fontSize: 13, color: "#6b7280", display: "grid", gap: 8 }}>
+      <div>
+        <strong>Payments:</strong>{" "}
+        {balance
+          ? `${balance.net.toFixed(2)} received of ${balance.expected.toFixed(2)}${
+              balance.refunded ? ` (${balance.refunded.toFixed(2)} refunded)` : ""
+            }, ${
+              balance.outstanding < 0
+                ? `${(-balance.outstanding).toFixed(2)} overpaid`
+                : `${balance.outstanding.toFixed(2)} outstanding`
+            }`
+          : "booking not found"}
+      </div>
+
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <strong>Invoice:</strong> {invoice ? `${invoice.number} (${new Date(invoice.issuedAt).toLocaleDateString()})` : "not issued"}
+        <button type="button" onClick={() => handleDocument(() => issueInvoice(bookingId), "print")} style={buttonStyle}>
+          {invoice ? "Print" : "Issue invoice"}
+        </button>
+        <button type="button" onClick={() => handleDocument(() => issueInvoice(bookingId), "pdf")} style={buttonStyle}>
+          PDF
+        </button>
+        {invoice && (
+          <button type="button" onClick={handleVoidInvoice} style={buttonStyle}>
+            Void
+          </button>
+        )}
+      </div>
+
+      {entries.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <tbody>
+            {entries.map((e) => (
+              <tr key={e.id} style={{ borderTop: "1px solid #f1f5f9", color: e.kind === "refund" ? "#991b1b" : undefined }}>
+                <td style={{ padding: "4px 0" }}>{new Date(e.receivedAt).toLocaleDateString()}</td>
+                <td>
+                  {e.kind === "refund" ? "Refund" : "Payment"} {e.kind === "refund" ? "-" : ""}
+                  {e.amount.toFixed(2)}
+                </td>
+                <td>
+                  {METHOD_LABELS[e.method]}
+                  {e.reference ? ` - ${e.reference}` : ""}
+                  {installmentLabel(e.installmentId) ? ` (${installmentLabel(e.installmentId)})` : ""}
+                  {e.note ? <div>{e.note}</div> : null}
+                </td>
+                <td>
+                  {e.proof ? (
+                    <button type="button" onClick={() => handleOpenProof(e)} style={buttonStyle}>
+                      {e.proof.fileName}
+                    </button>
+                  ) : null}
+                  {e.kind === "payment" && (
+                    <button type="button" onClick={() => handleDocument(() => issueReceipt(e.id), "print")} style={buttonStyle}>
+                      Receipt
+                    </button>
+                  )}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {e.verifiedAt ? (
+                    <span style={{ color: "#065f46" }}>
+                      Verified{e.verifiedBy ? ` by ${e.verifiedBy}` : ""} {new Date(e.verifiedAt).toLocaleDateString()}
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleVerify(e)}
+                      style={buttonStyle}
+                      disabled={!staffName.trim()}
+                      title={staffName.trim() ? undefined : "Enter your name below first"}
+                    >
+                      Verify
+                    </button>
+                  )}
+                  {e.recordedBy ? <div>recorded by {e.recordedBy}</div> : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {proof && !proofInLedger && !form && (
+        <div style={{ color: "#92400e" }}>
+          The uploaded proof {proof.fileName} is not in the ledger yet.{" "}
+          <button type="button" onClick={() => setForm({ ...emptyForm(booking), linkProof: true })} style={buttonStyle}>
+            Record payment for it
+          </button>
+        </div>
+      )}
+
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        Your name
+        <input value={staffName} onChange={(e) => rememberName(e.target.value)} style={inputStyle} aria-label="Staff name" />
+      </label>
+
+      {form ? (
+        <form onSubmit={handleSubmit} style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <select
+            value={form.kind}
+            onChange={(e) => setForm({ ...form, kind: e.target.value as LedgerForm["kind"] })}
+            style={inputStyle}
+            aria-label="Entry type"
+          >
+            <option value="payment">Payment</option>
+            <option value="refund">Refund</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            style={{ ...inputStyle, width: 100 }}
+            aria-label="Amount"
+            required
+          />
+          <select
+            value={form.method}
+            onChange={(e) => setForm({ ...form, method: e.target.value as PaymentMethod })}
+            style={inputStyle}
+            aria-label="Method"
+          >
+            {PAYMENT_METHODS.map((m) => (
+              <option key={m} value={m}>
+                {METHOD_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={form.receivedOn}
+            onChange={(e) => setForm({ ...form, receivedOn: e.target.value })}
+            style={inputStyle}
+            aria-label="Date received"
+            required
+          />
+          <input
+            value={form.reference}
+            onChange={(e) => setForm({ ...form, reference: e.target.value })}
+            placeholder="Reference"
+            style={inputStyle}
+            aria-label="Reference"
+          />
+          {form.kind === "payment" && booking?.paymentSchedule?.length ? (
+            <select
+              value={form.installmentId}
+              onChange={(e) => setForm({ ...form, installmentId: e.target.value })}
+              style={inputStyle}
+              aria-label="Apply to installment"
+            >
+              <option value="">Next open installment</option>
+              {booking.paymentSchedule
+                .filter((i) => installmentOutstanding(i) > 0)
+                .map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.label} ({installmentOutstanding(i).toFixed(2)} open)
+                  </option>
+                ))}
+            </select>
+          ) : null}
+          <input
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            placeholder="Note"
+            style={inputStyle}
+            aria-label="Note"
+          />
+          {proof && (
+            <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              <input type="checkbox" checked={form.linkProof} onChange={(e) => setForm({ ...form, linkProof: e.target.checked })} />
+              Link {proof.fileName}
+            </label>
+          )}
+          <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            <input type="checkbox" checked={form.verified} onChange={(e) => setForm({ ...form, verified: e.target.checked })} />
+            Verified
+          </label>
+          <button type="submit" style={buttonStyle} disabled={saving}>
+            {saving ? "Saving..." : "Record"}
+          </button>
+          <button type="button" onClick={() => setForm(null)} style={buttonStyle}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div>
+          <button type="button" onClick={() => setForm(emptyForm(booking))} style={buttonStyle}>
+            Record payment or refund
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div role="status" style={{ color: message.startsWith("Failed") ? "#b91c1c" : "#065f46" }}>
+          {message}
+        </div>
+      )}
+
+      <PinConfirmDialog request={pinRequest} onClose={() => setPinRequest(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+const PAYMENT_LEDGER_KEY = 'pb_payment_ledger_v1';
+const PAYMENT_LEDGER_CHANGE_EVENT = 'pb:payment-ledger-changed';
+
+registerStorageKeys([PAYMENT_LEDGER_KEY]);
+
+export const PAYMENT_METHODS = ['card', 'cash', 'bank_transfer', 'invoice', 'other'] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+/** A payment proof kept for the ledger; the file is a blob, so later re-uploads do not replace it. */
+export interface LedgerProof {
+  blobKey: string;
+  fileName: string;
+  mimeType: string;
+  uploadedAt: string;
+}
+
+/** Money received for (payment) or returned on (refund) a booking. `amount` is always positive. */
+export interface PaymentLedgerEntry {
+  id: string;
+  bookingId: string;
+  kind: 'payment' | 'refund';
+  amount: number;
+  method: PaymentMethod;
+  /** When the money moved, as opposed to when it was recorded. */
+  receivedAt: string;
+  /** Bank or card reference, receipt number... */
+  reference: string | null;
+  proof: LedgerProof | null;
+  /** The installment a payment was applied to first (paymentscheduleservice.ts). */
+  installmentId: string | null;
+  note: string | null;
+  recordedAt: string;
+  recordedBy: string | null;
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+}
+
+export interface LedgerEntryInput {
+  bookingId: string;
+  amount: number;
+  method: PaymentMethod;
+  receivedAt?: Date | string;
+  reference?: string | null;
+  proof?: LedgerProof | null;
+  installmentId?: string | null;
+  note?: string | null;
+  recordedBy?: string | null;
+  /** Record it as already checked by `recordedBy`. */
+  verified?: boolean;
+}
+
+export interface BookingBalance {
+  /** The checkout total stored on the booking (calculateTotals), or 0 once cancelled. */
+  expected: number;
+  paid: number;
+  refunded: number;
+  /** paid - refunded */
+  net: number;
+  /** expected - net; negative when overpaid. */
+  outstanding: number;
+  /** What should have been received by now: installments due so far, or everything without a schedule. */
+  dueToDate: number;
+}
+
+export type ReconciliationStatus = 'overpaid' | 'refund_due' | 'behind' | 'schedule_mismatch' | 'open';
+
+export interface ReconciliationRow {
+  booking: Booking;
+  balance: BookingBalance;
+  status: ReconciliationStatus;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `pay_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function readLedger(): PaymentLedgerEntry[] {
+  const raw = getItem<PaymentLedgerEntry[]>(PAYMENT_LEDGER_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((e) => e && typeof e.id === 'string' && typeof e.bookingId === 'string' && Number(e.amount) > 0);
+}
+
+function saveLedger(entries: PaymentLedgerEntry[]): void {
+  setItem(PAYMENT_LEDGER_KEY, entries);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(PAYMENT_LEDGER_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+/** Entries oldest first; all bookings when no id is given. */
+export function getLedgerEntries(bookingId?: string): PaymentLedgerEntry[] {
+  return readLedger()
+    .filter((e) => !bookingId || e.bookingId === bookingId)
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt) || a.recordedAt.localeCompare(b.recordedAt));
+}
+
+function createEntry(kind: PaymentLedgerEntry['kind'], input: LedgerEntryInput): PaymentLedgerEntry {
+  if (!getStoredBooking(input.bookingId)) throw new Error('Booking not found');
+  const amount = round2(Number(input.amount) || 0);
+  if (amount <= 0) throw new Error('Enter an amount above zero');
+  if (!PAYMENT_METHODS.includes(input.method)) throw new Error('Choose a payment method');
+  const receivedAt = input.receivedAt ? new Date(input.receivedAt) : new Date();
+  if (isNaN(receivedAt.getTime())) throw new Error('Invalid payment date');
+  const at = nowIso();
+  const by = text(input.recordedBy);
+  return {
+    id: generateId(),
+    bookingId: input.bookingId,
+    kind,
+    amount,
+    method: input.method,
+    receivedAt: receivedAt.toISOString(),
+    reference: text(input.reference),
+    proof: input.proof ?? null,
+    installmentId: text(input.installmentId),
+    note: text(input.note),
+    recordedAt: at,
+    recordedBy: by,
+    verifiedBy: input.verified ? by : null,
+    verifiedAt: input.verified ? at : null,
+  };
+}
+
+/**
+ * recordLedgerPayment(input: LedgerEntryInput): PaymentLedgerEntry
+ * Adds a full or partial payment and applies it to the payment schedule, starting at
+ * `installmentId` or the first open installment. Overpayments stay in the ledger only.
+ */
+export function recordLedgerPayment(input: LedgerEntryInput): PaymentLedgerEntry {
+  const entry = createEntry('payment', input);
+  const schedule = getStoredBooking(entry.bookingId)?.paymentSchedule ?? [];
+  const startIndex = entry.installmentId
+    ? schedule.findIndex((i) => i.id === entry.installmentId)
+    : schedule.findIndex((i) => installmentOutstanding(i) > 0);
+  if (startIndex !== -1) {
+    const owed = round2(schedule.slice(startIndex).reduce((sum, i) => sum + installmentOutstanding(i), 0));
+    const applied = Math.min(entry.amount, owed);
+    if (applied > 0) recordInstallmentPayment(entry.bookingId, schedule[startIndex].id, applied);
+    entry.installmentId = schedule[startIndex].id;
+  }
+  saveLedger(readLedger().concat(entry));
+  recordAudit({
+    action: 'payment.recorded',
+    entityType: 'payment',
+    entityId: entry.id,
+    summary: `Payment of ${entry.amount.toFixed(2)} (${entry.method}) recorded for ${getStoredBooking(entry.bookingId)?.reference ?? entry.bookingId}`,
+    after: entry,
+  });
+  return entry;
+}
+
+/**
+ * recordLedgerRefund(input: LedgerEntryInput): PaymentLedgerEntry
+ * Records money returned to the customer. A refund cannot exceed what has been received.
+ */
+export function recordLedgerRefund(input: LedgerEntryInput): PaymentLedgerEntry {
+  const entry = createEntry('refund', { ...input, installmentId: null });
+  const { net } = ledgerTotals(getLedgerEntries(entry.bookingId));
+  if (entry.amount > net) throw new Error(`Only ${net.toFixed(2)} has been received, so no more can be refunded`);
+  // Money beyond the schedule (overpayments) is returned first
+  const schedule = getStoredBooking(entry.bookingId)?.paymentSchedule ?? [];
+  const surplus = Math.max(0, net - schedule.reduce((sum, i) => sum + i.paid, 0));
+  const reverse = round2(entry.amount - surplus);
+  if (reverse > 0) reverseInstallmentPayments(entry.bookingId, reverse);
+  saveLedger(readLedger().concat(entry));
+  recordAudit({
+    action: 'payment.refunded',
+    entityType: 'payment',
+    entityId: entry.id,
+    summary: `Refund of ${entry.amount.toFixed(2)} (${entry.method}) recorded for ${getStoredBooking(entry.bookingId)?.reference ?? entry.bookingId}`,
+    after: entry,
+  });
+  return entry;
+}
+
+/** Marks an entry as checked by `verifiedBy`. */
+export function verifyLedgerEntry(id: string, verifiedBy: string): PaymentLedgerEntry {
+  const by = text(verifiedBy);
+  if (!by) throw new Error('Enter who verified the payment');
+  const entries = readLedger();
+  const idx = entries.findIndex((e) => e.id === id);
+  if (idx === -1) throw new Error('Ledger entry not found');
+  const before = entries[idx];
+  entries[idx] = { ...before, verifiedBy: by, verifiedAt: nowIso() };
+  saveLedger(entries);
+  recordAudit({
+    action: 'payment.verified',
+    entityType: 'payment',
+    entityId: id,
+    summary: `${before.kind === 'refund' ? 'Refund' : 'Payment'} of ${before.amount.toFixed(2)} verified by ${by}`,
+    before,
+    after: entries[idx],
+  });
+  return entries[idx];
+}
+
+/**
+ * archiveBookingProof(bookingId: string): Promise<LedgerProof | null>
+ * Copies the booking's current payment proof into blob storage so a ledger entry can link it.
+ * Archiving the same upload twice returns the existing copy.
+ */
+export async function archiveBookingProof(bookingId: string): Promise<LedgerProof | null> {
+  const proof = getStoredBooking(bookingId)?.paymentProof;
+  if (!proof) return null;
+  const existing = readLedger().find((e) => e.bookingId === bookingId && e.proof?.uploadedAt === proof.uploadedAt);
+  if (existing?.proof) return existing.proof;
+  const blob = dataUrlToBlob(proof.dataUrl);
+  if (!blob) throw new Error('The payment proof could not be read');
+  const blobKey = `payment-proof/ledger/${bookingId}/${Date.parse(proof.uploadedAt) || Date.now()}`;
+  await setBlob(blobKey, blob);
+  return { blobKey, fileName: proof.fileName, mimeType: proof.mimeType, uploadedAt: proof.uploadedAt };
+}
+
+/** An object URL for a linked proof; the caller revokes it. */
+export async function openLedgerProof(proof: LedgerProof): Promise<string | null> {
+  const blob = await getBlob(proof.blobKey);
+  return blob ? URL.createObjectURL(blob) : null;
+}
+
+function ledgerTotals(entries: PaymentLedgerEntry[]): { paid: number; refunded: number; net: number } {
+  const paid = round2(entries.filter((e) => e.kind === 'payment').reduce((sum, e) => sum + e.amount, 0));
+  const refunded = round2(entries.filter((e) => e.kind === 'refund').reduce((sum, e) => sum + e.amount, 0));
+  return { paid, refunded, net: round2(paid - refunded) };
+}
+
+export function bookingBalance(
+  booking: Booking,
+  entries: PaymentLedgerEntry[] = getLedgerEntries(booking.id),
+  now: Date = new Date()
+): BookingBalance {
+  const expected = booking.status === 'cancelled' ? 0 : round2(booking.price ?? 0);
+  const totals = ledgerTotals(entries.filter((e) => e.bookingId === booking.id));
+  const schedule = booking.status === 'cancelled' ? [] : booking.paymentSchedule ?? [];
+  const dueToDate = schedule.length
+    ? round2(schedule.filter((i) => new Date(i.dueAt).getTime() <= now.getTime()).reduce((sum, i) => sum + i.amount, 0))
+    : expected;
+  return { expected, ...totals, outstanding: round2(expected - totals.net), dueToDate };
+}
+
+/**
+ * reconcileBookings(now?: Date): ReconciliationRow[]
+ * Bookings whose ledger does not add up to their checkout total, most urgent first:
+ * overpaid, cancelled with money still held, behind schedule, a schedule that no longer sums to
+ * the total, then balances that are open but on schedule.
+ */
+export function reconcileBookings(now: Date = new Date()): ReconciliationRow[] {
+  const entries = readLedger();
+  const order: ReconciliationStatus[] = ['overpaid', 'refund_due', 'behind', 'schedule_mismatch', 'open'];
+  const rows: ReconciliationRow[] = [];
+  for (const booking of readBookings()) {
+    if (booking.status === 'draft') continue;
+    const balance = bookingBalance(booking, entries, now);
+    const scheduleTotal = round2((booking.paymentSchedule ?? []).reduce((sum, i) => sum + i.amount, 0));
+    let status: ReconciliationStatus | null = null;
+    if (booking.status === 'cancelled' && balance.net > 0) status = 'refund_due';
+    else if (balance.outstanding < 0) status = 'overpaid';
+    else if (balance.net < balance.dueToDate) status = 'behind';
+    else if (booking.paymentSchedule?.length && booking.status !== 'cancelled' && scheduleTotal !== balance.expected) {
+      status = 'schedule_mismatch';
+    } else if (balance.outstanding > 0) status = 'open';
+    if (status) rows.push({ booking, balance, status });
+  }
+  return rows.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status) || a.booking.start.localeCompare(b.booking.start));
+}
+
+export function subscribeToLedger(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === PAYMENT_LEDGER_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(PAYMENT_LEDGER_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(PAYMENT_LEDGER_CHANGE_EVENT, listener);
+  };
+}
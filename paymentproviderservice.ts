@@ -0,0 +1,440 @@
+const PAYMENT_INTENTS_KEY = 'pb_payment_intents_v1';
+const PAYMENT_INTENTS_CHANGE_EVENT = 'pb:payment-intents-changed';
+// Written by the admin settings page (settings.tsx)
+const PAYMENT_SETTINGS_KEY = 'pb_payment_settings_v1';
+
+registerStorageKeys([PAYMENT_INTENTS_KEY]);
+
+export type PaymentIntentStatus = 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * One attempt to collect an amount through a provider. Provider-specific data lives in
+ * `providerRef` and `details`; card numbers are never stored, only brand and last four digits.
+ */
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  bookingId: string | null;
+  amount: number;
+  currency: string;
+  description: string | null;
+  status: PaymentIntentStatus;
+  /** The provider's own id for the payment, shown as the ledger reference. */
+  providerRef: string | null;
+  /** Handed to the client to confirm the payment (card providers). */
+  clientSecret: string | null;
+  details: Record<string, string>;
+  refundedAmount: number;
+  failureReason: string | null;
+  /** The payment ledger entry recorded when it succeeded for a booking. */
+  ledgerEntryId: string | null;
+  /** Webhook event ids already applied, so redelivered events are ignored. */
+  eventIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What the customer supplies to confirm: a proof reference, or card details. */
+export interface PaymentConfirmation {
+  proofRef?: string;
+  proofFilename?: string;
+  card?: { name?: string; number: string; expMonth: number; expYear: number; cvc: string };
+}
+
+/** A provider notification, normalized by the adapter's parseWebhook. */
+export interface PaymentWebhookEvent {
+  id: string;
+  intentId: string;
+  type: 'succeeded' | 'failed' | 'refunded';
+  /** Refunded amount for 'refunded'; the whole remainder when missing. */
+  amount?: number;
+  failureReason?: string;
+}
+
+/** Fields an adapter may change on an intent. */
+export type PaymentIntentPatch = Partial<
+  Pick<PaymentIntent, 'status' | 'providerRef' | 'clientSecret' | 'details' | 'failureReason'>
+>;
+
+/**
+ * A payment processor. The booking flow only talks to this interface, so a real processor is
+ * added by registering another adapter (registerPaymentProvider) and selecting it in settings.
+ */
+export interface PaymentProviderAdapter {
+  id: string;
+  label: string;
+  /** 'proof': paid outside the app and a receipt is uploaded; 'card': card details are entered here. */
+  flow: 'proof' | 'card';
+  /** Methods the provider can take (matches the payment settings' accepted methods). */
+  methods: readonly string[];
+  createIntent(intent: PaymentIntent): Promise<PaymentIntentPatch>;
+  confirmIntent(intent: PaymentIntent, confirmation: PaymentConfirmation): Promise<PaymentIntentPatch>;
+  /** Returns normally when the provider accepted the refund; throws otherwise. */
+  refund(intent: PaymentIntent, amount: number): Promise<void>;
+  parseWebhook?(payload: unknown): PaymentWebhookEvent | null;
+}
+
+export interface CreatePaymentIntentInput {
+  amount: number;
+  currency?: string;
+  bookingId?: string | null;
+  description?: string | null;
+}
+
+const providers = new Map<string, PaymentProviderAdapter>();
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readIntents(): PaymentIntent[] {
+  const raw = getItem<PaymentIntent[]>(PAYMENT_INTENTS_KEY);
+  return Array.isArray(raw) ? raw.filter((i) => i && typeof i.id === 'string') : [];
+}
+
+function saveIntents(intents: PaymentIntent[]): void {
+  setItem(PAYMENT_INTENTS_KEY, intents);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(PAYMENT_INTENTS_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function storeIntent(intent: PaymentIntent): PaymentIntent {
+  const intents = readIntents();
+  const idx = intents.findIndex((i) => i.id === intent.id);
+  if (idx === -1) intents.push(intent);
+  else intents[idx] = intent;
+  saveIntents(intents);
+  return intent;
+}
+
+function requireIntent(id: string): PaymentIntent {
+  const intent = readIntents().find((i) => i.id === id);
+  if (!intent) throw new Error('Payment not found');
+  return intent;
+}
+
+export function registerPaymentProvider(adapter: PaymentProviderAdapter): void {
+  providers.set(adapter.id, adapter);
+}
+
+export function getPaymentProvider(id: string): PaymentProviderAdapter | null {
+  return providers.get(id) ?? null;
+}
+
+export function listPaymentProviders(): PaymentProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+/** Methods ticked in the payment settings; informational for proof providers. */
+export function getAcceptedPaymentMethods(): string[] {
+  const stored = getItem<{ acceptedMethods?: unknown }>(PAYMENT_SETTINGS_KEY);
+  const methods = stored && typeof stored === 'object' ? stored.acceptedMethods : null;
+  return Array.isArray(methods) ? methods.filter((m): m is string => typeof m === 'string') : ['card'];
+}
+
+/**
+ * getActivePaymentProvider(): PaymentProviderAdapter
+ * The provider chosen in the payment settings. Falls back to the manual adapter when the choice
+ * is not registered, or when a card provider is chosen but card is not an accepted method.
+ */
+export function getActivePaymentProvider(): PaymentProviderAdapter {
+  const stored = getItem<{ provider?: unknown }>(PAYMENT_SETTINGS_KEY);
+  const id = stored && typeof stored === 'object' && typeof stored.provider === 'string' ? stored.provider : 'manual';
+  const adapter = providers.get(id);
+  if (!adapter) return manualPaymentProvider;
+  if (adapter.flow === 'card' && !getAcceptedPaymentMethods().includes('card')) return manualPaymentProvider;
+  return adapter;
+}
+
+export function getPaymentIntent(id: string): PaymentIntent | null {
+  return readIntents().find((i) => i.id === id) ?? null;
+}
+
+/** Intents newest first; all of them when no booking id is given. */
+export function listPaymentIntents(bookingId?: string): PaymentIntent[] {
+  return readIntents()
+    .filter((i) => !bookingId || i.bookingId === bookingId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/* Records a succeeded card payment in the booking's ledger, once */
+function recordIntentInLedger(intent: PaymentIntent): PaymentIntent {
+  if (intent.status !== 'succeeded' || intent.ledgerEntryId || !intent.bookingId) return intent;
+  if (!getStoredBooking(intent.bookingId) || intent.amount <= 0) return intent;
+  const adapter = providers.get(intent.provider);
+  const entry = recordLedgerPayment({
+    bookingId: intent.bookingId,
+    amount: intent.amount,
+    method: adapter?.flow === 'card' ? 'card' : 'other',
+    reference: intent.providerRef ?? intent.id,
+    note: adapter ? `Paid through ${adapter.label}` : null,
+    recordedBy: adapter?.label ?? intent.provider,
+    verified: true,
+  });
+  return { ...intent, ledgerEntryId: entry.id };
+}
+
+function applyPatch(intent: PaymentIntent, patch: PaymentIntentPatch): PaymentIntent {
+  const next: PaymentIntent = {
+    ...intent,
+    ...patch,
+    details: { ...intent.details, ...(patch.details ?? {}) },
+    updatedAt: nowIso(),
+  };
+  return storeIntent(recordIntentInLedger(next));
+}
+
+/**
+ * createPaymentIntent(input: CreatePaymentIntentInput, providerId?: string): Promise<PaymentIntent>
+ * Starts a payment with the given provider, or the active one from settings.
+ */
+export async function createPaymentIntent(input: CreatePaymentIntentInput, providerId?: string): Promise<PaymentIntent> {
+  const adapter = providerId ? providers.get(providerId) : getActivePaymentProvider();
+  if (!adapter) throw new Error('Payment provider is not available');
+  const amount = round2(Number(input.amount) || 0);
+  if (amount < 0) throw new Error('Invalid payment amount');
+  const stored = getItem<{ currency?: unknown }>(PAYMENT_SETTINGS_KEY);
+  const currency =
+    input.currency || (stored && typeof stored === 'object' && typeof stored.currency === 'string' ? stored.currency : 'USD');
+  const at = nowIso();
+  const intent: PaymentIntent = {
+    id: generateId('pi'),
+    provider: adapter.id,
+    bookingId: input.bookingId ?? null,
+    amount,
+    currency,
+    description: input.description ?? null,
+    status: 'requires_confirmation',
+    providerRef: null,
+    clientSecret: null,
+    details: {},
+    refundedAmount: 0,
+    failureReason: null,
+    ledgerEntryId: null,
+    eventIds: [],
+    createdAt: at,
+    updatedAt: at,
+  };
+  return applyPatch(intent, await adapter.createIntent(intent));
+}
+
+/**
+ * confirmPaymentIntent(id: string, confirmation: PaymentConfirmation): Promise<PaymentIntent>
+ * Submits the customer's proof or card details. A declined card leaves the intent 'failed' with
+ * a failureReason rather than throwing; a fresh intent is needed to retry.
+ */
+export async function confirmPaymentIntent(id: string, confirmation: PaymentConfirmation): Promise<PaymentIntent> {
+  const intent = requireIntent(id);
+  if (intent.status !== 'requires_confirmation') throw new Error('This payment has already been submitted');
+  const adapter = providers.get(intent.provider);
+  if (!adapter) throw new Error('Payment provider is not available');
+  return applyPatch(intent, await adapter.confirmIntent(intent, confirmation));
+}
+
+/**
+ * refundPaymentIntent(id: string, amount?: number): Promise<PaymentIntent>
+ * Refunds part or, by default, the rest of a succeeded payment through its provider and records
+ * the refund in the booking's ledger. Staff must have re-entered their PIN just before.
+ */
+export async function refundPaymentIntent(id: string, amount?: number): Promise<PaymentIntent> {
+  requireStaffPermission('payments.refund');
+  consumeStaffReauth('refund a card payment');
+  const intent = requireIntent(id);
+  if (intent.status !== 'succeeded') throw new Error('Only completed payments can be refunded');
+  const refundable = round2(intent.amount - intent.refundedAmount);
+  const value = round2(amount ?? refundable);
+  if (value <= 0 || value > refundable) throw new Error(`Enter a refund between 0 and ${refundable.toFixed(2)}`);
+  const adapter = providers.get(intent.provider);
+  if (!adapter) throw new Error('Payment provider is not available');
+  await adapter.refund(intent, value);
+  return applyRefund(intent, value);
+}
+
+function applyRefund(intent: PaymentIntent, amount: number): PaymentIntent {
+  if (intent.ledgerEntryId && intent.bookingId) {
+    recordLedgerRefund({
+      bookingId: intent.bookingId,
+      amount,
+      method: 'card',
+      reference: intent.providerRef ?? intent.id,
+      recordedBy: providers.get(intent.provider)?.label ?? intent.provider,
+      verified: true,
+    });
+  }
+  return storeIntent({ ...intent, refundedAmount: round2(intent.refundedAmount + amount), updatedAt: nowIso() });
+}
+
+/**
+ * handlePaymentWebhook(providerId: string, payload: unknown): PaymentIntent | null
+ * Applies a provider notification to its intent. Unknown payloads, unknown intents and events
+ * already applied return null.
+ */
+export function handlePaymentWebhook(providerId: string, payload: unknown): PaymentIntent | null {
+  const adapter = providers.get(providerId);
+  const event = adapter?.parseWebhook?.(payload);
+  if (!event) return null;
+  const intent = getPaymentIntent(event.intentId);
+  if (!intent || intent.provider !== providerId || intent.eventIds.includes(event.id)) return null;
+  const seen = { ...intent, eventIds: intent.eventIds.concat(event.id) };
+  if (event.type === 'succeeded') return applyPatch(seen, { status: 'succeeded', failureReason: null });
+  if (event.type === 'failed') {
+    return applyPatch(seen, { status: 'failed', failureReason: event.failureReason ?? 'The payment failed' });
+  }
+  const refundable = round2(seen.amount - seen.refundedAmount);
+  const amount = Math.min(refundable, round2(event.amount ?? refundable));
+  return amount > 0 ? applyRefund(seen, amount) : storeIntent(seen);
+}
+
+/** Attaches an intent made before the booking existed, recording it in the ledger if it succeeded. */
+export function linkPaymentIntent(id: string, bookingId: string): PaymentIntent {
+  const intent = requireIntent(id);
+  if (intent.bookingId && intent.bookingId !== bookingId) throw new Error('This payment belongs to another booking');
+  return storeIntent(recordIntentInLedger({ ...intent, bookingId, updatedAt: nowIso() }));
+}
+
+export function subscribeToPaymentIntents(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === PAYMENT_INTENTS_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(PAYMENT_INTENTS_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(PAYMENT_INTENTS_CHANGE_EVENT, listener);
+  };
+}
+
+/**
+ * The existing manual flow: the customer pays by transfer, cash or invoice and uploads proof
+ * (uploadPaymentProof). The intent stays 'processing' while an admin checks the proof and records
+ * the payment in the ledger.
+ */
+export const manualPaymentProvider: PaymentProviderAdapter = {
+  id: 'manual',
+  label: 'Manual (proof upload)',
+  flow: 'proof',
+  methods: ['card', 'cash', 'invoice', 'bank_transfer', 'other'],
+  async createIntent() {
+    return {};
+  },
+  async confirmIntent(_intent, confirmation) {
+    if (!confirmation.proofRef) throw new Error('Please attach a payment proof before submitting.');
+    const details: Record<string, string> = {};
+    if (confirmation.proofFilename) details.proofFilename = confirmation.proofFilename;
+    return { status: 'processing', providerRef: confirmation.proofRef, details };
+  },
+  async refund() {
+    throw new Error('Manual payments are refunded outside the app; record the refund in the payment ledger');
+  },
+};
+
+/* Mock gateway test cards; any other number passing the Luhn check succeeds */
+const MOCK_DECLINES: Record<string, string> = {
+  '4000000000000002': 'Your card was declined.',
+  '4000000000009995': 'Your card has insufficient funds.',
+  '4000000000000069': 'Your card has expired.',
+};
+// Confirms as 'processing' and settles by webhook shortly after, like an asynchronous payment method
+const MOCK_DELAYED_CARD = '4000000000000077';
+const MOCK_SETTLE_MS = 2000;
+const MOCK_LATENCY_MS = 400;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function cardBrand(digits: string): string {
+  if (digits.startsWith('4')) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  return 'card';
+}
+
+/**
+ * A local card gateway for testing the card flow without a processor. Nothing leaves the
+ * browser. Use 4242 4242 4242 4242 to succeed, the numbers in MOCK_DECLINES to fail and
+ * 4000 0000 0000 0077 for a payment that settles by webhook.
+ */
+export const mockCardPaymentProvider: PaymentProviderAdapter = {
+  id: 'mock_card',
+  label: 'Test card gateway',
+  flow: 'card',
+  methods: ['card'],
+  async createIntent(intent) {
+    if (intent.amount <= 0) throw new Error('Nothing to pay by card');
+    await delay(MOCK_LATENCY_MS);
+    const providerRef = generateId('mock_ch');
+    return { providerRef, clientSecret: `${providerRef}_secret_${Math.random().toString(36).slice(2, 10)}` };
+  },
+  async confirmIntent(intent, confirmation) {
+    const card = confirmation.card;
+    if (!card) throw new Error('Enter your card details');
+    const digits = card.number.replace(/[\s-]/g, '');
+    if (!/^\d{12,19}$/.test(digits) || !luhnValid(digits)) throw new Error('Your card number is invalid.');
+    const now = new Date();
+    const year = card.expYear < 100 ? 2000 + card.expYear : card.expYear;
+    if (!(card.expMonth >= 1 && card.expMonth <= 12) || new Date(year, card.expMonth, 1) <= now) {
+      throw new Error("Your card's expiry date is invalid.");
+    }
+    if (!/^\d{3,4}$/.test(card.cvc)) throw new Error("Your card's security code is invalid.");
+    await delay(MOCK_LATENCY_MS);
+    const details = { brand: cardBrand(digits), last4: digits.slice(-4) };
+    if (MOCK_DECLINES[digits]) return { status: 'failed', failureReason: MOCK_DECLINES[digits], details };
+    if (digits === MOCK_DELAYED_CARD) {
+      setTimeout(() => {
+        handlePaymentWebhook('mock_card', { id: generateId('evt'), type: 'charge.succeeded', intent: intent.id });
+      }, MOCK_SETTLE_MS);
+      return { status: 'processing', details };
+    }
+    return { status: 'succeeded', details };
+  },
+  async refund() {
+    await delay(MOCK_LATENCY_MS);
+  },
+  parseWebhook(payload) {
+    const p = payload as { id?: unknown; type?: unknown; intent?: unknown; amount?: unknown; reason?: unknown } | null;
+    if (!p || typeof p.id !== 'string' || typeof p.intent !== 'string') return null;
+    const types: Record<string, PaymentWebhookEvent['type']> = {
+      'charge.succeeded': 'succeeded',
+      'charge.failed': 'failed',
+      'charge.refunded': 'refunded',
+    };
+    const type = typeof p.type === 'string' ? types[p.type] : undefined;
+    if (!type) return null;
+    return {
+      id: p.id,
+      intentId: p.intent,
+      type,
+      amount: typeof p.amount === 'number' ? p.amount : undefined,
+      failureReason: typeof p.reason === 'string' ? p.reason : undefined,
+    };
+  },
+};
+
+registerPaymentProvider(manualPaymentProvider);
+registerPaymentProvider(mockCardPaymentProvider);
@@ -0,0 +1,315 @@
+const PAYMENT_SCHEDULE_SETTINGS_KEY = 'pb_payment_schedule_v1';
+
+registerStorageKeys([PAYMENT_SCHEDULE_SETTINGS_KEY]);
+
+const DAY_MS = 24 * 60 * 60000;
+
+/**
+ * How a booking's price is split: a deposit due at booking, evenly spaced installments and the
+ * balance due `balanceDueDays` before the event.
+ */
+export interface PaymentScheduleSettings {
+  depositType: 'percent' | 'fixed';
+  depositAmount: number;
+  /** Installments between the deposit and the balance. */
+  installmentCount: number;
+  balanceDueDays: number;
+  /** How long before a due date the customer is reminded. */
+  reminderDaysBefore: number;
+}
+
+export interface PaymentScheduleSummary {
+  total: number;
+  paid: number;
+  outstanding: number;
+  /** Unpaid installments past their due date. */
+  overdue: BookingInstallment[];
+  overdueAmount: number;
+  /** The first installment still open. */
+  next: BookingInstallment | null;
+}
+
+export type InstallmentStatus = 'paid' | 'overdue' | 'open';
+
+export const DEFAULT_PAYMENT_SCHEDULE_SETTINGS: PaymentScheduleSettings = {
+  depositType: 'percent',
+  depositAmount: 20,
+  installmentCount: 0,
+  balanceDueDays: 14,
+  reminderDaysBefore: 3,
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function wholeNumber(value: unknown, fallback: number, max: number): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) ? Math.max(0, Math.min(max, n)) : fallback;
+}
+
+function normalizeSettings(raw: any): PaymentScheduleSettings {
+  const src = raw && typeof raw === 'object' ? raw : {};
+  const d = DEFAULT_PAYMENT_SCHEDULE_SETTINGS;
+  const depositType = src.depositType === 'fixed' ? 'fixed' : 'percent';
+  const amount = Number(src.depositAmount);
+  return {
+    depositType,
+    depositAmount: Number.isFinite(amount) && amount >= 0 ? (depositType === 'percent' ? Math.min(100, amount) : amount) : d.depositAmount,
+    installmentCount: wholeNumber(src.installmentCount, d.installmentCount, 12),
+    balanceDueDays: wholeNumber(src.balanceDueDays, d.balanceDueDays, 365),
+    reminderDaysBefore: wholeNumber(src.reminderDaysBefore, d.reminderDaysBefore, 60),
+  };
+}
+
+export function getPaymentScheduleSettings(): PaymentScheduleSettings {
+  return normalizeSettings(getItem<PaymentScheduleSettings>(PAYMENT_SCHEDULE_SETTINGS_KEY));
+}
+
+/** False until a schedule has been saved, e.g. to seed it from older settings. */
+export function hasPaymentScheduleSettings(): boolean {
+  return getItem(PAYMENT_SCHEDULE_SETTINGS_KEY) != null;
+}
+
+export function savePaymentScheduleSettings(settings: PaymentScheduleSettings): PaymentScheduleSettings {
+  const normalized = normalizeSettings(settings);
+  const before = getPaymentScheduleSettings();
+  setItem(PAYMENT_SCHEDULE_SETTINGS_KEY, normalized);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'payment_schedule',
+    summary: 'Payment schedule settings changed',
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+/**
+ * buildPaymentSchedule(total: number, options: { eventStart?, bookedAt?, deposit? }, settings?): BookingInstallment[]
+ * Splits `total` into the deposit (due at booking), installments and the balance. `deposit`
+ * overrides the configured deposit, e.g. a draft's own. Without time before the balance due date
+ * the installments are dropped and the balance is due at booking.
+ */
+export function buildPaymentSchedule(
+  total: number,
+  options: {
+    eventStart?: Date | string | null;
+    bookedAt?: Date;
+    deposit?: { type: 'percent' | 'fixed'; amount: number } | null;
+  } = {},
+  settings: PaymentScheduleSettings = getPaymentScheduleSettings()
+): BookingInstallment[] {
+  const amount = round2(Math.max(0, Number(total) || 0));
+  if (amount === 0) return [];
+  const bookedAt = (options.bookedAt ?? new Date()).getTime();
+  const eventStart = options.eventStart ? new Date(options.eventStart).getTime() : NaN;
+  const balanceDue = isNaN(eventStart) ? bookedAt : Math.max(bookedAt, eventStart - settings.balanceDueDays * DAY_MS);
+
+  const depositType = options.deposit ? options.deposit.type : settings.depositType;
+  const depositValue = Math.max(0, Number(options.deposit ? options.deposit.amount : settings.depositAmount) || 0);
+  const deposit = round2(Math.min(amount, depositType === 'fixed' ? depositValue : (amount * Math.min(100, depositValue)) / 100));
+
+  const schedule: BookingInstallment[] = [];
+  const add = (id: string, kind: BookingInstallment['kind'], label: string, at: number, value: number) =>
+    schedule.push({ id, kind, label, dueAt: new Date(at).toISOString(), amount: value, paid: 0 });
+
+  if (deposit > 0) add('deposit', 'deposit', 'Deposit', bookedAt, deposit);
+  const rest = round2(amount - deposit);
+  if (rest <= 0) return schedule;
+
+  const count = balanceDue > bookedAt ? settings.installmentCount : 0;
+  const part = Math.floor((rest / (count + 1)) * 100) / 100;
+  for (let i = 1; i <= count; i++) {
+    add(`installment-${i}`, 'installment', `Installment ${i}`, bookedAt + ((balanceDue - bookedAt) * i) / (count + 1), part);
+  }
+  // Rounding leftovers land in the balance
+  add('balance', 'balance', 'Balance', balanceDue, round2(rest - part * count));
+  return schedule;
+}
+
+export function installmentOutstanding(installment: BookingInstallment): number {
+  return round2(Math.max(0, installment.amount - installment.paid));
+}
+
+export function installmentStatus(installment: BookingInstallment, now: Date = new Date()): InstallmentStatus {
+  if (installmentOutstanding(installment) === 0) return 'paid';
+  return new Date(installment.dueAt).getTime() < now.getTime() ? 'overdue' : 'open';
+}
+
+export function summarizePaymentSchedule(schedule: BookingInstallment[], now: Date = new Date()): PaymentScheduleSummary {
+  const total = round2(schedule.reduce((sum, i) => sum + i.amount, 0));
+  const paid = round2(schedule.reduce((sum, i) => sum + Math.min(i.paid, i.amount), 0));
+  const overdue = schedule.filter((i) => installmentStatus(i, now) === 'overdue');
+  return {
+    total,
+    paid,
+    outstanding: round2(total - paid),
+    overdue,
+    overdueAmount: round2(overdue.reduce((sum, i) => sum + installmentOutstanding(i), 0)),
+    next: schedule.find((i) => installmentOutstanding(i) > 0) ?? null,
+  };
+}
+
+/* Reminders */
+
+function paymentReminderId(bookingId: string, installmentId: string, overdue = false): string {
+  return `booking:${bookingId}:payment:${installmentId}${overdue ? ':overdue' : ''}`;
+}
+
+function cancelInstallmentReminders(bookingId: string, installmentId: string): void {
+  cancelReminder(paymentReminderId(bookingId, installmentId));
+  cancelReminder(paymentReminderId(bookingId, installmentId, true));
+}
+
+/**
+ * schedulePaymentReminders(booking: Booking): number
+ * For every open installment: a reminder `reminderDaysBefore` its due date (skipped when it is
+ * already due) and an overdue notice a day after it. Re-running updates them in place.
+ * Returns how many were scheduled.
+ */
+export function schedulePaymentReminders(booking: Booking, settings: PaymentScheduleSettings = getPaymentScheduleSettings()): number {
+  const now = Date.now();
+  let count = 0;
+  for (const installment of booking.paymentSchedule ?? []) {
+    const outstanding = installmentOutstanding(installment);
+    if (outstanding === 0 || booking.status === 'cancelled') {
+      cancelInstallmentReminders(booking.id, installment.id);
+      continue;
+    }
+    const due = new Date(installment.dueAt);
+    const payload = {
+      bookingId: booking.id,
+      installmentId: installment.id,
+      reference: booking.reference,
+      name: booking.customer?.name ?? '',
+      email: booking.customer?.email ?? '',
+      phone: booking.customer?.phone ?? '',
+      amount: outstanding.toFixed(2),
+      dueDate: due.toLocaleDateString(),
+    };
+    if (due.getTime() > now) {
+      scheduleReminder({
+        id: paymentReminderId(booking.id, installment.id),
+        at: new Date(Math.max(now, due.getTime() - settings.reminderDaysBefore * DAY_MS)).toISOString(),
+        payload: {
+          ...payload,
+          templateKey: 'paymentDue',
+          title: `${installment.label} due`,
+          message: `${installment.label} of ${payload.amount} for booking ${booking.reference} is due on ${payload.dueDate}.`,
+        },
+      });
+      count++;
+    }
+    scheduleReminder({
+      id: paymentReminderId(booking.id, installment.id, true),
+      at: new Date(Math.max(now, due.getTime() + DAY_MS)).toISOString(),
+      payload: {
+        ...payload,
+        templateKey: 'paymentOverdue',
+        title: `${installment.label} overdue`,
+        message: `${installment.label} of ${payload.amount} for booking ${booking.reference} was due on ${payload.dueDate}.`,
+      },
+    });
+    count++;
+  }
+  return count;
+}
+
+export function cancelPaymentReminders(booking: Booking): void {
+  for (const installment of booking.paymentSchedule ?? []) cancelInstallmentReminders(booking.id, installment.id);
+}
+
+/* Booking updates */
+
+/**
+ * Moves the open installments (not the deposit) with the event, e.g. after a reschedule.
+ * Due dates never move into the past.
+ */
+export function shiftPaymentSchedule(schedule: BookingInstallment[], deltaMs: number, now: Date = new Date()): BookingInstallment[] {
+  return schedule.map((i) => {
+    if (i.kind === 'deposit' || installmentOutstanding(i) === 0) return i;
+    const at = Math.max(now.getTime(), new Date(i.dueAt).getTime() + deltaMs);
+    return { ...i, dueAt: new Date(at).toISOString() };
+  });
+}
+
+/**
+ * attachPaymentSchedule(bookingId: string): Booking
+ * Gives a booking without a schedule one from the current settings, starting now.
+ */
+export function attachPaymentSchedule(bookingId: string): Booking {
+  const booking = getStoredBooking(bookingId);
+  if (!booking) throw new Error('Booking not found');
+  if (booking.paymentSchedule?.length) throw new Error('The booking already has a payment schedule');
+  if (!booking.price || booking.price <= 0) throw new Error('The booking has no price to schedule');
+  const updated = patchBooking(bookingId, {
+    paymentSchedule: buildPaymentSchedule(booking.price, { eventStart: booking.start }),
+  })!;
+  schedulePaymentReminders(updated);
+  return updated;
+}
+
+/**
+ * recordInstallmentPayment(bookingId: string, installmentId: string, amount: number): Booking
+ * Records money received against an installment; anything above what it still owes goes to the
+ * following installments. Settled installments stop being reminded.
+ */
+export function recordInstallmentPayment(bookingId: string, installmentId: string, amount: number): Booking {
+  const booking = getStoredBooking(bookingId);
+  if (!booking) throw new Error('Booking not found');
+  const schedule = booking.paymentSchedule ?? [];
+  const start = schedule.findIndex((i) => i.id === installmentId);
+  if (start === -1) throw new Error('Installment not found');
+  let remaining = round2(Number(amount) || 0);
+  if (remaining <= 0) throw new Error('Enter an amount above zero');
+  const owed = round2(schedule.slice(start).reduce((sum, i) => sum + installmentOutstanding(i), 0));
+  if (remaining > owed) throw new Error(`Only ${owed.toFixed(2)} is still owed from this installment on`);
+
+  const at = nowIso();
+  const next = schedule.map((i, index) => {
+    if (index < start || remaining <= 0) return i;
+    const applied = Math.min(remaining, installmentOutstanding(i));
+    remaining = round2(remaining - applied);
+    const paid = round2(i.paid + applied);
+    return { ...i, paid, ...(paid >= i.amount ? { paidAt: at } : {}) };
+  });
+  const updated = patchBooking(bookingId, { paymentSchedule: next })!;
+  schedulePaymentReminders(updated);
+  return updated;
+}
+
+/**
+ * reverseInstallmentPayments(bookingId: string, amount: number): Booking | null
+ * Takes a refund back out of the schedule, latest installment first, and re-arms its reminders.
+ * Returns null when the booking has no schedule.
+ */
+export function reverseInstallmentPayments(bookingId: string, amount: number): Booking | null {
+  const booking = getStoredBooking(bookingId);
+  if (!booking?.paymentSchedule?.length) return null;
+  let remaining = round2(Math.max(0, Number(amount) || 0));
+  const next = booking.paymentSchedule
+    .slice()
+    .reverse()
+    .map((i) => {
+      if (remaining <= 0 || i.paid <= 0) return i;
+      const taken = Math.min(remaining, i.paid);
+      remaining = round2(remaining - taken);
+      const { paidAt, ...rest } = i;
+      const paid = round2(i.paid - taken);
+      return paid >= i.amount ? { ...rest, paid, paidAt } : { ...rest, paid };
+    })
+    .reverse();
+  const updated = patchBooking(bookingId, { paymentSchedule: next })!;
+  schedulePaymentReminders(updated);
+  return updated;
+}
+
+registerTransitionHook('cancelled', (booking) => {
+  cancelPaymentReminders(booking);
+});
@@ -0,0 +1,156 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  width: 100,
+};
+
+/**
+ * Settings section for how booking totals are paid: the deposit, installments and when the
+ * balance is due, plus how early customers are reminded. Seeds the deposit from the payment
+ * settings' deposit percent until a schedule has been saved.
+ */
+export default function PaymentScheduleSettingsSection({
+  legacyDepositPercent,
+}: {
+  legacyDepositPercent?: number;
+}): JSX.Element {
+  const [settings, setSettings] = useState<PaymentScheduleSettings>(() => {
+    if (hasPaymentScheduleSettings() || typeof legacyDepositPercent !== "number") return getPaymentScheduleSettings();
+    return { ...DEFAULT_PAYMENT_SCHEDULE_SETTINGS, depositAmount: legacyDepositPercent };
+  });
+  const [message, setMessage] = useState<string | null>(null);
+
+  function update(patch: Partial<PaymentScheduleSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSettings(savePaymentScheduleSettings(settings));
+      setMessage("Payment schedule saved.");
+    } catch {
+      setMessage("Failed to save the payment schedule.");
+    }
+  }
+
+  // Example: a 1000 booking eight weeks out
+  const preview = buildPaymentSchedule(1000, { eventStart: new Date(Date.now() + 56 * 86400000) }, settings);
+
+  return (
+    <section aria-labelledby="payment-schedule-heading" style={sectionStyle}>
+      <h2 id="payment-schedule-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Payment schedule
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        The deposit is due at booking and is part of the total. Installments are spread evenly until the balance is due.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            Deposit
+            <div style={{ display: "flex", gap: 4 }}>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={settings.depositAmount}
+                onChange={(e) => update({ depositAmount: Math.max(0, Number(e.target.value) || 0) })}
+                style={inputStyle}
+              />
+              <select
+                value={settings.depositType}
+                onChange={(e) => update({ depositType: e.target.value as PaymentScheduleSettings["depositType"] })}
+                aria-label="Deposit type"
+                style={{ ...inputStyle, width: "auto" }}
+              >
+                <option value="percent">%</option>
+                <option value="fixed">fixed</option>
+              </select>
+            </div>
+          </label>
+          <label style={fieldStyle}>
+            Installments
+            <input
+              type="number"
+              min={0}
+              max={12}
+              value={settings.installmentCount}
+              onChange={(e) => update({ installmentCount: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Balance due (days before event)
+            <input
+              type="number"
+              min={0}
+              max={365}
+              value={settings.balanceDueDays}
+              onChange={(e) => update({ balanceDueDays: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Remind (days before due)
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={settings.reminderDaysBefore}
+              onChange={(e) => update({ reminderDaysBefore: Number(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+
+        <div style={{ fontSize: 13, color: "var(--muted,#555)" }}>
+          For a 1000.00 booking eight weeks out:{" "}
+          {preview.map((i) => `${i.label} ${i.amount.toFixed(2)} on ${new Date(i.dueAt).toLocaleDateString()}`).join(", ")}
+        </div>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save schedule
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -1,3 +1,17 @@
+const PAYMENT_PROOFS_KEY = "payment_proofs_v1";
+
+/* Index entry for an uploaded proof; the file itself is a blob under blobKey.
+   Entries written before blob storage carry the file inline as dataUrl instead. */
+type PaymentProofRecord = {
+  filename: string;
+  mimeType?: string;
+  blobKey?: string;
+  dataUrl?: string;
+  createdAt: number;
+};
+
+registerStorageKeys([PAYMENT_PROOFS_KEY]);
+
 export function computeBytesFromBase64(base64: string): number {
   // Remove data URL prefix if present
   const parts = base64.split(",");
@@ -50,6 +64,19 @@ export function validatePaymentProof(base64: string): string | null {
   return null;
 }
 
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => {
+      const result = fr.result;
+      if (typeof result === "string") resolve(result);
+      else reject(new Error("Unable to read file as data URL."));
+    };
+    fr.onerror = () => reject(new Error("Failed to read file."));
+    fr.readAsDataURL(blob);
+  });
+}
+
 /**
  * Simulate an upload by persisting the data URL to localStorage.
  * Throws an Error if validation fails or persistence fails.
@@ -63,19 +90,6 @@ export async function uploadPaymentProof(file: File): Promise<string> {
     throw new Error("Selected file is too large. Max allowed is 5 MB.");
   }
 
-  // Read file as data URL
-  const readAsDataURL = (f: File) =>
-    new Promise<string>((resolve, reject) => {
-      const fr = new FileReader();
-      fr.onload = () => {
-        const result = fr.result;
-        if (typeof result === "string") resolve(result);
-        else reject(new Error("Unable to read file as data URL."));
-      };
-      fr.onerror = () => reject(new Error("Failed to read file."));
-      fr.readAsDataURL(f);
-    });
-
   const base64 = await readAsDataURL(file);
 
   // Validate decoded bytes and mime
@@ -84,55 +98,77 @@ export async function uploadPaymentProof(file: File): Promise<string> {
     throw new Error(validationError);
   }
 
-  // Persist to localStorage (app-level storage). Surface explicit errors on failure.
-  const key = "payment_proofs_v1";
-  let store: Record<
-    string,
-    { filename: string; dataUrl: string; createdAt: number }
-  > = {};
-
+  // Persist the file itself as a blob and keep a small index record next to it.
+  // Surface explicit errors on failure.
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  const blobKey = `payment-proof/${id}`;
   try {
-    const raw = localStorage.getItem(key);
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw);
-        if (parsed && typeof parsed === "object") {
-          store = parsed;
-        } else {
-          // If the stored value isn't an object, overwrite it below
-          store = {};
-        }
-      } catch {
-        // Corrupt JSON, overwrite with a fresh store (but surface the situation)
-        store = {};
-      }
-    }
+    await setBlob(blobKey, file);
+  } catch (err) {
+    // Storage write failed (quota or other). Surface a clear error to the caller.
+    throw new Error(
+      "Failed to save payment proof to browser storage (quota may be exceeded). Try compressing the image or free up storage and try again."
+    );
+  }
 
-    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-    store[id] = {
-      filename: file.name,
-      dataUrl: base64,
-      createdAt: Date.now(),
-    };
+  const stored = getItem<Record<string, PaymentProofRecord>>(PAYMENT_PROOFS_KEY);
+  const store: Record<string, PaymentProofRecord> =
+    stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {};
+  store[id] = {
+    filename: file.name,
+    mimeType: file.type,
+    blobKey,
+    createdAt: Date.now(),
+  };
+  setItem(PAYMENT_PROOFS_KEY, store);
 
-    try {
-      localStorage.setItem(key, JSON.stringify(store));
-    } catch (err) {
-      // LocalStorage write failed (quota or other). Surface a clear error to the caller.
-      throw new Error(
-        "Failed to persist payment proof to local storage (quota may be exceeded). Try compressing the image or free up storage and try again."
-      );
-    }
+  return `storage://payment-proof/${id}`;
+}
 
-    return `localstorage://payment-proof/${id}`;
-  } catch (err: any) {
-    // Re-throw to allow UI to present a clear message
-    throw err instanceof Error ? err : new Error("Failed to save payment proof.");
+/**
+ * Reads a proof saved by uploadPaymentProof back as a booking's payment proof, so it can be
+ * attached to the booking made after checkout. Returns null for unknown references.
+ */
+export async function loadPaymentProof(ref: string): Promise<BookingPaymentProof | null> {
+  const id = ref.replace(/^storage:\/\/payment-proof\//, "");
+  const stored = getItem<Record<string, PaymentProofRecord>>(PAYMENT_PROOFS_KEY);
+  const record = stored && typeof stored === "object" && !Array.isArray(stored) ? stored[id] : undefined;
+  if (!record) return null;
+  let dataUrl = record.dataUrl ?? null;
+  if (!dataUrl && record.blobKey) {
+    const blob = await getBlob(record.blobKey);
+    if (blob) dataUrl = await readAsDataURL(blob);
   }
+  if (!dataUrl) return null;
+  return {
+    fileName: record.filename,
+    mimeType: record.mimeType ?? "",
+    dataUrl,
+    uploadedAt: new Date(record.createdAt).toISOString(),
+  };
 }
 
+const METHOD_LABELS: Record<string, string> = {
+  card: "card",
+  cash: "cash",
+  invoice: "invoice",
+  bank_transfer: "bank transfer",
+  other: "other",
+};
+
+/**
+ * Payment step of the booking flow. Goes through the payment provider chosen in settings
+ * (paymentproviderservice.ts): proof upload for the manual provider, card entry for card providers.
+ * When the draft has no id yet, pass the submitted paymentIntentId on to createBooking, which links
+ * the payment to the new booking and records it in the ledger.
+ */
 export default function PaymentStep(props: Props): JSX.Element {
   const { bookingDraft, onSubmit } = props;
+  const provider = useMemo(() => getActivePaymentProvider(), []);
+  const acceptedMethods = useMemo(
+    () => getAcceptedPaymentMethods().filter((m) => provider.methods.includes(m)),
+    [provider]
+  );
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewDataUrl, setPreviewDataUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -207,10 +243,17 @@ export default function PaymentStep(props: Props): JSX.Element {
     setSubmitting(true);
     try {
       const proofReference = await uploadPaymentProof(selectedFile);
+      const intent = await createPaymentIntent(
+        { amount: Number(bookingDraft?.amount) || 0, bookingId: bookingDraft?.id ?? null },
+        provider.id
+      );
+      await confirmPaymentIntent(intent.id, { proofRef: proofReference, proofFilename: selectedFile.name });
       await onSubmit({
         bookingDraft: bookingDraft ?? {},
         paymentProofRef: proofReference,
         paymentProofFilename: selectedFile.name,
+        paymentIntentId: intent.id,
+        paymentProvider: provider.id,
         submittedAt: new Date().toISOString(),
       });
     } catch (err: any) {
@@ -289,6 +332,10 @@ export default function PaymentStep(props: Props): JSX.Element {
     );
   };
 
+  if (provider.flow === "card") {
+    return <CardPaymentForm provider={provider} bookingDraft={bookingDraft} onSubmit={onSubmit} />;
+  }
+
   return (
     <form
       onSubmit={handleSubmit}
@@ -307,6 +354,11 @@ export default function PaymentStep(props: Props): JSX.Element {
         <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>
           Attach a photo or PDF receipt showing your payment. Max 5 MB.
         </p>
+        {acceptedMethods.length > 0 && (
+          <p style={{ margin: "4px 0 0", color: "#6b7280", fontSize: 13 }}>
+            We accept payment by {acceptedMethods.map((m) => METHOD_LABELS[m] ?? m).join(", ")}.
+          </p>
+        )}
       </div>
 
       <div
@@ -460,4 +512,168 @@ export default function PaymentStep(props: Props): JSX.Element {
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
+const cardInputStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 6,
+  border: "1px solid #d1d5db",
+  fontSize: 14,
+};
+
+/* Card entry for card providers. Card details go straight to the provider and are not kept here. */
+function CardPaymentForm({
+  provider,
+  bookingDraft,
+  onSubmit,
+}: {
+  provider: PaymentProviderAdapter;
+  bookingDraft: Props["bookingDraft"];
+  onSubmit: Props["onSubmit"];
+}): JSX.Element {
+  const [name, setName] = useState("");
+  const [number, setNumber] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [cvc, setCvc] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // A payment confirmed as 'processing' that settles later (by webhook)
+  const [pendingIntentId, setPendingIntentId] = useState<string | null>(null);
+  const amount = Number(bookingDraft?.amount) || 0;
+
+  const finish = useCallback(
+    async (intent: PaymentIntent) => {
+      await onSubmit({
+        bookingDraft: bookingDraft ?? {},
+        paymentIntentId: intent.id,
+        paymentProvider: provider.id,
+        submittedAt: new Date().toISOString(),
+      });
+    },
+    [bookingDraft, onSubmit, provider.id]
+  );
+
+  useEffect(() => {
+    if (!pendingIntentId) return;
+    const check = () => {
+      const intent = getPaymentIntent(pendingIntentId);
+      if (!intent || intent.status === "processing") return;
+      setPendingIntentId(null);
+      if (intent.status === "succeeded") {
+        finish(intent).catch((err: any) => setError(err?.message || "Failed to complete the booking."));
+      } else {
+        setError(intent.failureReason || "The payment failed.");
+      }
+    };
+    check();
+    return subscribeToPaymentIntents(check);
+  }, [pendingIntentId, finish]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const [month, year] = expiry.split("/").map((p) => Number(p.trim()));
+    setSubmitting(true);
+    try {
+      const intent = await createPaymentIntent({ amount, bookingId: bookingDraft?.id ?? null }, provider.id);
+      const result = await confirmPaymentIntent(intent.id, {
+        card: { name, number, expMonth: month || 0, expYear: year || 0, cvc },
+      });
+      if (result.status === "succeeded") await finish(result);
+      else if (result.status === "processing") setPendingIntentId(result.id);
+      else setError(result.failureReason || "The payment failed.");
+    } catch (err: any) {
+      setError(err?.message || "The payment failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const busy = submitting || !!pendingIntentId;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-labelledby="payment-step-title"
+      style={{ display: "flex", flexDirection: "column", gap: 12, width: "100%" }}
+    >
+      <div>
+        <h2 id="payment-step-title" style={{ margin: "0 0 6px 0", fontSize: 18 }}>
+          Pay by card
+        </h2>
+        <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>
+          Amount due now: {amount.toFixed(2)}. Processed by {provider.label}.
+        </p>
+      </div>
+
+      <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13 }}>
+        Name on card
+        <input value={name} onChange={(e) => setName(e.target.value)} autoComplete="cc-name" style={cardInputStyle} />
+      </label>
+      <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13 }}>
+        Card number
+        <input
+          value={number}
+          onChange={(e) => setNumber(e.target.value)}
+          inputMode="numeric"
+          autoComplete="cc-number"
+          placeholder="1234 1234 1234 1234"
+          required
+          style={cardInputStyle}
+        />
+      </label>
+      <div style={{ display: "flex", gap: 12 }}>
+        <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13, flex: 1 }}>
+          Expiry
+          <input
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            autoComplete="cc-exp"
+            placeholder="MM/YY"
+            required
+            style={cardInputStyle}
+          />
+        </label>
+        <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13, flex: 1 }}>
+          CVC
+          <input
+            value={cvc}
+            onChange={(e) => setCvc(e.target.value)}
+            inputMode="numeric"
+            autoComplete="cc-csc"
+            required
+            style={cardInputStyle}
+          />
+        </label>
+      </div>
+
+      {pendingIntentId && (
+        <div role="status" style={{ color: "#6b7280", fontSize: 13 }}>
+          Waiting for your bank to confirm the payment...
+        </div>
+      )}
+      {error && (
+        <div id="payment-error" role="alert" style={{ color: "#b91c1c", fontSize: 13 }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+        <button
+          type="submit"
+          disabled={busy || amount <= 0}
+          style={{
+            padding: "10px 14px",
+            borderRadius: 8,
+            border: "none",
+            background: busy ? "#9ca3af" : "#111827",
+            color: "#fff",
+            cursor: busy ? "not-allowed" : "pointer",
+            fontWeight: 600,
+          }}
+        >
+          {busy ? "Processing..." : `Pay ${amount.toFixed(2)}`}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+export interface PinConfirmRequest {
+  /** Shown as the dialog heading, e.g. "Clear all bookings". */
+  title: string;
+  /** Optional detail under the heading: what will happen. */
+  description?: string;
+  /** Runs once the PIN is accepted; guard it with consumeStaffReauth. */
+  action: () => void | Promise<void>;
+}
+
+interface PinConfirmDialogProps {
+  request: PinConfirmRequest | null;
+  onClose: () => void;
+}
+
+/**
+ * Asks the signed-in staff member for their PIN again before a destructive action. A wrong PIN
+ * counts towards the account's backoff and lockout like a sign-in. Errors thrown by the action
+ * itself are the caller's to show; the dialog closes before it runs.
+ */
+export default function PinConfirmDialog({ request, onClose }: PinConfirmDialogProps): JSX.Element | null {
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPin("");
+    setError(null);
+  }, [request]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!request) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await reauthenticateStaff(pin);
+    } catch (err: any) {
+      setError(err?.message || "Could not check the PIN.");
+      setPin("");
+      setBusy(false);
+      return;
+    }
+    setBusy(false);
+    onClose();
+    await request.action();
+  }
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "10px 12px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: 16,
+    boxSizing: "border-box",
+    marginBottom: 12,
+  };
+
+  return (
+    <Modal id="pin-confirm" isOpen={!!request} onClose={onClose} ariaLabel={request?.title ?? "Confirm with PIN"}>
+      <form onSubmit={handleSubmit} style={{ maxWidth: 360, margin: "0 auto" }}>
+        <h2 style={{ marginTop: 0, fontSize: 18 }}>{request?.title}</h2>
+        {request?.description && <p style={{ fontSize: 14, color: "#374151" }}>{request.description}</p>}
+        <label htmlFor="pin-confirm-input" style={{ display: "block", fontSize: 14, marginBottom: 6 }}>
+          Enter your PIN to continue
+        </label>
+        <input
+          id="pin-confirm-input"
+          type="password"
+          inputMode="numeric"
+          autoComplete="current-password"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          style={inputStyle}
+          autoFocus
+          required
+        />
+        {error && (
+          <div role="alert" style={{ marginBottom: 12, color: "#b91c1c", fontSize: 14 }}>
+            {error}
+          </div>
+        )}
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" disabled={busy} style={{ color: "#dc2626" }}>
+            {busy ? "Checking..." : "Confirm"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
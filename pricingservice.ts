@@ -0,0 +1,181 @@
+const PRICING_RULES_KEY = 'pb_pricing_rules_v1';
+
+registerStorageKeys([PRICING_RULES_KEY]);
+
+/** Inclusive bounds; a missing side is open. */
+export interface NumberRange {
+  min?: number | null;
+  max?: number | null;
+}
+
+/** Inclusive "MM-DD" range; from after to wraps over new year (e.g. 12-15 to 01-05). */
+export interface SeasonRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * A surcharge (positive amount) or discount (negative amount). Every criterion that is set
+ * must match; a rule without criteria applies to every booking.
+ */
+export interface PricingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Date#getDay() values, 0 is Sunday. */
+  weekdays?: number[];
+  season?: SeasonRange | null;
+  /** Whole days between now and the event start. */
+  leadTimeDays?: NumberRange | null;
+  durationHours?: NumberRange | null;
+  guests?: NumberRange | null;
+  adjustmentType: 'percent' | 'fixed';
+  amount: number;
+}
+
+/** What a rule is matched against. */
+export interface PricingContext {
+  start: Date;
+  durationMinutes: number;
+  guests?: number | null;
+  /** Defaults to the current time; used for lead time. */
+  now?: Date;
+}
+
+/** One line of the price explanation. `amount` is signed: surcharges are positive. */
+export interface PriceAdjustment {
+  ruleId: string;
+  label: string;
+  amount: number;
+}
+
+const SEASON_RE = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function generateId(): string {
+  return `rule_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function normalizeRange(raw: any): NumberRange | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const num = (v: unknown) => (v === null || v === undefined || v === '' || !Number.isFinite(Number(v)) ? null : Number(v));
+  const min = num(raw.min);
+  const max = num(raw.max);
+  return min === null && max === null ? null : { min, max };
+}
+
+function normalizeRule(raw: any): PricingRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const amount = Number(raw.amount);
+  if (!Number.isFinite(amount)) return null;
+  const weekdays = Array.isArray(raw.weekdays)
+    ? Array.from(new Set<number>(raw.weekdays.map(Number).filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6))).sort()
+    : [];
+  const season =
+    raw.season && SEASON_RE.test(raw.season.from) && SEASON_RE.test(raw.season.to)
+      ? { from: raw.season.from, to: raw.season.to }
+      : null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Price adjustment',
+    enabled: raw.enabled !== false,
+    ...(weekdays.length ? { weekdays } : {}),
+    season,
+    leadTimeDays: normalizeRange(raw.leadTimeDays),
+    durationHours: normalizeRange(raw.durationHours),
+    guests: normalizeRange(raw.guests),
+    adjustmentType: raw.adjustmentType === 'fixed' ? 'fixed' : 'percent',
+    amount,
+  };
+}
+
+export function getPricingRules(): PricingRule[] {
+  const raw = getItem<unknown[]>(PRICING_RULES_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeRule).filter((r): r is PricingRule => r !== null);
+}
+
+/** Rules are applied in the order given. */
+export function savePricingRules(rules: PricingRule[]): PricingRule[] {
+  const normalized = rules.map(normalizeRule).filter((r): r is PricingRule => r !== null);
+  const before = getPricingRules();
+  setItem(PRICING_RULES_KEY, normalized);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'pricing_rules',
+    summary: 'Pricing rules changed',
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+export function createPricingRule(patch: Partial<PricingRule> = {}): PricingRule {
+  return normalizeRule({ name: 'New rule', adjustmentType: 'percent', amount: 0, ...patch, id: generateId() })!;
+}
+
+function inRange(value: number, range: NumberRange | null | undefined): boolean {
+  if (!range) return true;
+  if (typeof range.min === 'number' && value < range.min) return false;
+  if (typeof range.max === 'number' && value > range.max) return false;
+  return true;
+}
+
+function inSeason(date: Date, season: SeasonRange): boolean {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const key = `${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return season.from <= season.to ? key >= season.from && key <= season.to : key >= season.from || key <= season.to;
+}
+
+/**
+ * True when every criterion the rule sets holds for the booking.
+ * Lead time counts whole days, so an event later today has a lead time of 0.
+ */
+export function pricingRuleMatches(rule: PricingRule, context: PricingContext): boolean {
+  const { start } = context;
+  if (isNaN(start.getTime())) return false;
+  if (rule.weekdays && rule.weekdays.length && !rule.weekdays.includes(start.getDay())) return false;
+  if (rule.season && !inSeason(start, rule.season)) return false;
+  if (rule.leadTimeDays) {
+    const now = context.now ?? new Date();
+    const days = Math.floor((start.getTime() - now.getTime()) / 86400000);
+    if (!inRange(days, rule.leadTimeDays)) return false;
+  }
+  if (!inRange(context.durationMinutes / 60, rule.durationHours)) return false;
+  if (rule.guests) {
+    // A guest-count rule cannot match a booking that has no guest count
+    if (typeof context.guests !== 'number') return false;
+    if (!inRange(context.guests, rule.guests)) return false;
+  }
+  return true;
+}
+
+function describeAdjustment(rule: PricingRule): string {
+  const sign = rule.amount >= 0 ? '+' : '-';
+  const size = Math.abs(rule.amount);
+  return rule.adjustmentType === 'percent' ? `${rule.name} (${sign}${size}%)` : rule.name;
+}
+
+/**
+ * applyPricingRules(base: number, context: PricingContext, rules?: PricingRule[]): PriceAdjustment[]
+ * Line items for every enabled rule that matches, in rule order. Percentages are taken from `base`,
+ * not from the running total. Discounts stop once the price reaches zero.
+ */
+export function applyPricingRules(
+  base: number,
+  context: PricingContext,
+  rules: PricingRule[] = getPricingRules()
+): PriceAdjustment[] {
+  const adjustments: PriceAdjustment[] = [];
+  let running = Math.max(0, base);
+  for (const rule of rules) {
+    if (!rule.enabled || !pricingRuleMatches(rule, context)) continue;
+    let amount = rule.adjustmentType === 'percent' ? (base * rule.amount) / 100 : rule.amount;
+    amount = Math.max(amount, -running);
+    amount = Number(amount.toFixed(2));
+    if (amount === 0) continue;
+    running += amount;
+    adjustments.push({ ruleId: rule.id, label: describeAdjustment(rule), amount });
+  }
+  return adjustments;
+}
@@ -0,0 +1,366 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const smallInputStyle: React.CSSProperties = {
+  width: 80,
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+};
+
+const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const SEASON_INPUT_RE = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+/* "" clears a bound */
+function toBound(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function RangeInputs({
+  label,
+  range,
+  onChange,
+}: {
+  label: string;
+  range: NumberRange | null | undefined;
+  onChange: (range: NumberRange | null) => void;
+}): JSX.Element {
+  const update = (patch: NumberRange) => {
+    const next = { ...range, ...patch };
+    onChange(next.min == null && next.max == null ? null : next);
+  };
+  return (
+    <div style={fieldStyle}>
+      {label}
+      <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+        <input
+          type="number"
+          value={range?.min ?? ""}
+          onChange={(e) => update({ min: toBound(e.target.value) })}
+          placeholder="min"
+          aria-label={`${label} minimum`}
+          style={smallInputStyle}
+        />
+        -
+        <input
+          type="number"
+          value={range?.max ?? ""}
+          onChange={(e) => update({ max: toBound(e.target.value) })}
+          placeholder="max"
+          aria-label={`${label} maximum`}
+          style={smallInputStyle}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Settings section for date-aware pricing: surcharges and discounts by weekday, season, lead time,
+ * duration and guest count. The summary page lists every rule that applies as its own line.
+ */
+export default function PricingRulesSettingsSection(): JSX.Element {
+  const [rules, setRules] = useState<PricingRule[]>(() => getPricingRules());
+  const [message, setMessage] = useState<string | null>(null);
+  const [preview, setPreview] = useState({ date: "", hours: 2, guests: "", base: 500 });
+
+  function updateRule(id: string, patch: Partial<PricingRule>) {
+    setRules((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+    setMessage(null);
+  }
+
+  function moveRule(index: number, delta: number) {
+    setRules((rs) => {
+      const next = rs.slice();
+      const [rule] = next.splice(index, 1);
+      next.splice(Math.max(0, Math.min(next.length, index + delta)), 0, rule);
+      return next;
+    });
+    setMessage(null);
+  }
+
+  function toggleWeekday(rule: PricingRule, day: number) {
+    const days = rule.weekdays ?? [];
+    updateRule(rule.id, { weekdays: days.includes(day) ? days.filter((d) => d !== day) : days.concat(day) });
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    const badSeason = rules.find((r) => r.season && !(SEASON_INPUT_RE.test(r.season.from) && SEASON_INPUT_RE.test(r.season.to)));
+    if (badSeason) {
+      setMessage(`Failed to save: the season of "${badSeason.name}" needs both dates as MM-DD, e.g. 12-01.`);
+      return;
+    }
+    try {
+      setRules(savePricingRules(rules));
+      setMessage("Pricing rules saved.");
+    } catch {
+      setMessage("Failed to save pricing rules.");
+    }
+  }
+
+  const previewAdjustments = useMemo(() => {
+    const start = new Date(preview.date);
+    if (!preview.date || isNaN(start.getTime())) return null;
+    return applyPricingRules(
+      preview.base,
+      { start, durationMinutes: preview.hours * 60, guests: preview.guests === "" ? null : Number(preview.guests) },
+      rules
+    );
+  }, [preview, rules]);
+
+  return (
+    <section aria-labelledby="pricing-heading" style={sectionStyle}>
+      <h2 id="pricing-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Pricing rules
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Surcharges (positive) and discounts (negative) applied before discounts and tax. Percentages are of the
+        listed price. Leave a criterion empty to ignore it.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        {rules.length === 0 && (
+          <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>No rules yet; every booking is priced as listed.</div>
+        )}
+
+        {rules.map((rule, index) => (
+          <fieldset
+            key={rule.id}
+            style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 10, opacity: rule.enabled ? 1 : 0.6 }}
+          >
+            <legend style={{ fontSize: 13, fontWeight: 600 }}>{rule.name || "Untitled rule"}</legend>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+              <label style={fieldStyle}>
+                Name
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  placeholder="e.g. Saturday surcharge"
+                  style={{ ...smallInputStyle, width: 180 }}
+                />
+              </label>
+              <label style={fieldStyle}>
+                Adjustment
+                <div style={{ display: "flex", gap: 4 }}>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={rule.amount}
+                    onChange={(e) => {
+                      // A lone "-" while typing a discount reads as NaN; keep the last number until it parses
+                      if (!isNaN(e.target.valueAsNumber)) updateRule(rule.id, { amount: e.target.valueAsNumber });
+                    }}
+                    aria-label="Amount"
+                    style={smallInputStyle}
+                  />
+                  <select
+                    value={rule.adjustmentType}
+                    onChange={(e) => updateRule(rule.id, { adjustmentType: e.target.value as PricingRule["adjustmentType"] })}
+                    aria-label="Adjustment type"
+                    style={{ padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd" }}
+                  >
+                    <option value="percent">%</option>
+                    <option value="fixed">fixed</option>
+                  </select>
+                </div>
+              </label>
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                Enabled
+              </label>
+            </div>
+
+            <fieldset style={{ border: "none", padding: 0, margin: 0, display: "flex", gap: 6, fontSize: 13, flexWrap: "wrap" }}>
+              <legend style={{ fontSize: 13 }}>Weekdays (none = any day)</legend>
+              {WEEKDAY_SHORT.map((label, day) => (
+                <label key={label}>
+                  <input type="checkbox" checked={(rule.weekdays ?? []).includes(day)} onChange={() => toggleWeekday(rule, day)} /> {label}
+                </label>
+              ))}
+            </fieldset>
+
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+              <div style={fieldStyle}>
+                Season (MM-DD)
+                <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input
+                    value={rule.season?.from ?? ""}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        season: e.target.value || rule.season?.to ? { from: e.target.value, to: rule.season?.to ?? "" } : null,
+                      })
+                    }
+                    placeholder="12-01"
+                    aria-label="Season start"
+                    style={smallInputStyle}
+                  />
+                  -
+                  <input
+                    value={rule.season?.to ?? ""}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        season: e.target.value || rule.season?.from ? { from: rule.season?.from ?? "", to: e.target.value } : null,
+                      })
+                    }
+                    placeholder="12-31"
+                    aria-label="Season end"
+                    style={smallInputStyle}
+                  />
+                </div>
+              </div>
+              <RangeInputs
+                label="Days before event"
+                range={rule.leadTimeDays}
+                onChange={(leadTimeDays) => updateRule(rule.id, { leadTimeDays })}
+              />
+              <RangeInputs
+                label="Duration (hours)"
+                range={rule.durationHours}
+                onChange={(durationHours) => updateRule(rule.id, { durationHours })}
+              />
+              <RangeInputs label="Guests" range={rule.guests} onChange={(guests) => updateRule(rule.id, { guests })} />
+            </div>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <button type="button" onClick={() => moveRule(index, -1)} disabled={index === 0} aria-label={`Move ${rule.name} up`}>
+                Up
+              </button>
+              <button
+                type="button"
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                aria-label={`Move ${rule.name} down`}
+              >
+                Down
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setRules((rs) => rs.filter((r) => r.id !== rule.id));
+                  setMessage(null);
+                }}
+                aria-label={`Remove ${rule.name}`}
+              >
+                Remove
+              </button>
+            </div>
+          </fieldset>
+        ))}
+
+        <div>
+          <button
+            type="button"
+            onClick={() => {
+              setRules((rs) => rs.concat(createPricingRule()));
+              setMessage(null);
+            }}
+          >
+            Add rule
+          </button>
+        </div>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 8 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Try it</legend>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+            <label style={fieldStyle}>
+              Event start
+              <input
+                type="datetime-local"
+                value={preview.date}
+                onChange={(e) => setPreview({ ...preview, date: e.target.value })}
+                style={{ ...smallInputStyle, width: "auto" }}
+              />
+            </label>
+            <label style={fieldStyle}>
+              Hours
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={preview.hours}
+                onChange={(e) => setPreview({ ...preview, hours: Math.max(0, Number(e.target.value) || 0) })}
+                style={smallInputStyle}
+              />
+            </label>
+            <label style={fieldStyle}>
+              Guests
+              <input
+                type="number"
+                min={0}
+                value={preview.guests}
+                onChange={(e) => setPreview({ ...preview, guests: e.target.value })}
+                style={smallInputStyle}
+              />
+            </label>
+            <label style={fieldStyle}>
+              Listed price
+              <input
+                type="number"
+                min={0}
+                value={preview.base}
+                onChange={(e) => setPreview({ ...preview, base: Math.max(0, Number(e.target.value) || 0) })}
+                style={smallInputStyle}
+              />
+            </label>
+          </div>
+          {previewAdjustments && (
+            <ul aria-label="Rules that apply" style={{ margin: 0, paddingLeft: 18, fontSize: 13 }}>
+              {previewAdjustments.length === 0 && <li>No rule applies.</li>}
+              {previewAdjustments.map((a) => (
+                <li key={a.ruleId}>
+                  {a.label}: {a.amount < 0 ? "-" : "+"}
+                  {Math.abs(a.amount).toFixed(2)}
+                </li>
+              ))}
+              <li>
+                <strong>
+                  Price: {(preview.base + previewAdjustments.reduce((sum, a) => sum + a.amount, 0)).toFixed(2)}
+                </strong>
+              </li>
+            </ul>
+          )}
+        </fieldset>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save pricing rules
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,279 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+};
+
+/* Form state keeps every field as text so empty inputs mean "no limit" */
+type PromoForm = {
+  id?: string;
+  code: string;
+  description: string;
+  type: "percent" | "fixed";
+  value: string;
+  active: boolean;
+  validFrom: string;
+  validTo: string;
+  maxUses: string;
+  maxUsesPerEmail: string;
+  minSpend: string;
+  packageIds: string;
+  addOnIds: string;
+};
+
+const EMPTY_FORM: PromoForm = {
+  code: "",
+  description: "",
+  type: "percent",
+  value: "10",
+  active: true,
+  validFrom: "",
+  validTo: "",
+  maxUses: "",
+  maxUsesPerEmail: "1",
+  minSpend: "",
+  packageIds: "",
+  addOnIds: "",
+};
+
+function toForm(promo: PromoCode): PromoForm {
+  const text = (n: number | null | undefined) => (n == null ? "" : String(n));
+  return {
+    id: promo.id,
+    code: promo.code,
+    description: promo.description ?? "",
+    type: promo.type,
+    value: String(promo.value),
+    active: promo.active,
+    validFrom: promo.validFrom ?? "",
+    validTo: promo.validTo ?? "",
+    maxUses: text(promo.maxUses),
+    maxUsesPerEmail: text(promo.maxUsesPerEmail),
+    minSpend: text(promo.minSpend),
+    packageIds: (promo.packageIds ?? []).join(", "),
+    addOnIds: (promo.addOnIds ?? []).join(", "),
+  };
+}
+
+function splitIds(text: string): string[] {
+  return text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function describeLimits(promo: PromoCode, uses: number): string {
+  const parts = [`${uses}${promo.maxUses != null ? `/${promo.maxUses}` : ""} used`];
+  if (promo.maxUsesPerEmail != null) parts.push(`${promo.maxUsesPerEmail} per customer`);
+  if (promo.minSpend != null) parts.push(`min ${promo.minSpend}`);
+  if (promo.validFrom || promo.validTo) parts.push(`${promo.validFrom || "..."} to ${promo.validTo || "..."}`);
+  if (promo.packageIds?.length) parts.push(`packages: ${promo.packageIds.join(", ")}`);
+  if (promo.addOnIds?.length) parts.push(`add-ons: ${promo.addOnIds.join(", ")}`);
+  return parts.join(" - ");
+}
+
+/**
+ * Settings section for promo codes: value, validity window, usage limits, minimum spend and
+ * package or add-on eligibility. Usage comes from the redemption log; the applied/redeemed
+ * funnel comes from analytics.
+ */
+export default function PromoCodesSettingsSection(): JSX.Element {
+  const [codes, setCodes] = useState<PromoCode[]>(() => getPromoCodes());
+  const [form, setForm] = useState<PromoForm | null>(null);
+  const [stats, setStats] = useState<Record<string, PromoCodeStats>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    promoCodeStats({ from: "2000-01-01" }).then((list) => {
+      if (!cancelled) setStats(Object.fromEntries(list.map((s) => [s.code, s])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [codes]);
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form) return;
+    const num = (v: string) => (v.trim() === "" ? null : Number(v));
+    try {
+      const saved = savePromoCode({
+        id: form.id,
+        code: form.code,
+        description: form.description,
+        type: form.type,
+        value: Number(form.value),
+        active: form.active,
+        validFrom: form.validFrom || null,
+        validTo: form.validTo || null,
+        maxUses: num(form.maxUses),
+        maxUsesPerEmail: num(form.maxUsesPerEmail),
+        minSpend: num(form.minSpend),
+        packageIds: splitIds(form.packageIds),
+        addOnIds: splitIds(form.addOnIds),
+      });
+      setCodes(getPromoCodes());
+      setForm(null);
+      setMessage(`Promo code ${saved.code} saved.`);
+    } catch (err: any) {
+      setMessage(`Failed to save: ${err?.message || "unknown error"}.`);
+    }
+  }
+
+  function handleDelete(promo: PromoCode) {
+    if (!confirm(`Delete promo code ${promo.code}? Past redemptions are kept.`)) return;
+    deletePromoCode(promo.id);
+    setCodes(getPromoCodes());
+    setMessage(`Promo code ${promo.code} deleted.`);
+  }
+
+  const field = (key: keyof PromoForm, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) =>
+    form && (
+      <label style={fieldStyle}>
+        {label}
+        <input
+          value={String(form[key] ?? "")}
+          onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+          style={inputStyle}
+          {...props}
+        />
+      </label>
+    );
+
+  return (
+    <section aria-labelledby="promo-heading" style={sectionStyle}>
+      <h2 id="promo-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Promo codes
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Codes customers can redeem on the summary page. Leave a limit empty for no limit.
+      </p>
+
+      {codes.length === 0 ? (
+        <div style={{ fontSize: 13, color: "var(--muted,#666)", marginBottom: 12 }}>No promo codes yet.</div>
+      ) : (
+        <ul style={{ listStyle: "none", margin: "0 0 12px", padding: 0, display: "grid", gap: 8 }}>
+          {codes.map((promo) => {
+            const funnel = stats[promo.code];
+            return (
+              <li
+                key={promo.id}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  gap: 12,
+                  padding: 8,
+                  border: "1px solid #eee",
+                  borderRadius: 6,
+                  fontSize: 13,
+                  opacity: promo.active ? 1 : 0.6,
+                }}
+              >
+                <div>
+                  <strong>{promo.code}</strong> {promo.type === "percent" ? `${promo.value}% off` : `${promo.value} off`}
+                  {promo.active ? "" : " (inactive)"}
+                  {promo.description ? <div>{promo.description}</div> : null}
+                  <div style={{ color: "var(--muted,#666)" }}>{describeLimits(promo, getPromoRedemptions(promo.id).length)}</div>
+                  {funnel ? (
+                    <div style={{ color: "var(--muted,#666)" }}>
+                      Applied {funnel.applied}x, redeemed {funnel.redeemed}x, {funnel.discountTotal.toFixed(2)} given
+                    </div>
+                  ) : null}
+                </div>
+                <div style={{ display: "flex", gap: 8, alignItems: "flex-start" }}>
+                  <button type="button" onClick={() => setForm(toForm(promo))} aria-label={`Edit ${promo.code}`}>
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => handleDelete(promo)} aria-label={`Delete ${promo.code}`}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {form ? (
+        <form onSubmit={handleSave} style={{ display: "grid", gap: 12, border: "1px solid #eee", borderRadius: 6, padding: 12 }}>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+            {field("code", "Code", { required: true, placeholder: "SUMMER10", style: { ...inputStyle, textTransform: "uppercase" } })}
+            <label style={fieldStyle}>
+              Value
+              <div style={{ display: "flex", gap: 4 }}>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  style={{ ...inputStyle, width: 90 }}
+                />
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as PromoForm["type"] })}
+                  aria-label="Value type"
+                  style={inputStyle}
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">fixed</option>
+                </select>
+              </div>
+            </label>
+            {field("description", "Description", { placeholder: "optional" })}
+            <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+            {field("validFrom", "Valid from", { type: "date" })}
+            {field("validTo", "Valid to", { type: "date" })}
+            {field("maxUses", "Total uses", { type: "number", min: 0, style: { ...inputStyle, width: 90 } })}
+            {field("maxUsesPerEmail", "Uses per customer", { type: "number", min: 0, style: { ...inputStyle, width: 90 } })}
+            {field("minSpend", "Minimum spend", { type: "number", min: 0, step: "0.01", style: { ...inputStyle, width: 100 } })}
+          </div>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+            {field("packageIds", "Package ids (comma separated, empty = all)", { style: { ...inputStyle, width: 260 } })}
+            {field("addOnIds", "Add-on ids (discounts only these)", { style: { ...inputStyle, width: 260 } })}
+          </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button type="submit">Save code</button>
+            <button type="button" onClick={() => setForm(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button type="button" onClick={() => setForm({ ...EMPTY_FORM })}>
+          Add promo code
+        </button>
+      )}
+
+      {message && (
+        <div
+          role="status"
+          aria-live="polite"
+          style={{
+            marginTop: 8,
+            fontSize: 13,
+            color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+          }}
+        >
+          {message}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,234 @@
+const PROMO_CODES_KEY = 'pb_promo_codes_v1';
+const PROMO_REDEMPTIONS_KEY = 'pb_promo_redemptions_v1';
+
+registerStorageKeys([PROMO_CODES_KEY, PROMO_REDEMPTIONS_KEY]);
+
+export interface PromoCode {
+  id: string;
+  /** Stored upper-case; matching ignores case and surrounding spaces. */
+  code: string;
+  description?: string | null;
+  type: 'percent' | 'fixed';
+  value: number;
+  active: boolean;
+  /** Inclusive "YYYY-MM-DD" dates on which the code can be redeemed; null is open-ended. */
+  validFrom?: string | null;
+  validTo?: string | null;
+  /** Redemptions across all customers; null is unlimited. */
+  maxUses?: number | null;
+  maxUsesPerEmail?: number | null;
+  /** Price (after pricing rules) the booking must reach. */
+  minSpend?: number | null;
+  /** Packages the code works with; empty means any package. */
+  packageIds?: string[];
+  /** When set, the code needs one of these add-ons and discounts only them. */
+  addOnIds?: string[];
+  createdAt: string;
+}
+
+export interface PromoRedemption {
+  id: string;
+  codeId: string;
+  code: string;
+  email: string;
+  bookingId: string;
+  amount: number;
+  redeemedAt: string;
+}
+
+/** What a code is checked against. `price` is the booking price after pricing rules. */
+export interface PromoContext {
+  price: number;
+  email?: string | null;
+  packageId?: string | null;
+  /** Add-on id to its line total (price x quantity). */
+  addOns?: Record<string, number>;
+  now?: Date;
+}
+
+export type PromoValidation =
+  | { valid: true; promo: PromoCode; amount: number }
+  | { valid: false; reason: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function normalizePromoCodeText(code: string): string {
+  return (code || '').trim().toUpperCase();
+}
+
+function positiveOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map((v) => v.trim()) : [];
+}
+
+function normalizePromo(raw: any): PromoCode | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const code = normalizePromoCodeText(raw.code);
+  const value = Number(raw.value);
+  if (!code || !Number.isFinite(value) || value < 0) return null;
+  const type = raw.type === 'fixed' ? 'fixed' : 'percent';
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId('promo'),
+    code,
+    description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : null,
+    type,
+    value: type === 'percent' ? Math.min(100, value) : value,
+    active: raw.active !== false,
+    validFrom: typeof raw.validFrom === 'string' && DATE_RE.test(raw.validFrom) ? raw.validFrom : null,
+    validTo: typeof raw.validTo === 'string' && DATE_RE.test(raw.validTo) ? raw.validTo : null,
+    maxUses: positiveOrNull(raw.maxUses),
+    maxUsesPerEmail: positiveOrNull(raw.maxUsesPerEmail),
+    minSpend: positiveOrNull(raw.minSpend),
+    packageIds: stringList(raw.packageIds),
+    addOnIds: stringList(raw.addOnIds),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : nowIso(),
+  };
+}
+
+export function getPromoCodes(): PromoCode[] {
+  const raw = getItem<unknown[]>(PROMO_CODES_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizePromo).filter((p): p is PromoCode => p !== null);
+}
+
+/**
+ * savePromoCode(promo: Partial<PromoCode> & { code: string }): PromoCode
+ * Creates or updates (by id) a code. Codes must be unique ignoring case.
+ */
+export function savePromoCode(promo: Partial<PromoCode> & { code: string }): PromoCode {
+  const normalized = normalizePromo(promo);
+  if (!normalized) throw new Error('A promo code needs a code and a non-negative value');
+  if (normalized.validFrom && normalized.validTo && normalized.validTo < normalized.validFrom) {
+    throw new Error('The validity window must end after it starts');
+  }
+  const codes = getPromoCodes();
+  if (codes.some((c) => c.code === normalized.code && c.id !== normalized.id)) {
+    throw new Error(`Promo code ${normalized.code} already exists`);
+  }
+  const idx = codes.findIndex((c) => c.id === normalized.id);
+  const before = idx === -1 ? null : codes[idx];
+  if (idx === -1) codes.push(normalized);
+  else codes[idx] = { ...normalized, createdAt: codes[idx].createdAt };
+  setItem(PROMO_CODES_KEY, codes);
+  recordAudit({
+    action: before ? 'settings.promo_code_updated' : 'settings.promo_code_created',
+    entityType: 'settings',
+    entityId: normalized.id,
+    summary: `Promo code ${normalized.code} ${before ? 'updated' : 'created'}`,
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+/** Removes a code; its past redemptions are kept. */
+export function deletePromoCode(id: string): void {
+  const codes = getPromoCodes();
+  const promo = codes.find((c) => c.id === id);
+  setItem(PROMO_CODES_KEY, codes.filter((c) => c.id !== id));
+  if (promo) {
+    recordAudit({
+      action: 'settings.promo_code_deleted',
+      entityType: 'settings',
+      entityId: id,
+      summary: `Promo code ${promo.code} deleted`,
+      before: promo,
+    });
+  }
+}
+
+export function getPromoRedemptions(codeId?: string): PromoRedemption[] {
+  const raw = getItem<PromoRedemption[]>(PROMO_REDEMPTIONS_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((r) => r && typeof r.codeId === 'string' && (!codeId || r.codeId === codeId));
+}
+
+function toDateKey(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * validatePromoCode(code: string, context: PromoContext): PromoValidation
+ * Checks the code's window, usage limits, minimum spend and eligibility, and works out the
+ * discount. The amount never exceeds the price it applies to.
+ */
+export function validatePromoCode(code: string, context: PromoContext): PromoValidation {
+  const text = normalizePromoCodeText(code);
+  if (!text) return { valid: false, reason: 'Enter a promo code.' };
+  const promo = getPromoCodes().find((c) => c.code === text);
+  if (!promo || !promo.active) return { valid: false, reason: `${text} is not a valid promo code.` };
+
+  const today = toDateKey(context.now ?? new Date());
+  if (promo.validFrom && today < promo.validFrom) return { valid: false, reason: `${text} is valid from ${promo.validFrom}.` };
+  if (promo.validTo && today > promo.validTo) return { valid: false, reason: `${text} expired on ${promo.validTo}.` };
+
+  const redemptions = getPromoRedemptions(promo.id);
+  if (promo.maxUses != null && redemptions.length >= promo.maxUses) {
+    return { valid: false, reason: `${text} has reached its usage limit.` };
+  }
+  const email = (context.email || '').trim().toLowerCase();
+  if (promo.maxUsesPerEmail != null && email) {
+    const used = redemptions.filter((r) => r.email === email).length;
+    if (used >= promo.maxUsesPerEmail) return { valid: false, reason: `You have already used ${text}.` };
+  }
+
+  if (promo.minSpend != null && context.price < promo.minSpend) {
+    return { valid: false, reason: `${text} needs a booking of at least ${promo.minSpend.toFixed(2)}.` };
+  }
+  if (promo.packageIds && promo.packageIds.length && !(context.packageId && promo.packageIds.includes(context.packageId))) {
+    return { valid: false, reason: `${text} does not apply to this package.` };
+  }
+
+  let base = context.price;
+  if (promo.addOnIds && promo.addOnIds.length) {
+    const addOns = context.addOns ?? {};
+    const eligible = promo.addOnIds.filter((id) => id in addOns);
+    if (!eligible.length) return { valid: false, reason: `${text} needs one of its eligible add-ons.` };
+    base = Math.min(context.price, eligible.reduce((sum, id) => sum + (addOns[id] || 0), 0));
+  }
+
+  const raw = promo.type === 'percent' ? (base * promo.value) / 100 : promo.value;
+  const amount = Number(Math.max(0, Math.min(raw, base)).toFixed(2));
+  return { valid: true, promo, amount };
+}
+
+/**
+ * redeemPromoCode(code: string, redemption: { email, bookingId, context }): PromoRedemption
+ * Re-validates the code for the confirmed booking, records the use against its limits and
+ * reports it to analytics.
+ */
+export function redeemPromoCode(
+  code: string,
+  redemption: { email: string; bookingId: string; context: PromoContext }
+): PromoRedemption {
+  const email = (redemption.email || '').trim().toLowerCase();
+  const result = validatePromoCode(code, { ...redemption.context, email });
+  if (!result.valid) throw new Error(result.reason);
+  const record: PromoRedemption = {
+    id: generateId('redeem'),
+    codeId: result.promo.id,
+    code: result.promo.code,
+    email,
+    bookingId: redemption.bookingId,
+    amount: result.amount,
+    redeemedAt: nowIso(),
+  };
+  setItem(PROMO_REDEMPTIONS_KEY, getPromoRedemptions().concat(record));
+  // No bookingId in the event data: analytics would count it as a second booking
+  trackEvent('promo_redeemed', { code: record.code, email, redemptionId: record.id, amount: record.amount });
+  return record;
+}
@@ -6,9 +6,7 @@ const STORAGE_KEYS = {
     "currentUser",
     "photobooth_auth",
   ],
-  adminPin: "photobooth_admin_pin",
   adminValidatedAt: "photobooth_admin_validated_at",
-  adminPinAttempts: "photobooth_admin_pin_attempts",
 };
 
 function safeGetItem(key: string): string | null {
@@ -29,13 +27,11 @@ function safeSetItem(key: string, value: string): void {
   }
 }
 
-function safeRemoveItem(key: string): void {
-  if (typeof window === "undefined" || !window.localStorage) return;
-  try {
-    window.localStorage.removeItem(key);
-  } catch {
-    // ignore
-  }
+/* expiresAt in seconds or milliseconds, as the route config reads it */
+function sessionExpiryMs(user: UserRecord | null): number | null {
+  const expiresAt = (user as { expiresAt?: unknown } | null)?.expiresAt;
+  if (typeof expiresAt !== "number") return null;
+  return expiresAt > 1e12 ? expiresAt : expiresAt * 1000;
 }
 
 function isUserRecord(obj: any): obj is UserRecord {
@@ -52,6 +48,8 @@ function isUserRecord(obj: any): obj is UserRecord {
  * Read user record from localStorage in a robust, SSR-safe way.
  * - Guards window/localStorage access
  * - Tries to JSON.parse each candidate; if parsed object matches shape, return it
+ * - Skips records whose expiresAt has passed
+ * - Falls back to a signed-in customer (authservice sessions, which always expire)
  * - Collects non-JSON/raw string candidates and only if no structured object is found
  *   will it return a minimal record using the first raw candidate
  */
@@ -66,7 +64,11 @@ export function readUserFromStorage(): UserRecord | null {
 
     try {
       const parsed = JSON.parse(raw);
-      if (isUserRecord(parsed)) return parsed;
+      if (isUserRecord(parsed)) {
+        const expiry = sessionExpiryMs(parsed);
+        if (expiry === null || expiry > Date.now()) return parsed;
+        continue;
+      }
       // If parsed but doesn't match expected shape, continue to next candidate
     } catch {
       // not JSON ? collect raw string candidate and continue checking other keys
@@ -74,6 +76,11 @@ export function readUserFromStorage(): UserRecord | null {
     }
   }
 
+  const customer = getCustomerSession();
+  if (customer) {
+    return { id: customer.sessionId, email: customer.email, role: "customer", expiresAt: customer.expiresAt } as UserRecord;
+  }
+
   if (rawStringCandidates.length > 0) {
     // If no structured user was found, treat the first raw candidate as a minimal user id
     return { id: rawStringCandidates[0] } as UserRecord;
@@ -95,68 +102,21 @@ export function isUserAdmin(user: UserRecord | null): boolean {
 }
 
 /**
- * Verify an admin PIN stored in localStorage in an SSR-safe manner.
+ * Re-verify the signed-in staff member's PIN (staffservice, which locks the account after
+ * repeated failures) and restart the admin validation grace period.
  * Note: client-only PINs are inherently limited in security. Prefer a backend-verified flow.
  */
 export async function requireAdminPin(pin: string): Promise<boolean> {
-  // Simulate async I/O
-  await new Promise((r) => setTimeout(r, 150));
-
   if (typeof window === "undefined") return false;
-
-  const storedPin = safeGetItem(STORAGE_KEYS.adminPin);
-  const attemptsRaw = safeGetItem(STORAGE_KEYS.adminPinAttempts);
-
-  let attempts: { count: number; lastAttemptTs: number } = {
-    count: 0,
-    lastAttemptTs: 0,
-  };
-  if (attemptsRaw) {
-    try {
-      const parsed = JSON.parse(attemptsRaw);
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        typeof parsed.count === "number" &&
-        typeof parsed.lastAttemptTs === "number"
-      ) {
-        attempts = parsed;
-      }
-    } catch {
-      attempts = { count: 0, lastAttemptTs: 0 };
-    }
-  }
-
-  const now = Date.now();
-  const ATTEMPT_LIMIT = 5;
-  const COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
-
-  if (attempts.count >= ATTEMPT_LIMIT && now - attempts.lastAttemptTs < COOLDOWN_MS) {
-    return false;
-  }
-
-  if (!storedPin) {
-    return false;
-  }
-
-  const ok = storedPin === pin;
-
-  if (ok) {
-    safeRemoveItem(STORAGE_KEYS.adminPinAttempts);
-    safeSetItem(STORAGE_KEYS.adminValidatedAt, String(Date.now()));
-    return true;
-  } else {
-    const newAttempts = {
-      count: (attempts.count || 0) + 1,
-      lastAttemptTs: now,
-    };
-    try {
-      safeSetItem(STORAGE_KEYS.adminPinAttempts, JSON.stringify(newAttempts));
-    } catch {
-      // ignore
-    }
+  const staff = getCurrentStaff();
+  if (!staff) return false;
+  try {
+    await verifyStaffPin(staff.id, pin);
+  } catch {
     return false;
   }
+  safeSetItem(STORAGE_KEYS.adminValidatedAt, String(Date.now()));
+  return true;
 }
 
 export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element {
@@ -166,12 +126,15 @@ export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element
     redirectTo = "/login",
     adminVerifyPath = "/admin/verify",
     adminValidationGraceMs = 5 * 60 * 1000, // 5 minutes default
-  } = props;
+    adminSignInPath = "/admin/login",
+    permission,
+  } = props as ProtectedRouteProps & { adminSignInPath?: string; permission?: StaffPermission };
 
   const location = useLocation();
   const [loading, setLoading] = useState<boolean>(true);
   const [user, setUser] = useState<UserRecord | null>(null);
   const [validatedAt, setValidatedAt] = useState<number>(0);
+  const [staff, setStaff] = useState<StaffMember | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -180,6 +143,7 @@ export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element
       if (!mounted) return;
       const u = readUserFromStorage();
       setUser(u);
+      setStaff(getCurrentStaff());
 
       // Read adminValidatedAt safely
       const validatedRaw = safeGetItem(STORAGE_KEYS.adminValidatedAt);
@@ -206,8 +170,6 @@ export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element
       const interestingKeys = new Set([
         ...STORAGE_KEYS.userCandidates,
         STORAGE_KEYS.adminValidatedAt,
-        STORAGE_KEYS.adminPin,
-        STORAGE_KEYS.adminPinAttempts,
       ]);
       if (interestingKeys.has(e.key)) {
         refreshFromStorage();
@@ -218,8 +180,13 @@ export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element
       window.addEventListener("storage", onStorage);
     }
 
+    const offCustomer = subscribeToCustomerSession(refreshFromStorage);
+    const offStaff = subscribeToStaff(refreshFromStorage);
+
     return () => {
       mounted = false;
+      offCustomer();
+      offStaff();
       if (typeof window !== "undefined") {
         window.removeEventListener("storage", onStorage);
       }
@@ -228,31 +195,47 @@ export default function ProtectedRoute(props: ProtectedRouteProps): JSX.Element
     // The storage listener will pick up changes from other tabs.
   }, []);
 
+  // Admin pages end the staff session after STAFF_IDLE_MINUTES without input
+  const watchStaff = requireAdmin || !!permission;
+  useEffect(() => (watchStaff ? watchStaffActivity() : undefined), [watchStaff]);
+
+  // Re-read when the session runs out so an open page does not outlive it
+  useEffect(() => {
+    const expiry = sessionExpiryMs(user);
+    if (expiry === null) return;
+    const timer = setTimeout(() => setUser(readUserFromStorage()), Math.min(Math.max(0, expiry - Date.now()), 0x7fffffff));
+    return () => clearTimeout(timer);
+  }, [user]);
+
   if (loading) {
     // While we don't know auth state (client hydration), avoid redirecting during SSR/hydration.
     // Rendering nothing prevents UI flash. Parent routes/pages can show their own loaders.
     return <></>;
   }
 
-  const authed = !!user;
-
-  if (!authed) {
-    return <Navigate to={redirectTo} state={{ from: location }} replace />;
-  }
-
-  if (requireAdmin) {
-    const admin = isUserAdmin(user);
-
-    if (!admin) {
-      return <Navigate to={redirectTo} state={{ from: location }} replace />;
+  // Admin pages need a signed-in staff member, whose role must allow the page
+  if (requireAdmin || permission) {
+    if (!staff) {
+      return <Navigate to={adminSignInPath} state={{ from: location }} replace />;
+    }
+    if (permission && !staffCan(permission, staff)) {
+      return <Navigate to="/unauthorized" state={{ from: location }} replace />;
     }
 
-    const now = Date.now();
-    if (now - validatedAt > adminValidationGraceMs) {
+    // Signing in with the PIN counts as a validation
+    const lastPinAt = Math.max(validatedAt, staff.lastSignInAt ? Date.parse(staff.lastSignInAt) : 0);
+    if (requireAdmin && Date.now() - lastPinAt > adminValidationGraceMs) {
       return (
         <Navigate to={adminVerifyPath} state={{ from: location }} replace />
       );
     }
+    return <>{children}</>;
+  }
+
+  const authed = !!user;
+
+  if (!authed) {
+    return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,538 @@
+const STATUS_LABELS: Record<QuoteStatus, { label: string; color: string }> = {
+  draft: { label: "Draft", color: "#6b7280" },
+  sent: { label: "Sent", color: "#1d4ed8" },
+  accepted: { label: "Accepted", color: "#166534" },
+  declined: { label: "Declined", color: "#991b1b" },
+  withdrawn: { label: "Withdrawn", color: "#6b7280" },
+  expired: { label: "Expired", color: "#92400e" },
+};
+
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd", fontSize: 13 };
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+const cellStyle: React.CSSProperties = { padding: "8px 6px", borderTop: "1px solid #f1f5f9", textAlign: "left" };
+
+function emptyQuote(): QuoteInput {
+  return {
+    customer: { name: "", email: "", phone: "" },
+    event: { date: "", time: "18:00", venue: "", guests: null },
+    hours: 3,
+    package: null,
+    hourlyRate: 0,
+    addOns: [],
+    items: [],
+    discount: null,
+    notes: "",
+    validDays: DEFAULT_QUOTE_VALID_DAYS,
+  };
+}
+
+function newItemId(): string {
+  return `item_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleDateString();
+}
+
+/**
+ * Quotes: price a package, add-ons and custom items for a customer, send them a link and
+ * follow up. Accepted quotes become bookings at the quoted prices.
+ */
+export default function QuoteManager(): JSX.Element {
+  const [quotes, setQuotes] = useState<Quote[]>(() => listQuotes());
+  const [packages, setPackages] = useState<PackageItem[]>([]);
+  const [addons, setAddons] = useState<Addon[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<QuoteInput>(() => emptyQuote());
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([fetchPublicPackages(), listAddons()])
+      .then(([pkgs, adds]) => {
+        if (!mounted) return;
+        setPackages(pkgs);
+        setAddons(adds.filter((a) => a.active));
+      })
+      .catch((err) => console.error("Failed to load quote catalog", err));
+    const off = subscribeToQuotes(() => setQuotes(listQuotes()));
+    return () => {
+      mounted = false;
+      off();
+    };
+  }, []);
+
+  // Live preview with today's pricing rules and tax rates
+  const preview = useMemo(() => calculateQuoteTotals(form), [form]);
+
+  function update(patch: Partial<QuoteInput>) {
+    setForm((f) => ({ ...f, ...patch }));
+    setMessage(null);
+  }
+
+  function selectPackage(id: string) {
+    const pkg = packages.find((p) => p.id === id);
+    update({
+      package: pkg
+        ? { id: pkg.id, name: pkg.title, price: pkg.priceCents / 100, hoursIncluded: pkg.durationMinutes / 60 }
+        : null,
+      ...(pkg ? { hours: Math.max(form.hours, pkg.durationMinutes / 60) } : {}),
+    });
+  }
+
+  function setAddonQuantity(addon: Addon, quantity: number) {
+    const rest = form.addOns.filter((a) => a.id !== addon.id);
+    update({
+      addOns: quantity > 0 ? rest.concat({ id: addon.id, name: addon.name, price: addon.price, quantity }) : rest,
+    });
+  }
+
+  function updateItem(id: string, patch: Partial<QuoteItem>) {
+    update({ items: form.items.map((i) => (i.id === id ? { ...i, ...patch } : i)) });
+  }
+
+  function startNew() {
+    setEditingId(null);
+    setForm(emptyQuote());
+    setMessage(null);
+  }
+
+  function edit(q: Quote) {
+    setEditingId(q.id);
+    setForm({
+      customer: q.customer,
+      event: q.event,
+      hours: q.hours,
+      package: q.package,
+      hourlyRate: q.hourlyRate,
+      addOns: q.addOns,
+      items: q.items,
+      discount: q.discount,
+      notes: q.notes ?? "",
+      validDays: q.validDays,
+    });
+    setMessage(null);
+  }
+
+  function run(action: () => Quote | void, done: string): Quote | void {
+    try {
+      requireStaffPermission("quotes.edit");
+      const result = action();
+      setQuotes(listQuotes());
+      setMessage(done);
+      return result;
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not update the quote"}.`);
+    }
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    const saved = run(() => saveQuote(form, editingId ?? undefined), "Quote saved as draft.");
+    if (saved) setEditingId(saved.id);
+  }
+
+  async function copyLink(q: Quote) {
+    const url = quoteShareUrl(q);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage(`Link copied: ${url}`);
+    } catch {
+      setMessage(`Share this link: ${url}`);
+    }
+  }
+
+  function handleSend(q: Quote) {
+    const sent = run(() => sendQuote(q.id), "Quote sent.");
+    if (sent) {
+      if (editingId === q.id) startNew();
+      void copyLink(sent);
+    }
+  }
+
+  function handleWithdraw(q: Quote) {
+    const ok =
+      typeof window === "undefined" || typeof window.confirm === "undefined"
+        ? true
+        : window.confirm(`Withdraw ${q.reference}. The customer's link will stop working.`);
+    if (ok) run(() => withdrawQuote(q.id), "Quote withdrawn.");
+  }
+
+  function handleDuplicate(q: Quote) {
+    const copy = run(() => duplicateQuote(q.id), "Copied into a new draft.");
+    if (copy) edit(copy);
+  }
+
+  function handleDelete(q: Quote) {
+    run(() => deleteQuote(q.id), "Draft deleted.");
+    if (editingId === q.id) startNew();
+  }
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 16 }}>
+        <div>
+          <h1 style={{ margin: 0, fontSize: 20 }}>Quotes</h1>
+          <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>Estimates customers can accept online</p>
+        </div>
+        <button onClick={startNew}>New quote</button>
+      </header>
+
+      {message && (
+        <div
+          role="status"
+          aria-live="polite"
+          style={{ marginBottom: 12, fontSize: 14, color: message.includes("Failed") ? "#b91c1c" : "#166534" }}
+        >
+          {message}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSave}
+        aria-label={editingId ? "Edit quote" : "New quote"}
+        style={{ display: "grid", gap: 12, border: "1px solid #e5e7eb", borderRadius: 8, padding: 12, marginBottom: 24 }}
+      >
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: 12 }}>
+          <label style={fieldStyle}>
+            Customer name
+            <input
+              value={form.customer.name}
+              onChange={(e) => update({ customer: { ...form.customer, name: e.target.value } })}
+              style={inputStyle}
+              required
+            />
+          </label>
+          <label style={fieldStyle}>
+            Email
+            <input
+              type="email"
+              value={form.customer.email}
+              onChange={(e) => update({ customer: { ...form.customer, email: e.target.value } })}
+              style={inputStyle}
+              required
+            />
+          </label>
+          <label style={fieldStyle}>
+            Phone
+            <input
+              value={form.customer.phone ?? ""}
+              onChange={(e) => update({ customer: { ...form.customer, phone: e.target.value } })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Event date
+            <input
+              type="date"
+              value={form.event.date}
+              onChange={(e) => update({ event: { ...form.event, date: e.target.value } })}
+              style={inputStyle}
+              required
+            />
+          </label>
+          <label style={fieldStyle}>
+            Start time
+            <input
+              type="time"
+              value={form.event.time}
+              onChange={(e) => update({ event: { ...form.event, time: e.target.value } })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Hours
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={form.hours}
+              onChange={(e) => update({ hours: Number(e.target.value) || 1 })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Venue
+            <input
+              value={form.event.venue ?? ""}
+              onChange={(e) => update({ event: { ...form.event, venue: e.target.value } })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Guests
+            <input
+              type="number"
+              min={0}
+              value={form.event.guests ?? ""}
+              onChange={(e) => update({ event: { ...form.event, guests: e.target.value ? Number(e.target.value) : null } })}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            Package
+            <select value={form.package?.id ?? ""} onChange={(e) => selectPackage(e.target.value)} style={inputStyle}>
+              <option value="">No package</option>
+              {packages.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title} ({(p.priceCents / 100).toFixed(2)})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={fieldStyle}>
+            Package price
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.package?.price ?? ""}
+              disabled={!form.package}
+              onChange={(e) => form.package && update({ package: { ...form.package, price: Number(e.target.value) || 0 } })}
+              style={{ ...inputStyle, width: 110 }}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Extra hour rate
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.hourlyRate}
+              onChange={(e) => update({ hourlyRate: Number(e.target.value) || 0 })}
+              style={{ ...inputStyle, width: 110 }}
+            />
+          </label>
+        </div>
+
+        {addons.length > 0 && (
+          <fieldset style={{ border: "none", padding: 0, margin: 0 }}>
+            <legend style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}>Add-ons</legend>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: 8 }}>
+              {addons.map((a) => {
+                const quantity = form.addOns.find((x) => x.id === a.id)?.quantity ?? 0;
+                return (
+                  <label key={a.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                    <input
+                      type="number"
+                      min={0}
+                      value={quantity}
+                      onChange={(e) => setAddonQuantity(a, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                      style={{ ...inputStyle, width: 56 }}
+                      aria-label={`${a.name} quantity`}
+                    />
+                    {a.name} <span style={{ color: "#6b7280" }}>{a.price.toFixed(2)}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </fieldset>
+        )}
+
+        <fieldset style={{ border: "none", padding: 0, margin: 0 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}>Custom items</legend>
+          <div style={{ display: "grid", gap: 6 }}>
+            {form.items.map((i) => (
+              <div key={i.id} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <input
+                  value={i.label}
+                  onChange={(e) => updateItem(i.id, { label: e.target.value })}
+                  placeholder="Description"
+                  style={{ ...inputStyle, flex: 1 }}
+                  aria-label="Item description"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={i.quantity}
+                  onChange={(e) => updateItem(i.id, { quantity: Number(e.target.value) || 1 })}
+                  style={{ ...inputStyle, width: 64 }}
+                  aria-label="Quantity"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={i.unitPrice}
+                  onChange={(e) => updateItem(i.id, { unitPrice: Number(e.target.value) || 0 })}
+                  style={{ ...inputStyle, width: 100 }}
+                  aria-label="Unit price"
+                />
+                <button type="button" onClick={() => update({ items: form.items.filter((x) => x.id !== i.id) })}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div>
+              <button
+                type="button"
+                onClick={() => update({ items: form.items.concat({ id: newItemId(), label: "", quantity: 1, unitPrice: 0 }) })}
+              >
+                Add item
+              </button>
+            </div>
+          </div>
+        </fieldset>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+          <label style={fieldStyle}>
+            Discount
+            <div style={{ display: "flex", gap: 4 }}>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.discount?.amount ?? ""}
+                onChange={(e) =>
+                  update({
+                    discount: e.target.value
+                      ? { type: form.discount?.type ?? "fixed", amount: Number(e.target.value) || 0 }
+                      : null,
+                  })
+                }
+                style={{ ...inputStyle, width: 90 }}
+              />
+              <select
+                value={form.discount?.type ?? "fixed"}
+                onChange={(e) =>
+                  update({ discount: { type: e.target.value as "fixed" | "percent", amount: form.discount?.amount ?? 0 } })
+                }
+                style={inputStyle}
+                aria-label="Discount type"
+              >
+                <option value="fixed">amount</option>
+                <option value="percent">%</option>
+              </select>
+            </div>
+          </label>
+          <label style={fieldStyle}>
+            Valid for (days)
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={form.validDays}
+              onChange={(e) => update({ validDays: Number(e.target.value) || DEFAULT_QUOTE_VALID_DAYS })}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+        </div>
+
+        <label style={fieldStyle}>
+          Notes for the customer
+          <textarea
+            value={form.notes ?? ""}
+            onChange={(e) => update({ notes: e.target.value })}
+            rows={2}
+            style={{ ...inputStyle, resize: "vertical" }}
+          />
+        </label>
+
+        <table style={{ width: "100%", maxWidth: 480, borderCollapse: "collapse", fontSize: 13 }} aria-label="Quote preview">
+          <tbody>
+            {preview.lines.map((l, idx) => (
+              <tr key={idx}>
+                <td style={{ padding: "2px 0" }}>
+                  {l.label}
+                  {l.quantity !== 1 ? ` x ${l.quantity}` : ""}
+                </td>
+                <td style={{ padding: "2px 0", textAlign: "right" }}>{l.amount.toFixed(2)}</td>
+              </tr>
+            ))}
+            {preview.taxes.map((t) => (
+              <tr key={t.name} style={{ color: "#6b7280" }}>
+                <td style={{ padding: "2px 0" }}>
+                  {t.name} {t.percent}%{preview.pricesIncludeTax ? " (included)" : ""}
+                </td>
+                <td style={{ padding: "2px 0", textAlign: "right" }}>{t.amount.toFixed(2)}</td>
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 600 }}>
+              <td style={{ padding: "4px 0", borderTop: "1px solid #e5e7eb" }}>Total</td>
+              <td style={{ padding: "4px 0", borderTop: "1px solid #e5e7eb", textAlign: "right" }}>
+                {preview.totalDue.toFixed(2)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button type="submit">{editingId ? "Save changes" : "Save draft"}</button>
+          {editingId && (
+            <button type="button" onClick={startNew}>
+              Cancel
+            </button>
+          )}
+        </div>
+        {editingId && getQuote(editingId)?.status === "sent" && (
+          <p style={{ margin: 0, fontSize: 12, color: "#92400e" }}>
+            Saving changes takes this quote back to draft; send it again for the customer to see them.
+          </p>
+        )}
+      </form>
+
+      {quotes.length === 0 ? (
+        <p style={{ color: "#6b7280", fontSize: 14 }}>No quotes yet.</p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ color: "#6b7280" }}>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Quote</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Event</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Status</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Total</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quotes.map((q) => {
+              const status = quoteStatus(q);
+              const total = q.totals?.totalDue ?? calculateQuoteTotals(q).totalDue;
+              return (
+                <tr key={q.id}>
+                  <td style={cellStyle}>
+                    <strong>{q.reference}</strong> {q.customer.name}
+                  </td>
+                  <td style={cellStyle}>
+                    {q.event.date} {q.event.time}
+                    {q.package ? ` - ${q.package.name}` : ""}
+                  </td>
+                  <td style={{ ...cellStyle, color: STATUS_LABELS[status].color }}>
+                    {STATUS_LABELS[status].label}
+                    {status === "sent" && q.expiresAt ? ` until ${formatDate(q.expiresAt)}` : ""}
+                    {status === "accepted" && q.bookingId ? ` - booking ${getStoredBooking(q.bookingId)?.reference ?? ""}` : ""}
+                    {status === "declined" && q.declineReason ? ` - ${q.declineReason}` : ""}
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{total.toFixed(2)}</td>
+                  <td style={{ ...cellStyle, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    {(status === "draft" || status === "sent") && <button onClick={() => edit(q)}>Edit</button>}
+                    {(status === "draft" || status === "expired") && (
+                      <button onClick={() => handleSend(q)}>{status === "expired" ? "Resend" : "Send"}</button>
+                    )}
+                    {status === "sent" && <button onClick={() => void copyLink(q)}>Copy link</button>}
+                    {(status === "draft" || status === "sent") && <button onClick={() => handleWithdraw(q)}>Withdraw</button>}
+                    <button onClick={() => handleDuplicate(q)}>Duplicate</button>
+                    {status === "draft" && <button onClick={() => handleDelete(q)}>Delete</button>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+}
+
+function formatEventDate(date: string, time: string): string {
+  const d = new Date(`${date}T${time || "00:00"}`);
+  if (isNaN(d.getTime())) return `${date} ${time}`.trim();
+  return d.toLocaleString(undefined, { dateStyle: "full", timeStyle: time ? "short" : undefined });
+}
+
+/**
+ * Public quote page reached from the share link. Shows the quoted prices and lets the customer
+ * accept (which books the slot) or decline.
+ */
+export default function QuotePage(): JSX.Element {
+  const { token = "" } = useParams<{ token?: string }>();
+  const [quote, setQuote] = useState<Quote | null>(() => getQuoteByToken(token));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setQuote(getQuoteByToken(token));
+    return subscribeToQuotes(() => setQuote(getQuoteByToken(token)));
+  }, [token]);
+
+  if (!quote) {
+    return (
+      <main style={{ maxWidth: 720, margin: "0 auto", padding: 16 }}>
+        <h1 style={{ fontSize: 22 }}>Quote not found</h1>
+        <p style={{ color: "#6b7280" }}>This link is not valid or the quote has been withdrawn.</p>
+      </main>
+    );
+  }
+
+  const status = quoteStatus(quote);
+  const totals = quote.totals ?? calculateQuoteTotals(quote);
+  const booking = quote.bookingId ? getStoredBooking(quote.bookingId) : null;
+
+  async function handleAccept() {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await acceptQuote(token);
+      setQuote(result.quote);
+    } catch (err: any) {
+      setError(err?.message || "Could not accept the quote. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleDecline(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    try {
+      setQuote(declineQuote(token, reason));
+      setDeclining(false);
+    } catch (err: any) {
+      setError(err?.message || "Could not decline the quote.");
+    }
+  }
+
+  return (
+    <main style={{ maxWidth: 720, margin: "0 auto", padding: 16, color: "var(--text, #0f172a)" }}>
+      <header style={{ marginBottom: 16 }}>
+        <h1 style={{ margin: 0, fontSize: 22 }}>Quote {quote.reference}</h1>
+        <p style={{ margin: "4px 0 0", color: "#6b7280", fontSize: 14 }}>
+          Prepared for {quote.customer.name}
+          {quote.expiresAt && status === "sent" ? ` - valid until ${new Date(quote.expiresAt).toLocaleDateString()}` : ""}
+        </p>
+      </header>
+
+      <section aria-label="Event" style={{ marginBottom: 16, fontSize: 14 }}>
+        <div>
+          <strong>{formatEventDate(quote.event.date, quote.event.time)}</strong> for {quote.hours} hour
+          {quote.hours === 1 ? "" : "s"}
+        </div>
+        {quote.event.venue && <div>{quote.event.venue}</div>}
+        {quote.event.guests ? <div>{quote.event.guests} guests</div> : null}
+      </section>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14, marginBottom: 16 }}>
+        <thead>
+          <tr style={{ color: "#6b7280", textAlign: "left" }}>
+            <th style={{ padding: "0 0 6px" }}>Item</th>
+            <th style={{ padding: "0 0 6px", textAlign: "right" }}>Qty</th>
+            <th style={{ padding: "0 0 6px", textAlign: "right" }}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {totals.lines.map((l, idx) => (
+            <tr key={idx} style={{ borderTop: "1px solid #f1f5f9" }}>
+              <td style={{ padding: "6px 0" }}>{l.label}</td>
+              <td style={{ padding: "6px 0", textAlign: "right" }}>{l.quantity}</td>
+              <td style={{ padding: "6px 0", textAlign: "right" }}>{formatMoney(l.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          {totals.taxes.map((t) => (
+            <tr key={t.name} style={{ color: "#6b7280" }}>
+              <td colSpan={2} style={{ padding: "4px 0" }}>
+                {t.name} ({t.percent}%{totals.pricesIncludeTax ? ", included" : ""})
+              </td>
+              <td style={{ padding: "4px 0", textAlign: "right" }}>{formatMoney(t.amount)}</td>
+            </tr>
+          ))}
+          <tr style={{ fontWeight: 700, borderTop: "1px solid #e5e7eb" }}>
+            <td colSpan={2} style={{ padding: "8px 0" }}>
+              Total
+            </td>
+            <td style={{ padding: "8px 0", textAlign: "right" }}>{formatMoney(totals.totalDue)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {quote.notes && <p style={{ whiteSpace: "pre-wrap", fontSize: 14, marginBottom: 16 }}>{quote.notes}</p>}
+
+      {error && (
+        <div role="alert" style={{ marginBottom: 12, color: "#b91c1c", fontSize: 14 }}>
+          {error}
+        </div>
+      )}
+
+      {status === "sent" && !declining && (
+        <div style={{ display: "flex", gap: 8 }}>
+          <button className="btn btn-primary" onClick={() => void handleAccept()} disabled={busy}>
+            {busy ? "Booking..." : "Accept and book"}
+          </button>
+          <button className="btn btn-secondary" onClick={() => setDeclining(true)} disabled={busy}>
+            Decline
+          </button>
+        </div>
+      )}
+
+      {status === "sent" && declining && (
+        <form onSubmit={handleDecline} style={{ display: "grid", gap: 8, maxWidth: 480 }}>
+          <label style={{ display: "grid", gap: 4, fontSize: 14 }}>
+            Anything we could do differently (optional)
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button type="submit" className="btn btn-secondary">
+              Decline quote
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={() => setDeclining(false)}>
+              Back
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status === "accepted" && (
+        <div role="status" style={{ padding: 12, borderRadius: 8, background: "#f0fdf4", color: "#166534", fontSize: 14 }}>
+          Accepted - you are booked.
+          {booking ? ` Your booking reference is ${booking.reference}.` : ""} We will be in touch about payment.
+        </div>
+      )}
+      {status === "declined" && (
+        <p style={{ color: "#6b7280", fontSize: 14 }}>You declined this quote. Get in touch if you change your mind.</p>
+      )}
+      {status === "expired" && (
+        <p style={{ color: "#92400e", fontSize: 14 }}>This quote has expired. Please ask us for a new one.</p>
+      )}
+      {status === "withdrawn" && <p style={{ color: "#6b7280", fontSize: 14 }}>This quote has been withdrawn.</p>}
+    </main>
+  );
+}
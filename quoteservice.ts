@@ -0,0 +1,409 @@
+const QUOTES_KEY = 'pb_quotes_v1';
+const QUOTES_CHANGE_EVENT = 'pb:quotes-changed';
+
+registerStorageKeys([QUOTES_KEY]);
+
+const DAY_MS = 24 * 60 * 60000;
+export const DEFAULT_QUOTE_VALID_DAYS = 14;
+
+/** 'expired' is never stored; quoteStatus derives it from expiresAt. */
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+
+export interface QuoteAddOn {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+/** A custom line item, e.g. travel or a branded backdrop; taxed as a service fee. */
+export interface QuoteItem {
+  id: string;
+  label: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/** The quoted prices (calculateTotals) frozen when the quote is sent. */
+export interface QuoteTotals {
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  taxes: BookingTaxLine[];
+  pricesIncludeTax: boolean;
+  totalDue: number;
+  lines: BookingPriceLine[];
+}
+
+/** What the admin edits. */
+export interface QuoteInput {
+  customer: { name: string; email: string; phone?: string | null };
+  /** Event date "YYYY-MM-DD" and start time "HH:MM". */
+  event: { date: string; time: string; venue?: string | null; guests?: number | null };
+  hours: number;
+  package: { id: string | null; name: string; price: number; hoursIncluded: number } | null;
+  /** Charged per hour beyond the package's included hours. */
+  hourlyRate: number;
+  addOns: QuoteAddOn[];
+  items: QuoteItem[];
+  discount: { type: 'fixed' | 'percent'; amount: number } | null;
+  notes?: string | null;
+  validDays: number;
+}
+
+export interface Quote extends QuoteInput {
+  id: string;
+  /** Short reference for conversations, e.g. "Q-7K2M9P". */
+  reference: string;
+  /** Secret part of the share link. */
+  token: string;
+  status: Exclude<QuoteStatus, 'expired'>;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+  expiresAt: string | null;
+  /** Set when sent; acceptance books at these prices. */
+  totals: QuoteTotals | null;
+  acceptedAt: string | null;
+  bookingId: string | null;
+  declinedAt: string | null;
+  declineReason: string | null;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `quote_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function randomString(length: number, alphabet: string): string {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') crypto.getRandomValues(bytes);
+  else for (let i = 0; i < length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  return Array.from(bytes, (b) => alphabet[b % alphabet.length]).join('');
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function readQuotes(): Quote[] {
+  const raw = getItem<Quote[]>(QUOTES_KEY);
+  return Array.isArray(raw) ? raw.filter((q) => q && typeof q.id === 'string' && typeof q.token === 'string') : [];
+}
+
+function saveQuotes(quotes: Quote[]): void {
+  setItem(QUOTES_KEY, quotes);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(QUOTES_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function updateQuote(id: string, update: (q: Quote) => Quote): Quote {
+  const quotes = readQuotes();
+  const idx = quotes.findIndex((q) => q.id === id);
+  if (idx === -1) throw new Error('Quote not found');
+  quotes[idx] = { ...update(quotes[idx]), updatedAt: nowIso() };
+  saveQuotes(quotes);
+  return quotes[idx];
+}
+
+/** The stored status, or 'expired' for a sent quote past its expiry. */
+export function quoteStatus(quote: Quote, now: Date = new Date()): QuoteStatus {
+  if (quote.status === 'sent' && quote.expiresAt && new Date(quote.expiresAt).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return quote.status;
+}
+
+/** Newest first. */
+export function listQuotes(): Quote[] {
+  return readQuotes().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getQuote(id: string): Quote | null {
+  return readQuotes().find((q) => q.id === id) ?? null;
+}
+
+/** Looks a quote up by its share link token. Drafts are not shared. */
+export function getQuoteByToken(token: string): Quote | null {
+  const quote = readQuotes().find((q) => q.token === token) ?? null;
+  return quote && quote.status !== 'draft' ? quote : null;
+}
+
+/** The link customers open to view and accept the quote. */
+export function quoteShareUrl(quote: Quote): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}/quote/${encodeURIComponent(quote.token)}`;
+}
+
+/* The summary page's draft shape, so quotes are priced exactly like bookings */
+function quoteToDraft(quote: QuoteInput): Draft {
+  return {
+    customer: { ...quote.customer },
+    event: { date: quote.event.date, time: quote.event.time, venue: quote.event.venue ?? undefined, guests: quote.event.guests ?? undefined },
+    package: quote.package ?? undefined,
+    hours: quote.hours,
+    hourlyRate: quote.hourlyRate,
+    addOns: quote.addOns.map((a) => ({ ...a })),
+    extras: quote.items.map((i) => ({
+      id: i.id,
+      name: i.quantity === 1 ? i.label : `${i.label} x ${i.quantity}`,
+      price: round2(i.unitPrice * i.quantity),
+    })),
+    discount: quote.discount ?? undefined,
+  } as Draft;
+}
+
+/**
+ * calculateQuoteTotals(quote: QuoteInput): QuoteTotals
+ * Current prices through calculateTotals: pricing rules, tax rates and the quote's discount.
+ */
+export function calculateQuoteTotals(quote: QuoteInput): QuoteTotals {
+  const totals = calculateTotals(quoteToDraft(quote));
+  return {
+    subtotal: totals.subtotal,
+    discountTotal: totals.discountTotal,
+    taxTotal: totals.taxTotal,
+    taxes: totals.taxes.map((t) => ({ name: t.name, percent: t.percent, compound: t.compound, amount: t.amount })),
+    pricesIncludeTax: totals.pricesIncludeTax,
+    totalDue: totals.totalDue,
+    lines: totals.lines,
+  };
+}
+
+function quoteStart(quote: QuoteInput): Date | null {
+  if (!quote.event.date) return null;
+  const start = new Date(`${quote.event.date}T${quote.event.time || '00:00'}`);
+  return isNaN(start.getTime()) ? null : start;
+}
+
+function normalizeInput(input: QuoteInput): QuoteInput {
+  const count = (n: unknown) => Math.max(1, Math.floor(Number(n)) || 1);
+  const money = (n: unknown) => round2(Math.max(0, Number(n) || 0));
+  return {
+    customer: {
+      name: (input.customer.name || '').trim(),
+      email: (input.customer.email || '').trim(),
+      phone: input.customer.phone?.trim() || null,
+    },
+    event: {
+      date: (input.event.date || '').trim(),
+      time: (input.event.time || '').trim(),
+      venue: input.event.venue?.trim() || null,
+      guests: typeof input.event.guests === 'number' && input.event.guests > 0 ? Math.floor(input.event.guests) : null,
+    },
+    hours: Math.max(0.5, Number(input.hours) || 1),
+    package: input.package
+      ? {
+          id: input.package.id || null,
+          name: input.package.name.trim() || 'Package',
+          price: money(input.package.price),
+          hoursIncluded: Math.max(0, Number(input.package.hoursIncluded) || 0),
+        }
+      : null,
+    hourlyRate: money(input.hourlyRate),
+    addOns: input.addOns.map((a) => ({ id: a.id, name: a.name, price: money(a.price), quantity: count(a.quantity) })),
+    items: input.items
+      .filter((i) => i.label.trim())
+      .map((i) => ({ id: i.id, label: i.label.trim(), quantity: count(i.quantity), unitPrice: round2(Number(i.unitPrice) || 0) })),
+    discount: input.discount && Number(input.discount.amount) > 0 ? { type: input.discount.type, amount: money(input.discount.amount) } : null,
+    notes: input.notes?.trim() || null,
+    validDays: Math.min(365, Math.max(1, Math.floor(Number(input.validDays)) || DEFAULT_QUOTE_VALID_DAYS)),
+  };
+}
+
+/**
+ * saveQuote(input: QuoteInput, id?: string): Quote
+ * Creates a draft, or updates one. Editing a sent quote takes it back to draft; its link stops
+ * working until it is sent again.
+ */
+export function saveQuote(input: QuoteInput, id?: string): Quote {
+  const data = normalizeInput(input);
+  if (!id) {
+    const at = nowIso();
+    const quote: Quote = {
+      ...data,
+      id: generateId(),
+      reference: `Q-${randomString(6, 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789')}`,
+      token: randomString(24, 'abcdefghijklmnopqrstuvwxyz0123456789'),
+      status: 'draft',
+      createdAt: at,
+      updatedAt: at,
+      sentAt: null,
+      expiresAt: null,
+      totals: null,
+      acceptedAt: null,
+      bookingId: null,
+      declinedAt: null,
+      declineReason: null,
+    };
+    saveQuotes(readQuotes().concat(quote));
+    recordAudit({
+      action: 'quote.created',
+      entityType: 'quote',
+      entityId: quote.id,
+      summary: `Quote ${quote.reference} created for ${quote.customer.name || 'an unnamed customer'}`,
+      after: quote,
+    });
+    return quote;
+  }
+  const before = getQuote(id);
+  const saved = updateQuote(id, (q) => {
+    if (q.status !== 'draft' && q.status !== 'sent') throw new Error('Only draft or sent quotes can be edited');
+    return { ...q, ...data, status: 'draft', sentAt: null, expiresAt: null, totals: null };
+  });
+  recordAudit({
+    action: 'quote.updated',
+    entityType: 'quote',
+    entityId: id,
+    summary: `Quote ${saved.reference} edited`,
+    before,
+    after: saved,
+  });
+  return saved;
+}
+
+/**
+ * sendQuote(id: string): Quote
+ * Freezes the prices and opens the share link for `validDays`. Resending an expired quote
+ * re-prices it and starts a new validity period.
+ */
+export function sendQuote(id: string): Quote {
+  const sent = updateQuote(id, (q) => {
+    const status = quoteStatus(q);
+    if (status !== 'draft' && status !== 'expired') throw new Error('This quote has already been sent');
+    if (!q.customer.name || !q.customer.email) throw new Error('Customer name and email are required');
+    const start = quoteStart(q);
+    if (!start) throw new Error('Event date is required');
+    if (start.getTime() <= Date.now()) throw new Error('The event date has passed');
+    if (!q.package && q.addOns.length === 0 && q.items.length === 0) throw new Error('Add a package or line items to quote');
+    const totals = calculateQuoteTotals(q);
+    const sentAt = nowIso();
+    return {
+      ...q,
+      status: 'sent',
+      sentAt,
+      expiresAt: new Date(Date.parse(sentAt) + q.validDays * DAY_MS).toISOString(),
+      totals,
+    };
+  });
+  recordAudit({
+    action: 'quote.sent',
+    entityType: 'quote',
+    entityId: id,
+    summary: `Quote ${sent.reference} sent (${sent.totals?.totalDue.toFixed(2)}, valid until ${sent.expiresAt?.slice(0, 10)})`,
+  });
+  return sent;
+}
+
+/** Closes a sent quote's link. */
+export function withdrawQuote(id: string): Quote {
+  const withdrawn = updateQuote(id, (q) => {
+    if (q.status !== 'sent' && q.status !== 'draft') throw new Error('This quote can no longer be withdrawn');
+    return { ...q, status: 'withdrawn' };
+  });
+  recordAudit({
+    action: 'quote.withdrawn',
+    entityType: 'quote',
+    entityId: id,
+    summary: `Quote ${withdrawn.reference} withdrawn`,
+  });
+  return withdrawn;
+}
+
+/** A new draft with the same content, e.g. to re-quote after an expiry or a decline. */
+export function duplicateQuote(id: string): Quote {
+  const quote = getQuote(id);
+  if (!quote) throw new Error('Quote not found');
+  return saveQuote(quote);
+}
+
+export function deleteQuote(id: string): void {
+  const quote = getQuote(id);
+  if (!quote) return;
+  if (quote.status !== 'draft') throw new Error('Only drafts can be deleted; withdraw sent quotes instead');
+  saveQuotes(readQuotes().filter((q) => q.id !== id));
+  recordAudit({
+    action: 'quote.deleted',
+    entityType: 'quote',
+    entityId: id,
+    summary: `Draft quote ${quote.reference} deleted`,
+    before: quote,
+  });
+}
+
+function requireOpenQuote(token: string): Quote {
+  const quote = getQuoteByToken(token);
+  if (!quote) throw new Error('Quote not found');
+  const status = quoteStatus(quote);
+  if (status === 'expired') throw new Error('This quote has expired. Please ask us for a new one.');
+  if (status !== 'sent') throw new Error('This quote is no longer open');
+  return quote;
+}
+
+export function declineQuote(token: string, reason?: string): Quote {
+  const quote = requireOpenQuote(token);
+  return updateQuote(quote.id, (q) => ({ ...q, status: 'declined', declinedAt: nowIso(), declineReason: reason?.trim() || null }));
+}
+
+/**
+ * acceptQuote(token: string): Promise<{ quote: Quote; bookingId: string }>
+ * Re-checks that the slot is still free, then books it at the quoted prices with createBooking.
+ * The quote stays open when the slot has been taken, so the customer can contact the business.
+ */
+export async function acceptQuote(token: string): Promise<{ quote: Quote; bookingId: string }> {
+  const quote = requireOpenQuote(token);
+  const totals = quote.totals ?? calculateQuoteTotals(quote);
+  const start = quoteStart(quote);
+  if (!start || start.getTime() <= Date.now()) throw new Error('The event date has passed');
+  const durationMinutes = Math.round(quote.hours * 60);
+  const packageId = quote.package?.id ?? undefined;
+  const location = quote.event.venue ?? null;
+  const available = await checkAvailability(start, durationMinutes, packageId, { location });
+  if (!available) throw new Error('That date and time is no longer available. Please contact us to find another slot.');
+
+  const { id: bookingId } = await createBooking({
+    start,
+    durationMinutes,
+    packageId: packageId ?? null,
+    packageName: quote.package?.name ?? null,
+    customer: { name: quote.customer.name, email: quote.customer.email, phone: quote.customer.phone ?? undefined },
+    price: totals.totalDue,
+    location,
+    guests: quote.event.guests ?? null,
+    addOns: quote.addOns,
+    notes: [`Accepted quote ${quote.reference}`, quote.notes].filter(Boolean).join('\n'),
+    status: 'booked',
+    taxes: totals.taxes,
+    taxInclusive: totals.pricesIncludeTax,
+    priceLines: totals.lines,
+    paymentSchedule: buildPaymentSchedule(totals.totalDue, { eventStart: start }),
+  });
+  const accepted = updateQuote(quote.id, (q) => ({ ...q, status: 'accepted', acceptedAt: nowIso(), bookingId }));
+  try {
+    issueInvoice(bookingId);
+  } catch (err) {
+    // Same as checkout: it is issued on first request instead
+    console.error('Failed to issue invoice', err);
+  }
+  trackEvent('quote_accepted', { quoteId: quote.id, bookingId, total: totals.totalDue });
+  return { quote: accepted, bookingId };
+}
+
+export function subscribeToQuotes(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === QUOTES_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(QUOTES_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(QUOTES_CHANGE_EVENT, listener);
+  };
+}
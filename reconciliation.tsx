@@ -0,0 +1,109 @@
+const STATUS_LABELS: Record<ReconciliationStatus, { label: string; color: string }> = {
+  overpaid: { label: "Overpaid", color: "#991b1b" },
+  refund_due: { label: "Cancelled, refund due", color: "#991b1b" },
+  behind: { label: "Behind schedule", color: "#92400e" },
+  schedule_mismatch: { label: "Schedule does not match total", color: "#92400e" },
+  open: { label: "Open balance", color: "#6b7280" },
+};
+
+const cellStyle: React.CSSProperties = { padding: "8px 6px", borderTop: "1px solid #f1f5f9", textAlign: "right" };
+
+/**
+ * Payment reconciliation: every booking whose ledger does not add up to its checkout total,
+ * the ones needing action first. Payments themselves are recorded from the booking details.
+ */
+export default function ReconciliationPage(): JSX.Element {
+  const [rows, setRows] = useState<ReconciliationRow[]>(() => reconcileBookings());
+  const [problemsOnly, setProblemsOnly] = useState(true);
+
+  useEffect(() => {
+    const reload = () => setRows(reconcileBookings());
+    const offLedger = subscribeToLedger(reload);
+    const offBookings = subscribeToBookings(reload);
+    return () => {
+      offLedger();
+      offBookings();
+    };
+  }, []);
+
+  const visible: ReconciliationRow[] = problemsOnly ? rows.filter((r: ReconciliationRow) => r.status !== "open") : rows;
+  const totals = visible.reduce(
+    (t, r) => ({ expected: t.expected + r.balance.expected, net: t.net + r.balance.net }),
+    { expected: 0, net: 0 }
+  );
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 16 }}>
+        <div>
+          <h1 style={{ margin: 0, fontSize: 20 }}>Payments</h1>
+          <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>Bookings whose payments do not match their total</p>
+        </div>
+        <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+          <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+          Needs action only
+        </label>
+      </header>
+
+      {visible.length === 0 ? (
+        <p style={{ color: "#6b7280", fontSize: 14 }}>
+          {problemsOnly ? "Every booking is paid as scheduled." : "Every booking is fully paid."}
+        </p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ color: "#6b7280" }}>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Booking</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Event</th>
+              <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Status</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Total</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Due so far</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Received</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Refunded</th>
+              <th style={{ textAlign: "right", padding: "0 6px 6px" }}>Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ booking, balance, status }) => (
+              <tr key={booking.id}>
+                <td style={{ ...cellStyle, textAlign: "left" }}>
+                  <strong>{booking.reference}</strong> {booking.customer?.name || ""}
+                </td>
+                <td style={{ ...cellStyle, textAlign: "left" }}>{new Date(booking.start).toLocaleDateString()}</td>
+                <td style={{ ...cellStyle, textAlign: "left", color: STATUS_LABELS[status].color }}>
+                  {STATUS_LABELS[status].label}
+                </td>
+                <td style={cellStyle}>{balance.expected.toFixed(2)}</td>
+                <td style={cellStyle}>{balance.dueToDate.toFixed(2)}</td>
+                <td style={cellStyle}>{balance.paid.toFixed(2)}</td>
+                <td style={cellStyle}>{balance.refunded ? balance.refunded.toFixed(2) : ""}</td>
+                <td style={{ ...cellStyle, fontWeight: 600 }}>{(-balance.outstanding).toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr style={{ fontWeight: 600 }}>
+              <td style={{ ...cellStyle, textAlign: "left" }} colSpan={3}>
+                {visible.length} booking{visible.length === 1 ? "" : "s"}
+              </td>
+              <td style={cellStyle}>{totals.expected.toFixed(2)}</td>
+              <td style={cellStyle} colSpan={3}>
+                {totals.net.toFixed(2)} received
+              </td>
+              <td style={cellStyle}>{(totals.net - totals.expected).toFixed(2)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+type RescheduleBookingFormProps = {
+  bookingId: string;
+  /** Current start as an ISO string; the picker opens on it. */
+  start: string;
+  durationMinutes: number;
+  packageId?: string | null;
+  location?: string | null;
+  /** Customers are held to the reschedule cutoff; admins are not. */
+  by: "customer" | "admin";
+  onRescheduled: (booking: Booking) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Inline form for moving a booking to a new slot. The picker leaves the booking itself out of its
+ * availability check, and rescheduleBooking re-checks everything before saving.
+ */
+export default function RescheduleBookingForm({
+  bookingId,
+  start,
+  durationMinutes,
+  packageId,
+  location,
+  by,
+  onRescheduled,
+  onCancel,
+}: RescheduleBookingFormProps): JSX.Element {
+  const [newStart, setNewStart] = useState<string>(start);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unchanged = new Date(newStart).getTime() === new Date(start).getTime();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (unchanged) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const startMs = new Date(newStart).getTime();
+      const updated = await rescheduleBooking(
+        bookingId,
+        new Date(startMs),
+        new Date(startMs + durationMinutes * 60000),
+        reason.trim() || undefined,
+        { by }
+      );
+      onRescheduled(updated);
+    } catch (err: any) {
+      setError(err?.message || "Could not reschedule the booking.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label="Reschedule booking"
+      style={{ display: "grid", gap: 10, padding: 12, border: "1px solid #e6edf3", borderRadius: 8, marginTop: 8 }}
+    >
+      <DateTimePicker
+        value={newStart}
+        onChange={setNewStart}
+        minDate={new Date().toISOString()}
+        durationMinutes={durationMinutes}
+        packageId={packageId ?? undefined}
+        location={location ?? undefined}
+        excludeBookingId={bookingId}
+      />
+      <label style={{ display: "grid", gap: 4, fontSize: 14 }}>
+        Reason (optional)
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. event moved to the evening"
+          style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #cbd5e1" }}
+        />
+      </label>
+      {error && (
+        <div role="alert" style={{ color: "#b91c1c", fontSize: 13 }}>
+          {error}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ padding: "8px 12px", borderRadius: 8, border: "1px solid #e5e7eb", background: "transparent" }}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || unchanged}
+          style={{
+            padding: "8px 12px",
+            borderRadius: 8,
+            border: "none",
+            background: "#2563eb",
+            color: "#fff",
+            cursor: saving || unchanged ? "not-allowed" : "pointer",
+          }}
+        >
+          {saving ? "Saving..." : "Move booking"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,240 @@
+const RESOURCES_KEY = 'pb_resources_v1';
+
+registerStorageKeys([RESOURCES_KEY]);
+
+export const RESOURCE_TYPES = ['booth', 'attendant', 'backdrop'] as const;
+
+export type ResourceType = (typeof RESOURCE_TYPES)[number];
+
+export interface Resource {
+  id: string;
+  name: string;
+  type: ResourceType;
+  active: boolean;
+  /** Packages this resource can serve; empty or missing means every package. */
+  packageIds?: string[];
+}
+
+/** How many resources of one type a booking consumes. */
+export interface ResourceRequirement {
+  type: ResourceType;
+  quantity: number;
+}
+
+export interface ResourceConfig {
+  resources: Resource[];
+  /** Requirements per packageId; packages not listed use DEFAULT_REQUIREMENTS. */
+  packageRequirements: Record<string, ResourceRequirement[]>;
+}
+
+/** A booking with no configured requirements takes one booth. */
+export const DEFAULT_REQUIREMENTS: readonly ResourceRequirement[] = [{ type: 'booth', quantity: 1 }];
+
+/** Used until resources are configured, so a fresh install behaves like a single-booth business. */
+const DEFAULT_RESOURCES: readonly Resource[] = [{ id: 'booth-1', name: 'Booth 1', type: 'booth', active: true }];
+
+function generateId(type: ResourceType): string {
+  return `${type}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function isResourceType(value: unknown): value is ResourceType {
+  return typeof value === 'string' && (RESOURCE_TYPES as readonly string[]).includes(value);
+}
+
+function normalizeResource(raw: any): Resource | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !raw.id || !isResourceType(raw.type)) return null;
+  const packageIds = Array.isArray(raw.packageIds)
+    ? raw.packageIds.filter((p: unknown): p is string => typeof p === 'string' && p.length > 0)
+    : [];
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : raw.id,
+    type: raw.type,
+    active: raw.active !== false,
+    ...(packageIds.length ? { packageIds } : {}),
+  };
+}
+
+function normalizeRequirements(raw: unknown): ResourceRequirement[] {
+  if (!Array.isArray(raw)) return [];
+  const out: ResourceRequirement[] = [];
+  for (const r of raw) {
+    if (!r || !isResourceType((r as any).type)) continue;
+    const quantity = Math.floor(Number((r as any).quantity));
+    if (!Number.isFinite(quantity) || quantity <= 0) continue;
+    out.push({ type: (r as any).type, quantity });
+  }
+  return out;
+}
+
+/**
+ * Load the resource configuration, falling back to a single booth when nothing is stored.
+ */
+export function getResourceConfig(): ResourceConfig {
+  const stored = getItem<Partial<ResourceConfig>>(RESOURCES_KEY);
+  const raw = stored && typeof stored === 'object' ? stored : {};
+  const resources = Array.isArray(raw.resources)
+    ? raw.resources.map(normalizeResource).filter((r): r is Resource => r !== null)
+    : [];
+  const packageRequirements: Record<string, ResourceRequirement[]> = {};
+  if (raw.packageRequirements && typeof raw.packageRequirements === 'object') {
+    for (const [packageId, reqs] of Object.entries(raw.packageRequirements)) {
+      const normalized = normalizeRequirements(reqs);
+      if (normalized.length) packageRequirements[packageId] = normalized;
+    }
+  }
+  return {
+    resources: resources.length ? resources : DEFAULT_RESOURCES.map((r) => ({ ...r })),
+    packageRequirements,
+  };
+}
+
+export function saveResourceConfig(config: ResourceConfig): void {
+  const before = getResourceConfig();
+  const next: ResourceConfig = {
+    resources: config.resources.map(normalizeResource).filter((r): r is Resource => r !== null),
+    packageRequirements: config.packageRequirements,
+  };
+  setItem(RESOURCES_KEY, next);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'resources',
+    summary: 'Resources changed',
+    before,
+    after: next,
+  });
+}
+
+export function listResources(includeInactive = false): Resource[] {
+  const { resources } = getResourceConfig();
+  return includeInactive ? resources : resources.filter((r) => r.active);
+}
+
+/**
+ * Insert or update a resource. A missing id creates a new one.
+ */
+export function saveResource(input: Omit<Resource, 'id'> & { id?: string }): Resource {
+  if (!isResourceType(input.type)) throw new Error('Invalid resource type');
+  if (!input.name || !input.name.trim()) throw new Error('Resource name is required');
+  const config = getResourceConfig();
+  const resource = normalizeResource({ ...input, id: input.id || generateId(input.type) });
+  if (!resource) throw new Error('Invalid resource');
+  const idx = config.resources.findIndex((r) => r.id === resource.id);
+  if (idx === -1) config.resources.push(resource);
+  else config.resources[idx] = resource;
+  saveResourceConfig(config);
+  return resource;
+}
+
+export function removeResource(id: string): void {
+  const config = getResourceConfig();
+  config.resources = config.resources.filter((r) => r.id !== id);
+  saveResourceConfig(config);
+}
+
+export function getPackageRequirements(packageId?: string | null): ResourceRequirement[] {
+  const { packageRequirements } = getResourceConfig();
+  const reqs = packageId ? packageRequirements[packageId] : undefined;
+  return reqs && reqs.length ? reqs : DEFAULT_REQUIREMENTS.map((r) => ({ ...r }));
+}
+
+export function setPackageRequirements(packageId: string, requirements: ResourceRequirement[]): void {
+  if (!packageId) throw new Error('packageId is required');
+  const config = getResourceConfig();
+  const normalized = normalizeRequirements(requirements);
+  if (normalized.length) config.packageRequirements[packageId] = normalized;
+  else delete config.packageRequirements[packageId];
+  saveResourceConfig(config);
+}
+
+function isCompatible(resource: Resource, type: ResourceType, packageId: string | null): boolean {
+  if (!resource.active || resource.type !== type) return false;
+  if (!packageId || !resource.packageIds || resource.packageIds.length === 0) return true;
+  return resource.packageIds.includes(packageId);
+}
+
+/**
+ * Take `requirements` out of the free pool, first-fit in resource order.
+ * Returns the ids taken, or null (taking nothing) when any requirement cannot be met.
+ */
+function claim(
+  resources: Resource[],
+  busy: Set<string>,
+  requirements: readonly ResourceRequirement[],
+  packageId: string | null
+): string[] | null {
+  const taken: string[] = [];
+  for (const req of requirements) {
+    const free = resources.filter((r) => !busy.has(r.id) && !taken.includes(r.id) && isCompatible(r, req.type, packageId));
+    if (free.length < req.quantity) return null;
+    free.slice(0, req.quantity).forEach((r) => taken.push(r.id));
+  }
+  return taken;
+}
+
+export interface ResourceAssignment {
+  available: boolean;
+  /** Resources that would be assigned; empty when unavailable. */
+  resources: Resource[];
+  /** Requirements that could not be met; empty when available. */
+  missing: ResourceRequirement[];
+}
+
+/**
+ * Decide whether a booking of `packageId` fits into [start, end) given the other bookings,
+ * and which resources it would take.
+ *
+ * Bookings that already carry resourceIds hold exactly those. Older bookings without an
+ * assignment are placed first-fit on whatever compatible resources are left, so they still
+ * block capacity. Cancelled bookings and drafts are left out.
+ *
+ * `conflicts` decides which bookings compete for resources with the slot. It defaults to plain
+ * overlap; the booking service passes createConflictTest so buffers and travel time count too.
+ */
+export function resolveResourceAssignment(
+  start: number,
+  end: number,
+  packageId: string | null | undefined,
+  bookings: Booking[],
+  config: ResourceConfig = getResourceConfig(),
+  conflicts?: (booking: Booking) => boolean
+): ResourceAssignment {
+  const pkg = packageId || null;
+  const overlapping = bookings.filter((b) => {
+    // Drafts are not scheduled yet, so like cancelled bookings they hold nothing
+    if (b.status === 'cancelled' || b.status === 'draft') return false;
+    if (conflicts) return conflicts(b);
+    const bStart = new Date(b.start).getTime();
+    const bEnd = new Date(b.end).getTime();
+    if (isNaN(bStart) || isNaN(bEnd)) return false;
+    // Overlap detection: start < bEnd && end > bStart
+    return start < bEnd && end > bStart;
+  });
+
+  const busy = new Set<string>();
+  const unassigned: Booking[] = [];
+  for (const b of overlapping) {
+    if (Array.isArray(b.resourceIds) && b.resourceIds.length) b.resourceIds.forEach((id) => busy.add(id));
+    else unassigned.push(b);
+  }
+  for (const b of unassigned) {
+    const reqs = config.packageRequirements[b.packageId ?? ''] ?? DEFAULT_REQUIREMENTS;
+    const taken = claim(config.resources, busy, reqs, b.packageId);
+    taken?.forEach((id) => busy.add(id));
+  }
+
+  const requirements = (pkg && config.packageRequirements[pkg]) || DEFAULT_REQUIREMENTS.map((r) => ({ ...r }));
+  const taken = claim(config.resources, busy, requirements, pkg);
+  if (taken) {
+    return {
+      available: true,
+      resources: taken.map((id) => config.resources.find((r) => r.id === id)!),
+      missing: [],
+    };
+  }
+
+  const missing = requirements.filter((req) => claim(config.resources, busy, [req], pkg) === null);
+  return { available: false, resources: [], missing };
+}
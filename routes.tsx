@@ -60,15 +60,34 @@ function isAuthenticated(): boolean {
 /**
  * RequireAuth wrapper component. If not authenticated, redirects to /login.
  * If roles are provided, also checks user role and redirects to /unauthorized if mismatch.
+ * Admin routes pass a staff permission instead: they need a signed-in staff member
+ * (staffservice) whose role grants it.
  */
 function RequireAuth({
   children,
   roles,
+  permission,
 }: {
   children: ReactNode;
   roles?: string[];
+  permission?: StaffPermission;
 }): JSX.Element {
   const location = useLocation();
+  // Re-render when the staff session changes, including when it ends from being idle
+  const [, setStaffVersion] = useState(0);
+  useEffect(() => (permission ? subscribeToStaff(() => setStaffVersion((v) => v + 1)) : undefined), [permission]);
+  useEffect(() => (permission ? watchStaffActivity() : undefined), [permission]);
+
+  if (permission) {
+    const staff = getCurrentStaff();
+    if (!staff) {
+      return <Navigate to="/admin/login" replace state={{ from: location }} />;
+    }
+    if (!staffCan(permission, staff)) {
+      return <Navigate to="/unauthorized" replace state={{ from: location }} />;
+    }
+    return <>{children}</>;
+  }
 
   if (!isAuthenticated()) {
     return <Navigate to="/login" replace state={{ from: location }} />;
@@ -138,7 +157,51 @@ export function createRouteConfig(): RouteConfig[] {
       path: "/admin",
       element: <AdminPage />,
       protected: true,
-      roles: ["admin"],
+      permission: "bookings.view",
+    },
+    {
+      path: "/admin/calendar",
+      element: <AdminCalendar />,
+      protected: true,
+      permission: "bookings.view",
+    },
+    {
+      path: "/admin/reconciliation",
+      element: <ReconciliationPage />,
+      protected: true,
+      permission: "payments.record",
+    },
+    {
+      path: "/admin/quotes",
+      element: <QuoteManager />,
+      protected: true,
+      permission: "quotes.edit",
+    },
+    {
+      path: "/quote/:token",
+      element: <QuotePage />,
+    },
+    {
+      path: "/admin/staff",
+      element: <StaffManager />,
+      protected: true,
+      permission: "staff.manage",
+    },
+    {
+      path: "/admin/notifications",
+      element: <NotificationsPage />,
+      protected: true,
+      permission: "bookings.view",
+    },
+    {
+      path: "/admin/audit",
+      element: <AuditLogPage />,
+      protected: true,
+      permission: "audit.view",
+    },
+    {
+      path: "/admin/login",
+      element: <StaffSignInPage />,
     },
     {
       path: "/unauthorized",
@@ -159,7 +222,11 @@ export function protectedRouteWrapper(route: RouteConfig): ReactNode {
   let element = route.element;
 
   if (route.protected) {
-    element = <RequireAuth roles={route.roles}>{element}</RequireAuth>;
+    element = (
+      <RequireAuth roles={route.roles} permission={route.permission}>
+        {element}
+      </RequireAuth>
+    );
   } else if (route.publicOnly) {
     element = <RedirectIfAuthenticated>{element}</RedirectIfAuthenticated>;
   }
@@ -0,0 +1,188 @@
+const SCHEDULING_KEY = 'pb_scheduling_v1';
+
+registerStorageKeys([SCHEDULING_KEY]);
+
+/** Time a package needs before the event starts and after it ends, in minutes. */
+export interface PackageBuffers {
+  setupMinutes: number;
+  teardownMinutes: number;
+}
+
+/** A known drive between two venues. Matching is case-insensitive and by substring, in either direction. */
+export interface TravelRoute {
+  from: string;
+  to: string;
+  minutes: number;
+}
+
+export interface TravelSettings {
+  enabled: boolean;
+  /** Used between two different locations when no route matches. */
+  defaultMinutes: number;
+  routes: TravelRoute[];
+}
+
+export interface SchedulingSettings {
+  /** Minimum free time between one booking's teardown and the next booking's setup. */
+  minGapMinutes: number;
+  /** Buffers for packages without an entry in packageBuffers. */
+  defaultBuffers: PackageBuffers;
+  packageBuffers: Record<string, PackageBuffers>;
+  travel: TravelSettings;
+  /** Customers may move a booking only until this many hours before it starts; admins are not limited. */
+  rescheduleCutoffHours: number;
+  /** How long a freed slot offered to a waitlisted customer stays held for them. */
+  waitlistHoldHours: number;
+  /** How long a slot stays held for a customer on the summary page before it is released. */
+  checkoutHoldMinutes: number;
+}
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  minGapMinutes: 0,
+  defaultBuffers: { setupMinutes: 0, teardownMinutes: 0 },
+  packageBuffers: {},
+  travel: { enabled: false, defaultMinutes: 30, routes: [] },
+  rescheduleCutoffHours: 48,
+  waitlistHoldHours: 24,
+  checkoutHoldMinutes: 15,
+};
+
+function toMinutes(value: unknown, fallback = 0): number {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function normalizeBuffers(raw: any, fallback: PackageBuffers): PackageBuffers {
+  if (!raw || typeof raw !== 'object') return { ...fallback };
+  return {
+    setupMinutes: toMinutes(raw.setupMinutes, fallback.setupMinutes),
+    teardownMinutes: toMinutes(raw.teardownMinutes, fallback.teardownMinutes),
+  };
+}
+
+function normalizeRoutes(raw: unknown): TravelRoute[] {
+  if (!Array.isArray(raw)) return [];
+  const out: TravelRoute[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== 'object') continue;
+    const from = typeof (r as any).from === 'string' ? (r as any).from.trim() : '';
+    const to = typeof (r as any).to === 'string' ? (r as any).to.trim() : '';
+    if (!from || !to) continue;
+    out.push({ from, to, minutes: toMinutes((r as any).minutes) });
+  }
+  return out;
+}
+
+function normalizeSettings(raw: any): SchedulingSettings {
+  const src = raw && typeof raw === 'object' ? raw : {};
+  const defaults = DEFAULT_SCHEDULING_SETTINGS;
+  const defaultBuffers = normalizeBuffers(src.defaultBuffers, defaults.defaultBuffers);
+  const packageBuffers: Record<string, PackageBuffers> = {};
+  if (src.packageBuffers && typeof src.packageBuffers === 'object') {
+    for (const [packageId, buffers] of Object.entries(src.packageBuffers)) {
+      if (packageId) packageBuffers[packageId] = normalizeBuffers(buffers, defaultBuffers);
+    }
+  }
+  const travel = src.travel && typeof src.travel === 'object' ? src.travel : {};
+  return {
+    minGapMinutes: toMinutes(src.minGapMinutes, defaults.minGapMinutes),
+    defaultBuffers,
+    packageBuffers,
+    travel: {
+      enabled: travel.enabled === true,
+      defaultMinutes: toMinutes(travel.defaultMinutes, defaults.travel.defaultMinutes),
+      routes: normalizeRoutes(travel.routes),
+    },
+    rescheduleCutoffHours: toMinutes(src.rescheduleCutoffHours, defaults.rescheduleCutoffHours),
+    waitlistHoldHours: Math.max(1, toMinutes(src.waitlistHoldHours, defaults.waitlistHoldHours)),
+    checkoutHoldMinutes: Math.max(1, toMinutes(src.checkoutHoldMinutes, defaults.checkoutHoldMinutes)),
+  };
+}
+
+export function getSchedulingSettings(): SchedulingSettings {
+  return normalizeSettings(getItem<SchedulingSettings>(SCHEDULING_KEY));
+}
+
+export function saveSchedulingSettings(settings: SchedulingSettings): SchedulingSettings {
+  const normalized = normalizeSettings(settings);
+  const before = getSchedulingSettings();
+  setItem(SCHEDULING_KEY, normalized);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'scheduling',
+    summary: 'Scheduling rules changed',
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+export function getPackageBuffers(
+  packageId?: string | null,
+  settings: SchedulingSettings = getSchedulingSettings()
+): PackageBuffers {
+  const buffers = packageId ? settings.packageBuffers[packageId] : undefined;
+  return { ...(buffers ?? settings.defaultBuffers) };
+}
+
+function normalizeLocation(location: string | null | undefined): string {
+  return typeof location === 'string' ? location.trim().toLowerCase().replace(/\s+/g, ' ') : '';
+}
+
+/**
+ * Minutes needed to get from one event location to another.
+ * Zero when travel blocks are off, when either location is unknown, or when both are the same venue.
+ */
+export function travelMinutesBetween(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  settings: SchedulingSettings = getSchedulingSettings()
+): number {
+  if (!settings.travel.enabled) return 0;
+  const a = normalizeLocation(from);
+  const b = normalizeLocation(to);
+  if (!a || !b || a === b) return 0;
+  for (const route of settings.travel.routes) {
+    const rFrom = normalizeLocation(route.from);
+    const rTo = normalizeLocation(route.to);
+    if ((a.includes(rFrom) && b.includes(rTo)) || (a.includes(rTo) && b.includes(rFrom))) return route.minutes;
+  }
+  return settings.travel.defaultMinutes;
+}
+
+/** The slot a booking is being checked for. Times are epoch milliseconds. */
+export interface ScheduleCandidate {
+  start: number;
+  end: number;
+  packageId?: string | null;
+  location?: string | null;
+}
+
+/**
+ * Build the conflict test used by the resource engine: a booking conflicts with the candidate
+ * when their blocked windows (setup + event + teardown) are closer than the minimum gap plus
+ * the travel time between their locations, in whichever order they would run.
+ */
+export function createConflictTest(
+  candidate: ScheduleCandidate,
+  settings: SchedulingSettings = getSchedulingSettings()
+): (booking: Booking) => boolean {
+  const own = getPackageBuffers(candidate.packageId, settings);
+  const blockedStart = candidate.start - own.setupMinutes * 60000;
+  const blockedEnd = candidate.end + own.teardownMinutes * 60000;
+  const gap = settings.minGapMinutes;
+
+  return (booking) => {
+    const start = new Date(booking.start).getTime();
+    const end = new Date(booking.end).getTime();
+    if (isNaN(start) || isNaN(end)) return false;
+    const buffers = getPackageBuffers(booking.packageId, settings);
+    const otherStart = start - buffers.setupMinutes * 60000;
+    const otherEnd = end + buffers.teardownMinutes * 60000;
+    // Time that must pass after the other booking before the candidate can set up, and vice versa
+    const after = (gap + travelMinutesBetween(booking.location, candidate.location, settings)) * 60000;
+    const before = (gap + travelMinutesBetween(candidate.location, booking.location, settings)) * 60000;
+    return blockedStart < otherEnd + after && otherStart < blockedEnd + before;
+  };
+}
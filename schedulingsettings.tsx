@@ -0,0 +1,303 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const numberInputStyle: React.CSSProperties = {
+  width: 90,
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+};
+
+/* One route per line: "from; to; minutes" */
+function routesToText(routes: TravelRoute[]): string {
+  return routes.map((r) => `${r.from}; ${r.to}; ${r.minutes}`).join("\n");
+}
+
+function textToRoutes(text: string): { routes: TravelRoute[]; errors: string[] } {
+  const routes: TravelRoute[] = [];
+  const errors: string[] = [];
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line, i) => {
+      const [from, to, minutes] = line.split(";").map((part) => part.trim());
+      const n = Number(minutes);
+      if (!from || !to || !Number.isFinite(n) || n < 0) {
+        errors.push(`Route on line ${i + 1} must look like "Venue A; Venue B; 45".`);
+        return;
+      }
+      routes.push({ from, to, minutes: Math.round(n) });
+    });
+  return { routes, errors };
+}
+
+function toNumber(value: string): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : 0;
+}
+
+/**
+ * Settings section for setup/teardown buffers, the minimum gap between bookings and travel time.
+ * Saved through schedulingservice, which the availability checks read on every call.
+ */
+export default function SchedulingSettingsSection(): JSX.Element {
+  const [settings, setSettings] = useState<SchedulingSettings>(() => getSchedulingSettings());
+  const [routesText, setRoutesText] = useState(() => routesToText(settings.travel.routes));
+  const [newPackageId, setNewPackageId] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const packageBuffers: Record<string, PackageBuffers> = settings.packageBuffers;
+
+  function update(patch: Partial<SchedulingSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function updatePackage(packageId: string, patch: Partial<PackageBuffers>) {
+    update({
+      packageBuffers: {
+        ...packageBuffers,
+        [packageId]: { ...packageBuffers[packageId], ...patch },
+      },
+    });
+  }
+
+  function addPackage() {
+    const id = newPackageId.trim();
+    if (!id || packageBuffers[id]) return;
+    updatePackage(id, { ...settings.defaultBuffers });
+    setNewPackageId("");
+  }
+
+  function removePackage(packageId: string) {
+    const next = { ...packageBuffers };
+    delete next[packageId];
+    update({ packageBuffers: next });
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    const parsed = textToRoutes(routesText);
+    setErrors(parsed.errors);
+    if (parsed.errors.length) return;
+    try {
+      const saved = saveSchedulingSettings({ ...settings, travel: { ...settings.travel, routes: parsed.routes } });
+      setSettings(saved);
+      setRoutesText(routesToText(saved.travel.routes));
+      setMessage("Scheduling settings saved.");
+    } catch {
+      setMessage("Failed to save scheduling settings.");
+    }
+  }
+
+  return (
+    <section aria-labelledby="scheduling-heading" style={sectionStyle}>
+      <h2 id="scheduling-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Scheduling
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Time blocked around each booking when checking availability (in minutes), how late customers may reschedule, and how long checkout holds and waitlist offers last.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+          <label style={fieldStyle}>
+            Minimum gap between bookings
+            <input
+              type="number"
+              min={0}
+              value={settings.minGapMinutes}
+              onChange={(e) => update({ minGapMinutes: toNumber(e.target.value) })}
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Default setup
+            <input
+              type="number"
+              min={0}
+              value={settings.defaultBuffers.setupMinutes}
+              onChange={(e) =>
+                update({ defaultBuffers: { ...settings.defaultBuffers, setupMinutes: toNumber(e.target.value) } })
+              }
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Default teardown
+            <input
+              type="number"
+              min={0}
+              value={settings.defaultBuffers.teardownMinutes}
+              onChange={(e) =>
+                update({ defaultBuffers: { ...settings.defaultBuffers, teardownMinutes: toNumber(e.target.value) } })
+              }
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Customer reschedule cutoff (hours)
+            <input
+              type="number"
+              min={0}
+              value={settings.rescheduleCutoffHours}
+              onChange={(e) => update({ rescheduleCutoffHours: toNumber(e.target.value) })}
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Waitlist offer hold (hours)
+            <input
+              type="number"
+              min={1}
+              value={settings.waitlistHoldHours}
+              onChange={(e) => update({ waitlistHoldHours: Math.max(1, toNumber(e.target.value)) })}
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Checkout hold (minutes)
+            <input
+              type="number"
+              min={1}
+              value={settings.checkoutHoldMinutes}
+              onChange={(e) => update({ checkoutHoldMinutes: Math.max(1, toNumber(e.target.value)) })}
+              style={numberInputStyle}
+            />
+          </label>
+        </div>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Per-package buffers</legend>
+          {Object.keys(packageBuffers).length === 0 && (
+            <div style={{ fontSize: 13, color: "var(--muted,#666)", marginBottom: 8 }}>
+              Every package uses the default setup and teardown.
+            </div>
+          )}
+          {Object.entries(packageBuffers).map(([packageId, buffers]) => (
+            <div key={packageId} style={{ display: "flex", gap: 12, alignItems: "flex-end", marginBottom: 8 }}>
+              <strong style={{ fontSize: 13, minWidth: 100 }}>{packageId}</strong>
+              <label style={fieldStyle}>
+                Setup
+                <input
+                  type="number"
+                  min={0}
+                  value={buffers.setupMinutes}
+                  onChange={(e) => updatePackage(packageId, { setupMinutes: toNumber(e.target.value) })}
+                  style={numberInputStyle}
+                />
+              </label>
+              <label style={fieldStyle}>
+                Teardown
+                <input
+                  type="number"
+                  min={0}
+                  value={buffers.teardownMinutes}
+                  onChange={(e) => updatePackage(packageId, { teardownMinutes: toNumber(e.target.value) })}
+                  style={numberInputStyle}
+                />
+              </label>
+              <button type="button" onClick={() => removePackage(packageId)} aria-label={`Remove buffers for ${packageId}`}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              value={newPackageId}
+              onChange={(e) => setNewPackageId(e.target.value)}
+              placeholder="Package id, e.g. premium"
+              aria-label="Package id"
+              style={{ padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd" }}
+            />
+            <button type="button" onClick={addPackage}>
+              Add package
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 8 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Travel time</legend>
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={settings.travel.enabled}
+              onChange={(e) => update({ travel: { ...settings.travel, enabled: e.target.checked } })}
+            />
+            Block travel time between bookings at different locations
+          </label>
+          <label style={fieldStyle}>
+            Default travel time
+            <input
+              type="number"
+              min={0}
+              value={settings.travel.defaultMinutes}
+              disabled={!settings.travel.enabled}
+              onChange={(e) => update({ travel: { ...settings.travel, defaultMinutes: toNumber(e.target.value) } })}
+              style={numberInputStyle}
+            />
+          </label>
+          <label style={fieldStyle}>
+            Known routes (one per line: from; to; minutes)
+            <textarea
+              value={routesText}
+              disabled={!settings.travel.enabled}
+              onChange={(e) => {
+                setRoutesText(e.target.value);
+                setMessage(null);
+              }}
+              rows={4}
+              placeholder="Downtown; Lakeside; 45"
+              style={{ padding: 8, borderRadius: 6, border: "1px solid #ddd", fontFamily: "inherit" }}
+            />
+          </label>
+        </fieldset>
+
+        {errors.length > 0 && (
+          <ul role="alert" style={{ margin: 0, paddingLeft: 18, color: "var(--danger,#b00020)", fontSize: 13 }}>
+            {errors.map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save scheduling
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -37,8 +37,17 @@ async function savePaymentSettings(settings: PaymentSettings): Promise<void> {
         setTimeout(() => reject(new Error("localStorage not available")), 0);
         return;
       }
+      const before = loadPaymentSettings();
       const payload = JSON.stringify(settings);
       localStorage.setItem(STORAGE_KEYS.PAYMENT, payload);
+      recordAudit({
+        action: "settings.changed",
+        entityType: "settings",
+        entityId: "payment",
+        summary: "Payment settings changed",
+        before,
+        after: settings,
+      });
       setTimeout(() => resolve(), 200);
     } catch (err) {
       reject(err);
@@ -53,8 +62,17 @@ async function saveReminderTemplates(templates: ReminderTemplates): Promise<void
         setTimeout(() => reject(new Error("localStorage not available")), 0);
         return;
       }
+      const before = loadReminderTemplates();
       const payload = JSON.stringify(templates);
       localStorage.setItem(STORAGE_KEYS.TEMPLATES, payload);
+      recordAudit({
+        action: "settings.changed",
+        entityType: "settings",
+        entityId: "reminder_templates",
+        summary: "Reminder templates changed",
+        before,
+        after: templates,
+      });
       setTimeout(() => resolve(), 200);
     } catch (err) {
       reject(err);
@@ -98,6 +116,7 @@ export default function SettingsPage(): JSX.Element {
 
   const [savingPayment, setSavingPayment] = useState(false);
   const [savingTemplates, setSavingTemplates] = useState(false);
+  const canEditSettings = staffCan("settings.edit");
 
   const [paymentMessage, setPaymentMessage] = useState<string | null>(null);
   const [templatesMessage, setTemplatesMessage] = useState<string | null>(null);
@@ -163,8 +182,10 @@ export default function SettingsPage(): JSX.Element {
       errs.push("Tax percentage must be between 0 and 100.");
     if (!Array.isArray(p.acceptedMethods) || p.acceptedMethods.length === 0)
       errs.push("At least one accepted payment method must be selected.");
-    if (!["manual", "stripe", "square"].includes(p.provider))
-      errs.push("Payment provider is invalid.");
+    const provider = getPaymentProvider(p.provider);
+    if (!provider) errs.push("Payment provider is invalid.");
+    else if (provider.flow === "card" && !p.acceptedMethods.includes("card"))
+      errs.push(`${provider.label} takes cards, so Card must be an accepted method.`);
     return errs;
   }
 
@@ -312,414 +333,429 @@ export default function SettingsPage(): JSX.Element {
         Settings
       </h1>
       <p style={{ marginTop: 0, marginBottom: "1rem", color: "var(--muted,#555)" }}>
-        Configure payment preferences and reminder message templates. Changes are saved
-        to your browser.
+        Configure payment preferences, reminder message templates, notification channels, business hours and
+        scheduling rules.
+        Changes are saved to your browser.
       </p>
 
-      <section
-        aria-labelledby="payment-settings-heading"
-        style={{
-          marginBottom: "1.5rem",
-          background: "var(--card-bg,#fff)",
-          padding: "1rem",
-          borderRadius: 8,
-          boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
-        }}
-      >
-        <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-          <h2 id="payment-settings-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
-            Payment Settings
-          </h2>
-          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-            <button
-              type="button"
-              onClick={restorePaymentDefaults}
-              aria-label="Restore default payment settings"
-              style={{
-                fontSize: 13,
-                padding: "6px 10px",
-                background: "transparent",
-                border: "1px solid var(--muted,#ccc)",
-                borderRadius: 6,
-                cursor: "pointer",
-              }}
-            >
-              Restore defaults
-            </button>
-            <button
-              type="button"
-              onClick={handleSavePayment}
-              disabled={savingPayment}
-              aria-disabled={savingPayment}
-              style={{
-                fontSize: 13,
-                padding: "6px 10px",
-                background: savingPayment ? "var(--muted,#ddd)" : "var(--primary,#007bff)",
-                color: savingPayment ? "#333" : "#fff",
-                border: "none",
-                borderRadius: 6,
-                cursor: savingPayment ? "default" : "pointer",
-              }}
-            >
-              {savingPayment ? "Saving?" : "Save"}
-            </button>
+      {!canEditSettings && (
+        <p role="note" style={{ marginTop: 0, marginBottom: "1rem", fontSize: 13, color: "#92400e" }}>
+          Your role can view settings but not change them.
+        </p>
+      )}
+
+      <fieldset disabled={!canEditSettings} style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+        <section
+          aria-labelledby="payment-settings-heading"
+          style={{
+            marginBottom: "1.5rem",
+            background: "var(--card-bg,#fff)",
+            padding: "1rem",
+            borderRadius: 8,
+            boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+          }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+            <h2 id="payment-settings-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+              Payment Settings
+            </h2>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <button
+                type="button"
+                onClick={restorePaymentDefaults}
+                aria-label="Restore default payment settings"
+                style={{
+                  fontSize: 13,
+                  padding: "6px 10px",
+                  background: "transparent",
+                  border: "1px solid var(--muted,#ccc)",
+                  borderRadius: 6,
+                  cursor: "pointer",
+                }}
+              >
+                Restore defaults
+              </button>
+              <button
+                type="button"
+                onClick={handleSavePayment}
+                disabled={savingPayment}
+                aria-disabled={savingPayment}
+                style={{
+                  fontSize: 13,
+                  padding: "6px 10px",
+                  background: savingPayment ? "var(--muted,#ddd)" : "var(--primary,#007bff)",
+                  color: savingPayment ? "#333" : "#fff",
+                  border: "none",
+                  borderRadius: 6,
+                  cursor: savingPayment ? "default" : "pointer",
+                }}
+              >
+                {savingPayment ? "Saving?" : "Save"}
+              </button>
+            </div>
           </div>
-        </div>
 
-        <form onSubmit={handleSavePayment} aria-describedby="payment-note" style={{ marginTop: 12 }}>
-          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Currency
-              <input
-                name="currency"
-                value={payment.currency}
-                onChange={(e) => setPayment({ ...payment, currency: e.target.value })}
-                style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Currency"
-              />
-            </label>
+          <form onSubmit={handleSavePayment} aria-describedby="payment-note" style={{ marginTop: 12 }}>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+              <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Currency
+                <input
+                  name="currency"
+                  value={payment.currency}
+                  onChange={(e) => setPayment({ ...payment, currency: e.target.value })}
+                  style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
+                  aria-label="Currency"
+                />
+              </label>
+
+              <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Provider
+                <select
+                  value={payment.provider}
+                  onChange={(e) =>
+                    setPayment({
+                      ...payment,
+                      provider: e.target.value as PaymentSettings["provider"],
+                    })
+                  }
+                  style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
+                  aria-label="Payment provider"
+                >
+                  {listPaymentProviders().map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Deposit
+                <a href="#payment-schedule-heading" style={{ marginTop: 6, padding: "8px 0" }}>
+                  Set the deposit and installments below
+                </a>
+              </div>
 
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Provider
-              <select
-                value={payment.provider}
-                onChange={(e) =>
-                  setPayment({
-                    ...payment,
-                    provider: e.target.value as PaymentSettings["provider"],
-                  })
-                }
-                style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Payment provider"
-              >
-                <option value="manual">Manual / other</option>
-                <option value="stripe">Stripe</option>
-                <option value="square">Square</option>
-              </select>
-            </label>
+              <div style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Tax
+                <a href="#tax-heading" style={{ marginTop: 6, padding: "8px 0" }}>
+                  Set up tax rates below
+                </a>
+              </div>
+            </div>
 
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Deposit percent (%)
-              <input
-                type="number"
-                min={0}
-                max={100}
-                value={payment.depositPercent}
-                onChange={(e) =>
-                  setPayment({ ...payment, depositPercent: Number(e.target.value) || 0 })
-                }
-                style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Deposit percent"
-              />
-            </label>
+            <fieldset style={{ marginTop: 12, border: "none", padding: 0 }}>
+              <legend style={{ fontSize: 13, marginBottom: 6 }}>Accepted payment methods</legend>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {[
+                  { id: "card", label: "Card" },
+                  { id: "cash", label: "Cash" },
+                  { id: "invoice", label: "Invoice" },
+                ].map((m) => (
+                  <label
+                    key={m.id}
+                    style={{
+                      display: "inline-flex",
+                      alignItems: "center",
+                      gap: 8,
+                      padding: "6px 8px",
+                      borderRadius: 6,
+                      border: "1px solid #ddd",
+                      cursor: "pointer",
+                      background: payment.acceptedMethods.includes(m.id) ? "var(--primary,#e6f0ff)" : "transparent",
+                      fontSize: 13,
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={payment.acceptedMethods.includes(m.id)}
+                      onChange={() => toggleMethod(m.id)}
+                      aria-checked={payment.acceptedMethods.includes(m.id)}
+                      style={{ width: 16, height: 16 }}
+                    />
+                    {m.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
 
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Tax percent (%)
+            <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
               <input
-                type="number"
-                min={0}
-                max={100}
-                value={payment.taxPercent}
-                onChange={(e) => setPayment({ ...payment, taxPercent: Number(e.target.value) || 0 })}
-                style={{ marginTop: 6, padding: "8px 10px", borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Tax percent"
+                type="checkbox"
+                checked={payment.requireCard}
+                onChange={(e) => setPayment({ ...payment, requireCard: e.target.checked })}
+                aria-checked={payment.requireCard}
               />
+              <span style={{ fontSize: 13 }}>Require card at booking</span>
             </label>
-          </div>
 
-          <fieldset style={{ marginTop: 12, border: "none", padding: 0 }}>
-            <legend style={{ fontSize: 13, marginBottom: 6 }}>Accepted payment methods</legend>
-            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-              {[
-                { id: "card", label: "Card" },
-                { id: "cash", label: "Cash" },
-                { id: "invoice", label: "Invoice" },
-              ].map((m) => (
-                <label
-                  key={m.id}
-                  style={{
-                    display: "inline-flex",
-                    alignItems: "center",
-                    gap: 8,
-                    padding: "6px 8px",
-                    borderRadius: 6,
-                    border: "1px solid #ddd",
-                    cursor: "pointer",
-                    background: payment.acceptedMethods.includes(m.id) ? "var(--primary,#e6f0ff)" : "transparent",
-                    fontSize: 13,
-                  }}
-                >
-                  <input
-                    type="checkbox"
-                    checked={payment.acceptedMethods.includes(m.id)}
-                    onChange={() => toggleMethod(m.id)}
-                    aria-checked={payment.acceptedMethods.includes(m.id)}
-                    style={{ width: 16, height: 16 }}
-                  />
-                  {m.label}
-                </label>
-              ))}
+            <div id="payment-note" style={{ marginTop: 10, color: "var(--muted,#666)", fontSize: 13 }}>
+              Tip: The manual provider asks customers to upload proof of payment. The test card gateway
+              takes cards locally (use 4242 4242 4242 4242) ? no external APIs are called.
+            </div>
+
+            {paymentErrors.length > 0 && (
+              <div aria-live="assertive" style={{ marginTop: 10 }}>
+                <ul style={{ color: "var(--danger,#b00020)", paddingLeft: 18, margin: 0 }}>
+                  {paymentErrors.map((err, i) => (
+                    <li key={i}>{err}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {paymentMessage && (
+              <div
+                role="status"
+                aria-live="polite"
+                style={{
+                  marginTop: 10,
+                  color: paymentMessage.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+                  fontSize: 13,
+                }}
+              >
+                {paymentMessage}
+              </div>
+            )}
+          </form>
+        </section>
+
+        <section
+          aria-labelledby="templates-heading"
+          style={{
+            marginBottom: "2rem",
+            background: "var(--card-bg,#fff)",
+            padding: "1rem",
+            borderRadius: 8,
+            boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+          }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+            <h2 id="templates-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+              Reminder & Message Templates
+            </h2>
+            <div style={{ display: "flex", gap: 8 }}>
+              <button
+                type="button"
+                onClick={restoreTemplateDefaults}
+                aria-label="Restore default templates"
+                style={{
+                  fontSize: 13,
+                  padding: "6px 10px",
+                  background: "transparent",
+                  border: "1px solid var(--muted,#ccc)",
+                  borderRadius: 6,
+                  cursor: "pointer",
+                }}
+              >
+                Restore defaults
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveTemplates}
+                disabled={savingTemplates}
+                aria-disabled={savingTemplates}
+                style={{
+                  fontSize: 13,
+                  padding: "6px 10px",
+                  background: savingTemplates ? "var(--muted,#ddd)" : "var(--primary,#007bff)",
+                  color: savingTemplates ? "#333" : "#fff",
+                  border: "none",
+                  borderRadius: 6,
+                  cursor: savingTemplates ? "default" : "pointer",
+                }}
+              >
+                {savingTemplates ? "Saving?" : "Save"}
+              </button>
             </div>
-          </fieldset>
-
-          <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
-            <input
-              type="checkbox"
-              checked={payment.requireCard}
-              onChange={(e) => setPayment({ ...payment, requireCard: e.target.checked })}
-              aria-checked={payment.requireCard}
-            />
-            <span style={{ fontSize: 13 }}>Require card at booking</span>
-          </label>
-
-          <div id="payment-note" style={{ marginTop: 10, color: "var(--muted,#666)", fontSize: 13 }}>
-            Tip: When using a provider (Stripe/Square) you can record card details. This app stores
-            only configuration and templates locally ? no external APIs are called.
           </div>
 
-          {paymentErrors.length > 0 && (
-            <div aria-live="assertive" style={{ marginTop: 10 }}>
-              <ul style={{ color: "var(--danger,#b00020)", paddingLeft: 18, margin: 0 }}>
-                {paymentErrors.map((err, i) => (
-                  <li key={i}>{err}</li>
-                ))}
-              </ul>
+          <form onSubmit={handleSaveTemplates} style={{ marginTop: 12 }}>
+            <div style={{ display: "grid", gap: 12 }}>
+              <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Confirmation message
+                <textarea
+                  value={templates.confirmation}
+                  onChange={(e) => setTemplates({ ...templates, confirmation: e.target.value })}
+                  rows={3}
+                  style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
+                  aria-label="Confirmation message template"
+                />
+              </label>
+
+              <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                24-hour reminder
+                <textarea
+                  value={templates.reminder24h}
+                  onChange={(e) => setTemplates({ ...templates, reminder24h: e.target.value })}
+                  rows={2}
+                  style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
+                  aria-label="24 hour reminder template"
+                />
+              </label>
+
+              <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
+                Follow-up message
+                <textarea
+                  value={templates.followup}
+                  onChange={(e) => setTemplates({ ...templates, followup: e.target.value })}
+                  rows={2}
+                  style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
+                  aria-label="Follow up message template"
+                />
+              </label>
+            </div>
+
+            <div style={{ marginTop: 12, display: "flex", gap: 12, flexWrap: "wrap" }}>
+              <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>
+                Use placeholders:{" "}
+                <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
+                  {"{{name}}"}
+                </code>{" "}
+                <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
+                  {"{{date}}"}
+                </code>{" "}
+                <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
+                  {"{{time}}"}
+                </code>{" "}
+                <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
+                  {"{{location}}"}
+                </code>{" "}
+                <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
+                  {"{{amount}}"}
+                </code>
+              </div>
             </div>
-          )}
 
-          {paymentMessage && (
+            {templatesErrors.length > 0 && (
+              <div aria-live="assertive" style={{ marginTop: 10 }}>
+                <ul style={{ color: "var(--danger,#b00020)", paddingLeft: 18, margin: 0 }}>
+                  {templatesErrors.map((err, i) => (
+                    <li key={i}>{err}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {templatesMessage && (
+              <div
+                role="status"
+                aria-live="polite"
+                style={{
+                  marginTop: 10,
+                  color: templatesMessage.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+                  fontSize: 13,
+                }}
+              >
+                {templatesMessage}
+              </div>
+            )}
+          </form>
+
+          <div style={{ marginTop: 14 }}>
+            <h3 style={{ margin: "0 0 8px 0", fontSize: 14 }}>Preview</h3>
             <div
-              role="status"
               aria-live="polite"
               style={{
-                marginTop: 10,
-                color: paymentMessage.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
-                fontSize: 13,
+                background: "#fafafa",
+                padding: 12,
+                borderRadius: 8,
+                border: "1px solid #eee",
+                display: "grid",
+                gap: 8,
               }}
             >
-              {paymentMessage}
+              <div>
+                <strong style={{ display: "block", fontSize: 13 }}>Confirmation</strong>
+                <div style={{ marginTop: 6, fontSize: 13 }}>
+                  {replaceTokens(templates.confirmation, sample)}
+                </div>
+              </div>
+
+              <div>
+                <strong style={{ display: "block", fontSize: 13 }}>24-hour reminder</strong>
+                <div style={{ marginTop: 6, fontSize: 13 }}>
+                  {replaceTokens(templates.reminder24h, sample)}
+                </div>
+              </div>
+
+              <div>
+                <strong style={{ display: "block", fontSize: 13 }}>Follow-up</strong>
+                <div style={{ marginTop: 6, fontSize: 13 }}>
+                  {replaceTokens(templates.followup, sample)}
+                </div>
+              </div>
             </div>
-          )}
-        </form>
-      </section>
-
-      <section
-        aria-labelledby="templates-heading"
-        style={{
-          marginBottom: "2rem",
-          background: "var(--card-bg,#fff)",
-          padding: "1rem",
-          borderRadius: 8,
-          boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
-        }}
-      >
-        <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-          <h2 id="templates-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
-            Reminder & Message Templates
-          </h2>
+          </div>
+        </section>
+
+        <BusinessHoursSettingsSection />
+
+        <SchedulingSettingsSection />
+
+        <PricingRulesSettingsSection />
+
+        <PromoCodesSettingsSection />
+
+        <TaxSettingsSection legacyTaxPercent={payment.taxPercent} />
+
+        <PaymentScheduleSettingsSection legacyDepositPercent={payment.depositPercent} />
+
+        <InvoiceSettingsSection />
+
+        <CustomerLoginSettingsSection />
+
+        <NotificationSettingsSection />
+
+        <footer style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>
+            {hasUnsavedChanges ? "You have unsaved changes." : "All changes saved."}
+          </div>
           <div style={{ display: "flex", gap: 8 }}>
             <button
               type="button"
-              onClick={restoreTemplateDefaults}
-              aria-label="Restore default templates"
+              onClick={handleSaveAll}
+              disabled={savingPayment || savingTemplates}
               style={{
                 fontSize: 13,
-                padding: "6px 10px",
-                background: "transparent",
-                border: "1px solid var(--muted,#ccc)",
+                padding: "8px 12px",
+                background: "var(--primary,#007bff)",
+                color: "#fff",
+                border: "none",
                 borderRadius: 6,
-                cursor: "pointer",
+                cursor: savingPayment || savingTemplates ? "default" : "pointer",
               }}
+              aria-disabled={savingPayment || savingTemplates}
             >
-              Restore defaults
+              {savingPayment || savingTemplates ? "Saving?" : "Save all"}
             </button>
+
             <button
               type="button"
-              onClick={handleSaveTemplates}
-              disabled={savingTemplates}
-              aria-disabled={savingTemplates}
+              onClick={() => {
+                // reset to last saved (from storage)
+                const persistedPayment = loadPaymentSettings();
+                const persistedTemplates = loadReminderTemplates();
+                setPayment(persistedPayment);
+                setTemplates(persistedTemplates);
+                initialRef.current.payment = JSON.stringify(persistedPayment);
+                initialRef.current.templates = JSON.stringify(persistedTemplates);
+              }}
               style={{
                 fontSize: 13,
-                padding: "6px 10px",
-                background: savingTemplates ? "var(--muted,#ddd)" : "var(--primary,#007bff)",
-                color: savingTemplates ? "#333" : "#fff",
-                border: "none",
+                padding: "8px 12px",
+                background: "transparent",
+                color: "var(--muted,#333)",
+                border: "1px solid #ddd",
                 borderRadius: 6,
-                cursor: savingTemplates ? "default" : "pointer",
+                cursor: "pointer",
               }}
             >
-              {savingTemplates ? "Saving?" : "Save"}
+              Revert
             </button>
           </div>
-        </div>
-
-        <form onSubmit={handleSaveTemplates} style={{ marginTop: 12 }}>
-          <div style={{ display: "grid", gap: 12 }}>
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Confirmation message
-              <textarea
-                value={templates.confirmation}
-                onChange={(e) => setTemplates({ ...templates, confirmation: e.target.value })}
-                rows={3}
-                style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Confirmation message template"
-              />
-            </label>
-
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              24-hour reminder
-              <textarea
-                value={templates.reminder24h}
-                onChange={(e) => setTemplates({ ...templates, reminder24h: e.target.value })}
-                rows={2}
-                style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="24 hour reminder template"
-              />
-            </label>
-
-            <label style={{ display: "flex", flexDirection: "column", fontSize: 13 }}>
-              Follow-up message
-              <textarea
-                value={templates.followup}
-                onChange={(e) => setTemplates({ ...templates, followup: e.target.value })}
-                rows={2}
-                style={{ marginTop: 6, padding: 8, borderRadius: 6, border: "1px solid #ccc" }}
-                aria-label="Follow up message template"
-              />
-            </label>
-          </div>
-
-          <div style={{ marginTop: 12, display: "flex", gap: 12, flexWrap: "wrap" }}>
-            <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>
-              Use placeholders:{" "}
-              <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
-                {"{{name}}"}
-              </code>{" "}
-              <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
-                {"{{date}}"}
-              </code>{" "}
-              <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
-                {"{{time}}"}
-              </code>{" "}
-              <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
-                {"{{location}}"}
-              </code>{" "}
-              <code style={{ background: "#f5f5f5", padding: "2px 6px", borderRadius: 4 }}>
-                {"{{amount}}"}
-              </code>
-            </div>
-          </div>
-
-          {templatesErrors.length > 0 && (
-            <div aria-live="assertive" style={{ marginTop: 10 }}>
-              <ul style={{ color: "var(--danger,#b00020)", paddingLeft: 18, margin: 0 }}>
-                {templatesErrors.map((err, i) => (
-                  <li key={i}>{err}</li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {templatesMessage && (
-            <div
-              role="status"
-              aria-live="polite"
-              style={{
-                marginTop: 10,
-                color: templatesMessage.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
-                fontSize: 13,
-              }}
-            >
-              {templatesMessage}
-            </div>
-          )}
-        </form>
-
-        <div style={{ marginTop: 14 }}>
-          <h3 style={{ margin: "0 0 8px 0", fontSize: 14 }}>Preview</h3>
-          <div
-            aria-live="polite"
-            style={{
-              background: "#fafafa",
-              padding: 12,
-              borderRadius: 8,
-              border: "1px solid #eee",
-              display: "grid",
-              gap: 8,
-            }}
-          >
-            <div>
-              <strong style={{ display: "block", fontSize: 13 }}>Confirmation</strong>
-              <div style={{ marginTop: 6, fontSize: 13 }}>
-                {replaceTokens(templates.confirmation, sample)}
-              </div>
-            </div>
-
-            <div>
-              <strong style={{ display: "block", fontSize: 13 }}>24-hour reminder</strong>
-              <div style={{ marginTop: 6, fontSize: 13 }}>
-                {replaceTokens(templates.reminder24h, sample)}
-              </div>
-            </div>
-
-            <div>
-              <strong style={{ display: "block", fontSize: 13 }}>Follow-up</strong>
-              <div style={{ marginTop: 6, fontSize: 13 }}>
-                {replaceTokens(templates.followup, sample)}
-              </div>
-            </div>
-          </div>
-        </div>
-      </section>
-
-      <footer style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-        <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>
-          {hasUnsavedChanges ? "You have unsaved changes." : "All changes saved."}
-        </div>
-        <div style={{ display: "flex", gap: 8 }}>
-          <button
-            type="button"
-            onClick={handleSaveAll}
-            disabled={savingPayment || savingTemplates}
-            style={{
-              fontSize: 13,
-              padding: "8px 12px",
-              background: "var(--primary,#007bff)",
-              color: "#fff",
-              border: "none",
-              borderRadius: 6,
-              cursor: savingPayment || savingTemplates ? "default" : "pointer",
-            }}
-            aria-disabled={savingPayment || savingTemplates}
-          >
-            {savingPayment || savingTemplates ? "Saving?" : "Save all"}
-          </button>
-
-          <button
-            type="button"
-            onClick={() => {
-              // reset to last saved (from storage)
-              const persistedPayment = loadPaymentSettings();
-              const persistedTemplates = loadReminderTemplates();
-              setPayment(persistedPayment);
-              setTemplates(persistedTemplates);
-              initialRef.current.payment = JSON.stringify(persistedPayment);
-              initialRef.current.templates = JSON.stringify(persistedTemplates);
-            }}
-            style={{
-              fontSize: 13,
-              padding: "8px 12px",
-              background: "transparent",
-              color: "var(--muted,#333)",
-              border: "1px solid #ddd",
-              borderRadius: 6,
-              cursor: "pointer",
-            }}
-          >
-            Revert
-          </button>
-        </div>
-      </footer>
+        </footer>
+      </fieldset>
     </main>
   );
 }
@@ -0,0 +1,180 @@
+const SLOT_HOLDS_KEY = 'pb_slot_holds_v1';
+const SLOT_HOLDS_CHANGE_EVENT = 'pb:slot-holds-changed';
+
+registerStorageKeys([SLOT_HOLDS_KEY]);
+
+/**
+ * A tentative claim on a slot while a customer checks out. Availability checks treat it as a
+ * booking until it expires, is released, or is converted by createBooking.
+ */
+export interface SlotHold {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  packageId: string | null;
+  location: string | null;
+}
+
+export interface SlotHoldRequest {
+  start: Date | string;
+  durationMinutes: number;
+  packageId?: string | null;
+  location?: string | null;
+  /** Overrides the checkout hold time from the scheduling settings. */
+  ttlMinutes?: number;
+}
+
+function generateId(): string {
+  return 'hold_' + Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+}
+
+function normalizeHold(raw: any): SlotHold | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string') return null;
+  const start = new Date(raw.start);
+  const end = new Date(raw.end);
+  const expiresAt = new Date(raw.expiresAt);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || isNaN(expiresAt.getTime())) return null;
+  return {
+    id: raw.id,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : expiresAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    start: start.toISOString(),
+    end: end.toISOString(),
+    durationMinutes: Number(raw.durationMinutes) > 0 ? Math.round(Number(raw.durationMinutes)) : 60,
+    packageId: typeof raw.packageId === 'string' && raw.packageId ? raw.packageId : null,
+    location: typeof raw.location === 'string' && raw.location ? raw.location : null,
+  };
+}
+
+/* Stored holds minus the ones that have expired */
+function readHolds(now: number = Date.now()): SlotHold[] {
+  const raw = getItem<unknown[]>(SLOT_HOLDS_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeHold)
+    .filter((h): h is SlotHold => h !== null && new Date(h.expiresAt).getTime() > now);
+}
+
+function saveHolds(holds: SlotHold[]): void {
+  setItem(SLOT_HOLDS_KEY, holds);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(SLOT_HOLDS_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+export function getActiveSlotHolds(): SlotHold[] {
+  return readHolds();
+}
+
+export function getSlotHold(id: string): SlotHold | null {
+  return readHolds().find((h) => h.id === id) ?? null;
+}
+
+/* Whether `a` was taken before `b`; ids break ties so two tabs always agree */
+function heldBefore(a: SlotHold, b: SlotHold): boolean {
+  return a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.id < b.id);
+}
+
+/**
+ * createSlotHold(request: SlotHoldRequest): Promise<SlotHold>
+ * Holds the slot for the checkout hold time when it is still free (other holds count as taken).
+ * Expired holds are pruned on every write.
+ * Another tab can hold an overlapping slot while availability is being checked; the holds are
+ * read again after writing and the newer one is dropped, so only one of them stands.
+ */
+export async function createSlotHold(request: SlotHoldRequest): Promise<SlotHold> {
+  const start = new Date(request.start);
+  if (isNaN(start.getTime())) throw new Error('Invalid hold start');
+  if (!(request.durationMinutes > 0)) throw new Error('durationMinutes must be a positive number');
+  const durationMinutes = Math.round(request.durationMinutes);
+  const seen = new Set(readHolds().map((h) => h.id));
+  const available = await checkAvailability(start, durationMinutes, request.packageId ?? undefined, {
+    location: request.location ?? null,
+  });
+  if (!available) throw new Error('That time slot is no longer available');
+
+  const now = Date.now();
+  const ttlMinutes = request.ttlMinutes ?? getSchedulingSettings().checkoutHoldMinutes;
+  const hold: SlotHold = {
+    id: generateId(),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMinutes * 60000).toISOString(),
+    start: start.toISOString(),
+    end: new Date(start.getTime() + durationMinutes * 60000).toISOString(),
+    durationMinutes,
+    packageId: request.packageId ?? null,
+    location: request.location ?? null,
+  };
+  saveHolds(readHolds(now).concat(hold));
+
+  // Holds written meanwhile were not part of the check; an older overlapping one wins
+  const end = new Date(hold.end).getTime();
+  const raced = readHolds().some(
+    (h) =>
+      !seen.has(h.id) &&
+      h.id !== hold.id &&
+      heldBefore(h, hold) &&
+      new Date(h.start).getTime() < end &&
+      new Date(h.end).getTime() > start.getTime()
+  );
+  if (raced) {
+    releaseSlotHold(hold.id);
+    throw new Error('That time slot is no longer available');
+  }
+  return hold;
+}
+
+/**
+ * Gives up a hold, e.g. when the customer leaves the summary page. Unknown or expired ids are ignored.
+ */
+export function releaseSlotHold(id: string): void {
+  const holds = readHolds();
+  const next = holds.filter((h) => h.id !== id);
+  if (next.length !== holds.length) saveHolds(next);
+}
+
+/**
+ * Slots held at checkout, shaped as bookings so the availability engine treats them as taken.
+ * `excludeHoldId` leaves out the caller's own hold.
+ */
+export function getSlotHoldBookings(excludeHoldId?: string): Booking[] {
+  return readHolds()
+    .filter((h) => h.id !== excludeHoldId)
+    .map((h) => ({
+      id: `hold:${h.id}`,
+      reference: '',
+      createdAt: h.createdAt,
+      updatedAt: h.createdAt,
+      start: h.start,
+      end: h.end,
+      durationMinutes: h.durationMinutes,
+      packageId: h.packageId,
+      customer: null,
+      status: 'booked' as BookingStatus,
+      statusHistory: [],
+      price: null,
+      notes: null,
+      location: h.location,
+    }));
+}
+
+/**
+ * Subscribe to hold changes from this tab and other tabs (via storage events). Returns an unsubscribe function.
+ */
+export function subscribeToSlotHolds(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === SLOT_HOLDS_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(SLOT_HOLDS_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(SLOT_HOLDS_CHANGE_EVENT, listener);
+  };
+}
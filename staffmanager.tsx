@@ -0,0 +1,219 @@
+const ROLE_OPTIONS: StaffRole[] = ["owner", "manager", "attendant", "read_only"];
+
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: "1px solid #ddd", fontSize: 13 };
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+const cellStyle: React.CSSProperties = { padding: "8px 6px", borderTop: "1px solid #f1f5f9", textAlign: "left" };
+
+function formatDateTime(iso: string | null): string {
+  if (!iso) return "never";
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+/**
+ * Staff accounts: who can sign in to the admin, with which role, and their PINs.
+ */
+export default function StaffManager(): JSX.Element {
+  const [staff, setStaff] = useState<StaffMember[]>(() => listStaff());
+  const [me, setMe] = useState<StaffMember | null>(() => getCurrentStaff());
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<StaffRole>("attendant");
+  const [pin, setPin] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [pinRequest, setPinRequest] = useState<PinConfirmRequest | null>(null);
+
+  useEffect(() => {
+    return subscribeToStaff(() => {
+      setStaff(listStaff());
+      setMe(getCurrentStaff());
+    });
+  }, []);
+
+  function run(action: () => unknown, done: string) {
+    try {
+      action();
+      setStaff(listStaff());
+      setMessage(done);
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not update the account"}.`);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      const created = await createStaffAccount({ name, email, role, pin });
+      setName("");
+      setEmail("");
+      setPin("");
+      setStaff(listStaff());
+      setMessage(`${created.name} can now sign in.`);
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not add the account"}.`);
+    }
+  }
+
+  async function handleResetPin(member: StaffMember) {
+    const next = typeof window !== "undefined" ? window.prompt(`New PIN for ${member.name} (at least 4 characters)`) : null;
+    if (!next) return;
+    try {
+      await setStaffPin(member.id, next);
+      setMessage(`PIN changed for ${member.name}.`);
+    } catch (err: any) {
+      setMessage(`Failed: ${err?.message || "could not change the PIN"}.`);
+    }
+  }
+
+  function handleDelete(member: StaffMember) {
+    setPinRequest({
+      title: `Delete ${member.name}'s account`,
+      description: "Deactivating instead keeps their name on past records.",
+      action: () =>
+        run(() => {
+          consumeStaffReauth("delete a staff account");
+          deleteStaffAccount(member.id);
+        }, "Account deleted."),
+    });
+  }
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 16,
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+        color: "var(--text, #0f172a)",
+      }}
+      role="main"
+    >
+      <header style={{ marginBottom: 16 }}>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Staff</h1>
+        <p style={{ margin: 0, color: "#6b7280", fontSize: 13 }}>
+          Owners manage staff; managers run bookings, payments and settings; attendants see bookings, take
+          payments and complete events; read-only accounts can only look.
+        </p>
+      </header>
+
+      {message && (
+        <div
+          role="status"
+          aria-live="polite"
+          style={{ marginBottom: 12, fontSize: 14, color: message.includes("Failed") ? "#b91c1c" : "#166534" }}
+        >
+          {message}
+        </div>
+      )}
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginBottom: 24 }}>
+        <thead>
+          <tr style={{ color: "#6b7280" }}>
+            <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Name</th>
+            <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Role</th>
+            <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Status</th>
+            <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Last sign-in</th>
+            <th style={{ textAlign: "left", padding: "0 6px 6px" }}>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {staff.map((s) => {
+            const locked = !!s.lockedUntil && Date.parse(s.lockedUntil) > Date.now();
+            return (
+              <tr key={s.id}>
+                <td style={cellStyle}>
+                  <strong>{s.name}</strong>
+                  {s.id === me?.id ? " (you)" : ""}
+                  {s.email && <div style={{ color: "#6b7280" }}>{s.email}</div>}
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={s.role}
+                    onChange={(e) =>
+                      run(() => updateStaffAccount(s.id, { role: e.target.value as StaffRole }), "Role changed.")
+                    }
+                    style={inputStyle}
+                    aria-label={`Role for ${s.name}`}
+                  >
+                    {ROLE_OPTIONS.map((r) => (
+                      <option key={r} value={r}>
+                        {STAFF_ROLE_LABELS[r]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={{ ...cellStyle, color: locked ? "#991b1b" : s.active ? "#166534" : "#6b7280" }}>
+                  {locked
+                    ? `Locked until ${new Date(s.lockedUntil!).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                    : s.active
+                      ? "Active"
+                      : "Deactivated"}
+                </td>
+                <td style={cellStyle}>{formatDateTime(s.lastSignInAt)}</td>
+                <td style={{ ...cellStyle, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  <button onClick={() => void handleResetPin(s)}>Reset PIN</button>
+                  {locked && <button onClick={() => run(() => unlockStaffAccount(s.id), "Account unlocked.")}>Unlock</button>}
+                  <button
+                    onClick={() =>
+                      run(
+                        () => updateStaffAccount(s.id, { active: !s.active }),
+                        s.active ? "Account deactivated." : "Account reactivated."
+                      )
+                    }
+                    disabled={s.id === me?.id}
+                  >
+                    {s.active ? "Deactivate" : "Reactivate"}
+                  </button>
+                  <button onClick={() => handleDelete(s)} disabled={s.id === me?.id} style={{ color: "#dc2626" }}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <form
+        onSubmit={handleAdd}
+        aria-label="Add staff account"
+        style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}
+      >
+        <label style={fieldStyle}>
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} style={inputStyle} required />
+        </label>
+        <label style={fieldStyle}>
+          Email (optional)
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={fieldStyle}>
+          Role
+          <select value={role} onChange={(e) => setRole(e.target.value as StaffRole)} style={inputStyle}>
+            {ROLE_OPTIONS.map((r) => (
+              <option key={r} value={r}>
+                {STAFF_ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          PIN
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            style={{ ...inputStyle, width: 100 }}
+            minLength={4}
+            required
+          />
+        </label>
+        <button type="submit">Add account</button>
+      </form>
+
+      <PinConfirmDialog request={pinRequest} onClose={() => setPinRequest(null)} />
+    </div>
+  );
+}
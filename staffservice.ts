@@ -0,0 +1,568 @@
+const STAFF_KEY = 'pb_staff_accounts_v1';
+const STAFF_CHANGE_EVENT = 'pb:staff-changed';
+// Who is signed in on this device, so plain localStorage: other tabs see it through storage events
+const STAFF_SESSION_KEY = 'pb_staff_session_v1';
+// The single admin PIN used before staff accounts: authservice's and the setup wizard's
+const LEGACY_ADMIN_PIN_KEY = 'photobooth_admin_pin';
+const LEGACY_WIZARD_ADMIN_KEY = 'photobooth:admin';
+
+registerStorageKeys([STAFF_KEY]);
+
+const MAX_FAILED_PINS = 5;
+// Wait before the next try after a wrong PIN: 2, 4, 8, 16 seconds
+const PIN_BACKOFF_SECONDS = 2;
+// The first lockout lasts LOCKOUT_MINUTES; each further one without a correct PIN in between doubles it
+const LOCKOUT_MINUTES = 15;
+const MAX_LOCKOUT_HOURS = 24;
+const SESSION_HOURS = 12;
+export const STAFF_IDLE_MINUTES = 15;
+// A PIN re-entered for a sensitive action covers that one action, if it follows within this time
+const REAUTH_SECONDS = 60;
+// Activity refreshes the session at most this often, so typing does not write on every key
+const ACTIVITY_WRITE_SECONDS = 30;
+
+export type StaffRole = 'owner' | 'manager' | 'attendant' | 'read_only';
+
+export type StaffPermission =
+  | 'bookings.view'
+  | 'bookings.edit'
+  | 'bookings.complete'
+  | 'bookings.delete'
+  | 'payments.record'
+  | 'payments.refund'
+  | 'quotes.edit'
+  | 'packages.edit'
+  | 'settings.edit'
+  | 'audit.view'
+  | 'staff.manage';
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  attendant: 'Attendant',
+  read_only: 'Read-only',
+};
+
+/** Completes "... cannot ..." in permission errors. */
+export const STAFF_PERMISSION_LABELS: Record<StaffPermission, string> = {
+  'bookings.view': 'view bookings',
+  'bookings.edit': 'change bookings',
+  'bookings.complete': 'mark bookings completed',
+  'bookings.delete': 'delete bookings',
+  'payments.record': 'record payments',
+  'payments.refund': 'issue refunds',
+  'quotes.edit': 'edit quotes',
+  'packages.edit': 'edit packages and add-ons',
+  'settings.edit': 'change settings',
+  'audit.view': 'view the audit log',
+  'staff.manage': 'manage staff accounts',
+};
+
+/**
+ * Managers run the business day to day; only owners manage staff. Attendants work events:
+ * they see bookings, take payments on the day and mark events completed.
+ */
+export const STAFF_ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: Object.keys(STAFF_PERMISSION_LABELS) as StaffPermission[],
+  manager: [
+    'bookings.view',
+    'bookings.edit',
+    'bookings.complete',
+    'bookings.delete',
+    'payments.record',
+    'payments.refund',
+    'quotes.edit',
+    'packages.edit',
+    'settings.edit',
+    'audit.view',
+  ],
+  attendant: ['bookings.view', 'bookings.complete', 'payments.record'],
+  read_only: ['bookings.view'],
+};
+
+interface StaffAccount {
+  id: string;
+  name: string;
+  email: string | null;
+  role: StaffRole;
+  /** hashPin format; never leaves this module. */
+  pinHash: string;
+  active: boolean;
+  failedPinAttempts: number;
+  /** Earliest next PIN try after a wrong one (exponential backoff). */
+  nextPinAttemptAt?: string | null;
+  lockedUntil: string | null;
+  /** Lockouts since the last correct PIN; each one doubles the next. */
+  lockoutCount?: number;
+  lastSignInAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type StaffMember = Omit<StaffAccount, 'pinHash'>;
+
+export interface StaffInput {
+  name: string;
+  email?: string | null;
+  role: StaffRole;
+  pin: string;
+}
+
+interface StaffSession {
+  staffId: string;
+  startedAt: string;
+  expiresAt: number;
+  /** Ends the session after STAFF_IDLE_MINUTES without activity. */
+  lastActiveAt: number;
+  /** When the PIN was last re-entered for a sensitive action; cleared once used. */
+  reauthAt?: number | null;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return `staff_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function toMember(account: StaffAccount): StaffMember {
+  const { pinHash: _pinHash, ...member } = account;
+  return member;
+}
+
+function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && value in STAFF_ROLE_PERMISSIONS;
+}
+
+/* The old single PIN becomes the owner account, so nobody is locked out by the upgrade */
+function legacyOwner(): StaffAccount | null {
+  let pinHash: string | null = null;
+  try {
+    pinHash = localStorage.getItem(LEGACY_ADMIN_PIN_KEY);
+    if (!pinHash) {
+      const wizard = JSON.parse(localStorage.getItem(LEGACY_WIZARD_ADMIN_KEY) || 'null');
+      // pbkdf2$iterations$salt$hash, the same PBKDF2-SHA-256 derivation as hashPin
+      const parts = typeof wizard?.pinHash === 'string' ? wizard.pinHash.split('$') : [];
+      if (parts.length === 4 && parts[0] === 'pbkdf2') pinHash = `${parts[1]}.${parts[2]}.${parts[3]}`;
+    }
+  } catch {
+    pinHash = null;
+  }
+  if (!pinHash) return null;
+  const at = nowIso();
+  return {
+    id: generateId(),
+    name: 'Owner',
+    email: null,
+    role: 'owner',
+    pinHash,
+    active: true,
+    failedPinAttempts: 0,
+    lockedUntil: null,
+    lastSignInAt: null,
+    createdAt: at,
+    updatedAt: at,
+  };
+}
+
+function readAccounts(): StaffAccount[] {
+  const raw = getItem<StaffAccount[]>(STAFF_KEY);
+  const accounts = Array.isArray(raw)
+    ? raw.filter((a) => a && typeof a.id === 'string' && typeof a.pinHash === 'string' && isStaffRole(a.role))
+    : [];
+  if (accounts.length === 0) {
+    const owner = legacyOwner();
+    if (owner) {
+      saveAccounts([owner]);
+      return [owner];
+    }
+  }
+  return accounts;
+}
+
+function saveAccounts(accounts: StaffAccount[]): void {
+  setItem(STAFF_KEY, accounts);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(STAFF_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function updateAccount(id: string, update: (a: StaffAccount) => StaffAccount): StaffAccount {
+  const accounts = readAccounts();
+  const idx = accounts.findIndex((a) => a.id === id);
+  if (idx === -1) throw new Error('Staff account not found');
+  accounts[idx] = { ...update(accounts[idx]), updatedAt: nowIso() };
+  saveAccounts(accounts);
+  return accounts[idx];
+}
+
+function validatePin(pin: string): string {
+  const trimmed = typeof pin === 'string' ? pin.trim() : '';
+  if (trimmed.length < 4) throw new Error('PIN must be at least 4 characters');
+  if (/^(.)\1+$/.test(trimmed)) throw new Error('Please choose a less predictable PIN');
+  return trimmed;
+}
+
+/* Owners can only be removed, demoted or deactivated while another active owner remains */
+function assertOtherOwner(accounts: StaffAccount[], id: string): void {
+  if (!accounts.some((a) => a.id !== id && a.role === 'owner' && a.active)) {
+    throw new Error('There must always be an active owner');
+  }
+}
+
+function isSessionLive(session: StaffSession, now = Date.now()): boolean {
+  const lastActive = typeof session.lastActiveAt === 'number' ? session.lastActiveAt : Date.parse(session.startedAt);
+  return session.expiresAt > now && now - lastActive <= STAFF_IDLE_MINUTES * 60000;
+}
+
+/* Also returns idle or expired sessions; readSession filters them out */
+function readStoredSession(): StaffSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STAFF_SESSION_KEY) || 'null') as StaffSession | null;
+    return session && typeof session.staffId === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function readSession(): StaffSession | null {
+  const session = readStoredSession();
+  return session && isSessionLive(session) ? session : null;
+}
+
+function writeSession(session: StaffSession | null): void {
+  if (session) localStorage.setItem(STAFF_SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(STAFF_SESSION_KEY);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(STAFF_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+/** Everyone, owners first. */
+export function listStaff(): StaffMember[] {
+  const order: StaffRole[] = ['owner', 'manager', 'attendant', 'read_only'];
+  return readAccounts()
+    .sort((a, b) => order.indexOf(a.role) - order.indexOf(b.role) || a.name.localeCompare(b.name))
+    .map(toMember);
+}
+
+export function getStaffMember(id: string): StaffMember | null {
+  const account = readAccounts().find((a) => a.id === id);
+  return account ? toMember(account) : null;
+}
+
+/** False on a fresh install: the first account is created by the setup wizard. */
+export function hasStaffAccounts(): boolean {
+  return readAccounts().length > 0;
+}
+
+/** The staff member signed in on this device, or null. */
+export function getCurrentStaff(): StaffMember | null {
+  const session = readSession();
+  if (!session) return null;
+  const member = getStaffMember(session.staffId);
+  return member && member.active ? member : null;
+}
+
+/** Whether the staff member (default: the signed-in one) may do this. */
+export function staffCan(permission: StaffPermission, staff: StaffMember | null = getCurrentStaff()): boolean {
+  return !!staff && STAFF_ROLE_PERMISSIONS[staff.role].includes(permission);
+}
+
+/**
+ * requireStaffPermission(permission: StaffPermission): StaffMember
+ * Guards an admin action; throws when nobody is signed in or their role does not allow it.
+ */
+export function requireStaffPermission(permission: StaffPermission): StaffMember {
+  const staff = getCurrentStaff();
+  if (!staff) throw new Error('Please sign in as staff first');
+  if (!staffCan(permission, staff)) {
+    throw new Error(`Your role (${STAFF_ROLE_LABELS[staff.role]}) cannot ${STAFF_PERMISSION_LABELS[permission]}`);
+  }
+  return staff;
+}
+
+/**
+ * createStaffAccount(input: StaffInput): Promise<StaffMember>
+ * Needs staff.manage, except for the first account, which must be an owner.
+ */
+export async function createStaffAccount(input: StaffInput): Promise<StaffMember> {
+  const accounts = readAccounts();
+  if (accounts.length > 0) requireStaffPermission('staff.manage');
+  else if (input.role !== 'owner') throw new Error('The first account must be an owner');
+  const name = (input.name || '').trim();
+  if (!name) throw new Error('Name is required');
+  if (!isStaffRole(input.role)) throw new Error('Unknown role');
+  if (accounts.some((a) => a.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error('Another account already has this name');
+  }
+  const pinHash = await hashPin(validatePin(input.pin));
+  const at = nowIso();
+  const account: StaffAccount = {
+    id: generateId(),
+    name,
+    email: input.email?.trim() || null,
+    role: input.role,
+    pinHash,
+    active: true,
+    failedPinAttempts: 0,
+    lockedUntil: null,
+    lastSignInAt: null,
+    createdAt: at,
+    updatedAt: at,
+  };
+  saveAccounts(readAccounts().concat(account));
+  recordAudit({
+    action: 'staff.created',
+    entityType: 'staff',
+    entityId: account.id,
+    summary: `${STAFF_ROLE_LABELS[account.role]} account created for ${name}`,
+    after: toMember(account),
+  });
+  return toMember(account);
+}
+
+/**
+ * updateStaffAccount(id: string, patch): StaffMember
+ * Name, email, role and active flag. Needs staff.manage.
+ */
+export function updateStaffAccount(
+  id: string,
+  patch: Partial<Pick<StaffMember, 'name' | 'email' | 'role' | 'active'>>
+): StaffMember {
+  requireStaffPermission('staff.manage');
+  const accounts = readAccounts();
+  const current = accounts.find((a) => a.id === id);
+  if (!current) throw new Error('Staff account not found');
+  if (patch.role !== undefined && !isStaffRole(patch.role)) throw new Error('Unknown role');
+  const name = patch.name !== undefined ? patch.name.trim() : current.name;
+  if (!name) throw new Error('Name is required');
+  if (accounts.some((a) => a.id !== id && a.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error('Another account already has this name');
+  }
+  const losesOwner = current.role === 'owner' && ((patch.role && patch.role !== 'owner') || patch.active === false);
+  if (losesOwner) assertOtherOwner(accounts, id);
+  const updated = toMember(
+    updateAccount(id, (a) => ({
+      ...a,
+      name,
+      email: patch.email !== undefined ? patch.email?.trim() || null : a.email,
+      role: patch.role ?? a.role,
+      active: patch.active ?? a.active,
+    }))
+  );
+  recordAudit({
+    action: 'staff.updated',
+    entityType: 'staff',
+    entityId: id,
+    summary: `Account of ${updated.name} updated`,
+    before: toMember(current),
+    after: updated,
+  });
+  return updated;
+}
+
+/** Sets a new PIN and lifts any lockout. Staff can change their own; others need staff.manage. */
+export async function setStaffPin(id: string, pin: string): Promise<void> {
+  if (getCurrentStaff()?.id !== id) requireStaffPermission('staff.manage');
+  const pinHash = await hashPin(validatePin(pin));
+  const account = updateAccount(id, (a) => ({
+    ...a,
+    pinHash,
+    failedPinAttempts: 0,
+    nextPinAttemptAt: null,
+    lockedUntil: null,
+    lockoutCount: 0,
+  }));
+  // The hash itself is never written to the audit log
+  recordAudit({ action: 'staff.pin_changed', entityType: 'staff', entityId: id, summary: `PIN changed for ${account.name}` });
+}
+
+export function unlockStaffAccount(id: string): StaffMember {
+  requireStaffPermission('staff.manage');
+  const member = toMember(
+    updateAccount(id, (a) => ({ ...a, failedPinAttempts: 0, nextPinAttemptAt: null, lockedUntil: null, lockoutCount: 0 }))
+  );
+  recordAudit({ action: 'staff.unlocked', entityType: 'staff', entityId: id, summary: `${member.name} unlocked` });
+  return member;
+}
+
+export function deleteStaffAccount(id: string): void {
+  const staff = requireStaffPermission('staff.manage');
+  if (staff.id === id) throw new Error('You cannot delete your own account');
+  const accounts = readAccounts();
+  const account = accounts.find((a) => a.id === id);
+  if (!account) return;
+  if (account.role === 'owner') assertOtherOwner(accounts, id);
+  saveAccounts(accounts.filter((a) => a.id !== id));
+  recordAudit({
+    action: 'staff.deleted',
+    entityType: 'staff',
+    entityId: id,
+    summary: `Account of ${account.name} deleted`,
+    before: toMember(account),
+  });
+}
+
+/**
+ * verifyStaffPin(id: string, pin: string): Promise<StaffMember>
+ * Checks a staff member's PIN. Each wrong PIN makes the next try wait twice as long; after
+ * MAX_FAILED_PINS in a row the account is locked, for LOCKOUT_MINUTES the first time and twice
+ * as long each further time. An owner can unlock it sooner. The counters live on the account,
+ * so they survive reloads and apply in every tab.
+ */
+export async function verifyStaffPin(id: string, pin: string): Promise<StaffMember> {
+  const account = readAccounts().find((a) => a.id === id);
+  if (!account || !account.active) throw new Error('This account is not active');
+  const now = Date.now();
+  if (account.lockedUntil && Date.parse(account.lockedUntil) > now) {
+    const until = new Date(account.lockedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    throw new Error(`Too many incorrect PINs. This account is locked until ${until}.`);
+  }
+  if (account.nextPinAttemptAt && Date.parse(account.nextPinAttemptAt) > now) {
+    const seconds = Math.ceil((Date.parse(account.nextPinAttemptAt) - now) / 1000);
+    throw new Error(`Please wait ${seconds} second${seconds === 1 ? '' : 's'} before trying again.`);
+  }
+  // Counted as a failure before checking, so parallel tries meet the backoff and lockout
+  let failed = 0;
+  let lockMinutes = 0;
+  const counted = updateAccount(id, (a) => {
+    failed = a.failedPinAttempts + 1;
+    const locked = failed >= MAX_FAILED_PINS;
+    const lockouts = (a.lockoutCount ?? 0) + (locked ? 1 : 0);
+    lockMinutes = locked ? Math.min(LOCKOUT_MINUTES * 2 ** (lockouts - 1), MAX_LOCKOUT_HOURS * 60) : 0;
+    return {
+      ...a,
+      failedPinAttempts: locked ? 0 : failed,
+      nextPinAttemptAt: locked ? null : new Date(now + PIN_BACKOFF_SECONDS * 2 ** (failed - 1) * 1000).toISOString(),
+      lockedUntil: locked ? new Date(now + lockMinutes * 60000).toISOString() : a.lockedUntil,
+      lockoutCount: lockouts,
+    };
+  });
+  const ok = await verifyPinHash(typeof pin === 'string' ? pin.trim() : '', counted.pinHash);
+  if (!ok) {
+    if (lockMinutes > 0) {
+      // A session left open on this device should not outlive a lockout of its account
+      if (readStoredSession()?.staffId === id) writeSession(null);
+      recordAudit({
+        action: 'staff.locked_out',
+        entityType: 'staff',
+        entityId: id,
+        summary: `${account.name} locked out for ${lockMinutes} minutes after ${MAX_FAILED_PINS} incorrect PINs`,
+      });
+      throw new Error(`Too many incorrect PINs. This account is locked for ${lockMinutes} minutes.`);
+    }
+    const left = MAX_FAILED_PINS - failed;
+    throw new Error(`Incorrect PIN. ${left} tr${left === 1 ? 'y' : 'ies'} left before the account is locked.`);
+  }
+  return toMember(
+    updateAccount(id, (a) => ({ ...a, failedPinAttempts: 0, nextPinAttemptAt: null, lockedUntil: null, lockoutCount: 0 }))
+  );
+}
+
+/**
+ * signInStaff(id: string, pin: string): Promise<StaffMember>
+ * Verifies the PIN and starts a session on this device for SESSION_HOURS, ended earlier after
+ * STAFF_IDLE_MINUTES without activity (see watchStaffActivity).
+ */
+export async function signInStaff(id: string, pin: string): Promise<StaffMember> {
+  await verifyStaffPin(id, pin);
+  const at = nowIso();
+  const member = toMember(updateAccount(id, (a) => ({ ...a, lastSignInAt: at })));
+  const now = Date.now();
+  writeSession({ staffId: id, startedAt: at, expiresAt: now + SESSION_HOURS * 60 * 60000, lastActiveAt: now });
+  return member;
+}
+
+/**
+ * reauthenticateStaff(pin: string): Promise<StaffMember>
+ * The signed-in staff member re-enters their PIN before a sensitive action. Wrong PINs count
+ * towards the same backoff and lockout as signing in.
+ */
+export async function reauthenticateStaff(pin: string): Promise<StaffMember> {
+  const session = readSession();
+  if (!session) throw new Error('Your session has ended. Please sign in again.');
+  const member = await verifyStaffPin(session.staffId, pin);
+  const now = Date.now();
+  writeSession({ ...session, lastActiveAt: now, reauthAt: now });
+  return member;
+}
+
+/**
+ * consumeStaffReauth(action: string): StaffMember
+ * Guards a sensitive action: needs a PIN re-entered through reauthenticateStaff in the last
+ * REAUTH_SECONDS, and uses it up so the next action asks again. `action` completes
+ * "Enter your PIN again to ...".
+ */
+export function consumeStaffReauth(action: string): StaffMember {
+  const session = readSession();
+  const staff = getCurrentStaff();
+  if (!session || !staff) throw new Error('Please sign in as staff first');
+  if (!session.reauthAt || Date.now() - session.reauthAt > REAUTH_SECONDS * 1000) {
+    throw new Error(`Enter your PIN again to ${action}`);
+  }
+  writeSession({ ...session, reauthAt: null });
+  return staff;
+}
+
+/** Counts as activity for the idle timeout; writes at most every ACTIVITY_WRITE_SECONDS. */
+export function touchStaffSession(): void {
+  const session = readSession();
+  if (!session || Date.now() - session.lastActiveAt < ACTIVITY_WRITE_SECONDS * 1000) return;
+  writeSession({ ...session, lastActiveAt: Date.now() });
+}
+
+/**
+ * watchStaffActivity(): () => void
+ * While an admin page is open: input refreshes the session, and once it has been idle for
+ * STAFF_IDLE_MINUTES (in any tab) it is ended, which sends subscribers back to sign-in.
+ * Returns the cleanup.
+ */
+export function watchStaffActivity(): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+  const onActivity = () => touchStaffSession();
+  const check = () => {
+    const session = readStoredSession();
+    if (!session || isSessionLive(session)) return;
+    writeSession(null);
+    const member = getStaffMember(session.staffId);
+    recordAudit({
+      action: 'staff.session_expired',
+      entityType: 'staff',
+      entityId: session.staffId,
+      summary: `${member?.name ?? 'Staff'} signed out after ${
+        session.expiresAt > Date.now() ? `${STAFF_IDLE_MINUTES} idle minutes` : `${SESSION_HOURS} hours`
+      }`,
+    });
+  };
+  events.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+  const timer = window.setInterval(check, 15000);
+  check();
+  return () => {
+    events.forEach((e) => window.removeEventListener(e, onActivity));
+    window.clearInterval(timer);
+  };
+}
+
+export function signOutStaff(): void {
+  writeSession(null);
+}
+
+export function subscribeToStaff(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === STAFF_KEY || e.key === STAFF_SESSION_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(STAFF_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(STAFF_CHANGE_EVENT, listener);
+  };
+}
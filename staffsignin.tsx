@@ -0,0 +1,148 @@
+/**
+ * Staff sign-in: pick your account and enter your PIN. On a fresh install this shows the setup
+ * wizard, which creates the owner account.
+ */
+export default function StaffSignInPage(): JSX.Element {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname || "/admin";
+
+  const [staff, setStaff] = useState<StaffMember[]>(() => listStaff().filter((s) => s.active));
+  const [current, setCurrent] = useState<StaffMember | null>(() => getCurrentStaff());
+  const [staffId, setStaffId] = useState("");
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToStaff(() => {
+      setStaff(listStaff().filter((s) => s.active));
+      setCurrent(getCurrentStaff());
+    });
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!staffId) {
+      setError("Choose your account.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await signInStaff(staffId, pin);
+      navigate(from, { replace: true });
+    } catch (err: any) {
+      setError(err?.message || "Could not sign in.");
+      setPin("");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const containerStyle: React.CSSProperties = {
+    maxWidth: 420,
+    margin: "48px auto",
+    padding: 18,
+    borderRadius: 10,
+    background: "var(--card-bg, #fff)",
+    boxShadow: "0 6px 18px rgba(0,0,0,0.06)",
+    fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial",
+  };
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "10px 12px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: 16,
+    boxSizing: "border-box",
+    marginBottom: 12,
+  };
+
+  if (!hasStaffAccounts()) {
+    return <AdminSetupWizard onComplete={() => navigate(from, { replace: true })} />;
+  }
+
+  return (
+    <main style={containerStyle} aria-labelledby="staff-signin-title">
+      <h1 id="staff-signin-title" style={{ marginTop: 0, fontSize: 20 }}>
+        Staff sign-in
+      </h1>
+
+      {current && (
+        <p style={{ fontSize: 14, color: "#374151" }}>
+          Signed in as <strong>{current.name}</strong> ({STAFF_ROLE_LABELS[current.role]}).{" "}
+          <button type="button" onClick={() => navigate(from)}>
+            Continue
+          </button>{" "}
+          <button type="button" onClick={() => signOutStaff()}>
+            Sign out
+          </button>
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <label htmlFor="staff-account" style={{ display: "block", fontSize: 14, marginBottom: 6 }}>
+          Account
+        </label>
+        <select
+          id="staff-account"
+          value={staffId}
+          onChange={(e) => {
+            setStaffId(e.target.value);
+            setError(null);
+          }}
+          style={inputStyle}
+          required
+        >
+          <option value="">Choose...</option>
+          {staff.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name} ({STAFF_ROLE_LABELS[s.role]})
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="staff-pin" style={{ display: "block", fontSize: 14, marginBottom: 6 }}>
+          PIN
+        </label>
+        <input
+          id="staff-pin"
+          type="password"
+          inputMode="numeric"
+          autoComplete="current-password"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          style={inputStyle}
+          required
+        />
+
+        {error && (
+          <div role="alert" style={{ marginBottom: 12, color: "#b91c1c", fontSize: 14 }}>
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          style={{
+            width: "100%",
+            padding: "10px 14px",
+            background: "var(--primary, #0b76ef)",
+            color: "#fff",
+            border: "none",
+            borderRadius: 8,
+            fontSize: 16,
+            cursor: "pointer",
+          }}
+        >
+          {busy ? "Checking..." : "Sign in"}
+        </button>
+      </form>
+      <p style={{ marginBottom: 0, fontSize: 13, color: "#6b7280" }}>
+        Locked out or forgot your PIN: ask an owner to reset it under Staff.
+      </p>
+    </main>
+  );
+}
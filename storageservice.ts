@@ -1,5 +1,6 @@
 const META_KEY = '__photobooth_meta__';
-const DEFAULT_SCHEMA_VERSION = 1;
+const BASELINE_SCHEMA_VERSION = 1;
+const DEFAULT_SCHEMA_VERSION = 3;
 
 type Meta = {
   schemaVersion: number;
@@ -7,16 +8,63 @@ type Meta = {
   updatedAt: string;
 };
 
+type BackendName = 'indexeddb' | 'localstorage' | 'memory';
+
 type InitOptions = {
   schemaVersion?: number;
+  /** 'auto' (default) prefers IndexedDB and falls back to localStorage, then memory. */
+  backend?: 'auto' | BackendName;
 };
 
 type ImportOptions = {
   overwrite?: boolean;
 };
 
+/**
+ * A storage backend holds string values (the JSON written by setItem) and binary blobs.
+ * String access is synchronous so existing callers keep working; backends that are
+ * asynchronous underneath serve reads from a cache filled when they are opened.
+ */
+export interface StorageBackend {
+  readonly name: BackendName;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  listKeys(): string[];
+  getBlob(key: string): Promise<Blob | null>;
+  setBlob(key: string, blob: Blob): Promise<void>;
+  removeBlob(key: string): Promise<void>;
+  listBlobKeys(): Promise<string[]>;
+}
+
+/** Key prefix under which Storage-based backends keep blobs (as data URLs). */
+export const BLOB_KEY_PREFIX = 'pb_blob:';
+
+const IDB_NAME = 'photobooth';
+const IDB_VERSION = 1;
+const IDB_VALUE_STORE = 'values';
+const IDB_BLOB_STORE = 'blobs';
+const BROADCAST_CHANNEL = 'photobooth-storage';
+
 let CURRENT_SCHEMA_VERSION = DEFAULT_SCHEMA_VERSION;
-let _storage: Storage | MemoryStorage | null = null;
+let _backend: StorageBackend | null = null;
+
+/**
+ * Keys read and written through this service. Only these move when the backend changes;
+ * everything else is still accessed directly through localStorage by its owner.
+ */
+const MANAGED_KEYS = new Set<string>([META_KEY]);
+
+/**
+ * Declare keys that are stored through this service. Call at module load, before initStorage.
+ */
+export function registerStorageKeys(keys: readonly string[]): void {
+  keys.forEach((k) => MANAGED_KEYS.add(k));
+}
+
+export function isManagedStorageKey(key: string): boolean {
+  return MANAGED_KEYS.has(key);
+}
 
 /**
  * In-memory fallback that implements minimal Storage-like interface.
@@ -61,56 +109,321 @@ function detectStorage(): Storage | MemoryStorage {
   }
 }
 
-function ensureStorageInitialized(): void {
-  if (!_storage) {
-    _storage = detectStorage();
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decode a data URL back into a Blob. Returns null for anything that is not a data URL.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob | null {
+  const m = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,([\s\S]*)$/.exec(dataUrl);
+  if (!m) return null;
+  const mime = m[1] || 'application/octet-stream';
+  try {
+    if (m[3]) {
+      const bin = atob(m[4]);
+      const bytes = new Uint8Array(bin.length);
+      for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+      return new Blob([bytes], { type: mime });
+    }
+    return new Blob([decodeURIComponent(m[4])], { type: mime });
+  } catch {
+    return null;
   }
 }
 
-function getRaw(key: string): string | null {
-  ensureStorageInitialized();
-  if (_storage instanceof MemoryStorage) {
-    return _storage.getItem(key);
+/**
+ * Backend over localStorage (or the in-memory fallback). Blobs are kept as data URLs,
+ * so they still count against the ~5 MB quota.
+ */
+class WebStorageBackend implements StorageBackend {
+  readonly name: BackendName;
+
+  constructor(private storage: Storage | MemoryStorage) {
+    this.name = storage instanceof MemoryStorage ? 'memory' : 'localstorage';
+  }
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  private allKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const k = this.storage.key(i);
+      if (k) keys.push(k);
+    }
+    return keys;
+  }
+
+  listKeys(): string[] {
+    return this.allKeys().filter((k) => !k.startsWith(BLOB_KEY_PREFIX));
+  }
+
+  async getBlob(key: string): Promise<Blob | null> {
+    const raw = this.storage.getItem(BLOB_KEY_PREFIX + key);
+    return raw === null ? null : dataUrlToBlob(raw);
+  }
+
+  async setBlob(key: string, blob: Blob): Promise<void> {
+    this.storage.setItem(BLOB_KEY_PREFIX + key, await blobToDataUrl(blob));
+  }
+
+  async removeBlob(key: string): Promise<void> {
+    this.storage.removeItem(BLOB_KEY_PREFIX + key);
+  }
+
+  async listBlobKeys(): Promise<string[]> {
+    return this.allKeys()
+      .filter((k) => k.startsWith(BLOB_KEY_PREFIX))
+      .map((k) => k.slice(BLOB_KEY_PREFIX.length));
   }
-  return (_storage as Storage).getItem(key);
 }
 
-function setRaw(key: string, value: string): void {
-  ensureStorageInitialized();
-  if (_storage instanceof MemoryStorage) {
-    _storage.setItem(key, value);
-    return;
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(IDB_VALUE_STORE)) db.createObjectStore(IDB_VALUE_STORE);
+      if (!db.objectStoreNames.contains(IDB_BLOB_STORE)) db.createObjectStore(IDB_BLOB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    request.onblocked = () => reject(new Error('IndexedDB open blocked by another tab'));
+  });
+}
+
+/**
+ * IndexedDB backend. String values are cached in memory and written through in order;
+ * blobs are stored as Blobs and only read on demand. Other tabs are told about writes
+ * over a BroadcastChannel and re-emit them as `storage` events, so listeners written
+ * for localStorage keep working.
+ */
+class IndexedDbBackend implements StorageBackend {
+  readonly name = 'indexeddb' as const;
+  private cache = new Map<string, string>();
+  private writes: Promise<void> = Promise.resolve();
+  private channel: BroadcastChannel | null = null;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbBackend> {
+    const backend = new IndexedDbBackend(await openDatabase());
+    await backend.hydrate();
+    backend.listen();
+    return backend;
+  }
+
+  private async hydrate(): Promise<void> {
+    const tx = this.db.transaction(IDB_VALUE_STORE, 'readonly');
+    const store = tx.objectStore(IDB_VALUE_STORE);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ]);
+    keys.forEach((k, i) => {
+      if (typeof k === 'string' && typeof values[i] === 'string') this.cache.set(k, values[i]);
+    });
+  }
+
+  private listen(): void {
+    if (typeof BroadcastChannel === 'undefined') return;
+    try {
+      this.channel = new BroadcastChannel(BROADCAST_CHANNEL);
+      this.channel.onmessage = (ev: MessageEvent) => {
+        const { key, value } = (ev.data || {}) as { key?: string; value?: string | null };
+        if (typeof key !== 'string') return;
+        const oldValue = this.cache.get(key) ?? null;
+        if (typeof value === 'string') this.cache.set(key, value);
+        else this.cache.delete(key);
+        try {
+          window.dispatchEvent(new StorageEvent('storage', { key, oldValue, newValue: value ?? null }));
+        } catch {
+          // ignore environments without StorageEvent
+        }
+      };
+    } catch {
+      this.channel = null;
+    }
+  }
+
+  private broadcast(key: string, value: string | null): void {
+    try {
+      this.channel?.postMessage({ key, value });
+    } catch {
+      // ignore
+    }
+  }
+
+  private enqueue(op: (store: IDBObjectStore) => void): void {
+    this.writes = this.writes
+      .then(async () => {
+        const tx = this.db.transaction(IDB_VALUE_STORE, 'readwrite');
+        op(tx.objectStore(IDB_VALUE_STORE));
+        await transactionDone(tx);
+      })
+      .catch((err) => {
+        console.error('IndexedDB write failed', err);
+      });
+  }
+
+  /** Resolves once every queued write has been committed (or has failed). */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /** Write many values in a single transaction; rejects if it does not commit. */
+  async putMany(entries: Array<[string, string]>): Promise<void> {
+    await this.flush();
+    const tx = this.db.transaction(IDB_VALUE_STORE, 'readwrite');
+    const store = tx.objectStore(IDB_VALUE_STORE);
+    entries.forEach(([k, v]) => store.put(v, k));
+    await transactionDone(tx);
+    entries.forEach(([k, v]) => this.cache.set(k, v));
+  }
+
+  getItem(key: string): string | null {
+    return this.cache.has(key) ? this.cache.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.enqueue((store) => store.put(value, key));
+    this.broadcast(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.cache.delete(key);
+    this.enqueue((store) => store.delete(key));
+    this.broadcast(key, null);
+  }
+
+  listKeys(): string[] {
+    return Array.from(this.cache.keys());
+  }
+
+  async getBlob(key: string): Promise<Blob | null> {
+    const tx = this.db.transaction(IDB_BLOB_STORE, 'readonly');
+    const result = await requestToPromise(tx.objectStore(IDB_BLOB_STORE).get(key));
+    return result instanceof Blob ? result : null;
+  }
+
+  async setBlob(key: string, blob: Blob): Promise<void> {
+    const tx = this.db.transaction(IDB_BLOB_STORE, 'readwrite');
+    tx.objectStore(IDB_BLOB_STORE).put(blob, key);
+    await transactionDone(tx);
+  }
+
+  async removeBlob(key: string): Promise<void> {
+    const tx = this.db.transaction(IDB_BLOB_STORE, 'readwrite');
+    tx.objectStore(IDB_BLOB_STORE).delete(key);
+    await transactionDone(tx);
+  }
+
+  async listBlobKeys(): Promise<string[]> {
+    const tx = this.db.transaction(IDB_BLOB_STORE, 'readonly');
+    const keys = await requestToPromise(tx.objectStore(IDB_BLOB_STORE).getAllKeys());
+    return keys.filter((k): k is string => typeof k === 'string');
   }
-  (_storage as Storage).setItem(key, value);
 }
 
-function removeRaw(key: string): void {
-  ensureStorageInitialized();
-  if (_storage instanceof MemoryStorage) {
-    _storage.removeItem(key);
-    return;
+function ensureStorageInitialized(): StorageBackend {
+  if (!_backend) {
+    _backend = new WebStorageBackend(detectStorage());
   }
-  (_storage as Storage).removeItem(key);
+  return _backend;
+}
+
+function getRaw(key: string): string | null {
+  return ensureStorageInitialized().getItem(key);
+}
+
+function setRaw(key: string, value: string): void {
+  ensureStorageInitialized().setItem(key, value);
+}
+
+function removeRaw(key: string): void {
+  ensureStorageInitialized().removeItem(key);
 }
 
 function listKeys(): string[] {
-  ensureStorageInitialized();
-  if (_storage instanceof MemoryStorage) {
-    const ms = _storage as MemoryStorage;
-    const keys: string[] = [];
-    for (let i = 0; i < ms.length; i++) {
-      const k = ms.key(i);
-      if (k) keys.push(k);
+  return ensureStorageInitialized().listKeys();
+}
+
+/**
+ * Pick a backend: IndexedDB when requested (or on 'auto') and it opens, else localStorage/memory.
+ */
+async function selectBackend(preference: InitOptions['backend']): Promise<StorageBackend> {
+  const wantIdb = preference === undefined || preference === 'auto' || preference === 'indexeddb';
+  if (wantIdb && typeof indexedDB !== 'undefined') {
+    try {
+      return await IndexedDbBackend.open();
+    } catch (err) {
+      console.warn('IndexedDB unavailable, falling back to localStorage', err);
     }
-    return keys;
   }
-  const ls = _storage as Storage;
-  const keys: string[] = [];
-  for (let i = 0; i < ls.length; i++) {
-    const k = ls.key(i);
-    if (k) keys.push(k);
+  if (preference === 'memory') return new WebStorageBackend(new MemoryStorage());
+  return new WebStorageBackend(detectStorage());
+}
+
+/**
+ * Move managed keys (and blobs kept as data URLs) out of localStorage into IndexedDB.
+ * Source entries are removed only after the IndexedDB transaction has committed.
+ */
+async function migrateKeysToIndexedDb(target: IndexedDbBackend): Promise<void> {
+  const source = detectStorage();
+  if (source instanceof MemoryStorage) return;
+  const web = new WebStorageBackend(source);
+
+  const entries: Array<[string, string]> = [];
+  for (const key of web.listKeys()) {
+    if (!MANAGED_KEYS.has(key)) continue;
+    const value = source.getItem(key);
+    // IndexedDB already holds newer data for this key: leave the stale copy alone
+    if (value === null || target.getItem(key) !== null) continue;
+    entries.push([key, value]);
+  }
+  if (entries.length > 0) {
+    await target.putMany(entries);
+    entries.forEach(([key]) => source.removeItem(key));
+  }
+
+  for (const key of await web.listBlobKeys()) {
+    const blob = await web.getBlob(key);
+    if (!blob) continue;
+    await target.setBlob(key, blob);
+    await web.removeBlob(key);
   }
-  return keys;
 }
 
 /**
@@ -183,37 +496,42 @@ function writeMeta(meta: Partial<Meta> & { schemaVersion: number }): void {
  */
 export async function initStorage(options?: InitOptions): Promise<void> {
   CURRENT_SCHEMA_VERSION = options?.schemaVersion ?? DEFAULT_SCHEMA_VERSION;
-  _storage = detectStorage();
+  _backend = await selectBackend(options?.backend);
+
+  if (_backend instanceof IndexedDbBackend) {
+    try {
+      await migrateKeysToIndexedDb(_backend);
+    } catch (err) {
+      // Whatever was not moved stays in localStorage and is retried on the next start
+      console.error('Moving stored keys to IndexedDB failed', err);
+    }
+  }
 
   try {
     const existing = readMeta();
     if (!existing) {
+      // No meta yet: either a fresh install or data written before versioning existed.
+      // Start from the baseline so every registered migration runs over whatever is there.
       const now = new Date().toISOString();
       const meta: Meta = {
-        schemaVersion: CURRENT_SCHEMA_VERSION,
+        schemaVersion: Math.min(BASELINE_SCHEMA_VERSION, CURRENT_SCHEMA_VERSION),
         createdAt: now,
         updatedAt: now,
       };
       writeMeta(meta);
-    } else {
-      // If caller provided a newer schema version, update CURRENT_SCHEMA_VERSION and potentially migrate
-      if (options?.schemaVersion && options.schemaVersion > existing.schemaVersion) {
-        CURRENT_SCHEMA_VERSION = options.schemaVersion;
-      } else {
-        CURRENT_SCHEMA_VERSION = existing.schemaVersion;
-      }
-      await migrateIfNeeded();
+    } else if (existing.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      // Data written by a newer build: never downgrade it
+      CURRENT_SCHEMA_VERSION = existing.schemaVersion;
     }
+    await migrateIfNeeded();
   } catch (err) {
-    // Ensure storage is at least initialized
-    const now = new Date().toISOString();
-    const meta: Meta = {
-      schemaVersion: CURRENT_SCHEMA_VERSION,
-      createdAt: now,
-      updatedAt: now,
-    };
+    // A failed migration has already recorded the last version it reached; only make sure
+    // meta exists so it is retried from there on the next start.
+    console.error('Storage initialization or migration failed', err);
     try {
-      writeMeta(meta);
+      if (!readMeta()) {
+        writeMeta({ schemaVersion: BASELINE_SCHEMA_VERSION });
+      }
     } catch {
       // ignore
     }
@@ -269,6 +587,45 @@ export function removeItem(key: string): void {
   }
 }
 
+/**
+ * Name of the backend in use: 'indexeddb', 'localstorage' or 'memory'.
+ */
+export function getStorageBackendName(): BackendName {
+  return ensureStorageInitialized().name;
+}
+
+/**
+ * Binary storage. Blobs live outside the JSON key space and are not part of exportState.
+ */
+export async function getBlob(key: string): Promise<Blob | null> {
+  try {
+    return await ensureStorageInitialized().getBlob(key);
+  } catch {
+    return null;
+  }
+}
+
+export async function setBlob(key: string, blob: Blob): Promise<void> {
+  // Let quota errors reach the caller: a lost upload must not look like a saved one
+  await ensureStorageInitialized().setBlob(key, blob);
+}
+
+export async function removeBlob(key: string): Promise<void> {
+  try {
+    await ensureStorageInitialized().removeBlob(key);
+  } catch {
+    // ignore
+  }
+}
+
+export async function listBlobKeys(): Promise<string[]> {
+  try {
+    return await ensureStorageInitialized().listBlobKeys();
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Migration registry.
  * Each migration is an async function that performs transformations on the storage
@@ -284,8 +641,14 @@ const MIGRATIONS: Record<
     importState: typeof importState;
   }) => Promise<void>
 > = {
-  // Example:
-  // 2: async ({ getItem, setItem }) => { /* migrate to v2 */ },
+  // v2: merge the per-page booking keys into the unified booking repository
+  2: async ({ getItem, setItem, removeItem }) => {
+    await migrateLegacyBookings({ getItem, setItem, removeItem });
+  },
+  // v3: move open bookings onto the payment review statuses
+  3: async ({ getItem, setItem, removeItem }) => {
+    await migrateBookingStatuses({ getItem, setItem, removeItem });
+  },
 };
 
 /**
@@ -383,8 +746,7 @@ export async function importState(state: any, options?: ImportOptions): Promise<
 
   try {
     if (options?.overwrite) {
-      // preserve nothing; clear via the storage abstraction (safe for MemoryStorage and Storage)
-      if (!_storage) _storage = detectStorage();
+      // preserve nothing; clear via the storage abstraction (safe for every backend)
       const keys = listKeys();
       for (const k of keys) {
         try {
@@ -1,5 +1,7 @@
 const DRAFT_KEY = "photoboothDraft";
-const BOOKINGS_KEY = "photoboothBookings";
+const SLOT_TAKEN_MESSAGE = "That time slot is no longer available.";
+/* Default waitlist window: this many hours either side of the requested time */
+const WAITLIST_WINDOW_HOURS = 2;
 
 function safeParseDraft(): Draft | null {
   try {
@@ -12,38 +14,64 @@ function safeParseDraft(): Draft | null {
 }
 
 interface Totals {
-  subtotal: number; // sum of package + hours + addOns + extras (before discount)
-  discountTotal: number; // discount amount applied (always >= 0)
-  taxedBase: number; // subtotal - discountTotal (>= 0)
-  taxTotal: number; // taxes applied (>= 0)
-  depositAmount: number; // deposit amount (>= 0)
-  totalDue: number; // taxedBase + taxTotal (what's due for the booking)
-  grandTotal: number; // totalDue + depositAmount (if deposit is tracked separately but included in overall total)
+  subtotal: number; // sum of package + hours + addOns + extras (before pricing rules and discount)
+  adjustments: PriceAdjustment[]; // pricing rule line items (weekday, season, lead time...), signed
+  adjustmentTotal: number; // sum of adjustments (negative when the rules discount)
+  discountTotal: number; // draft discount + promo code discount (always >= 0)
+  promo: { code: string; amount: number; error: string | null } | null; // the draft's promo code, validated
+  taxedBase: number; // subtotal + adjustmentTotal - discountTotal (>= 0); includes tax when pricesIncludeTax
+  taxTotal: number; // taxes applied, or contained in taxedBase when pricesIncludeTax (>= 0)
+  taxes: TaxLine[]; // per-rate breakdown of taxTotal (taxservice)
+  pricesIncludeTax: boolean;
+  depositAmount: number; // the schedule's deposit, part of totalDue (>= 0)
+  totalDue: number; // taxedBase, plus taxTotal unless prices include tax (what's due for the booking)
+  grandTotal: number; // same as totalDue; the deposit is paid out of it, not on top of it
+  paymentSchedule: BookingInstallment[]; // when totalDue is paid: deposit, installments, balance (paymentscheduleservice)
+  lines: BookingPriceLine[]; // items, pricing rules and discounts (negative) adding up to taxedBase, for invoices
 }
 
 /**
  * Computes a canonical breakdown of totals for a draft.
- * - Deposit percentage is applied to the taxedBase (post-discount) to keep calculations consistent.
+ * - Pricing rules (pricingservice) adjust the subtotal before the draft's own discount is applied.
+ * - The promo code is re-validated on every call, so an expired or used-up code stops discounting.
+ * - Each priced item is taxed with its own rates (taxservice); pricing rules and discounts are spread
+ *   over the items in proportion to their price. Drafts fall back to their single taxPercent when no
+ *   tax rates are configured.
+ * - totalDue is split into a payment schedule; the draft's own deposit overrides the configured one.
  * - Returns zeros for null/invalid drafts.
  */
 export function calculateTotals(draft: Draft | null | undefined): Totals {
   if (!draft) {
     return {
       subtotal: 0,
+      adjustments: [],
+      adjustmentTotal: 0,
       discountTotal: 0,
+      promo: null,
       taxedBase: 0,
       taxTotal: 0,
+      taxes: [],
+      pricesIncludeTax: false,
       depositAmount: 0,
       totalDue: 0,
       grandTotal: 0,
+      paymentSchedule: [],
+      lines: [],
     };
   }
 
   let subtotal = 0;
+  const lines: BookingPriceLine[] = [];
+  // Each priced item with its tax rates
+  const taxSettings = draftTaxSettings(draft);
+  const taxLines: TaxableLine[] = [];
+  const packageId = (draft.package as { id?: string } | undefined)?.id ?? null;
+  let packageAmount = 0;
 
   // Package base price
   if (draft.package && typeof draft.package.price === "number") {
-    subtotal += draft.package.price;
+    packageAmount += draft.package.price;
+    lines.push({ label: draft.package.name || "Package", quantity: 1, unitPrice: draft.package.price, amount: draft.package.price });
   }
 
   // If hours beyond included or hourlyRate is provided
@@ -51,72 +79,140 @@ export function calculateTotals(draft: Draft | null | undefined): Totals {
     const included = draft.package?.hoursIncluded ?? 0;
     const hourlyRate = draft.hourlyRate ?? 0;
     const billedHours = Math.max(0, draft.hours - included);
-    subtotal += billedHours * hourlyRate;
+    packageAmount += billedHours * hourlyRate;
+    if (billedHours > 0 && hourlyRate) {
+      lines.push({ label: "Extra hours", quantity: billedHours, unitPrice: hourlyRate, amount: billedHours * hourlyRate });
+    }
   }
+  subtotal += packageAmount;
+  taxLines.push({ amount: packageAmount, rateIds: taxRatesFor("package", packageId, taxSettings) });
 
   // Add-ons
   if (Array.isArray(draft.addOns)) {
     for (const add of draft.addOns) {
       const qty = typeof add.quantity === "number" ? Math.max(1, add.quantity) : 1;
-      subtotal += (Number(add.price) || 0) * qty;
+      const amount = (Number(add.price) || 0) * qty;
+      subtotal += amount;
+      taxLines.push({ amount, rateIds: taxRatesFor("addOn", add.id, taxSettings) });
+      lines.push({ label: add.name || "Add-on", quantity: qty, unitPrice: Number(add.price) || 0, amount });
     }
   }
 
-  // Extras (one-off things)
+  // Extras (one-off things, taxed as service fees)
   if (Array.isArray(draft.extras)) {
     for (const ex of draft.extras) {
-      subtotal += Number(ex.price) || 0;
+      const amount = Number(ex.price) || 0;
+      subtotal += amount;
+      taxLines.push({ amount, rateIds: taxRatesFor("fee", null, taxSettings) });
+      lines.push({ label: ex.name || "Extra", quantity: 1, unitPrice: amount, amount });
     }
   }
 
+  // Pricing rules need the event date; drafts without one are priced as listed
+  const slot = draftSlot(draft);
+  const adjustments = slot
+    ? applyPricingRules(subtotal, {
+        start: slot.start,
+        durationMinutes: slot.durationMinutes,
+        guests: typeof draft.event?.guests === "number" ? draft.event.guests : null,
+      })
+    : [];
+  const adjustmentTotal = adjustments.reduce((sum, a) => sum + a.amount, 0);
+  for (const a of adjustments) lines.push({ label: a.label, quantity: 1, unitPrice: a.amount, amount: a.amount });
+  const adjusted = Math.max(0, subtotal + adjustmentTotal);
+
   // Apply discount (before tax)
   let discountTotal = 0;
   if (draft.discount) {
     const { type, amount } = draft.discount;
     if (type === "fixed") {
       discountTotal = Math.max(0, Number(amount) || 0);
-      // Do not let discount exceed subtotal
-      discountTotal = Math.min(discountTotal, subtotal);
+      // Do not let discount exceed the adjusted price
+      discountTotal = Math.min(discountTotal, adjusted);
     } else {
       // percent
       const pct = Math.max(0, Math.min(100, Number(amount) || 0));
-      discountTotal = (pct / 100) * subtotal;
+      discountTotal = (pct / 100) * adjusted;
     }
+    const label = type === "fixed" ? "Discount" : `Discount (${amount}%)`;
+    if (discountTotal > 0) lines.push({ label, quantity: 1, unitPrice: -discountTotal, amount: -discountTotal });
   }
 
-  const taxedBase = Math.max(0, subtotal - discountTotal);
-
-  // Taxes
-  let taxTotal = 0;
-  if (typeof draft.taxPercent === "number" && draft.taxPercent > 0) {
-    const pct = Math.max(0, Math.min(100, draft.taxPercent));
-    taxTotal = (pct / 100) * taxedBase;
-  }
-
-  // Deposit
-  let depositAmount = 0;
-  if (draft.deposit) {
-    const { type, amount } = draft.deposit;
-    if (type === "fixed") {
-      depositAmount = Math.max(0, Number(amount) || 0);
+  // Promo code (promoservice); a code that no longer validates is reported instead of applied
+  let promo: Totals["promo"] = null;
+  if (draft.promoCode) {
+    const result = validatePromoCode(draft.promoCode, draftPromoContext(draft, adjusted));
+    if (result.valid) {
+      const amount = Math.min(result.amount, Math.max(0, adjusted - discountTotal));
+      promo = { code: result.promo.code, amount: Number(amount.toFixed(2)), error: null };
+      discountTotal += amount;
+      if (amount > 0) lines.push({ label: `Promo code ${result.promo.code}`, quantity: 1, unitPrice: -amount, amount: -amount });
     } else {
-      const pct = Math.max(0, Math.min(100, Number(amount) || 0));
-      // NOTE: deposit percent is calculated over the taxedBase (post-discount) to be consistent
-      depositAmount = (pct / 100) * taxedBase;
+      promo = { code: draft.promoCode, amount: 0, error: result.reason };
     }
   }
 
-  const totalDue = Math.max(0, taxedBase + taxTotal); // what the booking costs (excluding deposit tracking)
-  const grandTotal = Math.max(0, totalDue + depositAmount); // if deposit should be included in an overall total view
+  const taxedBase = Math.max(0, adjusted - discountTotal);
+
+  // Taxes, on each item's share of the taxed base
+  const share = subtotal > 0 ? taxedBase / subtotal : 0;
+  const taxResult = calculateTaxes(
+    taxLines.map((line) => ({ ...line, amount: line.amount * share })),
+    taxSettings
+  );
+  const taxTotal = taxResult.tax;
+
+  // what the booking costs
+  const totalDue = Math.max(0, taxSettings.pricesIncludeTax ? taxedBase : taxedBase + taxTotal);
+
+  // Payment schedule; the deposit is the first part of totalDue
+  const paymentSchedule = buildPaymentSchedule(Number(totalDue.toFixed(2)), {
+    eventStart: draftSlot(draft)?.start ?? null,
+    deposit: draft.deposit
+      ? { type: draft.deposit.type === "fixed" ? "fixed" : "percent", amount: Number(draft.deposit.amount) || 0 }
+      : null,
+  });
+  const depositAmount = paymentSchedule.find((i) => i.kind === "deposit")?.amount ?? 0;
 
   return {
     subtotal: Number(subtotal.toFixed(2)),
+    adjustments,
+    adjustmentTotal: Number(adjustmentTotal.toFixed(2)),
     discountTotal: Number(discountTotal.toFixed(2)),
+    promo,
     taxedBase: Number(taxedBase.toFixed(2)),
     taxTotal: Number(taxTotal.toFixed(2)),
+    taxes: taxResult.breakdown,
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
     depositAmount: Number(depositAmount.toFixed(2)),
     totalDue: Number(totalDue.toFixed(2)),
-    grandTotal: Number(grandTotal.toFixed(2)),
+    grandTotal: Number(totalDue.toFixed(2)),
+    paymentSchedule,
+    lines: lines.map((l) => ({ ...l, unitPrice: Number(l.unitPrice.toFixed(2)), amount: Number(l.amount.toFixed(2)) })),
+  };
+}
+
+/* Configured tax rates, or the draft's legacy single taxPercent when none are set up */
+function draftTaxSettings(draft: Draft): TaxSettings {
+  const settings = getTaxSettings();
+  if (settings.rates.length || typeof draft.taxPercent !== "number" || draft.taxPercent <= 0) return settings;
+  const rate = { id: "draft", name: "Tax", percent: Math.min(100, draft.taxPercent), compound: false };
+  return { ...DEFAULT_TAX_SETTINGS, rates: [rate], defaultRateIds: [rate.id] };
+}
+
+/* What promoservice checks a code against; `price` is after pricing rules */
+function draftPromoContext(draft: Draft, price: number): PromoContext {
+  const addOns: Record<string, number> = {};
+  for (const add of Array.isArray(draft.addOns) ? draft.addOns : []) {
+    if (!add.id) continue;
+    const qty = typeof add.quantity === "number" ? Math.max(1, add.quantity) : 1;
+    addOns[add.id] = (addOns[add.id] || 0) + (Number(add.price) || 0) * qty;
+  }
+  return {
+    price,
+    email: draft.customer?.email ?? null,
+    packageId: (draft.package as { id?: string } | undefined)?.id ?? null,
+    addOns,
   };
 }
 
@@ -127,7 +223,41 @@ export function calculateTotal(draft: Draft | null | undefined): number {
   return calculateTotals(draft).grandTotal;
 }
 
-export async function confirmBooking(draft: Draft): Promise<{ id: string }> {
+type DraftSlot = { start: Date; durationMinutes: number; packageId: string | null; location: string | null };
+
+/* The slot a draft asks for, or null when its date or time is unusable */
+function draftSlot(draft: Draft | null | undefined): DraftSlot | null {
+  const event = draft?.event;
+  if (!draft || !event || !event.date) return null;
+  const start = new Date(`${event.date}T${event.time || "00:00"}`);
+  if (Number.isNaN(start.getTime())) return null;
+  const hours = typeof draft.hours === "number" && draft.hours > 0 ? draft.hours : 1;
+  return {
+    start,
+    durationMinutes: Math.round(hours * 60),
+    packageId: (draft.package as { id?: string } | undefined)?.id ?? null,
+    location: event.venue ?? null,
+  };
+}
+
+/* What the payment step hands over: the payment to link and, from the manual provider, the uploaded proof */
+type CheckoutPayment = { paymentIntentId?: string; paymentProofRef?: string };
+
+/* What checkout collects: the installments due today (the deposit), or the whole total without a schedule */
+function amountDueNow(totals: Totals): number {
+  if (totals.paymentSchedule.length === 0) return totals.totalDue;
+  const now = Date.now();
+  const due = totals.paymentSchedule.filter((i) => new Date(i.dueAt).getTime() <= now).reduce((sum, i) => sum + i.amount, 0);
+  return Math.round(due * 100) / 100;
+}
+
+/**
+ * Re-checks availability and saves the booking. `holdId` is the checkout hold taken when the
+ * summary opened; createBooking ignores it in the check and converts it into the booking.
+ * `payment` comes from the payment step: its intent is linked to the booking and an uploaded
+ * proof is attached for review.
+ */
+export async function confirmBooking(draft: Draft, holdId?: string, payment?: CheckoutPayment): Promise<{ id: string }> {
   // Basic validation
   if (!draft) {
     return Promise.reject(new Error("No booking draft to confirm."));
@@ -142,41 +272,103 @@ export async function confirmBooking(draft: Draft): Promise<{ id: string }> {
   }
 
   const totals = calculateTotals(draft);
-  const total = totals.grandTotal;
+  if (totals.promo?.error) {
+    return Promise.reject(new Error(totals.promo.error));
+  }
+  const total = totals.totalDue;
   if (Number.isNaN(total) || total < 0) {
     return Promise.reject(new Error("Invalid total calculated."));
   }
 
-  // Simulate async save (could be replaced with real API)
-  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-  const booking: Booking = {
-    id,
-    createdAt: new Date().toISOString(),
-    draft,
-    total,
-    status: "confirmed",
-  };
+  const slot = draftSlot(draft);
+  if (!slot) {
+    return Promise.reject(new Error("Event date or time is invalid."));
+  }
+  const { start, durationMinutes, packageId, location } = slot;
+
+  const available = await checkAvailability(start, durationMinutes, packageId ?? undefined, { location, holdId });
+  if (!available) {
+    return Promise.reject(new Error(SLOT_TAKEN_MESSAGE));
+  }
 
-  return new Promise<{ id: string }>((resolve, reject) => {
+  try {
+    // Persist through the shared booking service so every page sees the same record
+    const { id } = await createBooking({
+      start,
+      durationMinutes,
+      packageId,
+      packageName: draft.package?.name ?? null,
+      customer: { name: customer.name, email: customer.email, phone: customer.phone },
+      price: total,
+      location,
+      addOns: draft.addOns,
+      // Confirmation happens in the admin once the payment proof is verified
+      status: "booked",
+      holdId,
+      taxes: totals.taxes.map((t) => ({ name: t.name, percent: t.percent, compound: t.compound, amount: t.amount })),
+      taxInclusive: totals.pricesIncludeTax,
+      paymentSchedule: totals.paymentSchedule,
+      priceLines: totals.lines,
+      paymentIntentId: payment?.paymentIntentId,
+    });
+    if (totals.promo) {
+      try {
+        redeemPromoCode(totals.promo.code, {
+          email: customer.email,
+          bookingId: id,
+          context: draftPromoContext(draft, totals.subtotal + totals.adjustmentTotal),
+        });
+      } catch (err) {
+        // The booking already carries the discounted price; a lost redemption only skews the usage count
+        console.error("Failed to record promo redemption", err);
+      }
+    }
     try {
-      // small delay to simulate network
-      setTimeout(() => {
-        const raw = localStorage.getItem(BOOKINGS_KEY);
-        let bookings: Booking[] = [];
-        try {
-          bookings = raw ? (JSON.parse(raw) as Booking[]) : [];
-        } catch {
-          bookings = [];
-        }
-        bookings.push(booking);
-        localStorage.setItem(BOOKINGS_KEY, JSON.stringify(bookings));
-        // remove draft after confirming
-        localStorage.removeItem(DRAFT_KEY);
-        resolve({ id });
-      }, 600);
+      // Numbered in booking order; the confirmation page offers it for download
+      issueInvoice(id);
     } catch (err) {
-      reject(new Error("Failed to save booking."));
+      // It is issued on first request instead
+      console.error("Failed to issue invoice", err);
+    }
+    if (payment?.paymentProofRef) {
+      try {
+        const proof = await loadPaymentProof(payment.paymentProofRef);
+        if (proof) await submitPaymentProof(id, proof);
+      } catch (err) {
+        // The customer can upload it again from their dashboard
+        console.error("Failed to attach payment proof", err);
+      }
     }
+    localStorage.removeItem(DRAFT_KEY);
+    return { id };
+  } catch (err) {
+    return Promise.reject(new Error("Failed to save booking."));
+  }
+}
+
+function shiftTime(time: string, hours: number): string {
+  const [h, m] = time.split(":").map(Number);
+  const minutes = Math.min(23 * 60 + 59, Math.max(0, (h || 0) * 60 + (m || 0) + hours * 60));
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Queue the draft's customer for any start between `from` and `to` ("HH:mm") on the event date.
+ */
+export function joinWaitlistFromDraft(draft: Draft, from: string, to: string): WaitlistEntry {
+  const customer = draft.customer;
+  const event = draft.event;
+  if (!customer || !customer.email) throw new Error("An email address is required to join the waitlist.");
+  if (!event || !event.date) throw new Error("Event date is required.");
+  const hours = typeof draft.hours === "number" && draft.hours > 0 ? draft.hours : 1;
+  return joinWaitlist({
+    customer: { name: customer.name, email: customer.email, phone: customer.phone },
+    packageId: (draft.package as { id?: string } | undefined)?.id ?? null,
+    packageName: draft.package?.name ?? null,
+    location: event.venue ?? null,
+    durationMinutes: Math.round(hours * 60),
+    windowStart: new Date(`${event.date}T${from}`),
+    windowEnd: new Date(`${event.date}T${to}`),
   });
 }
 
@@ -205,16 +397,118 @@ export default function SummaryPage(): JSX.Element {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successId, setSuccessId] = useState<string | null>(null);
+  // Set when the requested slot is taken, so the customer can queue for it instead
+  const [waitlistWindow, setWaitlistWindow] = useState<{ from: string; to: string } | null>(null);
+  const [waitlistJoined, setWaitlistJoined] = useState(false);
+  // Checkout hold on the draft's slot; holdExpired is set once it lapses or another tab drops it
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [holdExpired, setHoldExpired] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const proofFlow = useMemo(() => getActivePaymentProvider().flow === "proof", []);
 
   useEffect(() => {
     const stored = safeParseDraft();
     setDraft(stored);
   }, []);
 
+  const slot = useMemo(() => draftSlot(draft), [draft]);
+  const slotKey = slot ? `${slot.start.toISOString()}|${slot.durationMinutes}|${slot.packageId}|${slot.location}` : null;
+
+  // Hold the slot while the customer reviews; released when they leave the page or close the tab
+  useEffect(() => {
+    if (!slot) return;
+    let cancelled = false;
+    let holdId: string | null = null;
+    const release = () => {
+      if (holdId) releaseSlotHold(holdId);
+    };
+    createSlotHold(slot)
+      .then((created) => {
+        if (cancelled) {
+          releaseSlotHold(created.id);
+          return;
+        }
+        holdId = created.id;
+        setHold(created);
+        setHoldExpired(false);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setError(SLOT_TAKEN_MESSAGE);
+        const time = draft?.event?.time || "12:00";
+        setWaitlistWindow({ from: shiftTime(time, -WAITLIST_WINDOW_HOURS), to: shiftTime(time, WAITLIST_WINDOW_HOURS) });
+        console.warn("Could not hold the slot:", err?.message);
+      });
+    window.addEventListener("pagehide", release);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("pagehide", release);
+      release();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slotKey]);
+
+  // Expiry and releases in other tabs arrive through the shared storage events
+  useEffect(() => {
+    if (!hold) return;
+    const check = () => {
+      if (!getSlotHold(hold.id)) setHoldExpired(true);
+    };
+    const timer = window.setTimeout(check, Math.max(0, new Date(hold.expiresAt).getTime() - Date.now()) + 1000);
+    const unsubscribe = subscribeToSlotHolds(check);
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [hold]);
+
   useEffect(() => {
     setTotals(calculateTotals(draft));
   }, [draft]);
 
+  const saveDraft = (next: Draft) => {
+    setDraft(next);
+    try {
+      localStorage.setItem(DRAFT_KEY, JSON.stringify(next));
+    } catch {
+      // the code still applies for this visit
+    }
+  };
+
+  const handleApplyPromo = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const code = normalizePromoCodeText(promoInput);
+    const next = { ...draft, promoCode: code };
+    const result = calculateTotals(next).promo;
+    if (!result || result.error) {
+      setPromoError(result?.error || "Enter a promo code.");
+      return;
+    }
+    setPromoError(null);
+    setPromoInput("");
+    saveDraft(next);
+    trackEvent("promo_applied", { code, email: draft.customer?.email, amount: result.amount });
+  };
+
+  const handleRemovePromo = () => {
+    if (!draft) return;
+    setPromoError(null);
+    saveDraft({ ...draft, promoCode: undefined });
+  };
+
+  const handleJoinWaitlist = () => {
+    if (!draft || !waitlistWindow) return;
+    setError(null);
+    try {
+      joinWaitlistFromDraft(draft, waitlistWindow.from, waitlistWindow.to);
+      setWaitlistJoined(true);
+    } catch (err: any) {
+      setError(err?.message || "Could not join the waitlist.");
+    }
+  };
+
   const handleEdit = () => {
     try {
       navigate("/booking");
@@ -223,7 +517,7 @@ export default function SummaryPage(): JSX.Element {
     }
   };
 
-  const handleConfirm = async () => {
+  const handleConfirm = async (payment?: CheckoutPayment) => {
     setError(null);
     if (!draft) {
       setError("No booking to confirm.");
@@ -232,12 +526,17 @@ export default function SummaryPage(): JSX.Element {
 
     setLoading(true);
     try {
-      const result = await confirmBooking(draft);
+      const result = await confirmBooking(draft, hold && !holdExpired ? hold.id : undefined, payment);
+      setHold(null);
       setSuccessId(result.id);
       setDraft(null);
       setTotals(calculateTotals(null));
     } catch (err: any) {
       setError(err?.message || "Failed to confirm booking.");
+      if (err?.message === SLOT_TAKEN_MESSAGE) {
+        const time = draft.event?.time || "12:00";
+        setWaitlistWindow({ from: shiftTime(time, -WAITLIST_WINDOW_HOURS), to: shiftTime(time, WAITLIST_WINDOW_HOURS) });
+      }
     } finally {
       setLoading(false);
     }
@@ -313,29 +612,51 @@ export default function SummaryPage(): JSX.Element {
     );
   }, [draft, totals]);
 
+  // One row per tax rate; tax-inclusive prices show what the total already contains
   const taxRow = useMemo(() => {
-    if (!draft || typeof draft.taxPercent !== "number" || draft.taxPercent <= 0) return null;
-    const taxAmount = totals.taxTotal;
+    if (!draft || totals.taxes.length === 0) return null;
     return (
-      <div className="summary-row">
-        <div>Tax ({draft.taxPercent}%)</div>
-        <div>{currencyFormat(taxAmount, draft?.currency)}</div>
-      </div>
+      <>
+        {totals.taxes.map((t) => (
+          <div key={t.rateId} className="summary-row">
+            <div>
+              {totals.pricesIncludeTax ? "Includes " : ""}
+              {t.name} ({t.percent}%{t.compound ? ", compound" : ""})
+            </div>
+            <div>{currencyFormat(t.amount, draft?.currency)}</div>
+          </div>
+        ))}
+      </>
     );
   }, [draft, totals]);
 
-  const depositRow = useMemo(() => {
-    if (!draft?.deposit) return null;
-    // deposit amount is computed over taxedBase (post-discount) to match calculateTotals
-    const depositAmount = totals.depositAmount;
+  // When the total is paid; a single payment due today needs no schedule
+  const scheduleRows = useMemo(() => {
+    if (!draft || totals.paymentSchedule.length < 2) return null;
+    const today = new Date().toDateString();
     return (
-      <div className="summary-row">
-        <div>Deposit</div>
-        <div>{currencyFormat(depositAmount, draft?.currency)}</div>
-      </div>
+      <>
+        <div className="summary-row muted">
+          <div>Payment schedule</div>
+        </div>
+        {totals.paymentSchedule.map((i) => {
+          const due = new Date(i.dueAt);
+          return (
+            <div key={i.id} className="summary-row">
+              <div>
+                {i.label} due {due.toDateString() === today ? "today" : `by ${due.toLocaleDateString()}`}
+              </div>
+              <div>{currencyFormat(i.amount, draft?.currency)}</div>
+            </div>
+          );
+        })}
+      </>
     );
   }, [draft, totals]);
 
+  // Nothing due now books straight away; otherwise the payment step takes the deposit first
+  const dueNow = amountDueNow(totals);
+
   if (!draft) {
     return (
       <main className="page summary-page">
@@ -416,31 +737,144 @@ export default function SummaryPage(): JSX.Element {
             <div>{currencyFormat(totals.subtotal, draft?.currency)}</div>
           </div>
 
+          {totals.adjustments.map((a) => (
+            <div key={a.ruleId} className="summary-row">
+              <div>{a.label}</div>
+              <div>
+                {a.amount < 0 ? "-" : "+"}
+                {currencyFormat(Math.abs(a.amount), draft?.currency)}
+              </div>
+            </div>
+          ))}
+
           {discountRow}
 
-          {taxRow}
+          {totals.promo ? (
+            <div className="summary-row">
+              <div>
+                Promo {totals.promo.code}{" "}
+                <button type="button" className="btn-secondary" onClick={handleRemovePromo} aria-label="Remove promo code">
+                  Remove
+                </button>
+                {totals.promo.error ? <div className="muted">{totals.promo.error}</div> : null}
+              </div>
+              <div>-{currencyFormat(totals.promo.amount, draft?.currency)}</div>
+            </div>
+          ) : null}
 
-          {depositRow}
+          {taxRow}
 
           <div className="summary-row total">
             <div>
               <strong>Total</strong>
             </div>
             <div>
-              <strong>{currencyFormat(totals.grandTotal, draft?.currency)}</strong>
+              <strong>{currencyFormat(totals.totalDue, draft?.currency)}</strong>
             </div>
           </div>
+
+          {scheduleRows}
         </div>
 
+        {!totals.promo && !successId ? (
+          <form className="summary-section promo-form" onSubmit={handleApplyPromo} aria-label="Promo code">
+            <label htmlFor="promo-code">Promo code</label>
+            <div className="summary-row">
+              <input
+                id="promo-code"
+                value={promoInput}
+                onChange={(e) => {
+                  setPromoInput(e.target.value);
+                  setPromoError(null);
+                }}
+                autoComplete="off"
+                aria-invalid={!!promoError}
+                aria-describedby={promoError ? "promo-error" : undefined}
+              />
+              <button type="submit" className="btn-secondary" disabled={!promoInput.trim()}>
+                Apply
+              </button>
+            </div>
+            {promoError ? (
+              <div id="promo-error" role="alert" className="muted">
+                {promoError}
+              </div>
+            ) : null}
+          </form>
+        ) : null}
+
+        {hold && !successId ? (
+          <div role="status" className="notification">
+            {holdExpired
+              ? "Your hold on this time has expired. We will check it is still free when you confirm."
+              : `This time is held for you until ${new Date(hold.expiresAt).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}.`}
+          </div>
+        ) : null}
+
         {error ? (
           <div role="alert" className="notification error">
             {error}
           </div>
         ) : null}
 
+        {waitlistWindow && !waitlistJoined ? (
+          <div className="summary-section" aria-labelledby="waitlist-label">
+            <div id="waitlist-label" className="summary-section-title">
+              Join the waitlist
+            </div>
+            <p className="muted">
+              We will email you if a slot opens on {draft?.event?.date} and hold it for you for a limited time.
+            </p>
+            <div className="summary-row">
+              <label>
+                Start between{" "}
+                <input
+                  type="time"
+                  value={waitlistWindow.from}
+                  onChange={(e) => setWaitlistWindow({ ...waitlistWindow, from: e.target.value })}
+                />
+              </label>
+              <label>
+                and{" "}
+                <input
+                  type="time"
+                  value={waitlistWindow.to}
+                  onChange={(e) => setWaitlistWindow({ ...waitlistWindow, to: e.target.value })}
+                />
+              </label>
+            </div>
+            <div className="actions">
+              <button type="button" className="btn-secondary" onClick={handleJoinWaitlist}>
+                Join waitlist
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {waitlistJoined ? (
+          <div role="status" className="notification success">
+            You are on the waitlist. We will let you know as soon as a slot opens.
+          </div>
+        ) : null}
+
         {successId ? (
           <div role="status" className="notification success">
-            Booking confirmed ? ID: <strong>{successId}</strong>
+            Booking received ? ID: <strong>{successId}</strong>
+          </div>
+        ) : null}
+
+        {dueNow > 0 && !successId ? (
+          <div className="summary-section" aria-label="Payment">
+            <PaymentStep
+              bookingDraft={{
+                amount: dueNow,
+                summary: `${draft.package?.name ?? "Booking"} on ${draft.event?.date ?? ""}, ${currencyFormat(dueNow, draft.currency)} due now`,
+              }}
+              onSubmit={(result: CheckoutPayment) => handleConfirm(result)}
+            />
           </div>
         ) : null}
 
@@ -454,16 +888,18 @@ export default function SummaryPage(): JSX.Element {
           >
             Edit
           </button>
-          <button
-            type="button"
-            className="btn-primary"
-            onClick={handleConfirm}
-            disabled={loading}
-            aria-disabled={loading}
-            aria-busy={loading}
-          >
-            {loading ? "Confirming..." : "Confirm Booking"}
-          </button>
+          {dueNow <= 0 || proofFlow ? (
+            <button
+              type="button"
+              className={dueNow > 0 ? "btn-secondary" : "btn-primary"}
+              onClick={() => void handleConfirm()}
+              disabled={loading}
+              aria-disabled={loading}
+              aria-busy={loading}
+            >
+              {loading ? "Confirming..." : dueNow > 0 ? "Book now, send proof later" : "Confirm Booking"}
+            </button>
+          ) : null}
         </div>
       </section>
     </main>
@@ -0,0 +1,201 @@
+const TAX_SETTINGS_KEY = 'pb_tax_settings_v1';
+
+registerStorageKeys([TAX_SETTINGS_KEY]);
+
+/**
+ * A named tax. Stacked (non-compound) rates are all taken from the net amount; a compound rate
+ * is taken from the net amount plus every tax listed before it, in rate order.
+ */
+export interface TaxRate {
+  id: string;
+  name: string;
+  percent: number;
+  compound: boolean;
+}
+
+export interface TaxSettings {
+  /** Applied in this order, which matters for compound rates. */
+  rates: TaxRate[];
+  /** Listed prices already contain the tax; the breakdown extracts it instead of adding it. */
+  pricesIncludeTax: boolean;
+  /** Rates for anything without its own assignment. */
+  defaultRateIds: string[];
+  /** Per package id. An empty list means tax-exempt; a missing entry falls back to the defaults. */
+  packageRates: Record<string, string[]>;
+  /** Per add-on id, same rules as packageRates. */
+  addOnRates: Record<string, string[]>;
+  /** One-off service fees (draft extras). */
+  feeRateIds: string[] | null;
+}
+
+/** An amount and the rates that apply to it. */
+export interface TaxableLine {
+  amount: number;
+  rateIds: string[];
+}
+
+/** One row of the per-rate breakdown. */
+export interface TaxLine {
+  rateId: string;
+  name: string;
+  percent: number;
+  compound: boolean;
+  /** The amount this rate was taken from. */
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxResult {
+  /** Total before tax. */
+  net: number;
+  tax: number;
+  /** net + tax; equals the listed prices when they include tax. */
+  gross: number;
+  breakdown: TaxLine[];
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  rates: [],
+  pricesIncludeTax: false,
+  defaultRateIds: [],
+  packageRates: {},
+  addOnRates: {},
+  feeRateIds: null,
+};
+
+function generateId(): string {
+  return `tax_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function idList(raw: unknown, known: Set<string>): string[] {
+  return Array.isArray(raw) ? raw.filter((id): id is string => typeof id === 'string' && known.has(id)) : [];
+}
+
+function idMap(raw: unknown, known: Set<string>): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  if (!raw || typeof raw !== 'object') return out;
+  for (const [key, ids] of Object.entries(raw as Record<string, unknown>)) {
+    if (key && Array.isArray(ids)) out[key] = idList(ids, known);
+  }
+  return out;
+}
+
+function normalizeTaxSettings(raw: any): TaxSettings {
+  const src = raw && typeof raw === 'object' ? raw : {};
+  const rates: TaxRate[] = (Array.isArray(src.rates) ? src.rates : [])
+    .filter((r: any) => r && typeof r === 'object' && Number.isFinite(Number(r.percent)))
+    .map((r: any) => ({
+      id: typeof r.id === 'string' && r.id ? r.id : generateId(),
+      name: typeof r.name === 'string' && r.name.trim() ? r.name.trim() : 'Tax',
+      percent: Math.max(0, Math.min(100, Number(r.percent))),
+      compound: r.compound === true,
+    }));
+  const known = new Set(rates.map((r) => r.id));
+  return {
+    rates,
+    pricesIncludeTax: src.pricesIncludeTax === true,
+    defaultRateIds: idList(src.defaultRateIds, known),
+    packageRates: idMap(src.packageRates, known),
+    addOnRates: idMap(src.addOnRates, known),
+    feeRateIds: Array.isArray(src.feeRateIds) ? idList(src.feeRateIds, known) : null,
+  };
+}
+
+export function getTaxSettings(): TaxSettings {
+  return normalizeTaxSettings(getItem<TaxSettings>(TAX_SETTINGS_KEY));
+}
+
+export function saveTaxSettings(settings: TaxSettings): TaxSettings {
+  const normalized = normalizeTaxSettings(settings);
+  const before = getTaxSettings();
+  setItem(TAX_SETTINGS_KEY, normalized);
+  recordAudit({
+    action: 'settings.changed',
+    entityType: 'settings',
+    entityId: 'taxes',
+    summary: 'Tax settings changed',
+    before,
+    after: normalized,
+  });
+  return normalized;
+}
+
+export function createTaxRate(patch: Partial<TaxRate> = {}): TaxRate {
+  return { name: 'Tax', percent: 0, compound: false, ...patch, id: generateId() };
+}
+
+/**
+ * Rate ids for a priced item. Packages and add-ons use their own assignment when there is one;
+ * fees use feeRateIds when set; everything else falls back to the default rates.
+ */
+export function taxRatesFor(
+  kind: 'package' | 'addOn' | 'fee',
+  id?: string | null,
+  settings: TaxSettings = getTaxSettings()
+): string[] {
+  if (kind === 'package' && id && settings.packageRates[id]) return settings.packageRates[id];
+  if (kind === 'addOn' && id && settings.addOnRates[id]) return settings.addOnRates[id];
+  if (kind === 'fee' && settings.feeRateIds) return settings.feeRateIds;
+  return settings.defaultRateIds;
+}
+
+/**
+ * calculateTaxes(lines: TaxableLine[], settings?: TaxSettings): TaxResult
+ * Taxes each line with its rates (stacked, then compound in rate order) and sums them per rate.
+ * With pricesIncludeTax the line amounts are gross and the net is worked back out of them.
+ */
+export function calculateTaxes(lines: TaxableLine[], settings: TaxSettings = getTaxSettings()): TaxResult {
+  const byRate = new Map<string, TaxLine>();
+  let net = 0;
+  let gross = 0;
+
+  for (const line of lines) {
+    const amount = Math.max(0, Number(line.amount) || 0);
+    if (amount === 0) continue;
+    const rates = settings.rates.filter((r) => line.rateIds.includes(r.id));
+    const stacked = rates.filter((r) => !r.compound);
+    const compound = rates.filter((r) => r.compound);
+
+    // Gross = net x (1 + sum of stacked) x product of (1 + each compound)
+    const multiplier =
+      (1 + stacked.reduce((sum, r) => sum + r.percent / 100, 0)) *
+      compound.reduce((product, r) => product * (1 + r.percent / 100), 1);
+    const lineNet = settings.pricesIncludeTax ? amount / multiplier : amount;
+
+    let running = lineNet;
+    const add = (rate: TaxRate, base: number) => {
+      const tax = (base * rate.percent) / 100;
+      const entry = byRate.get(rate.id) ?? {
+        rateId: rate.id,
+        name: rate.name,
+        percent: rate.percent,
+        compound: rate.compound,
+        taxableAmount: 0,
+        amount: 0,
+      };
+      entry.taxableAmount += base;
+      entry.amount += tax;
+      byRate.set(rate.id, entry);
+      return tax;
+    };
+    for (const rate of stacked) running += add(rate, lineNet);
+    for (const rate of compound) running += add(rate, running);
+
+    net += lineNet;
+    gross += settings.pricesIncludeTax ? amount : running;
+  }
+
+  const breakdown = settings.rates
+    .map((r) => byRate.get(r.id))
+    .filter((t): t is TaxLine => !!t)
+    .map((t) => ({ ...t, taxableAmount: round2(t.taxableAmount), amount: round2(t.amount) }));
+  const tax = round2(breakdown.reduce((sum, t) => sum + t.amount, 0));
+  // Inclusive: the gross is what was listed, so the rounding lands in the net
+  return settings.pricesIncludeTax
+    ? { net: round2(gross - tax), tax, gross: round2(gross), breakdown }
+    : { net: round2(net), tax, gross: round2(net + tax), breakdown };
+}
@@ -0,0 +1,310 @@
+const sectionStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  background: "var(--card-bg,#fff)",
+  padding: "1rem",
+  borderRadius: 8,
+  boxShadow: "0 1px 2px rgba(0,0,0,0.04)",
+};
+
+const fieldStyle: React.CSSProperties = { display: "grid", gap: 4, fontSize: 13 };
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+};
+
+function RateChecklist({
+  rates,
+  selected,
+  onChange,
+  label,
+}: {
+  rates: TaxRate[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  label: string;
+}): JSX.Element {
+  if (rates.length === 0) return <span style={{ fontSize: 13, color: "var(--muted,#666)" }}>No rates yet</span>;
+  return (
+    <span role="group" aria-label={label} style={{ display: "flex", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+      {rates.map((rate) => (
+        <label key={rate.id}>
+          <input
+            type="checkbox"
+            checked={selected.includes(rate.id)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? rates.filter((r) => r.id === rate.id || selected.includes(r.id)).map((r) => r.id)
+                  : selected.filter((id) => id !== rate.id)
+              )
+            }
+          />{" "}
+          {rate.name || "Unnamed"}
+        </label>
+      ))}
+    </span>
+  );
+}
+
+/* Editable list of per-item overrides (package or add-on id to rate ids) */
+function OverrideList({
+  title,
+  placeholder,
+  rates,
+  overrides,
+  onChange,
+}: {
+  title: string;
+  placeholder: string;
+  rates: TaxRate[];
+  overrides: Record<string, string[]>;
+  onChange: (overrides: Record<string, string[]>) => void;
+}): JSX.Element {
+  const [newId, setNewId] = useState("");
+  return (
+    <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 8 }}>
+      <legend style={{ fontSize: 13, fontWeight: 600 }}>{title}</legend>
+      {Object.keys(overrides).length === 0 && (
+        <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>Everything uses the default rates.</div>
+      )}
+      {Object.entries(overrides).map(([id, ids]) => (
+        <div key={id} style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+          <strong style={{ fontSize: 13, minWidth: 100 }}>{id}</strong>
+          <RateChecklist rates={rates} selected={ids} onChange={(next) => onChange({ ...overrides, [id]: next })} label={`Rates for ${id}`} />
+          {ids.length === 0 && <span style={{ fontSize: 12, color: "var(--muted,#666)" }}>(tax-exempt)</span>}
+          <button
+            type="button"
+            onClick={() => {
+              const next = { ...overrides };
+              delete next[id];
+              onChange(next);
+            }}
+            aria-label={`Remove override for ${id}`}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 8 }}>
+        <input value={newId} onChange={(e) => setNewId(e.target.value)} placeholder={placeholder} aria-label={placeholder} style={inputStyle} />
+        <button
+          type="button"
+          onClick={() => {
+            const id = newId.trim();
+            if (!id || overrides[id]) return;
+            onChange({ ...overrides, [id]: [] });
+            setNewId("");
+          }}
+        >
+          Add override
+        </button>
+      </div>
+    </fieldset>
+  );
+}
+
+/**
+ * Settings section for named tax rates: stacked or compound, tax-inclusive or exclusive prices,
+ * and which rates apply to each package, add-on and service fee. When nothing has been set up yet
+ * the single tax percent from the payment settings is offered as the first rate.
+ */
+export default function TaxSettingsSection({ legacyTaxPercent = 0 }: { legacyTaxPercent?: number }): JSX.Element {
+  const [settings, setSettings] = useState<TaxSettings>(() => {
+    const stored = getTaxSettings();
+    if (stored.rates.length || !(legacyTaxPercent > 0)) return stored;
+    const rate = createTaxRate({ name: "Tax", percent: legacyTaxPercent });
+    return { ...stored, rates: [rate], defaultRateIds: [rate.id] };
+  });
+  const [message, setMessage] = useState<string | null>(null);
+
+  function update(patch: Partial<TaxSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+    setMessage(null);
+  }
+
+  function updateRate(id: string, patch: Partial<TaxRate>) {
+    update({ rates: settings.rates.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+  }
+
+  function moveRate(index: number, delta: number) {
+    const rates = settings.rates.slice();
+    const [rate] = rates.splice(index, 1);
+    rates.splice(Math.max(0, Math.min(rates.length, index + delta)), 0, rate);
+    update({ rates });
+  }
+
+  function removeRate(id: string) {
+    const strip = (ids: string[]) => ids.filter((x) => x !== id);
+    const stripMap = (map: Record<string, string[]>) =>
+      Object.fromEntries(Object.entries(map).map(([key, ids]) => [key, strip(ids)]));
+    update({
+      rates: settings.rates.filter((r) => r.id !== id),
+      defaultRateIds: strip(settings.defaultRateIds),
+      packageRates: stripMap(settings.packageRates),
+      addOnRates: stripMap(settings.addOnRates),
+      feeRateIds: settings.feeRateIds ? strip(settings.feeRateIds) : null,
+    });
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSettings(saveTaxSettings(settings));
+      setMessage("Tax settings saved.");
+    } catch {
+      setMessage("Failed to save tax settings.");
+    }
+  }
+
+  return (
+    <section aria-labelledby="tax-heading" style={sectionStyle}>
+      <h2 id="tax-heading" style={{ margin: 0, fontSize: "1.125rem" }}>
+        Taxes
+      </h2>
+      <p style={{ margin: "4px 0 12px", fontSize: 13, color: "var(--muted,#555)" }}>
+        Stacked rates are taken from the price before tax; compound rates also tax the rates listed above them.
+      </p>
+
+      <form onSubmit={handleSave} style={{ display: "grid", gap: 12 }}>
+        <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+          <input
+            type="checkbox"
+            checked={settings.pricesIncludeTax}
+            onChange={(e) => update({ pricesIncludeTax: e.target.checked })}
+          />
+          Listed prices include tax
+        </label>
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 8 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Rates</legend>
+          {settings.rates.length === 0 && (
+            <div style={{ fontSize: 13, color: "var(--muted,#666)" }}>No tax rates; bookings are not taxed.</div>
+          )}
+          {settings.rates.map((rate, index) => (
+            <div key={rate.id} style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+              <label style={fieldStyle}>
+                Name
+                <input value={rate.name} onChange={(e) => updateRate(rate.id, { name: e.target.value })} style={inputStyle} />
+              </label>
+              <label style={fieldStyle}>
+                Percent
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.001"
+                  value={rate.percent}
+                  onChange={(e) => updateRate(rate.id, { percent: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+                  style={{ ...inputStyle, width: 90 }}
+                />
+              </label>
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                <input type="checkbox" checked={rate.compound} onChange={(e) => updateRate(rate.id, { compound: e.target.checked })} />
+                Compound
+              </label>
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={settings.defaultRateIds.includes(rate.id)}
+                  onChange={(e) =>
+                    update({
+                      defaultRateIds: e.target.checked
+                        ? settings.rates.filter((r) => r.id === rate.id || settings.defaultRateIds.includes(r.id)).map((r) => r.id)
+                        : settings.defaultRateIds.filter((id) => id !== rate.id),
+                    })
+                  }
+                />
+                Default
+              </label>
+              <button type="button" onClick={() => moveRate(index, -1)} disabled={index === 0} aria-label={`Move ${rate.name} up`}>
+                Up
+              </button>
+              <button
+                type="button"
+                onClick={() => moveRate(index, 1)}
+                disabled={index === settings.rates.length - 1}
+                aria-label={`Move ${rate.name} down`}
+              >
+                Down
+              </button>
+              <button type="button" onClick={() => removeRate(rate.id)} aria-label={`Remove ${rate.name}`}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <div>
+            <button type="button" onClick={() => update({ rates: settings.rates.concat(createTaxRate()) })}>
+              Add rate
+            </button>
+          </div>
+        </fieldset>
+
+        <OverrideList
+          title="Per-package rates"
+          placeholder="Package id, e.g. premium"
+          rates={settings.rates}
+          overrides={settings.packageRates}
+          onChange={(packageRates) => update({ packageRates })}
+        />
+        <OverrideList
+          title="Per-add-on rates"
+          placeholder="Add-on id, e.g. props"
+          rates={settings.rates}
+          overrides={settings.addOnRates}
+          onChange={(addOnRates) => update({ addOnRates })}
+        />
+
+        <fieldset style={{ border: "1px solid #eee", borderRadius: 6, padding: 12, display: "grid", gap: 8 }}>
+          <legend style={{ fontSize: 13, fontWeight: 600 }}>Service fees</legend>
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={settings.feeRateIds === null}
+              onChange={(e) => update({ feeRateIds: e.target.checked ? null : [] })}
+            />
+            Use the default rates
+          </label>
+          {settings.feeRateIds !== null && (
+            <RateChecklist
+              rates={settings.rates}
+              selected={settings.feeRateIds}
+              onChange={(feeRateIds) => update({ feeRateIds })}
+              label="Rates for service fees"
+            />
+          )}
+        </fieldset>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <button
+            type="submit"
+            style={{
+              fontSize: 13,
+              padding: "8px 12px",
+              background: "var(--primary,#007bff)",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            Save taxes
+          </button>
+          {message && (
+            <span
+              role="status"
+              aria-live="polite"
+              style={{
+                fontSize: 13,
+                color: message.includes("Failed") ? "var(--danger,#b00020)" : "var(--success,#006400)",
+              }}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
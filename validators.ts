@@ -367,6 +367,13 @@ export function validateBookingDraft(draft: any): string[] {
     errors.push('Please specify a duration for the booking.');
   }
 
+  // Business hours, holidays and blackout dates (businesshoursservice.ts)
+  if (startDate) {
+    const minutes = isPositiveInteger(durationVal) ? Number(durationVal) : 0;
+    const closedReason = getClosureReason(startDate.getTime(), startDate.getTime() + minutes * 60000);
+    if (closedReason) errors.push(`${closedReason}. Please choose another time.`);
+  }
+
   // Guests
   const guestsVal = (d.guests ?? d.guestCount) as unknown;
   if (guestsVal !== undefined && guestsVal !== null && guestsVal !== '') {
@@ -0,0 +1,174 @@
+const WAITLIST_STATUS_COLORS: Record<WaitlistStatus, { background: string; color: string }> = {
+  waiting: { background: "#fffbeb", color: "#92400e" },
+  offered: { background: "#eff6ff", color: "#1d4ed8" },
+  accepted: { background: "#ecfdf5", color: "#065f46" },
+  declined: { background: "#f3f4f6", color: "#4b5563" },
+  expired: { background: "#f3f4f6", color: "#4b5563" },
+  removed: { background: "#fff1f2", color: "#9f1239" },
+};
+
+function formatWindow(entry: WaitlistEntry): string {
+  const from = new Date(entry.windowStart);
+  const to = new Date(entry.windowEnd);
+  const time = (d: Date) => d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return from.toDateString() === to.toDateString()
+    ? `${from.toLocaleDateString()} ${time(from)} - ${time(to)}`
+    : `${from.toLocaleString()} - ${to.toLocaleString()}`;
+}
+
+/**
+ * Admin view of the waitlist: open entries first (in queue order), then closed ones.
+ * Lapsed offers are expired and re-offered whenever the panel mounts.
+ */
+export default function WaitlistPanel(): JSX.Element {
+  const [entries, setEntries] = useState<WaitlistEntry[]>(() => getWaitlist());
+  const [showClosed, setShowClosed] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setEntries(getWaitlist());
+    const unsubscribe = subscribeToWaitlist(refresh);
+    processWaitlist()
+      .then(refresh)
+      .catch((e) => console.error("Failed to process the waitlist", e));
+    return unsubscribe;
+  }, []);
+
+  const open = entries.filter((e) => e.status === "waiting" || e.status === "offered");
+  const visible = showClosed ? open.concat(entries.filter((e) => !open.includes(e))) : open;
+
+  async function handleOffer(entry: WaitlistEntry) {
+    setBusyId(entry.id);
+    setError(null);
+    setMessage(null);
+    try {
+      requireStaffPermission("bookings.edit");
+      const offered = await offerWaitlistEntry(entry.id);
+      setMessage(
+        offered?.offer
+          ? `Offered ${new Date(offered.offer.start).toLocaleString()} to ${entry.customer.name || entry.customer.email}.`
+          : `No free slot in ${entry.customer.name || entry.customer.email}'s window yet.`
+      );
+    } catch (err: any) {
+      setError(err?.message || "Could not offer a slot.");
+    } finally {
+      setBusyId(null);
+      setEntries(getWaitlist());
+    }
+  }
+
+  function handleRemove(entry: WaitlistEntry) {
+    if (!confirm(`Remove ${entry.customer.name || entry.customer.email} from the waitlist?`)) return;
+    setError(null);
+    setMessage(null);
+    try {
+      requireStaffPermission("bookings.edit");
+      removeWaitlistEntry(entry.id);
+    } catch (err: any) {
+      setError(err?.message || "Could not remove the entry.");
+    }
+    setEntries(getWaitlist());
+  }
+
+  return (
+    <section aria-labelledby="waitlist-heading" style={{ marginBottom: 24 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 12 }}>
+        <h2 id="waitlist-heading" style={{ margin: "0 0 8px 0", fontSize: 16 }}>
+          Waitlist ({open.length})
+        </h2>
+        <label style={{ fontSize: 13, color: "#374151" }}>
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} /> Show closed
+        </label>
+      </div>
+
+      {error && (
+        <div role="alert" style={{ marginBottom: 8, color: "#b91c1c", fontSize: 14 }}>
+          {error}
+        </div>
+      )}
+      {message && (
+        <div role="status" aria-live="polite" style={{ marginBottom: 8, color: "#065f46", fontSize: 14 }}>
+          {message}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div
+          role="status"
+          style={{ padding: 20, borderRadius: 8, border: "1px dashed #e5e7eb", color: "#6b7280" }}
+        >
+          Nobody is waiting for a slot.
+        </div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ textAlign: "left", color: "#6b7280" }}>
+              <th style={{ padding: "6px 8px" }}>Customer</th>
+              <th style={{ padding: "6px 8px" }}>Window</th>
+              <th style={{ padding: "6px 8px" }}>Length</th>
+              <th style={{ padding: "6px 8px" }}>Status</th>
+              <th style={{ padding: "6px 8px" }}>Offer</th>
+              <th style={{ padding: "6px 8px" }} aria-label="Actions" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((entry) => {
+              const colors = WAITLIST_STATUS_COLORS[entry.status];
+              return (
+                <tr key={entry.id} style={{ borderTop: "1px solid #e6edf3" }}>
+                  <td style={{ padding: "6px 8px" }}>
+                    <div style={{ fontWeight: 600 }}>{entry.customer.name || entry.customer.email}</div>
+                    <div style={{ color: "#6b7280" }}>
+                      {entry.customer.email}
+                      {entry.packageName ? ` - ${entry.packageName}` : ""}
+                    </div>
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>{formatWindow(entry)}</td>
+                  <td style={{ padding: "6px 8px" }}>{entry.durationMinutes} min</td>
+                  <td style={{ padding: "6px 8px" }}>
+                    <span style={{ padding: "2px 8px", borderRadius: 999, fontSize: 12, ...colors }}>{entry.status}</span>
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>
+                    {entry.offer && entry.status === "offered" ? (
+                      <>
+                        <div>{new Date(entry.offer.start).toLocaleString()}</div>
+                        <div style={{ color: "#6b7280" }}>held until {new Date(entry.offer.expiresAt).toLocaleString()}</div>
+                      </>
+                    ) : entry.status === "accepted" && entry.bookingId ? (
+                      <span style={{ color: "#6b7280" }}>Booking {entry.bookingId}</span>
+                    ) : null}
+                  </td>
+                  <td style={{ padding: "6px 8px", textAlign: "right", whiteSpace: "nowrap" }}>
+                    {entry.status === "waiting" && (
+                      <button
+                        type="button"
+                        onClick={() => handleOffer(entry)}
+                        disabled={busyId === entry.id}
+                        aria-label={`Offer a slot to ${entry.customer.name || entry.customer.email}`}
+                        style={{ marginRight: 6 }}
+                      >
+                        {busyId === entry.id ? "Offering..." : "Offer now"}
+                      </button>
+                    )}
+                    {(entry.status === "waiting" || entry.status === "offered") && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(entry)}
+                        aria-label={`Remove ${entry.customer.name || entry.customer.email} from the waitlist`}
+                        style={{ color: "#dc2626" }}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
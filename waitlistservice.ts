@@ -0,0 +1,406 @@
+const WAITLIST_KEY = 'pb_waitlist_v1';
+const WAITLIST_CHANGE_EVENT = 'pb:waitlist-changed';
+
+registerStorageKeys([WAITLIST_KEY]);
+
+/**
+ * waiting: in the queue. offered: a freed slot is held for the customer until offer.expiresAt.
+ * accepted: the offer became a booking. declined / expired / removed: out of the queue.
+ */
+export type WaitlistStatus = 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'removed';
+
+export interface WaitlistOffer {
+  start: string;
+  end: string;
+  offeredAt: string;
+  expiresAt: string;
+  /** The cancelled booking that freed the slot, when the offer came from a cancellation. */
+  sourceBookingId?: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  customer: BookingCustomer;
+  packageId: string | null;
+  packageName?: string | null;
+  location: string | null;
+  durationMinutes: number;
+  /** Earliest and latest acceptable start time. */
+  windowStart: string;
+  windowEnd: string;
+  notes?: string | null;
+  status: WaitlistStatus;
+  offer?: WaitlistOffer | null;
+  /** Booking created when the offer was accepted. */
+  bookingId?: string;
+}
+
+export interface WaitlistRequest {
+  customer: BookingCustomer;
+  packageId?: string | null;
+  packageName?: string | null;
+  location?: string | null;
+  durationMinutes: number;
+  windowStart: Date | string;
+  windowEnd: Date | string;
+  notes?: string | null;
+}
+
+/** A slot that just became free, e.g. because a booking was cancelled. */
+export interface FreedSlot {
+  start: string;
+  end: string;
+  bookingId?: string;
+}
+
+const WAITLIST_STATUSES: readonly WaitlistStatus[] = ['waiting', 'offered', 'accepted', 'declined', 'expired', 'removed'];
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function generateId(): string {
+  return 'wl_' + Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+}
+
+function isoOrNull(value: unknown): string | null {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const d = new Date(value as any);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function normalizeEntry(raw: any): WaitlistEntry | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string') return null;
+  const windowStart = isoOrNull(raw.windowStart);
+  const windowEnd = isoOrNull(raw.windowEnd);
+  const email = typeof raw.customer?.email === 'string' ? raw.customer.email.trim() : '';
+  if (!windowStart || !windowEnd || !email) return null;
+  const offer = raw.offer && typeof raw.offer === 'object' ? raw.offer : null;
+  const offerStart = offer ? isoOrNull(offer.start) : null;
+  const offerEnd = offer ? isoOrNull(offer.end) : null;
+  const expiresAt = offer ? isoOrNull(offer.expiresAt) : null;
+  const createdAt = isoOrNull(raw.createdAt) ?? nowIso();
+  return {
+    id: raw.id,
+    createdAt,
+    updatedAt: isoOrNull(raw.updatedAt) ?? createdAt,
+    customer: {
+      name: typeof raw.customer.name === 'string' ? raw.customer.name : '',
+      email,
+      ...(typeof raw.customer.phone === 'string' && raw.customer.phone ? { phone: raw.customer.phone } : {}),
+    },
+    packageId: typeof raw.packageId === 'string' && raw.packageId ? raw.packageId : null,
+    packageName: typeof raw.packageName === 'string' ? raw.packageName : null,
+    location: typeof raw.location === 'string' && raw.location ? raw.location : null,
+    durationMinutes: Number(raw.durationMinutes) > 0 ? Math.round(Number(raw.durationMinutes)) : 60,
+    windowStart,
+    windowEnd,
+    notes: typeof raw.notes === 'string' ? raw.notes : null,
+    status: WAITLIST_STATUSES.includes(raw.status) ? raw.status : 'waiting',
+    offer:
+      offerStart && offerEnd && expiresAt
+        ? {
+            start: offerStart,
+            end: offerEnd,
+            offeredAt: isoOrNull(offer.offeredAt) ?? createdAt,
+            expiresAt,
+            ...(typeof offer.sourceBookingId === 'string' ? { sourceBookingId: offer.sourceBookingId } : {}),
+          }
+        : null,
+    ...(typeof raw.bookingId === 'string' ? { bookingId: raw.bookingId } : {}),
+  };
+}
+
+/**
+ * Every waitlist entry, oldest first (queue order).
+ */
+export function getWaitlist(): WaitlistEntry[] {
+  const raw = getItem<unknown[]>(WAITLIST_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeEntry)
+    .filter((e): e is WaitlistEntry => e !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function saveWaitlist(entries: WaitlistEntry[]): void {
+  setItem(WAITLIST_KEY, entries);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(WAITLIST_CHANGE_EVENT));
+  } catch {
+    // ignore environments without CustomEvent
+  }
+}
+
+function updateEntry(id: string, patch: Partial<WaitlistEntry>): WaitlistEntry {
+  const entries = getWaitlist();
+  const idx = entries.findIndex((e) => e.id === id);
+  if (idx === -1) throw new Error('Waitlist entry not found');
+  entries[idx] = { ...entries[idx], ...patch, id, updatedAt: nowIso() };
+  saveWaitlist(entries);
+  return entries[idx];
+}
+
+export function findWaitlistByEmail(email: string): WaitlistEntry[] {
+  const q = (email || '').trim().toLowerCase();
+  if (!q) return [];
+  return getWaitlist().filter((e) => e.customer.email.toLowerCase() === q);
+}
+
+/** True while the offer still holds its slot. */
+export function isOfferActive(entry: WaitlistEntry, now: number = Date.now()): boolean {
+  return entry.status === 'offered' && !!entry.offer && new Date(entry.offer.expiresAt).getTime() > now;
+}
+
+/**
+ * joinWaitlist(request: WaitlistRequest): WaitlistEntry
+ * Queue a customer for any start time between windowStart and windowEnd.
+ */
+export function joinWaitlist(request: WaitlistRequest): WaitlistEntry {
+  const email = (request.customer?.email || '').trim();
+  if (!email) throw new Error('An email address is required to join the waitlist');
+  const windowStart = isoOrNull(request.windowStart);
+  const windowEnd = isoOrNull(request.windowEnd);
+  if (!windowStart || !windowEnd) throw new Error('Invalid waitlist window');
+  if (windowEnd < windowStart) throw new Error('The window must end after it starts');
+  if (new Date(windowEnd).getTime() < Date.now()) throw new Error('The window is already in the past');
+  if (!(request.durationMinutes > 0)) throw new Error('durationMinutes must be a positive number');
+
+  const entries = getWaitlist();
+  const duplicate = entries.find(
+    (e) =>
+      (e.status === 'waiting' || e.status === 'offered') &&
+      e.customer.email.toLowerCase() === email.toLowerCase() &&
+      e.windowStart === windowStart &&
+      e.windowEnd === windowEnd
+  );
+  if (duplicate) return duplicate;
+
+  const ts = nowIso();
+  const entry: WaitlistEntry = {
+    id: generateId(),
+    createdAt: ts,
+    updatedAt: ts,
+    customer: { name: request.customer.name || '', email, ...(request.customer.phone ? { phone: request.customer.phone } : {}) },
+    packageId: request.packageId ?? null,
+    packageName: request.packageName ?? null,
+    location: request.location ?? null,
+    durationMinutes: Math.round(request.durationMinutes),
+    windowStart,
+    windowEnd,
+    notes: request.notes ?? null,
+    status: 'waiting',
+    offer: null,
+  };
+  saveWaitlist(entries.concat(entry));
+  return entry;
+}
+
+export function removeWaitlistEntry(id: string): void {
+  const entry = getWaitlist().find((e) => e.id === id);
+  updateEntry(id, { status: 'removed' });
+  recordAudit({
+    action: 'waitlist.removed',
+    entityType: 'waitlist',
+    entityId: id,
+    summary: `${entry?.customer.name || entry?.customer.email || 'Entry'} removed from the waitlist`,
+    before: entry ? { status: entry.status } : null,
+    after: { status: 'removed' },
+  });
+}
+
+/**
+ * Slots held by open offers, shaped as bookings so the availability engine treats them as taken.
+ * `excludeEntryId` leaves out the hold of the customer who is accepting it.
+ */
+export function getWaitlistHoldBookings(excludeEntryId?: string): Booking[] {
+  const now = Date.now();
+  return getWaitlist()
+    .filter((e) => e.id !== excludeEntryId && isOfferActive(e, now))
+    .map((e) => ({
+      id: `waitlist:${e.id}`,
+      reference: '',
+      createdAt: e.offer!.offeredAt,
+      updatedAt: e.offer!.offeredAt,
+      start: e.offer!.start,
+      end: e.offer!.end,
+      durationMinutes: e.durationMinutes,
+      packageId: e.packageId,
+      customer: null,
+      status: 'booked' as BookingStatus,
+      statusHistory: [],
+      price: null,
+      notes: null,
+      location: e.location,
+    }));
+}
+
+async function notifyOffer(entry: WaitlistEntry): Promise<void> {
+  if (!entry.offer) return;
+  const start = new Date(entry.offer.start);
+  const expires = new Date(entry.offer.expiresAt);
+  try {
+    await sendNotification(null, {
+      templateKey: 'waitlistOffer',
+      title: 'A photobooth slot opened up',
+      message: `${start.toLocaleString()} is now available and held for you until ${expires.toLocaleString()}. Accept it from your dashboard.`,
+      waitlistId: entry.id,
+      name: entry.customer.name,
+      email: entry.customer.email,
+      phone: entry.customer.phone ?? '',
+      date: start.toLocaleDateString(),
+      time: start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      expiresAt: entry.offer.expiresAt,
+    });
+  } catch (e) {
+    console.error('Failed to send waitlist offer', e);
+  }
+}
+
+/* Find a free slot for the entry, nearest to `near`, and hold it for the configured time */
+async function makeOffer(entry: WaitlistEntry, near?: string, sourceBookingId?: string): Promise<WaitlistEntry | null> {
+  const windowEnd = new Date(entry.windowEnd).getTime();
+  const [slot] = await findAvailableSlots(
+    { from: entry.windowStart, to: new Date(windowEnd + entry.durationMinutes * 60000) },
+    entry.durationMinutes,
+    entry.packageId,
+    { location: entry.location, near: near ?? entry.windowStart, limit: 1 }
+  );
+  if (!slot || new Date(slot.start).getTime() > windowEnd) return null;
+
+  const now = Date.now();
+  const holdMs = getSchedulingSettings().waitlistHoldHours * 60 * 60000;
+  // A hold never outlives the slot itself
+  const expiresAt = new Date(Math.min(now + holdMs, new Date(slot.start).getTime())).toISOString();
+  const offered = updateEntry(entry.id, {
+    status: 'offered',
+    offer: {
+      start: slot.start,
+      end: slot.end,
+      offeredAt: new Date(now).toISOString(),
+      expiresAt,
+      ...(sourceBookingId ? { sourceBookingId } : {}),
+    },
+  });
+  await notifyOffer(offered);
+  return offered;
+}
+
+function windowOverlaps(entry: WaitlistEntry, slot: FreedSlot): boolean {
+  const from = new Date(entry.windowStart).getTime();
+  const to = new Date(entry.windowEnd).getTime() + entry.durationMinutes * 60000;
+  return new Date(slot.start).getTime() < to && new Date(slot.end).getTime() > from;
+}
+
+/**
+ * processWaitlist(freed?: FreedSlot): Promise<WaitlistEntry[]>
+ * Expires lapsed offers, then offers each freed slot (the given one and any released by an
+ * expired or declined offer) to the first waiting customer, in queue order, whose window it
+ * fits. Returns the entries that received an offer.
+ */
+export async function processWaitlist(freed?: FreedSlot): Promise<WaitlistEntry[]> {
+  const now = Date.now();
+  const slots: FreedSlot[] = freed ? [freed] : [];
+  for (const entry of getWaitlist()) {
+    if (entry.status === 'offered' && !isOfferActive(entry, now)) {
+      updateEntry(entry.id, { status: 'expired' });
+      if (entry.offer) slots.push({ start: entry.offer.start, end: entry.offer.end });
+    } else if (entry.status === 'waiting' && new Date(entry.windowEnd).getTime() < now) {
+      updateEntry(entry.id, { status: 'expired' });
+    }
+  }
+
+  const offered: WaitlistEntry[] = [];
+  for (const slot of slots) {
+    const queue = getWaitlist().filter((e) => e.status === 'waiting' && windowOverlaps(e, slot));
+    for (const entry of queue) {
+      const result = await makeOffer(entry, slot.start, slot.bookingId);
+      if (result) {
+        offered.push(result);
+        break;
+      }
+    }
+  }
+  return offered;
+}
+
+/**
+ * offerWaitlistEntry(id: string): Promise<WaitlistEntry | null>
+ * Offer the nearest free slot in the entry's window right away (admin action), or null when none is free.
+ */
+export async function offerWaitlistEntry(id: string): Promise<WaitlistEntry | null> {
+  const entry = getWaitlist().find((e) => e.id === id);
+  if (!entry) throw new Error('Waitlist entry not found');
+  if (entry.status !== 'waiting') throw new Error(`A ${entry.status} entry cannot be offered a slot`);
+  const offered = await makeOffer(entry);
+  if (offered?.offer) {
+    recordAudit({
+      action: 'waitlist.offered',
+      entityType: 'waitlist',
+      entityId: id,
+      summary: `Slot ${offered.offer.start} offered to ${entry.customer.name || entry.customer.email}`,
+      before: { status: entry.status },
+      after: { status: offered.status, offer: offered.offer },
+    });
+  }
+  return offered;
+}
+
+/**
+ * acceptWaitlistOffer(id: string): Promise<{ id: string }>
+ * Turns a held offer into a booking; the customer's own hold is left out of the availability check.
+ */
+export async function acceptWaitlistOffer(id: string): Promise<{ id: string }> {
+  const entry = getWaitlist().find((e) => e.id === id);
+  if (!entry || entry.status !== 'offered' || !entry.offer) throw new Error('There is no open offer for this entry');
+  if (!isOfferActive(entry)) throw new Error('This offer has expired');
+
+  const booking = await createBooking({
+    start: entry.offer.start,
+    end: entry.offer.end,
+    packageId: entry.packageId,
+    packageName: entry.packageName ?? null,
+    customer: entry.customer,
+    location: entry.location,
+    notes: entry.notes ?? undefined,
+    status: 'booked',
+    statusReason: 'Accepted waitlist offer',
+    holdId: entry.id,
+  });
+  updateEntry(id, { status: 'accepted', bookingId: booking.id });
+  return booking;
+}
+
+/**
+ * declineWaitlistOffer(id: string): Promise<void>
+ * Releases the held slot and offers it to the next customer in line.
+ */
+export async function declineWaitlistOffer(id: string): Promise<void> {
+  const entry = getWaitlist().find((e) => e.id === id);
+  if (!entry || entry.status !== 'offered' || !entry.offer) throw new Error('There is no open offer for this entry');
+  updateEntry(id, { status: 'declined' });
+  await processWaitlist({ start: entry.offer.start, end: entry.offer.end });
+}
+
+/**
+ * Subscribe to waitlist changes from this tab and other tabs. Returns an unsubscribe function.
+ */
+export function subscribeToWaitlist(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key === WAITLIST_KEY) listener();
+  };
+  window.addEventListener('storage', onStorage);
+  window.addEventListener(WAITLIST_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    window.removeEventListener(WAITLIST_CHANGE_EVENT, listener);
+  };
+}
+
+// A cancelled booking frees its slot for the waitlist
+registerTransitionHook('cancelled', async (booking) => {
+  await processWaitlist({ start: booking.start, end: booking.end, bookingId: booking.id });
+});